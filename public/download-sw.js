@@ -0,0 +1,66 @@
+// File: public/download-sw.js - Service worker that turns page-fed chunk streams into file downloads
+
+// Downloads registered by the page, served once from /stream-download/<id>
+const downloads = new Map();
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', event => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', event => {
+	const { type, id, fileName, size } = event.data || {};
+	const port = event.ports[0];
+	if (type !== 'register-download' || !id || !port) {
+		return;
+	}
+
+	// Page writes wait for a 'pull' so at most one chunk is queued here
+	const stream = new ReadableStream(
+		{
+			start(controller) {
+				port.onmessage = ({ data }) => {
+					if (data.type === 'chunk') {
+						controller.enqueue(new Uint8Array(data.chunk));
+					} else if (data.type === 'close') {
+						controller.close();
+						downloads.delete(id);
+					} else if (data.type === 'abort') {
+						controller.error(new Error(data.reason || 'Download aborted'));
+						downloads.delete(id);
+					}
+				};
+			},
+			pull() {
+				port.postMessage({ type: 'pull' });
+			},
+			cancel() {
+				port.postMessage({ type: 'cancel' });
+				downloads.delete(id);
+			}
+		},
+		{ highWaterMark: 1 }
+	);
+
+	downloads.set(id, { stream, fileName, size });
+	port.postMessage({
+		type: 'ready',
+		url: new URL(`stream-download/${id}`, self.registration.scope).href
+	});
+});
+
+self.addEventListener('fetch', event => {
+	const match = new URL(event.request.url).pathname.match(/\/stream-download\/([\w-]+)$/);
+	const download = match && downloads.get(match[1]);
+	if (!download) {
+		return;
+	}
+
+	const headers = {
+		'Content-Type': 'application/octet-stream',
+		'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(download.fileName)}`
+	};
+	if (download.size) {
+		headers['Content-Length'] = String(download.size);
+	}
+
+	event.respondWith(new Response(download.stream, { headers }));
+});
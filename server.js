@@ -18,6 +18,8 @@ require('dotenv').config();
 // Import route modules
 const { router: authRoutes } = require('./src/routes/auth');
 const { router: storageRoutes } = require('./src/routes/storage');
+const { router: shareRoutes } = require('./src/routes/shares');
+const { router: sharedFolderRoutes } = require('./src/routes/sharedFolders');
 const SecureWebSocketManager = require('./src/websocket/SecureWebSocketManager');
 
 const app = express();
@@ -64,7 +66,8 @@ app.use(
 				fontSrc: ['\'self\''],
 				objectSrc: ['\'none\''],
 				mediaSrc: ['\'self\''],
-				frameSrc: ['\'none\'']
+				// Same-origin frames only: streamed downloads are served by the download service worker
+				frameSrc: ['\'self\'']
 			}
 		},
 		crossOriginEmbedderPolicy: false
@@ -78,7 +81,7 @@ app.use(
 		origin: allowedOrigins,
 		credentials: true,
 		methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'HEAD'],
-		allowedHeaders: ['Content-Type', 'Authorization', 'Cache-Control', 'Connection']
+		allowedHeaders: ['Content-Type', 'Authorization', 'Cache-Control', 'Connection', 'X-Shared-Folder']
 	})
 );
 
@@ -137,6 +140,8 @@ app.get('/health', (req, res) => {
 // app.use('/api', authLimiter, speedLimiter, authRoutes);
 app.use('/api', authRoutes);
 app.use('/api', storageRoutes);
+app.use('/api', shareRoutes);
+app.use('/api', sharedFolderRoutes);
 
 // Catch-all handler for Angular routes
 app.get('*', (req, res) => {
@@ -7,6 +7,10 @@ export const serverRoutes: ServerRoute[] = [
 		path: "file-browser/**",
 		renderMode: RenderMode.Server,
 	},
+	{
+		path: "s/**",
+		renderMode: RenderMode.Client,
+	},
 	{
 		path: "**",
 		renderMode: RenderMode.Prerender,
@@ -26,4 +26,10 @@ describe('App Routes', () => {
 		expect(register?.canActivate?.length).toBeGreaterThan(0);
 		expect(dashboard?.canActivate?.length).toBeGreaterThan(0);
 	});
+
+	it('leaves share links open to visitors without an account', () => {
+		const share = routes.find(r => r.path === 's/:shareId');
+		expect(share?.component).toBeTruthy();
+		expect(share?.canActivate).toBeUndefined();
+	});
 });
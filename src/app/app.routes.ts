@@ -3,8 +3,10 @@
 import { Routes } from "@angular/router";
 import { LoginComponent } from "./login/login.component";
 import { RegisterComponent } from "./register/register.component";
+import { ResetPasswordComponent } from "./reset-password/reset-password.component";
 import { DashboardComponent } from "./dashboard/dashboard.component";
 import { FileBrowserComponent } from "./file-browser/file-browser.component";
+import { SharedFileComponent } from "./shared-file/shared-file.component";
 import { StorageSetupInstructions } from "./storage-setup-instructions/storage-setup-instructions.component";
 import { AuthGuard, GuestGuard } from "./auth.guard";
 
@@ -24,6 +26,11 @@ export const routes: Routes = [
 		component: RegisterComponent,
 		canActivate: [GuestGuard],
 	},
+	{
+		path: "reset-password",
+		component: ResetPasswordComponent,
+		canActivate: [GuestGuard],
+	},
 	{
 		path: "dashboard",
 		component: DashboardComponent,
@@ -39,5 +46,9 @@ export const routes: Routes = [
 		component: StorageSetupInstructions,
 		canActivate: [AuthGuard],
 	},
+	{
+		path: "s/:shareId",
+		component: SharedFileComponent, // Open to everyone holding the link
+	},
 	{ path: "**", redirectTo: "/login" }, // Wildcard route for 404 errors
 ];
@@ -6,7 +6,8 @@ import { HttpClient } from '@angular/common/http';
 import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
 import { AuthService } from './auth.service';
 import { SessionStorageService } from './session-storage.service';
-import { CryptoService } from './crypto.service';
+import { DirectoryCacheService } from './directory-cache.service';
+import { CURRENT_KDF_PARAMS, CryptoService, LEGACY_KDF_PARAMS } from './crypto.service';
 import { vi, afterEach, describe, it, expect, beforeEach } from 'vitest';
 
 describe('AuthService', () => {
@@ -22,6 +23,7 @@ describe('AuthService', () => {
 			providers: [
 				CryptoService,
 				SessionStorageService,
+				DirectoryCacheService,
 				{ provide: PLATFORM_ID, useValue: 'browser' },
 				{
 					provide: AuthService,
@@ -29,9 +31,16 @@ describe('AuthService', () => {
 						http: HttpClient,
 						platformId: Object,
 						cryptoSvc: CryptoService,
-						sessionSvc: SessionStorageService
-					) => new AuthService(http, platformId, cryptoSvc, sessionSvc),
-					deps: [HttpClient, PLATFORM_ID, CryptoService, SessionStorageService]
+						sessionSvc: SessionStorageService,
+						cacheSvc: DirectoryCacheService
+					) => new AuthService(http, platformId, cryptoSvc, sessionSvc, cacheSvc),
+					deps: [
+						HttpClient,
+						PLATFORM_ID,
+						CryptoService,
+						SessionStorageService,
+						DirectoryCacheService
+					]
 				}
 			]
 		});
@@ -99,7 +108,12 @@ describe('AuthService', () => {
 				success: true,
 				data: {
 					token: 'tok-123',
-					user: { name: 'Alice', salt: btoa('salt-bytes') }
+					user: {
+						name: 'Alice',
+						salt: btoa('salt-bytes'),
+						kdf_params: CURRENT_KDF_PARAMS,
+						has_key_pair: true
+					}
 				}
 			};
 
@@ -112,16 +126,99 @@ describe('AuthService', () => {
 			expect(req.request.method).toBe('POST');
 			req.flush(resp);
 
-			await Promise.resolve();
-			await Promise.resolve();
-
-			expect(completed).toBe(true);
+			await vi.waitFor(() => expect(completed).toBe(true));
 			expect(localStorage.getItem('token')).toBe('tok-123');
 			expect(localStorage.getItem('userName')).toBe('Alice');
 			expect(genKeySpy).toHaveBeenCalledTimes(1);
+			expect(genKeySpy.mock.calls[0][3]).toEqual(CURRENT_KDF_PARAMS);
 			expect(storeCredsSpy).toHaveBeenCalledTimes(1);
 		});
 
+		it('login re-keys accounts with legacy KDF parameters and keeps the master key', async () => {
+			const salt = crypto.generateSalt();
+			const masterKey = await crypto.exportMasterKey('Passw0rd!', salt);
+			const { encryptedData, iv } = await crypto.encryptData(
+				new TextEncoder().encode('abc').buffer,
+				undefined,
+				masterKey
+			);
+
+			let completed = false;
+			service
+				.login({ email: 'a@b.com', password: 'Passw0rd!' })
+				.subscribe(() => (completed = true));
+			httpMock
+				.expectOne(req => req.url.endsWith('/api/login'))
+				.flush({
+					success: true,
+					data: {
+						token: 'tok-123',
+						user: {
+							name: 'Alice',
+							salt: btoa(String.fromCharCode(...salt)),
+							kdf_params: LEGACY_KDF_PARAMS,
+							root_migration_pending: false,
+							has_key_pair: true
+						}
+					}
+				});
+
+			const upgrade = await vi.waitFor(() =>
+				httpMock.expectOne(req => req.url.endsWith('/kdf-upgrade'))
+			);
+			const body = upgrade.request.body;
+			expect(body.password).toBe('Passw0rd!');
+			expect(body.kdfParams).toEqual(CURRENT_KDF_PARAMS);
+			upgrade.flush({
+				success: true,
+				data: {
+					salt: body.salt,
+					kdf_params: body.kdfParams,
+					wrapped_master_key: body.wrappedMasterKey
+				}
+			});
+			await vi.waitFor(() => expect(completed).toBe(true));
+
+			expect((await session.retrieveCredentials())?.kdfParams).toEqual(CURRENT_KDF_PARAMS);
+			const decrypted = await crypto.decryptData(encryptedData, iv);
+			expect(new TextDecoder().decode(decrypted)).toBe('abc');
+		});
+
+		it('login creates a sharing key pair for accounts without one', async () => {
+			const salt = crypto.generateSalt();
+
+			let completed = false;
+			service
+				.login({ email: 'a@b.com', password: 'Passw0rd!' })
+				.subscribe(() => (completed = true));
+			httpMock
+				.expectOne(req => req.url.endsWith('/api/login'))
+				.flush({
+					success: true,
+					data: {
+						token: 'tok-123',
+						user: {
+							name: 'Alice',
+							salt: btoa(String.fromCharCode(...salt)),
+							kdf_params: CURRENT_KDF_PARAMS,
+							has_key_pair: false
+						}
+					}
+				});
+
+			const save = await vi.waitFor(() =>
+				httpMock.expectOne(req => req.method === 'PUT' && req.url.endsWith('/key-pair'))
+			);
+			const { publicKey, wrappedPrivateKey } = save.request.body;
+			save.flush({ success: true, data: { public_key: publicKey } });
+			await vi.waitFor(() => expect(completed).toBe(true));
+
+			// The private half only opens under this account's master key
+			const folderKey = await crypto.generateFolderKey();
+			const sealed = await crypto.sealKey(folderKey, publicKey);
+			expect(await crypto.openSealedKey(sealed, wrappedPrivateKey)).toBeTruthy();
+		});
+
 		it('logout clears storage and calls cleanup', () => {
 			const clearKeysSpy = vi.spyOn(crypto, 'clearKeys').mockImplementation(() => {});
 			const clearCredsSpy = vi
@@ -158,4 +255,142 @@ describe('AuthService', () => {
 			expect(p2).toBe('Secret1!');
 		});
 	});
+
+	describe('changePassword', () => {
+		it('posts the re-wrapped master key and switches the session to the new password', async () => {
+			(service as any)['userPassword'] = 'OldPassw0rd!';
+			vi.spyOn(session, 'retrieveCredentials').mockResolvedValue({
+				password: 'OldPassw0rd!',
+				salt: btoa('old-salt')
+			});
+			vi.spyOn(crypto, 'getRootChunk').mockResolvedValue('old-root');
+			const rewrapSpy = vi.spyOn(crypto, 'rewrapMasterKey').mockResolvedValue('wrapped');
+			vi.spyOn(crypto, 'encryptRootLocator').mockResolvedValue('locator');
+			const genKeySpy = vi
+				.spyOn(crypto, 'generateMasterKey')
+				.mockResolvedValue(undefined as any);
+			const storeCredsSpy = vi
+				.spyOn(session, 'storeCredentials')
+				.mockResolvedValue(undefined as any);
+
+			const pending = service.changePassword('OldPassw0rd!', 'NewPassw0rd!');
+			await new Promise(resolve => setTimeout(resolve, 0));
+			const req = httpMock.expectOne(req => req.url.endsWith('/change-password'));
+			expect(req.request.body).toEqual(
+				expect.objectContaining({
+					currentPassword: 'OldPassw0rd!',
+					newPassword: 'NewPassw0rd!',
+					wrappedMasterKey: 'wrapped',
+					previousRootChunkId: 'old-root',
+					rootLocator: 'locator'
+				})
+			);
+			expect(rewrapSpy.mock.calls[0][2]).toBeUndefined();
+			req.flush({
+				success: true,
+				data: {
+					token: 'rotated-token',
+					salt: req.request.body.salt,
+					wrapped_master_key: 'wrapped'
+				}
+			});
+			await pending;
+
+			expect(genKeySpy).toHaveBeenCalledWith(
+				'NewPassw0rd!',
+				expect.anything(),
+				'wrapped',
+				CURRENT_KDF_PARAMS
+			);
+			expect(storeCredsSpy).toHaveBeenCalledWith(
+				'NewPassw0rd!',
+				req.request.body.salt,
+				'wrapped',
+				CURRENT_KDF_PARAMS
+			);
+			expect(await service.getUserPassword()).toBe('NewPassw0rd!');
+			expect(service.getToken()).toBe('rotated-token');
+		});
+
+		it('rejects a wrong current password before contacting the server', async () => {
+			(service as any)['userPassword'] = 'OldPassw0rd!';
+			vi.spyOn(session, 'retrieveCredentials').mockResolvedValue({
+				password: 'OldPassw0rd!',
+				salt: btoa('old-salt')
+			});
+
+			await expect(service.changePassword('nope', 'NewPassw0rd!')).rejects.toThrow(
+				'Current password is incorrect'
+			);
+		});
+	});
+
+	describe('account recovery', () => {
+		it('resets the password with the recovery key without changing the master key', async () => {
+			const previousRoot = '550e8400-e29b-41d4-a716-446655440000';
+			const oldSalt = crypto.generateSalt();
+			const recoveryKey = crypto.generateRecoveryKey();
+			const masterKey = await crypto.exportMasterKey('Forgotten1!', oldSalt);
+			const { recoveryWrappedKey, recoveryVerifier } = await crypto.wrapForRecovery(
+				masterKey,
+				recoveryKey
+			);
+			const rootLocator = await crypto.encryptRootLocator(previousRoot, masterKey);
+
+			const pending = service.resetPassword('a'.repeat(64), recoveryKey, 'NewPassw0rd!');
+			const lookup = await vi.waitFor(() =>
+				httpMock.expectOne(req => req.url.endsWith('/reset-password/recovery'))
+			);
+			lookup.flush({
+				success: true,
+				data: { recovery_wrapped_key: recoveryWrappedKey, root_locator: rootLocator }
+			});
+
+			const reset = await vi.waitFor(() =>
+				httpMock.expectOne(req => req.url.endsWith('/reset-password'))
+			);
+			const body = reset.request.body;
+			expect(body.previousRootChunkId).toBe(previousRoot);
+			expect(body.recoveryVerifier).toBe(recoveryVerifier);
+			reset.flush({ success: true });
+			await pending;
+
+			// The new password unwraps the same master key
+			const newSalt = Uint8Array.from(atob(body.salt), c => c.charCodeAt(0));
+			await crypto.generateMasterKey(
+				'NewPassw0rd!',
+				newSalt,
+				body.wrappedMasterKey,
+				body.kdfParams
+			);
+			const { encryptedData, iv } = await crypto.encryptData(
+				new TextEncoder().encode('abc').buffer
+			);
+			const decrypted = await crypto.decryptData(encryptedData, iv, masterKey);
+			expect(new TextDecoder().decode(decrypted)).toBe('abc');
+		});
+
+		it('rejects a wrong recovery key before changing anything', async () => {
+			const masterKey = await crypto.exportMasterKey('Forgotten1!', crypto.generateSalt());
+			const { recoveryWrappedKey } = await crypto.wrapForRecovery(
+				masterKey,
+				crypto.generateRecoveryKey()
+			);
+
+			const pending = service.resetPassword(
+				'a'.repeat(64),
+				crypto.generateRecoveryKey(),
+				'NewPassw0rd!'
+			);
+			const lookup = await vi.waitFor(() =>
+				httpMock.expectOne(req => req.url.endsWith('/reset-password/recovery'))
+			);
+			lookup.flush({
+				success: true,
+				data: { recovery_wrapped_key: recoveryWrappedKey, root_locator: 'AAAA' }
+			});
+
+			await expect(pending).rejects.toThrow('Recovery key is incorrect');
+		});
+	});
 });
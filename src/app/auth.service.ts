@@ -2,10 +2,17 @@
 
 import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
 import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { Observable, tap } from 'rxjs';
+import { Observable, firstValueFrom, from, map, switchMap } from 'rxjs';
 import { isPlatformBrowser } from '@angular/common';
-import { CryptoService } from './crypto.service';
+import {
+	CURRENT_KDF_PARAMS,
+	CryptoService,
+	KdfParams,
+	LEGACY_KDF_PARAMS,
+	needsKdfUpgrade
+} from './crypto.service';
 import { SessionStorageService } from './session-storage.service';
+import { DirectoryCacheService } from './directory-cache.service';
 import { base64ToUint8Array, uint8ArrayToBase64 } from './utils/utils';
 
 @Injectable({
@@ -21,7 +28,8 @@ export class AuthService {
 		private http: HttpClient,
 		@Inject(PLATFORM_ID) private platformId: Object,
 		private cryptoService: CryptoService,
-		private sessionStorage: SessionStorageService
+		private sessionStorage: SessionStorageService,
+		private directoryCache: DirectoryCacheService
 	) {
 		this.restoreMasterKey();
 		this.restoreUserName();
@@ -70,7 +78,12 @@ export class AuthService {
 				const salt = base64ToUint8Array(credentials.salt);
 
 				this.userPassword = credentials.password;
-				await this.cryptoService.generateMasterKey(credentials.password, salt);
+				await this.cryptoService.generateMasterKey(
+					credentials.password,
+					salt,
+					credentials.wrappedMasterKey,
+					credentials.kdfParams || LEGACY_KDF_PARAMS
+				);
 			}
 		} catch (error) {
 			this.sessionStorage.clearCredentials();
@@ -78,36 +91,302 @@ export class AuthService {
 		}
 	}
 
-	/** Register new user (salt generated client-side). */
+	/**
+	 * Register new user (salt generated client-side). In the browser a recovery key is
+	 * created too; it is returned once as `recoveryKey` on the response for the user to save.
+	 */
 	register(userData: any): Observable<any> {
-		// Generate salt for new user
-		if (isPlatformBrowser(this.platformId)) {
-			const salt = this.cryptoService.generateSalt();
-			userData.salt = uint8ArrayToBase64(salt);
+		if (!isPlatformBrowser(this.platformId)) {
+			return this.http.post(`${this.apiUrl}/register`, userData);
 		}
-		return this.http.post(`${this.apiUrl}/register`, userData);
+
+		return from(this.prepareRegistration(userData)).pipe(
+			switchMap(({ body, recoveryKey }) =>
+				this.http
+					.post<any>(`${this.apiUrl}/register`, body)
+					.pipe(map(response => ({ ...response, recoveryKey })))
+			)
+		);
 	}
 
-	/** Authenticate and derive master key on success. */
+	/** Registration body with a fresh salt and recovery key material. */
+	private async prepareRegistration(userData: any): Promise<{ body: any; recoveryKey: string }> {
+		const salt = this.cryptoService.generateSalt();
+		const recoveryKey = this.cryptoService.generateRecoveryKey();
+		const recoveryData = await this.createRecoveryData(
+			userData.password,
+			salt,
+			CURRENT_KDF_PARAMS,
+			recoveryKey
+		);
+		return {
+			body: {
+				...userData,
+				salt: uint8ArrayToBase64(salt),
+				kdfParams: CURRENT_KDF_PARAMS,
+				...recoveryData
+			},
+			recoveryKey
+		};
+	}
+
+	/** Recovery-wrapped master key, verifier and root locator for a password + salt. */
+	private async createRecoveryData(
+		password: string,
+		salt: Uint8Array,
+		kdfParams: KdfParams,
+		recoveryKey: string,
+		wrappedMasterKey?: string
+	): Promise<{ recoveryWrappedKey: string; recoveryVerifier: string; rootLocator: string }> {
+		const masterKey = await this.cryptoService.exportMasterKey(
+			password,
+			salt,
+			wrappedMasterKey,
+			kdfParams
+		);
+		const recovery = await this.cryptoService.wrapForRecovery(masterKey, recoveryKey);
+		const rootChunkId = await this.cryptoService.getRootChunk(password, salt, kdfParams);
+		return {
+			...recovery,
+			rootLocator: await this.cryptoService.encryptRootLocator(rootChunkId, masterKey)
+		};
+	}
+
+	/** Authenticate and derive master key on success (emits once the key is ready). */
 	login(credentials: any): Observable<any> {
-		return this.http.post(`${this.apiUrl}/login`, credentials).pipe(
-			tap(async (response: any) => {
-				if (response.success && response.data && isPlatformBrowser(this.platformId)) {
-					this.setToken(response.data.token);
-					this.userPassword = credentials.password;
-					if (response.data.user?.name) {
-						this.userName = response.data.user.name;
-						localStorage.setItem('userName', response.data.user.name);
-					}
-					if (response.data.user?.salt) {
-						const salt = base64ToUint8Array(response.data.user.salt);
-						await this.cryptoService.generateMasterKey(credentials.password, salt);
-						await this.sessionStorage.storeCredentials(
-							credentials.password,
-							response.data.user.salt
-						);
-					}
-				}
+		return this.http
+			.post(`${this.apiUrl}/login`, credentials)
+			.pipe(
+				switchMap((response: any) =>
+					from(this.completeLogin(response, credentials.password)).pipe(
+						map(() => response)
+					)
+				)
+			);
+	}
+
+	/**
+	 * Store the session and derive the master key from the login response. Accounts whose
+	 * KDF parameters are weaker than CURRENT_KDF_PARAMS are re-keyed on the spot, and accounts
+	 * without a sharing key pair get one.
+	 */
+	private async completeLogin(response: any, password: string): Promise<void> {
+		if (!response.success || !response.data || !isPlatformBrowser(this.platformId)) {
+			return;
+		}
+
+		const user = response.data.user;
+		this.setToken(response.data.token);
+		this.userPassword = password;
+		if (user?.name) {
+			this.userName = user.name;
+			localStorage.setItem('userName', user.name);
+		}
+		if (!user?.salt) {
+			return;
+		}
+
+		const kdfParams: KdfParams = user.kdf_params || LEGACY_KDF_PARAMS;
+		const wrappedMasterKey = user.wrapped_master_key || undefined;
+		await this.cryptoService.generateMasterKey(
+			password,
+			base64ToUint8Array(user.salt),
+			wrappedMasterKey,
+			kdfParams
+		);
+		await this.sessionStorage.storeCredentials(
+			password,
+			user.salt,
+			wrappedMasterKey,
+			kdfParams
+		);
+
+		// Node roots can only follow one re-key at a time, so wait for a pending move to finish
+		if (needsKdfUpgrade(kdfParams) && !user.root_migration_pending) {
+			try {
+				await this.rekeyAccount('/kdf-upgrade', password, { password });
+			} catch (error) {
+				// The old parameters keep working; retried on the next login
+				console.warn('Key derivation upgrade failed:', error);
+			}
+		}
+
+		// Folders can only be shared with accounts that have a key pair
+		if (!user.has_key_pair) {
+			try {
+				await this.createKeyPair();
+			} catch (error) {
+				// Retried on the next login
+				console.warn('Sharing key pair setup failed:', error);
+			}
+		}
+	}
+
+	/** Generate the account's sharing key pair and store it (private half wrapped). */
+	private async createKeyPair(): Promise<void> {
+		const keyPair = await this.cryptoService.generateUserKeyPair();
+		await firstValueFrom(
+			this.http.put(`${this.apiUrl}/key-pair`, keyPair, { headers: this.getAuthHeaders() })
+		);
+	}
+
+	/**
+	 * Change the account password. The master key is re-wrapped under the new password, so
+	 * no data is re-encrypted; node roots still have to be moved (see FileService).
+	 */
+	async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+		if ((await this.getUserPassword()) !== currentPassword) {
+			throw new Error('Current password is incorrect');
+		}
+
+		await this.rekeyAccount('/change-password', newPassword, {
+			currentPassword,
+			newPassword
+		});
+	}
+
+	/**
+	 * Re-wrap the master key under `newPassword`, a fresh salt and CURRENT_KDF_PARAMS, post it
+	 * with the previous root chunk ID to `endpoint` and switch the session to the result.
+	 */
+	private async rekeyAccount(endpoint: string, newPassword: string, body: object): Promise<void> {
+		const credentials = await this.sessionStorage.retrieveCredentials();
+		if (!credentials) {
+			throw new Error('Session expired. Please log in again.');
+		}
+
+		const currentSalt = base64ToUint8Array(credentials.salt);
+		const currentKdfParams = credentials.kdfParams || LEGACY_KDF_PARAMS;
+		const previousRootChunkId = await this.cryptoService.getRootChunk(
+			credentials.password,
+			currentSalt,
+			currentKdfParams
+		);
+		const newSalt = this.cryptoService.generateSalt();
+		const wrappedMasterKey = await this.cryptoService.rewrapMasterKey(
+			credentials.password,
+			currentSalt,
+			credentials.wrappedMasterKey,
+			newPassword,
+			newSalt,
+			currentKdfParams,
+			CURRENT_KDF_PARAMS
+		);
+		const rootLocator = await this.cryptoService.encryptRootLocator(
+			await this.cryptoService.getRootChunk(newPassword, newSalt, CURRENT_KDF_PARAMS),
+			this.cryptoService.getMasterKey()!
+		);
+
+		const response: any = await firstValueFrom(
+			this.http.post(
+				`${this.apiUrl}${endpoint}`,
+				{
+					...body,
+					salt: uint8ArrayToBase64(newSalt),
+					kdfParams: CURRENT_KDF_PARAMS,
+					wrappedMasterKey,
+					previousRootChunkId,
+					rootLocator
+				},
+				{ headers: this.getAuthHeaders() }
+			)
+		);
+
+		// Sessions from before the change are refused now; this one continues on the new token
+		if (response.data.token) {
+			this.setToken(response.data.token);
+		}
+		const salt: string = response.data.salt;
+		const kdfParams: KdfParams = response.data.kdf_params || CURRENT_KDF_PARAMS;
+		await this.cryptoService.generateMasterKey(
+			newPassword,
+			base64ToUint8Array(salt),
+			response.data.wrapped_master_key,
+			kdfParams
+		);
+		this.userPassword = newPassword;
+		await this.sessionStorage.storeCredentials(
+			newPassword,
+			salt,
+			response.data.wrapped_master_key,
+			kdfParams
+		);
+	}
+
+	/** True if the account has a recovery key. */
+	async hasRecoveryKey(): Promise<boolean> {
+		const response: any = await firstValueFrom(
+			this.http.get(`${this.apiUrl}/recovery-key`, { headers: this.getAuthHeaders() })
+		);
+		return Boolean(response.data?.configured);
+	}
+
+	/** Create a new recovery key (replacing any previous one); returns it for the user to save. */
+	async createRecoveryKey(): Promise<string> {
+		const credentials = await this.sessionStorage.retrieveCredentials();
+		if (!credentials) {
+			throw new Error('Session expired. Please log in again.');
+		}
+
+		const recoveryKey = this.cryptoService.generateRecoveryKey();
+		const recoveryData = await this.createRecoveryData(
+			credentials.password,
+			base64ToUint8Array(credentials.salt),
+			credentials.kdfParams || LEGACY_KDF_PARAMS,
+			recoveryKey,
+			credentials.wrappedMasterKey
+		);
+		await firstValueFrom(
+			this.http.put(`${this.apiUrl}/recovery-key`, recoveryData, {
+				headers: this.getAuthHeaders()
+			})
+		);
+		return recoveryKey;
+	}
+
+	/** Ask for a password reset email. */
+	requestPasswordReset(email: string): Observable<any> {
+		return this.http.post(`${this.apiUrl}/forgot-password`, { email });
+	}
+
+	/**
+	 * Reset a forgotten password with the emailed token and the recovery key. The master key
+	 * is recovered and re-wrapped, so files stay readable; node roots move on the next login.
+	 */
+	async resetPassword(token: string, recoveryKey: string, newPassword: string): Promise<void> {
+		const recovery: any = await firstValueFrom(
+			this.http.post(`${this.apiUrl}/reset-password/recovery`, { token })
+		);
+		const masterKey = await this.cryptoService.unwrapWithRecoveryKey(
+			recoveryKey,
+			recovery.data.recovery_wrapped_key
+		);
+		const previousRootChunkId = await this.cryptoService.decryptRootLocator(
+			recovery.data.root_locator,
+			masterKey
+		);
+
+		const newSalt = this.cryptoService.generateSalt();
+		const rootChunkId = await this.cryptoService.getRootChunk(
+			newPassword,
+			newSalt,
+			CURRENT_KDF_PARAMS
+		);
+		await firstValueFrom(
+			this.http.post(`${this.apiUrl}/reset-password`, {
+				token,
+				recoveryVerifier: await this.cryptoService.deriveRecoveryVerifier(recoveryKey),
+				newPassword,
+				salt: uint8ArrayToBase64(newSalt),
+				kdfParams: CURRENT_KDF_PARAMS,
+				wrappedMasterKey: await this.cryptoService.wrapMasterKey(
+					masterKey,
+					newPassword,
+					newSalt,
+					CURRENT_KDF_PARAMS
+				),
+				previousRootChunkId,
+				rootLocator: await this.cryptoService.encryptRootLocator(rootChunkId, masterKey)
 			})
 		);
 	}
@@ -122,6 +401,7 @@ export class AuthService {
 		this.cryptoService.clearKeys();
 		this.sessionStorage.clearCredentials();
 		this.sessionStorage.cleanup();
+		void this.directoryCache.clear();
 	}
 
 	/** True if browser localStorage contains a token. */
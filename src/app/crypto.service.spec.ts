@@ -1,6 +1,6 @@
 // File: src/app/crypto.service.spec.ts - Tests CryptoService key derivation, encrypt/decrypt ops
 import { TestBed } from '@angular/core/testing';
-import { CryptoService } from './crypto.service';
+import { CryptoService, KdfParams, LEGACY_KDF_PARAMS, needsKdfUpgrade } from './crypto.service';
 
 // Note: These tests run in jsdom with WebCrypto available via setup
 
@@ -46,6 +46,186 @@ describe('CryptoService', () => {
 		expect(service.getMasterKey()).toBeNull();
 	});
 
+	it('wraps per-file data keys with the master key', async () => {
+		await service.generateMasterKey('password123', service.generateSalt());
+		const dataKey = await service.generateDataKey();
+		const data = new TextEncoder().encode('file chunk').buffer;
+		const { encryptedData, iv } = await service.encryptData(data, undefined, dataKey);
+
+		const wrappedKey = await service.wrapDataKey(dataKey);
+		expect(wrappedKey.length).toBe(80);
+		const unwrapped = await service.unwrapDataKey(wrappedKey);
+		const decrypted = await service.decryptData(encryptedData, iv, unwrapped);
+		expect(new Uint8Array(decrypted)).toEqual(new Uint8Array(data));
+
+		// The master key alone cannot read data-key ciphertext
+		await expect(service.decryptData(encryptedData, iv)).rejects.toBeTruthy();
+	});
+
+	it('rejects ciphertext decrypted with different associated data', async () => {
+		await service.generateMasterKey('password123', service.generateSalt());
+		const data = new TextEncoder().encode('directory').buffer;
+		const boundTo = (chunkId: string) => new TextEncoder().encode(`chunk:${chunkId}`);
+		const { encryptedData, iv } = await service.encryptData(
+			data,
+			undefined,
+			undefined,
+			boundTo('a')
+		);
+
+		const decrypted = await service.decryptData(encryptedData, iv, undefined, boundTo('a'));
+		expect(new TextDecoder().decode(decrypted)).toBe('directory');
+		await expect(
+			service.decryptData(encryptedData, iv, undefined, boundTo('b'))
+		).rejects.toBeTruthy();
+		await expect(service.decryptData(encryptedData, iv)).rejects.toBeTruthy();
+	});
+
+	it('keeps the master key readable after re-wrapping it under a new password', async () => {
+		const oldSalt = service.generateSalt();
+		await service.generateMasterKey('old-password', oldSalt);
+		const data = new TextEncoder().encode('root directory').buffer;
+		const { encryptedData, iv } = await service.encryptData(data);
+
+		const newSalt = service.generateSalt();
+		const wrapped = await service.rewrapMasterKey(
+			'old-password',
+			oldSalt,
+			undefined,
+			'new-password',
+			newSalt
+		);
+		await service.generateMasterKey('new-password', newSalt, wrapped);
+		expect(new Uint8Array(await service.decryptData(encryptedData, iv))).toEqual(
+			new Uint8Array(data)
+		);
+
+		// A second change starts from the wrapped key
+		const thirdSalt = service.generateSalt();
+		const rewrapped = await service.rewrapMasterKey(
+			'new-password',
+			newSalt,
+			wrapped,
+			'third-password',
+			thirdSalt
+		);
+		await service.generateMasterKey('third-password', thirdSalt, rewrapped);
+		expect(new Uint8Array(await service.decryptData(encryptedData, iv))).toEqual(
+			new Uint8Array(data)
+		);
+		await expect(
+			service.generateMasterKey('old-password', thirdSalt, rewrapped)
+		).rejects.toBeTruthy();
+	});
+
+	it('derives keys and root chunks with Argon2id parameters', async () => {
+		// Small memory keeps the test fast; the server enforces the real minimum
+		const argon2: KdfParams = {
+			algorithm: 'argon2id',
+			iterations: 1,
+			memory_kib: 1024,
+			parallelism: 1
+		};
+		expect(needsKdfUpgrade(argon2)).toBe(true);
+
+		const salt = service.generateSalt();
+		const masterKey = await service.exportMasterKey('password123', salt);
+		const wrapped = await service.wrapMasterKey(masterKey, 'password123', salt, argon2);
+		await service.generateMasterKey('password123', salt, wrapped, argon2);
+		const data = new TextEncoder().encode('argon').buffer;
+		const { encryptedData, iv } = await service.encryptData(data, undefined, masterKey);
+		expect(new Uint8Array(await service.decryptData(encryptedData, iv))).toEqual(
+			new Uint8Array(data)
+		);
+
+		const rootChunk = await service.getRootChunk('password123');
+		expect(rootChunk).toBe(await service.getRootChunk('password123', salt, argon2));
+		expect(rootChunk).not.toBe(
+			await service.getRootChunk('password123', salt, LEGACY_KDF_PARAMS)
+		);
+		await expect(service.generateMasterKey('password123', salt, wrapped)).rejects.toBeTruthy();
+	});
+
+	it('recovers the master key and root locator with the recovery key', async () => {
+		const salt = service.generateSalt();
+		await service.generateMasterKey('forgotten-password', salt);
+		const data = new TextEncoder().encode('root directory').buffer;
+		const { encryptedData, iv } = await service.encryptData(data);
+
+		const recoveryKey = service.generateRecoveryKey();
+		expect(recoveryKey).toMatch(/^([A-Z2-7]{4}-){12}[A-Z2-7]{4}$/);
+		const masterKey = await service.exportMasterKey('forgotten-password', salt);
+		const { recoveryWrappedKey, recoveryVerifier } = await service.wrapForRecovery(
+			masterKey,
+			recoveryKey
+		);
+		const rootLocator = await service.encryptRootLocator('root-id', masterKey);
+
+		// Typed back without dashes and in lower case
+		const typed = recoveryKey.replace(/-/g, '').toLowerCase();
+		const recovered = await service.unwrapWithRecoveryKey(typed, recoveryWrappedKey);
+		expect(new Uint8Array(await service.decryptData(encryptedData, iv, recovered))).toEqual(
+			new Uint8Array(data)
+		);
+		expect(await service.decryptRootLocator(rootLocator, recovered)).toBe('root-id');
+		expect(await service.deriveRecoveryVerifier(typed)).toBe(recoveryVerifier);
+
+		await expect(
+			service.unwrapWithRecoveryKey(service.generateRecoveryKey(), recoveryWrappedKey)
+		).rejects.toThrow('Recovery key is incorrect');
+		await expect(service.unwrapWithRecoveryKey('ABCD', recoveryWrappedKey)).rejects.toThrow(
+			'Recovery key is not valid'
+		);
+	});
+
+	it('hands a data key to share recipients only with both the share key and the link', async () => {
+		await service.generateMasterKey('password123', service.generateSalt());
+		const dataKey = await service.generateDataKey();
+		const manifest = await service.encryptText('{"name":"a.txt"}', dataKey);
+
+		const { shareKey, wrappedDataKey } = await service.createShareKey(dataKey);
+		service.clearKeys();
+		const recipientKey = await service.unwrapShareKey(wrappedDataKey, shareKey);
+		expect(await service.decryptText(manifest, recipientKey)).toBe('{"name":"a.txt"}');
+
+		const otherShare = await service.createShareKey(await service.generateDataKey());
+		await expect(service.unwrapShareKey(wrappedDataKey, otherShare.shareKey)).rejects.toThrow(
+			'The share link is incomplete or damaged'
+		);
+	});
+
+	it('seals folder keys to a member only they can open', async () => {
+		const memberSalt = service.generateSalt();
+		await service.generateMasterKey('member-password', memberSalt);
+		const member = await service.generateUserKeyPair();
+
+		// The owner seals a folder key with nothing but the member's public key
+		await service.generateMasterKey('owner-password', service.generateSalt());
+		const folderKey = await service.generateFolderKey();
+		const wrappedDataKey = await service.wrapDataKey(
+			await service.generateDataKey(),
+			folderKey
+		);
+		const sealed = await service.sealKey(folderKey, member.publicKey);
+		await expect(service.openSealedKey(sealed, member.wrappedPrivateKey)).rejects.toThrow(
+			'The shared folder key could not be opened'
+		);
+
+		await service.generateMasterKey('member-password', memberSalt);
+		const opened = await service.openSealedKey(sealed, member.wrappedPrivateKey);
+		expect(await service.unwrapDataKey(wrappedDataKey, opened)).toBeTruthy();
+		await expect(service.unwrapDataKey(wrappedDataKey)).rejects.toBeTruthy();
+	});
+
+	it('derives deterministic chunk ids from a seed', async () => {
+		const first = await service.deriveChunkId('journal:abc');
+		expect(first).toMatch(
+			/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+		);
+		expect(await service.deriveChunkId('journal:abc')).toBe(first);
+		expect(await service.deriveChunkId('journal:abd')).not.toBe(first);
+	});
+
 	it('server platform uses fallback UUID and blocks crypto ops', () => {
 		// Construct service with server platform id
 		const serverService = new (CryptoService as any)('server');
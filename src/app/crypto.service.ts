@@ -2,6 +2,48 @@
 
 import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
 import { isPlatformBrowser } from '@angular/common';
+import { argon2id } from 'hash-wasm';
+import {
+	base32ToUint8Array,
+	base64ToUint8Array,
+	uint8ArrayToBase32,
+	uint8ArrayToBase64
+} from './utils/utils';
+
+/** Key-derivation parameters stored per user next to the salt (see /api/login). */
+export interface KdfParams {
+	algorithm: 'pbkdf2-sha256' | 'argon2id';
+	// PBKDF2 rounds or Argon2id passes
+	iterations: number;
+	// Argon2id only
+	memory_kib?: number;
+	parallelism?: number;
+	// PBKDF2 only: rounds for the root chunk ID derivation
+	root_iterations?: number;
+}
+
+// Parameters of accounts created before they were stored per user
+export const LEGACY_KDF_PARAMS: KdfParams = {
+	algorithm: 'pbkdf2-sha256',
+	iterations: 100000,
+	root_iterations: 10000
+};
+// Current policy for new keys; weaker accounts are upgraded on login
+export const CURRENT_KDF_PARAMS: KdfParams = {
+	algorithm: 'argon2id',
+	iterations: 3,
+	memory_kib: 65536,
+	parallelism: 1
+};
+
+/** True if keys derived with these parameters should be re-derived with CURRENT_KDF_PARAMS. */
+export function needsKdfUpgrade(params: KdfParams): boolean {
+	return (
+		params.algorithm !== CURRENT_KDF_PARAMS.algorithm ||
+		params.iterations < CURRENT_KDF_PARAMS.iterations ||
+		(params.memory_kib ?? 0) < CURRENT_KDF_PARAMS.memory_kib!
+	);
+}
 
 @Injectable({
 	providedIn: 'root'
@@ -10,15 +52,436 @@ import { isPlatformBrowser } from '@angular/common';
 export class CryptoService {
 	private masterRecoveryKey: CryptoKey | null = null;
 	private userSalt: Uint8Array | null = null;
+	private kdfParams: KdfParams = LEGACY_KDF_PARAMS;
+	// Last Argon2id output as an HKDF key, so login doesn't pay for the hash twice
+	private argon2Cache: { id: string; key: CryptoKey } | null = null;
 
 	constructor(@Inject(PLATFORM_ID) private platformId: Object) {}
 
-	/** Derive master AES-GCM key from password + salt. */
-	async generateMasterKey(password: string, salt: Uint8Array): Promise<CryptoKey> {
+	/**
+	 * Derive the master AES-GCM key from password + salt. When the account carries a wrapped
+	 * master key (after a password change) the password key only unwraps it.
+	 */
+	async generateMasterKey(
+		password: string,
+		salt: Uint8Array,
+		wrappedMasterKey?: string,
+		kdfParams: KdfParams = LEGACY_KDF_PARAMS
+	): Promise<CryptoKey> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		const passwordKey = await this.derivePasswordKey(password, salt, false, kdfParams);
+		const masterKey = wrappedMasterKey
+			? await this.unwrapWith(wrappedMasterKey, passwordKey, false, [
+					'encrypt',
+					'decrypt',
+					'wrapKey',
+					'unwrapKey'
+				])
+			: passwordKey;
+
+		this.masterRecoveryKey = masterKey;
+		this.userSalt = salt;
+		this.kdfParams = kdfParams;
+		return masterKey;
+	}
+
+	/**
+	 * Wrap the current master key under a new password + salt; returns base64 of IV + wrapped
+	 * key. The master key itself is unchanged, so existing data stays readable.
+	 */
+	async rewrapMasterKey(
+		currentPassword: string,
+		currentSalt: Uint8Array,
+		currentWrappedKey: string | undefined,
+		newPassword: string,
+		newSalt: Uint8Array,
+		currentKdfParams: KdfParams = LEGACY_KDF_PARAMS,
+		newKdfParams: KdfParams = LEGACY_KDF_PARAMS
+	): Promise<string> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		const masterKey = await this.exportMasterKey(
+			currentPassword,
+			currentSalt,
+			currentWrappedKey,
+			currentKdfParams
+		);
+		return await this.wrapMasterKey(masterKey, newPassword, newSalt, newKdfParams);
+	}
+
+	/** Extractable copy of the master key, only used for wrapping it elsewhere. */
+	async exportMasterKey(
+		password: string,
+		salt: Uint8Array,
+		wrappedMasterKey?: string,
+		kdfParams: KdfParams = LEGACY_KDF_PARAMS
+	): Promise<CryptoKey> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		const passwordKey = await this.derivePasswordKey(
+			password,
+			salt,
+			!wrappedMasterKey,
+			kdfParams
+		);
+		return wrappedMasterKey
+			? await this.unwrapWith(wrappedMasterKey, passwordKey, true, ['encrypt', 'decrypt'])
+			: passwordKey;
+	}
+
+	/** Wrap an extractable master key under a password + salt (see generateMasterKey). */
+	async wrapMasterKey(
+		masterKey: CryptoKey,
+		password: string,
+		salt: Uint8Array,
+		kdfParams: KdfParams = LEGACY_KDF_PARAMS
+	): Promise<string> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		const passwordKey = await this.derivePasswordKey(password, salt, false, kdfParams);
+		return await this.wrapWith(masterKey, passwordKey);
+	}
+
+	/** Random 256-bit recovery key, formatted as dash-separated base32 groups for printing. */
+	generateRecoveryKey(): string {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		const encoded = uint8ArrayToBase32(crypto.getRandomValues(new Uint8Array(32)));
+		return encoded.match(/.{1,4}/g)!.join('-');
+	}
+
+	/**
+	 * Wrap the master key with a recovery key. The verifier lets the server check the
+	 * recovery key during a password reset without learning it.
+	 */
+	async wrapForRecovery(
+		masterKey: CryptoKey,
+		recoveryKey: string
+	): Promise<{ recoveryWrappedKey: string; recoveryVerifier: string }> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		const wrappingKey = await this.deriveRecoveryWrappingKey(recoveryKey);
+		return {
+			recoveryWrappedKey: await this.wrapWith(masterKey, wrappingKey),
+			recoveryVerifier: await this.deriveRecoveryVerifier(recoveryKey)
+		};
+	}
+
+	/** Extractable master key from its recovery-key wrapping; throws for a wrong key. */
+	async unwrapWithRecoveryKey(
+		recoveryKey: string,
+		recoveryWrappedKey: string
+	): Promise<CryptoKey> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		const wrappingKey = await this.deriveRecoveryWrappingKey(recoveryKey);
+		try {
+			return await this.unwrapWith(recoveryWrappedKey, wrappingKey, true, [
+				'encrypt',
+				'decrypt'
+			]);
+		} catch {
+			throw new Error('Recovery key is incorrect');
+		}
+	}
+
+	/** Server-checkable proof of the recovery key (HKDF output independent of the wrapping key). */
+	async deriveRecoveryVerifier(recoveryKey: string): Promise<string> {
+		const bits = await crypto.subtle.deriveBits(
+			{
+				name: 'HKDF',
+				hash: 'SHA-256',
+				salt: new Uint8Array(32),
+				info: new TextEncoder().encode('yourcloud-recovery-verifier')
+			},
+			await this.importRecoveryKey(recoveryKey),
+			256
+		);
+		return uint8ArrayToBase64(new Uint8Array(bits));
+	}
+
+	/** Encrypt the root chunk ID under the master key so a reset can find the old root. */
+	async encryptRootLocator(rootChunkId: string, masterKey: CryptoKey): Promise<string> {
+		return await this.encryptText(rootChunkId, masterKey);
+	}
+
+	/** Decrypt a root locator produced by encryptRootLocator. */
+	async decryptRootLocator(rootLocator: string, masterKey: CryptoKey): Promise<string> {
+		return await this.decryptText(rootLocator, masterKey);
+	}
+
+	/** Encrypt a string (master key unless a key is given); returns base64 of IV + ciphertext. */
+	async encryptText(text: string, key?: CryptoKey): Promise<string> {
+		const { encryptedData, iv } = await this.encryptData(
+			new TextEncoder().encode(text).buffer,
+			undefined,
+			key
+		);
+		const combined = new Uint8Array(iv.length + encryptedData.byteLength);
+		combined.set(iv);
+		combined.set(new Uint8Array(encryptedData), iv.length);
+		return uint8ArrayToBase64(combined);
+	}
+
+	/** Decrypt a string produced by encryptText. */
+	async decryptText(encoded: string, key?: CryptoKey): Promise<string> {
+		const combined = base64ToUint8Array(encoded);
+		const decrypted = await this.decryptData(combined.slice(12), combined.slice(0, 12), key);
+		return new TextDecoder().decode(decrypted);
+	}
+
+	/**
+	 * Wrap a file's data key under a fresh share key. The share key is stored by the server;
+	 * the wrapped data key only travels in the share link's fragment.
+	 */
+	async createShareKey(
+		dataKey: CryptoKey
+	): Promise<{ shareKey: string; wrappedDataKey: string }> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		const shareKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+			'wrapKey',
+			'unwrapKey'
+		]);
+		return {
+			shareKey: uint8ArrayToBase64(
+				new Uint8Array(await crypto.subtle.exportKey('raw', shareKey))
+			),
+			wrappedDataKey: await this.wrapWith(dataKey, shareKey)
+		};
+	}
+
+	/** Data key of a shared file from the link fragment and the server's share key. */
+	async unwrapShareKey(wrappedDataKey: string, shareKey: string): Promise<CryptoKey> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		const wrappingKey = await crypto.subtle.importKey(
+			'raw',
+			base64ToUint8Array(shareKey),
+			'AES-GCM',
+			false,
+			['unwrapKey']
+		);
+		try {
+			return await this.unwrapWith(wrappedDataKey, wrappingKey, false, ['decrypt']);
+		} catch {
+			throw new Error('The share link is incomplete or damaged');
+		}
+	}
+
+	/**
+	 * Generate the account's sharing key pair (ECDH P-256). The public key is published as
+	 * SPKI; the private key is encrypted under the master key so only the owner can open keys
+	 * sealed to it.
+	 */
+	async generateUserKeyPair(): Promise<{ publicKey: string; wrappedPrivateKey: string }> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		const keyPair = await crypto.subtle.generateKey(
+			{ name: 'ECDH', namedCurve: 'P-256' },
+			true,
+			['deriveBits']
+		);
+		const publicKey = await crypto.subtle.exportKey('spki', keyPair.publicKey);
+		const privateKey = await crypto.subtle.exportKey('pkcs8', keyPair.privateKey);
+		const { encryptedData, iv } = await this.encryptData(privateKey);
+
+		const combined = new Uint8Array(iv.length + encryptedData.byteLength);
+		combined.set(iv);
+		combined.set(new Uint8Array(encryptedData), iv.length);
+		return {
+			publicKey: uint8ArrayToBase64(new Uint8Array(publicKey)),
+			wrappedPrivateKey: uint8ArrayToBase64(combined)
+		};
+	}
+
+	/** Generate a random folder key: encrypts a shared folder's metadata and wraps its data keys. */
+	async generateFolderKey(): Promise<CryptoKey> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		// Extractable so the owner can seal it to new members
+		return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+			'encrypt',
+			'decrypt',
+			'wrapKey',
+			'unwrapKey'
+		]);
+	}
+
+	/**
+	 * Seal a folder key to a member's public key: an ephemeral ECDH key agreement yields the
+	 * wrapping key. Returns base64 of the ephemeral public key + IV + wrapped key.
+	 */
+	async sealKey(key: CryptoKey, publicKey: string): Promise<string> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		const recipientKey = await crypto.subtle.importKey(
+			'spki',
+			base64ToUint8Array(publicKey),
+			{ name: 'ECDH', namedCurve: 'P-256' },
+			false,
+			[]
+		);
+		const ephemeral = await crypto.subtle.generateKey(
+			{ name: 'ECDH', namedCurve: 'P-256' },
+			true,
+			['deriveBits']
+		);
+		const ephemeralPublic = new Uint8Array(
+			await crypto.subtle.exportKey('raw', ephemeral.publicKey)
+		);
+		const wrappingKey = await this.deriveSealingKey(ephemeral.privateKey, recipientKey);
+		const wrapped = base64ToUint8Array(await this.wrapWith(key, wrappingKey));
+
+		const combined = new Uint8Array(ephemeralPublic.length + wrapped.length);
+		combined.set(ephemeralPublic);
+		combined.set(wrapped, ephemeralPublic.length);
+		return uint8ArrayToBase64(combined);
+	}
+
+	/** Open a key produced by sealKey with the account's wrapped private key. */
+	async openSealedKey(sealedKey: string, wrappedPrivateKey: string): Promise<CryptoKey> {
 		if (!isPlatformBrowser(this.platformId)) {
 			throw new Error('Crypto operations not available on server');
 		}
 
+		try {
+			const encryptedPrivate = base64ToUint8Array(wrappedPrivateKey);
+			const privateKey = await crypto.subtle.importKey(
+				'pkcs8',
+				await this.decryptData(encryptedPrivate.slice(12), encryptedPrivate.slice(0, 12)),
+				{ name: 'ECDH', namedCurve: 'P-256' },
+				false,
+				['deriveBits']
+			);
+			const sealed = base64ToUint8Array(sealedKey);
+			const ephemeralPublic = await crypto.subtle.importKey(
+				'raw',
+				sealed.slice(0, 65),
+				{ name: 'ECDH', namedCurve: 'P-256' },
+				false,
+				[]
+			);
+			const wrappingKey = await this.deriveSealingKey(privateKey, ephemeralPublic);
+			return await this.unwrapWith(uint8ArrayToBase64(sealed.slice(65)), wrappingKey, true, [
+				'encrypt',
+				'decrypt',
+				'wrapKey',
+				'unwrapKey'
+			]);
+		} catch {
+			throw new Error('The shared folder key could not be opened');
+		}
+	}
+
+	/** AES-GCM wrapping key from an ECDH agreement, expanded with HKDF. */
+	private async deriveSealingKey(
+		privateKey: CryptoKey,
+		publicKey: CryptoKey
+	): Promise<CryptoKey> {
+		const secret = await crypto.subtle.deriveBits(
+			{ name: 'ECDH', public: publicKey },
+			privateKey,
+			256
+		);
+		return await crypto.subtle.deriveKey(
+			{
+				name: 'HKDF',
+				hash: 'SHA-256',
+				salt: new Uint8Array(32),
+				info: new TextEncoder().encode('yourcloud-folder-key')
+			},
+			await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']),
+			{ name: 'AES-GCM', length: 256 },
+			false,
+			['wrapKey', 'unwrapKey']
+		);
+	}
+
+	/** Import recovery key bytes (dashes, spaces and case are ignored) as HKDF input. */
+	private async importRecoveryKey(recoveryKey: string): Promise<CryptoKey> {
+		const normalized = recoveryKey.replace(/[\s-]/g, '');
+		let bytes: Uint8Array;
+		try {
+			bytes = base32ToUint8Array(normalized);
+		} catch {
+			throw new Error('Recovery key is not valid');
+		}
+		if (bytes.length !== 32) {
+			throw new Error('Recovery key is not valid');
+		}
+		return await crypto.subtle.importKey('raw', bytes, 'HKDF', false, [
+			'deriveKey',
+			'deriveBits'
+		]);
+	}
+
+	/** AES-GCM key that wraps the master key for recovery. */
+	private async deriveRecoveryWrappingKey(recoveryKey: string): Promise<CryptoKey> {
+		return await crypto.subtle.deriveKey(
+			{
+				name: 'HKDF',
+				hash: 'SHA-256',
+				salt: new Uint8Array(32),
+				info: new TextEncoder().encode('yourcloud-recovery-wrap')
+			},
+			await this.importRecoveryKey(recoveryKey),
+			{ name: 'AES-GCM', length: 256 },
+			false,
+			['wrapKey', 'unwrapKey']
+		);
+	}
+
+	/**
+	 * Password key from PBKDF2 or Argon2id (expanded with HKDF); without a wrapped master key
+	 * this is the master key.
+	 */
+	private async derivePasswordKey(
+		password: string,
+		salt: Uint8Array,
+		extractable: boolean,
+		kdfParams: KdfParams
+	): Promise<CryptoKey> {
+		if (kdfParams.algorithm === 'argon2id') {
+			return await crypto.subtle.deriveKey(
+				{
+					name: 'HKDF',
+					hash: 'SHA-256',
+					salt: new Uint8Array(32),
+					info: new TextEncoder().encode('yourcloud-password-key')
+				},
+				await this.deriveArgon2Key(password, salt, kdfParams),
+				{ name: 'AES-GCM', length: 256 },
+				extractable,
+				['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
+			);
+		}
+
 		const encoder = new TextEncoder();
 		const passwordBuffer = encoder.encode(password);
 
@@ -26,12 +489,12 @@ export class CryptoService {
 			'deriveKey'
 		]);
 
-		// Derive the master key using PBKDF2
-		const masterKey = await crypto.subtle.deriveKey(
+		// Derive the key using PBKDF2
+		return await crypto.subtle.deriveKey(
 			{
 				name: 'PBKDF2',
 				salt: salt,
-				iterations: 100000,
+				iterations: kdfParams.iterations,
 				hash: 'SHA-256'
 			},
 			baseKey,
@@ -39,13 +502,46 @@ export class CryptoService {
 				name: 'AES-GCM',
 				length: 256
 			},
-			false,
-			['encrypt', 'decrypt']
+			extractable,
+			['encrypt', 'decrypt', 'wrapKey', 'unwrapKey']
 		);
+	}
 
-		this.masterRecoveryKey = masterKey;
-		this.userSalt = salt;
-		return masterKey;
+	/** Argon2id hash of the password, imported as HKDF input for the password key and root ID. */
+	private async deriveArgon2Key(
+		password: string,
+		salt: Uint8Array,
+		kdfParams: KdfParams
+	): Promise<CryptoKey> {
+		const id = uint8ArrayToBase64(
+			new Uint8Array(
+				await crypto.subtle.digest(
+					'SHA-256',
+					new TextEncoder().encode(
+						JSON.stringify([password, uint8ArrayToBase64(salt), kdfParams])
+					)
+				)
+			)
+		);
+		if (this.argon2Cache?.id === id) {
+			return this.argon2Cache.key;
+		}
+
+		const hash = await argon2id({
+			password,
+			salt,
+			iterations: kdfParams.iterations,
+			memorySize: kdfParams.memory_kib!,
+			parallelism: kdfParams.parallelism!,
+			hashLength: 32,
+			outputType: 'binary'
+		});
+		const key = await crypto.subtle.importKey('raw', hash, 'HKDF', false, [
+			'deriveKey',
+			'deriveBits'
+		]);
+		this.argon2Cache = { id, key };
+		return key;
 	}
 
 	/** Generate cryptographically secure 32-byte salt. */
@@ -79,20 +575,41 @@ export class CryptoService {
 		return this.masterRecoveryKey !== null;
 	}
 
-	/** Deterministically derive root directory chunk UUID. */
-	async getRootChunk(password: string): Promise<string> {
+	/**
+	 * Deterministically derive root directory chunk UUID (for the cached salt and KDF
+	 * parameters by default).
+	 */
+	async getRootChunk(
+		password: string,
+		salt: Uint8Array | null = this.userSalt,
+		kdfParams: KdfParams = this.kdfParams
+	): Promise<string> {
 		if (!isPlatformBrowser(this.platformId)) {
 			throw new Error('Crypto operations not available on server');
 		}
 
-		if (!this.userSalt) {
+		if (!salt) {
 			throw new Error('User salt not available - ensure master key is derived first');
 		}
 
+		if (kdfParams.algorithm === 'argon2id') {
+			const bits = await crypto.subtle.deriveBits(
+				{
+					name: 'HKDF',
+					hash: 'SHA-256',
+					salt: new Uint8Array(32),
+					info: new TextEncoder().encode('yourcloud-root-chunk')
+				},
+				await this.deriveArgon2Key(password, salt, kdfParams),
+				256
+			);
+			return await this.hashToUUID(bits);
+		}
+
 		const encoder = new TextEncoder();
 		const passwordBuffer = encoder.encode(password);
 
-		const saltBuffer = this.userSalt;
+		const saltBuffer = salt;
 
 		const baseKey = await crypto.subtle.importKey('raw', passwordBuffer, 'PBKDF2', false, [
 			'deriveKey'
@@ -103,7 +620,7 @@ export class CryptoService {
 			{
 				name: 'PBKDF2',
 				salt: saltBuffer,
-				iterations: 10000, // Lower iterations for chunk ID derivation
+				iterations: kdfParams.root_iterations ?? 10000, // Lower iterations for chunk ID derivation
 				hash: 'SHA-256'
 			},
 			baseKey,
@@ -117,7 +634,21 @@ export class CryptoService {
 
 		// Export the key and use it to generate a deterministic chunk ID
 		const keyBuffer = await crypto.subtle.exportKey('raw', derivedKey);
-		const hash = await crypto.subtle.digest('SHA-256', keyBuffer);
+		return await this.hashToUUID(keyBuffer);
+	}
+
+	/** Deterministically derive a chunk UUID from a seed string (e.g. journal ids). */
+	async deriveChunkId(seed: string): Promise<string> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		return await this.hashToUUID(new TextEncoder().encode(seed));
+	}
+
+	/** SHA-256 the input and format the first 16 bytes as a UUID v4. */
+	private async hashToUUID(data: BufferSource): Promise<string> {
+		const hash = await crypto.subtle.digest('SHA-256', data);
 
 		const hashArray = new Uint8Array(hash);
 
@@ -139,16 +670,19 @@ export class CryptoService {
 		return uuid;
 	}
 
-	/** Encrypt data with AES-GCM returning ciphertext + IV. */
+	/** Encrypt data with AES-GCM (master key unless a data key is given, optional associated data) returning ciphertext + IV. */
 	async encryptData(
 		data: ArrayBuffer,
-		iv?: Uint8Array
+		iv?: Uint8Array,
+		key?: CryptoKey,
+		additionalData?: BufferSource
 	): Promise<{ encryptedData: ArrayBuffer; iv: Uint8Array }> {
 		if (!isPlatformBrowser(this.platformId)) {
 			throw new Error('Crypto operations not available on server');
 		}
 
-		if (!this.masterRecoveryKey) {
+		const encryptionKey = key || this.masterRecoveryKey;
+		if (!encryptionKey) {
 			throw new Error('Encryption key does not exist');
 		}
 
@@ -159,40 +693,196 @@ export class CryptoService {
 		const encryptedData = await crypto.subtle.encrypt(
 			{
 				name: 'AES-GCM',
-				iv: iv
+				iv: iv,
+				...(additionalData ? { additionalData } : {})
 			},
-			this.masterRecoveryKey,
+			encryptionKey,
 			data
 		);
 
 		return { encryptedData, iv };
 	}
 
-	/** Decrypt AES-GCM ciphertext. */
-	async decryptData(encryptedData: ArrayBuffer, iv: Uint8Array): Promise<ArrayBuffer> {
+	/** Decrypt AES-GCM ciphertext (master key unless a data key is given); associated data must match. */
+	async decryptData(
+		encryptedData: BufferSource,
+		iv: Uint8Array,
+		key?: CryptoKey,
+		additionalData?: BufferSource
+	): Promise<ArrayBuffer> {
 		if (!isPlatformBrowser(this.platformId)) {
 			throw new Error('Crypto operations not available on server');
 		}
 
-		if (!this.masterRecoveryKey) {
+		const decryptionKey = key || this.masterRecoveryKey;
+		if (!decryptionKey) {
 			throw new Error('Decryption key does not exist');
 		}
 
 		const decryptedData = await crypto.subtle.decrypt(
 			{
 				name: 'AES-GCM',
-				iv: iv
+				iv: iv,
+				...(additionalData ? { additionalData } : {})
 			},
-			this.masterRecoveryKey,
+			decryptionKey,
 			encryptedData
 		);
 
 		return decryptedData;
 	}
 
+	/** Generate a random AES-GCM data key for one file's chunks. */
+	async generateDataKey(): Promise<CryptoKey> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		// Extractable so it can be wrapped for storage
+		return await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+			'encrypt',
+			'decrypt'
+		]);
+	}
+
+	/**
+	 * Wrap a data key with the master key (or a shared folder's key); returns base64 of IV +
+	 * wrapped key.
+	 */
+	async wrapDataKey(dataKey: CryptoKey, wrappingKey?: CryptoKey): Promise<string> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		const encryptionKey = wrappingKey || this.masterRecoveryKey;
+		if (!encryptionKey) {
+			throw new Error('Encryption key does not exist');
+		}
+
+		return await this.wrapWith(dataKey, encryptionKey);
+	}
+
+	/** Unwrap a data key produced by wrapDataKey. */
+	async unwrapDataKey(wrappedKey: string, wrappingKey?: CryptoKey): Promise<CryptoKey> {
+		if (!isPlatformBrowser(this.platformId)) {
+			throw new Error('Crypto operations not available on server');
+		}
+
+		const decryptionKey = wrappingKey || this.masterRecoveryKey;
+		if (!decryptionKey) {
+			throw new Error('Decryption key does not exist');
+		}
+
+		return await this.unwrapWith(wrappedKey, decryptionKey, true, ['encrypt', 'decrypt']);
+	}
+
+	/** Random secret that keys the content hashes of one deduplication index (base64). */
+	generateHashKey(): string {
+		return uint8ArrayToBase64(crypto.getRandomValues(new Uint8Array(32)));
+	}
+
+	/**
+	 * Keyed content hash of a chunk (HMAC-SHA256, base64). Equal content only hashes alike under
+	 * the same hash key, so the hashes reveal nothing to anyone without it.
+	 */
+	async hashChunk(data: BufferSource, hashKey: string): Promise<string> {
+		const signature = await crypto.subtle.sign('HMAC', await this.importHashKey(hashKey), data);
+		return uint8ArrayToBase64(new Uint8Array(signature));
+	}
+
+	/** Raw AES key for a chunk, derived from its content hash so duplicates share a ciphertext. */
+	async deriveChunkKey(contentHash: string, hashKey: string): Promise<Uint8Array> {
+		const signature = await crypto.subtle.sign(
+			'HMAC',
+			await this.importHashKey(hashKey),
+			new TextEncoder().encode(`yourcloud-chunk-key:${contentHash}`)
+		);
+		return new Uint8Array(signature);
+	}
+
+	/** Encrypt raw chunk keys together under a file's data key; base64 of IV + ciphertext. */
+	async sealChunkKeys(chunkKeys: Uint8Array[], dataKey: CryptoKey): Promise<string> {
+		const combinedKeys = new Uint8Array(chunkKeys.length * 32);
+		chunkKeys.forEach((key, index) => combinedKeys.set(key, index * 32));
+
+		const { encryptedData, iv } = await this.encryptData(combinedKeys, undefined, dataKey);
+		const combined = new Uint8Array(iv.length + encryptedData.byteLength);
+		combined.set(iv);
+		combined.set(new Uint8Array(encryptedData), iv.length);
+		return uint8ArrayToBase64(combined);
+	}
+
+	/** Open sealChunkKeys output into one AES-GCM key per chunk. */
+	async openChunkKeys(sealedKeys: string, dataKey: CryptoKey): Promise<CryptoKey[]> {
+		const combined = base64ToUint8Array(sealedKeys);
+		const combinedKeys = new Uint8Array(
+			await this.decryptData(combined.slice(12), combined.slice(0, 12), dataKey)
+		);
+
+		const keys: Promise<CryptoKey>[] = [];
+		for (let offset = 0; offset < combinedKeys.length; offset += 32) {
+			keys.push(this.importChunkKey(combinedKeys.slice(offset, offset + 32)));
+		}
+		return await Promise.all(keys);
+	}
+
+	/** Import a chunk's raw key for encryption. */
+	async importChunkKey(chunkKey: Uint8Array): Promise<CryptoKey> {
+		return await crypto.subtle.importKey('raw', chunkKey, { name: 'AES-GCM' }, false, [
+			'encrypt',
+			'decrypt'
+		]);
+	}
+
+	/** HMAC key for hashChunk and deriveChunkKey. */
+	private async importHashKey(hashKey: string): Promise<CryptoKey> {
+		return await crypto.subtle.importKey(
+			'raw',
+			base64ToUint8Array(hashKey),
+			{ name: 'HMAC', hash: 'SHA-256' },
+			false,
+			['sign']
+		);
+	}
+
+	/** Wrap a raw AES key with AES-GCM; returns base64 of IV + wrapped key. */
+	private async wrapWith(key: CryptoKey, wrappingKey: CryptoKey): Promise<string> {
+		const iv = crypto.getRandomValues(new Uint8Array(12));
+		const wrapped = await crypto.subtle.wrapKey('raw', key, wrappingKey, {
+			name: 'AES-GCM',
+			iv
+		});
+
+		const combined = new Uint8Array(iv.length + wrapped.byteLength);
+		combined.set(iv);
+		combined.set(new Uint8Array(wrapped), iv.length);
+		return uint8ArrayToBase64(combined);
+	}
+
+	/** Unwrap an AES-GCM key produced by wrapWith. */
+	private async unwrapWith(
+		wrappedKey: string,
+		wrappingKey: CryptoKey,
+		extractable: boolean,
+		usages: KeyUsage[]
+	): Promise<CryptoKey> {
+		const combined = base64ToUint8Array(wrappedKey);
+		return await crypto.subtle.unwrapKey(
+			'raw',
+			combined.slice(12),
+			wrappingKey,
+			{ name: 'AES-GCM', iv: combined.slice(0, 12) },
+			{ name: 'AES-GCM', length: 256 },
+			extractable,
+			usages
+		);
+	}
+
 	/** Clear cryptographic material from memory. */
 	clearKeys(): void {
 		this.masterRecoveryKey = null;
 		this.userSalt = null;
+		this.kdfParams = LEGACY_KDF_PARAMS;
+		this.argon2Cache = null;
 	}
 }
@@ -16,6 +16,8 @@ class AuthServiceStub {
 class RouterStub {
 	navigate() {}
 }
+class FileServiceStub {}
+class SharedFolderServiceStub {}
 class SessionHandlerServiceStub {
 	checkAndHandleSessionError() {
 		return false;
@@ -30,6 +32,8 @@ describe('DashboardComponent (unit)', () => {
 			new AuthServiceStub() as any,
 			new RouterStub() as any,
 			new SessionHandlerServiceStub() as any,
+			new FileServiceStub() as any,
+			new SharedFolderServiceStub() as any,
 			'browser' as any
 		);
 		expect(comp).toBeTruthy();
@@ -5,6 +5,8 @@ import { Router } from '@angular/router';
 import { NodeService, StorageNode } from '../node.service';
 import { AuthService } from '../auth.service';
 import { SessionHandlerService } from '../session-handler.service';
+import { FileService, OrphanReport } from '../file.service';
+import { SharedFolder, SharedFolderMember, SharedFolderService } from '../shared-folder.service';
 import { CommonModule, isPlatformBrowser } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import {
@@ -15,12 +17,14 @@ import {
 	createConfirmationState,
 	clearConfirmationState
 } from '../utils/component-utils';
-import { validateNodeName } from '../utils/node-utils';
+import { validateNodeName, formatBytes } from '../utils/node-utils';
+import { validatePasswordStrength } from '../utils/validation-utils';
+import { RecoveryKeyComponent } from '../utils/recovery-key.component';
 
 @Component({
 	selector: 'app-dashboard',
 	standalone: true,
-	imports: [CommonModule, FormsModule],
+	imports: [CommonModule, FormsModule, RecoveryKeyComponent],
 	templateUrl: './dashboard.component.html'
 })
 /** User dashboard: manage storage nodes, status polling, and navigation. */
@@ -46,6 +50,51 @@ export class DashboardComponent implements OnInit {
 	// Custom confirmation popup
 	confirmationState: ConfirmationState = clearConfirmationState();
 
+	// Orphaned chunk cleanup popup (dry-run report before deleting)
+	showCleanupPopup: boolean = false;
+	cleanupNode: StorageNode | null = null;
+	cleanupReport: OrphanReport | null = null;
+	cleanupLoading: boolean = false;
+	cleanupMessage: string = '';
+
+	// Password change popup (master key is re-wrapped, then each node's root is moved)
+	showPasswordPopup: boolean = false;
+	currentPassword: string = '';
+	newPassword: string = '';
+	confirmNewPassword: string = '';
+	passwordMessage: string = '';
+	passwordBusy: boolean = false;
+	migrationProgress: { completed: number; total: number } | null = null;
+	pendingMigrationNodes: string[] = []; // nodes whose root has not been moved yet
+
+	// Recovery key popup (a new key replaces the previous one)
+	showRecoveryPopup: boolean = false;
+	recoveryKeyConfigured: boolean = true; // assume configured until checked, to avoid a banner flash
+	recoveryKey: string = '';
+	recoveryMessage: string = '';
+	recoveryBusy: boolean = false;
+
+	// Shared folders the user owns or was granted
+	sharedFolders: SharedFolder[] = [];
+	sharedFoldersLoading: boolean = false;
+
+	// New shared folder popup
+	showSharedFolderPopup: boolean = false;
+	sharedFolderName: string = '';
+	sharedFolderNodeId: string = '';
+	sharedFolderMessage: string = '';
+	sharedFolderBusy: boolean = false;
+
+	// Members popup (owners grant and revoke access)
+	showMembersPopup: boolean = false;
+	membersFolder: SharedFolder | null = null;
+	memberEmail: string = '';
+	memberRole: 'read' | 'write' = 'read';
+	membersMessage: string = '';
+	membersBusy: boolean = false;
+
+	public formatBytes = formatBytes;
+
 	userStorageNodes: StorageNode[] = [];
 	private userStorageNodesSub: any;
 	private statusUpdateInterval: any;
@@ -56,6 +105,8 @@ export class DashboardComponent implements OnInit {
 		private authService: AuthService,
 		private router: Router,
 		private sessionHandler: SessionHandlerService,
+		private fileService: FileService,
+		private sharedFolderService: SharedFolderService,
 		@Inject(PLATFORM_ID) private platformId: Object
 	) {}
 
@@ -67,6 +118,9 @@ export class DashboardComponent implements OnInit {
 			});
 			this.refreshStorageNodes();
 			this.startStatusUpdateInterval();
+			this.checkRootMigration();
+			this.checkRecoveryKey();
+			this.loadSharedFolders();
 		}
 	}
 
@@ -315,6 +369,409 @@ export class DashboardComponent implements OnInit {
 		}
 	}
 
+	/** Scan a node for chunks no directory references (dry run, nothing is deleted). */
+	async startNodeCleanup(node: StorageNode) {
+		this.showCleanupPopup = true;
+		this.cleanupNode = node;
+		this.cleanupReport = null;
+		this.cleanupMessage = '';
+		this.cleanupLoading = true;
+
+		try {
+			const password = await this.authService.getUserPassword();
+			if (!password) {
+				this.sessionHandler.handleSessionExpired();
+				return;
+			}
+
+			const result = await this.fileService.initializePage(password, node.node_id);
+			if (!result.success) {
+				throw new Error(result.message || 'Failed to read the file tree on this node.');
+			}
+
+			this.cleanupReport = await this.fileService.scanOrphanedChunks();
+		} catch (error: any) {
+			if (this.sessionHandler.checkAndHandleSessionError(error)) {
+				return;
+			}
+			this.cleanupMessage = error.message || 'Failed to scan node for orphaned chunks.';
+		} finally {
+			this.cleanupLoading = false;
+		}
+	}
+
+	/** Delete the orphaned chunks from the current report. */
+	async confirmNodeCleanup() {
+		const report = this.cleanupReport;
+		if (!report || report.orphanedChunks.length === 0) {
+			return;
+		}
+
+		this.cleanupLoading = true;
+		try {
+			const result = await this.fileService.deleteOrphanedChunks(report.orphanedChunks);
+			const details = [
+				result.failed > 0 ? `${result.failed} failed` : '',
+				result.skipped > 0 ? `${result.skipped} now in use and kept` : ''
+			].filter(Boolean);
+			this.cleanupMessage =
+				`Deleted ${result.deleted} orphaned chunk(s)` +
+				(details.length > 0 ? ` (${details.join(', ')})` : '');
+			this.cleanupReport = null;
+
+			if (this.cleanupNode) {
+				await this.nodeService.updateNodeStatus(this.cleanupNode.node_id);
+			}
+		} catch (error: any) {
+			if (this.sessionHandler.checkAndHandleSessionError(error)) {
+				return;
+			}
+			this.cleanupMessage = error.message || 'Failed to delete orphaned chunks.';
+		} finally {
+			this.cleanupLoading = false;
+		}
+	}
+
+	/** Close cleanup popup. */
+	hideCleanupPopup() {
+		this.showCleanupPopup = false;
+		this.cleanupNode = null;
+		this.cleanupReport = null;
+		this.cleanupMessage = '';
+	}
+
+	/** Open password change popup. */
+	showPasswordChangePopup() {
+		this.showPasswordPopup = true;
+		this.currentPassword = '';
+		this.newPassword = '';
+		this.confirmNewPassword = '';
+		this.passwordMessage = '';
+		this.migrationProgress = null;
+		this.isMenuOpen = false;
+	}
+
+	/** Close password change popup (kept open while files are being moved). */
+	hidePasswordChangePopup() {
+		if (this.passwordBusy) {
+			return;
+		}
+		this.showPasswordPopup = false;
+		this.currentPassword = '';
+		this.newPassword = '';
+		this.confirmNewPassword = '';
+		this.passwordMessage = '';
+		this.migrationProgress = null;
+	}
+
+	/** Change the password, then move the root directory on every node. */
+	async changePassword() {
+		if (this.pendingMigrationNodes.length > 0) {
+			this.passwordMessage = 'Finish moving your files from the last password change first.';
+			return;
+		}
+		const validation = validatePasswordStrength(this.newPassword);
+		if (!validation.isValid) {
+			this.passwordMessage = validation.message || 'Please enter a valid password';
+			return;
+		}
+		if (this.newPassword !== this.confirmNewPassword) {
+			this.passwordMessage = 'Passwords do not match';
+			return;
+		}
+		if (this.newPassword === this.currentPassword) {
+			this.passwordMessage = 'New password must differ from the current password';
+			return;
+		}
+
+		this.passwordBusy = true;
+		this.passwordMessage = 'Changing password...';
+		try {
+			await this.authService.changePassword(this.currentPassword, this.newPassword);
+		} catch (error: any) {
+			this.passwordBusy = false;
+			if (this.sessionHandler.checkAndHandleSessionError(error)) {
+				return;
+			}
+			this.passwordMessage =
+				error.error?.message || error.message || 'Failed to change password.';
+			return;
+		}
+
+		this.currentPassword = '';
+		this.newPassword = '';
+		this.confirmNewPassword = '';
+		await this.resumeRootMigration();
+	}
+
+	/** Move node roots still pending after a password change (also resumes an interrupted run). */
+	async resumeRootMigration() {
+		this.passwordBusy = true;
+		this.passwordMessage = 'Moving files to the new password...';
+		try {
+			const password = await this.authService.getUserPassword();
+			if (!password) {
+				this.sessionHandler.handleSessionExpired();
+				return;
+			}
+
+			const result = await this.fileService.resumeRootMigration(
+				password,
+				(completed, total) => (this.migrationProgress = { completed, total })
+			);
+			this.pendingMigrationNodes = result.pendingNodes;
+			this.passwordMessage = result.success
+				? 'Password changed. Your files are available under the new password.'
+				: `${result.message}. Bring the remaining nodes online and resume.`;
+		} finally {
+			this.passwordBusy = false;
+		}
+	}
+
+	/** Open the password popup to resume a pending root migration. */
+	showResumeMigrationPopup() {
+		this.showPasswordChangePopup();
+		this.resumeRootMigration();
+	}
+
+	/** Look for nodes left behind by an earlier password change. */
+	private async checkRootMigration() {
+		try {
+			const migration = await this.fileService.getRootMigration();
+			this.pendingMigrationNodes = migration?.pending_nodes ?? [];
+		} catch (error) {
+			console.warn('Failed to check for a pending password change:', error);
+		}
+	}
+
+	/** Open recovery key popup. */
+	showRecoveryKeyPopup() {
+		this.showRecoveryPopup = true;
+		this.recoveryKey = '';
+		this.recoveryMessage = '';
+		this.isMenuOpen = false;
+	}
+
+	/** Close recovery key popup (the key is not shown again). */
+	hideRecoveryKeyPopup() {
+		if (this.recoveryBusy) {
+			return;
+		}
+		this.showRecoveryPopup = false;
+		this.recoveryKey = '';
+		this.recoveryMessage = '';
+	}
+
+	/** Create a recovery key, replacing any previous one. */
+	async createRecoveryKey() {
+		this.recoveryBusy = true;
+		this.recoveryMessage = '';
+		try {
+			this.recoveryKey = await this.authService.createRecoveryKey();
+			this.recoveryKeyConfigured = true;
+		} catch (error: any) {
+			if (this.sessionHandler.checkAndHandleSessionError(error)) {
+				return;
+			}
+			this.recoveryMessage =
+				error.error?.message || error.message || 'Failed to create a recovery key.';
+		} finally {
+			this.recoveryBusy = false;
+		}
+	}
+
+	/** Check whether a recovery key has been set up for this account. */
+	private async checkRecoveryKey() {
+		try {
+			this.recoveryKeyConfigured = await this.authService.hasRecoveryKey();
+		} catch (error) {
+			console.warn('Failed to check for a recovery key:', error);
+		}
+	}
+
+	/** Open the new shared folder popup. */
+	showCreateSharedFolderPopup() {
+		this.showSharedFolderPopup = true;
+		this.sharedFolderName = '';
+		this.sharedFolderNodeId = this.userStorageNodes[0]?.node_id || '';
+		this.sharedFolderMessage = '';
+	}
+
+	/** Close the new shared folder popup. */
+	hideCreateSharedFolderPopup() {
+		if (this.sharedFolderBusy) {
+			return;
+		}
+		this.showSharedFolderPopup = false;
+	}
+
+	/** Create a shared folder on the chosen node. */
+	async createSharedFolder() {
+		const name = this.sharedFolderName.trim();
+		if (!name || !this.sharedFolderNodeId) {
+			this.sharedFolderMessage = 'Enter a name and choose a node';
+			return;
+		}
+
+		this.sharedFolderBusy = true;
+		try {
+			const result = await this.sharedFolderService.createFolder(
+				this.sharedFolderNodeId,
+				name
+			);
+			if (!result.success) {
+				this.sharedFolderMessage = result.message || 'Failed to create shared folder.';
+				return;
+			}
+			this.showSharedFolderPopup = false;
+			await this.loadSharedFolders();
+		} finally {
+			this.sharedFolderBusy = false;
+		}
+	}
+
+	/** Browse a shared folder. */
+	openSharedFolder(folder: SharedFolder) {
+		if (!folder.key) {
+			this.messageState = setErrorMessage(
+				this.messageState,
+				'The key of this shared folder could not be opened.'
+			);
+			return;
+		}
+		this.router.navigate(['/file-browser', folder.nodeId], {
+			queryParams: { folder: folder.folderId, nodeName: folder.name }
+		});
+	}
+
+	/** Open the members popup of a folder the user owns. */
+	showSharedFolderMembers(folder: SharedFolder) {
+		this.showMembersPopup = true;
+		this.membersFolder = folder;
+		this.memberEmail = '';
+		this.memberRole = 'read';
+		this.membersMessage = '';
+	}
+
+	/** Close the members popup. */
+	hideMembersPopup() {
+		if (this.membersBusy) {
+			return;
+		}
+		this.showMembersPopup = false;
+		this.membersFolder = null;
+	}
+
+	/** Grant (or change) access for the entered email. */
+	async grantFolderAccess() {
+		const folder = this.membersFolder;
+		const email = this.memberEmail.trim();
+		if (!folder || !email) {
+			return;
+		}
+
+		this.membersBusy = true;
+		try {
+			const result = await this.sharedFolderService.grantAccess(
+				folder,
+				email,
+				this.memberRole
+			);
+			if (!result.success) {
+				this.membersMessage = result.message || 'Failed to grant access.';
+				return;
+			}
+			folder.members = [
+				...(folder.members || []).filter(member => member.userId !== result.member!.userId),
+				result.member!
+			];
+			this.memberEmail = '';
+			this.membersMessage = `${result.member!.name} can now ${
+				result.member!.role === 'write' ? 'edit' : 'view'
+			} this folder.`;
+		} finally {
+			this.membersBusy = false;
+		}
+	}
+
+	/** Prompt and revoke a member's access. */
+	revokeFolderAccess(member: SharedFolderMember) {
+		const folder = this.membersFolder;
+		if (!folder) {
+			return;
+		}
+		this.showConfirmation(
+			'Revoke Access',
+			`${member.name} (${member.email}) will no longer be able to open "${folder.name}". Files they already downloaded stay with them.`,
+			async () => {
+				const result = await this.sharedFolderService.revokeAccess(folder, member.userId);
+				if (!result.success) {
+					this.membersMessage = result.message || 'Failed to revoke access.';
+					return;
+				}
+				folder.members = folder.members?.filter(entry => entry.userId !== member.userId);
+			}
+		);
+	}
+
+	/** Prompt and leave a folder shared with the user. */
+	leaveSharedFolder(folder: SharedFolder) {
+		this.showConfirmation(
+			'Leave Shared Folder',
+			`You will lose access to "${folder.name}" until ${folder.ownerName} shares it again.`,
+			async () => {
+				await this.applySharedFolderRemoval(
+					await this.sharedFolderService.leaveFolder(folder)
+				);
+			}
+		);
+	}
+
+	/** Prompt and stop sharing a folder the user owns. */
+	deleteSharedFolder(folder: SharedFolder) {
+		this.showConfirmation(
+			'Delete Shared Folder',
+			`"${folder.name}" and its files will no longer be reachable by anyone. Their chunks are removed by the next cleanup of the node.`,
+			async () => {
+				await this.applySharedFolderRemoval(
+					await this.sharedFolderService.deleteFolder(folder)
+				);
+			}
+		);
+	}
+
+	/** Reload the folder list after leaving or deleting one, or show why it failed. */
+	private async applySharedFolderRemoval(result: { success: boolean; message?: string }) {
+		if (!result.success) {
+			this.messageState = setErrorMessage(
+				this.messageState,
+				result.message || 'Failed to update shared folders.'
+			);
+			return;
+		}
+		await this.loadSharedFolders();
+	}
+
+	/** Load the shared folders the user owns or was granted. */
+	private async loadSharedFolders() {
+		this.sharedFoldersLoading = true;
+		try {
+			this.sharedFolders = await this.sharedFolderService.listFolders();
+		} catch (error: any) {
+			if (this.sessionHandler.checkAndHandleSessionError(error)) {
+				return;
+			}
+			console.warn('Failed to load shared folders:', error);
+		} finally {
+			this.sharedFoldersLoading = false;
+		}
+	}
+
+	/** Display name for a node id. */
+	getNodeName(nodeId: string): string {
+		return this.userStorageNodes.find(node => node.node_id === nodeId)?.node_name || nodeId;
+	}
+
 	/** Logout with confirmation. */
 	logout() {
 		// Show custom confirmation dialog
@@ -0,0 +1,106 @@
+// File: src/app/directory-cache.service.spec.ts - Tests DirectoryCacheService encryption, keys and fallbacks
+import { TestBed } from '@angular/core/testing';
+import { PLATFORM_ID } from '@angular/core';
+import { DirectoryCacheService } from './directory-cache.service';
+import { SessionStorageService } from './session-storage.service';
+
+const generateSessionKey = () =>
+	crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+describe('DirectoryCacheService', () => {
+	// Suite: entry identity and no-op behaviour without IndexedDB
+	it('keys entries by node and directory chunk', () => {
+		expect(DirectoryCacheService.getEntryId('node', 'dir')).toBe('node:dir');
+	});
+
+	it('does nothing outside the browser', async () => {
+		TestBed.configureTestingModule({
+			providers: [DirectoryCacheService, { provide: PLATFORM_ID, useValue: 'server' }]
+		});
+		const service = TestBed.inject(DirectoryCacheService);
+
+		await service.saveDirectory('node', 'dir', 1, '{"contents":[]}');
+
+		expect(await service.getDirectory('node', 'dir')).toBeNull();
+		await expect(service.clear()).resolves.toBeUndefined();
+	});
+
+	describe('with a store', () => {
+		// Suite: an in-memory object store stands in for IndexedDB
+		let records: Map<string, any>;
+		let sessionKey: CryptoKey | null;
+		let service: DirectoryCacheService;
+
+		beforeEach(async () => {
+			records = new Map();
+			sessionKey = await generateSessionKey();
+			const sessionStorage = { getSessionKey: async () => sessionKey };
+			service = new DirectoryCacheService(
+				'browser',
+				sessionStorage as unknown as SessionStorageService
+			);
+
+			const store = {
+				get: (id: string) => records.get(id),
+				put: (entry: any) => records.set(entry.id, entry),
+				delete: (id: string) => records.delete(id),
+				clear: () => records.clear()
+			};
+			vi.spyOn(service as any, 'isAvailable').mockReturnValue(true);
+			vi.spyOn(service as any, 'runRequest').mockImplementation(async (...args: any[]) =>
+				args[1](store)
+			);
+		});
+
+		it('restores a saved directory and stores it encrypted', async () => {
+			await service.saveDirectory('node', 'dir', 3, '{"name":"Photos"}');
+
+			expect(await service.getDirectory('node', 'dir')).toEqual({
+				revision: 3,
+				data: '{"name":"Photos"}'
+			});
+			const stored = new TextDecoder().decode(records.get('node:dir').data);
+			expect(stored).not.toContain('Photos');
+		});
+
+		it('drops entries written under another session key', async () => {
+			await service.saveDirectory('node', 'dir', 1, '{"contents":[]}');
+			sessionKey = await generateSessionKey();
+
+			expect(await service.getDirectory('node', 'dir')).toBeNull();
+			expect(records.has('node:dir')).toBe(false);
+		});
+
+		it('refuses an entry moved to another node or chunk', async () => {
+			await service.saveDirectory('node', 'dir', 1, '{"contents":[]}');
+			const entry = records.get('node:dir');
+			records.set('node:other', { ...entry, id: 'node:other', chunkId: 'other' });
+			records.set('node-b:dir', { ...entry, id: 'node-b:dir', nodeId: 'node-b' });
+
+			expect(await service.getDirectory('node', 'other')).toBeNull();
+			expect(await service.getDirectory('node-b', 'dir')).toBeNull();
+			expect(await service.getDirectory('node', 'dir')).not.toBeNull();
+		});
+
+		it('forgets removed entries and everything on clear', async () => {
+			await service.saveDirectory('node', 'a', 1, '{"contents":[]}');
+			await service.saveDirectory('node', 'b', 1, '{"contents":[]}');
+
+			await service.removeDirectory('node', 'a');
+			expect(await service.getDirectory('node', 'a')).toBeNull();
+			expect(await service.getDirectory('node', 'b')).not.toBeNull();
+
+			await service.clear();
+			expect(await service.getDirectory('node', 'b')).toBeNull();
+		});
+
+		it('skips the cache without a session key', async () => {
+			sessionKey = null;
+
+			await service.saveDirectory('node', 'dir', 1, '{"contents":[]}');
+
+			expect(records.size).toBe(0);
+			expect(await service.getDirectory('node', 'dir')).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,168 @@
+// File: src/app/directory-cache.service.ts - IndexedDB cache of decrypted directories under the session key.
+
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { SessionStorageService } from './session-storage.service';
+
+export interface CachedDirectory {
+	revision: number; // directory revision the data was read or written at
+	data: string; // directory JSON
+}
+
+interface DirectoryCacheEntry {
+	id: string; // nodeId:chunkId
+	nodeId: string;
+	chunkId: string;
+	revision: number;
+	iv: Uint8Array;
+	data: ArrayBuffer; // AES-GCM under the session key, bound to id
+	cachedAt: string;
+}
+
+@Injectable({
+	providedIn: 'root'
+})
+/**
+ * Local copies of directory listings for instant navigation and offline browsing. Entries are
+ * encrypted with the session key, so they stop opening once the session ends.
+ */
+export class DirectoryCacheService {
+	private readonly DB_NAME = 'yourcloud-directories';
+	private readonly STORE_NAME = 'directories';
+	private dbPromise: Promise<IDBDatabase> | null = null;
+
+	constructor(
+		@Inject(PLATFORM_ID) private platformId: Object,
+		private sessionStorage: SessionStorageService
+	) {}
+
+	/** Cache key for one directory chunk on one node. */
+	static getEntryId(nodeId: string, chunkId: string): string {
+		return `${nodeId}:${chunkId}`;
+	}
+
+	private isAvailable(): boolean {
+		return isPlatformBrowser(this.platformId) && typeof indexedDB !== 'undefined';
+	}
+
+	private openDatabase(): Promise<IDBDatabase> {
+		if (!this.dbPromise) {
+			this.dbPromise = new Promise((resolve, reject) => {
+				const request = indexedDB.open(this.DB_NAME, 1);
+				request.onupgradeneeded = () => {
+					request.result.createObjectStore(this.STORE_NAME, { keyPath: 'id' });
+				};
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => {
+					this.dbPromise = null;
+					reject(request.error);
+				};
+			});
+		}
+		return this.dbPromise;
+	}
+
+	private async runRequest<T>(
+		mode: IDBTransactionMode,
+		operation: (store: IDBObjectStore) => IDBRequest
+	): Promise<T> {
+		const db = await this.openDatabase();
+		return new Promise((resolve, reject) => {
+			const request = operation(
+				db.transaction(this.STORE_NAME, mode).objectStore(this.STORE_NAME)
+			);
+			request.onsuccess = () => resolve(request.result as T);
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	/** Cached directory, or null if missing or written in an earlier session. */
+	async getDirectory(nodeId: string, chunkId: string): Promise<CachedDirectory | null> {
+		if (!this.isAvailable()) return null;
+
+		const id = DirectoryCacheService.getEntryId(nodeId, chunkId);
+		let entry: DirectoryCacheEntry | undefined;
+		try {
+			entry = await this.runRequest<DirectoryCacheEntry | undefined>('readonly', store =>
+				store.get(id)
+			);
+		} catch (error) {
+			console.warn('Failed to read directory cache:', error);
+			return null;
+		}
+		if (!entry) return null;
+
+		try {
+			const key = await this.sessionStorage.getSessionKey();
+			if (!key) return null;
+			const data = await crypto.subtle.decrypt(
+				{ name: 'AES-GCM', iv: entry.iv, additionalData: new TextEncoder().encode(id) },
+				key,
+				entry.data
+			);
+			return { revision: entry.revision, data: new TextDecoder().decode(data) };
+		} catch {
+			// Another session's key: the entry can never be opened again
+			await this.removeDirectory(nodeId, chunkId);
+			return null;
+		}
+	}
+
+	/** Create or replace a directory's entry (cache failures never block navigation). */
+	async saveDirectory(
+		nodeId: string,
+		chunkId: string,
+		revision: number,
+		data: string
+	): Promise<void> {
+		if (!this.isAvailable()) return;
+
+		try {
+			const key = await this.sessionStorage.getSessionKey();
+			if (!key) return;
+			const id = DirectoryCacheService.getEntryId(nodeId, chunkId);
+			const iv = crypto.getRandomValues(new Uint8Array(12));
+			const encrypted = await crypto.subtle.encrypt(
+				{ name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(id) },
+				key,
+				new TextEncoder().encode(data)
+			);
+			const entry: DirectoryCacheEntry = {
+				id,
+				nodeId,
+				chunkId,
+				revision,
+				iv,
+				data: encrypted,
+				cachedAt: new Date().toISOString()
+			};
+			await this.runRequest('readwrite', store => store.put(entry));
+		} catch (error) {
+			console.warn('Failed to write directory cache:', error);
+		}
+	}
+
+	/** Drop a directory's entry (e.g. once its chunk is deleted). */
+	async removeDirectory(nodeId: string, chunkId: string): Promise<void> {
+		if (!this.isAvailable()) return;
+
+		try {
+			await this.runRequest('readwrite', store =>
+				store.delete(DirectoryCacheService.getEntryId(nodeId, chunkId))
+			);
+		} catch (error) {
+			console.warn('Failed to remove directory cache entry:', error);
+		}
+	}
+
+	/** Drop every entry (on logout). */
+	async clear(): Promise<void> {
+		if (!this.isAvailable()) return;
+
+		try {
+			await this.runRequest('readwrite', store => store.clear());
+		} catch (error) {
+			console.warn('Failed to clear directory cache:', error);
+		}
+	}
+}
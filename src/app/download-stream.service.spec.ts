@@ -0,0 +1,44 @@
+// File: src/app/download-stream.service.spec.ts - Tests DownloadStreamService support checks and save-dialog path
+import { TestBed } from '@angular/core/testing';
+import { PLATFORM_ID } from '@angular/core';
+import { vi } from 'vitest';
+import { DownloadStreamService } from './download-stream.service';
+
+describe('DownloadStreamService', () => {
+	// Suite: platform detection and File System Access streams
+	afterEach(() => {
+		delete (window as any).showSaveFilePicker;
+	});
+
+	function createService(platform: string = 'browser'): DownloadStreamService {
+		TestBed.configureTestingModule({
+			providers: [DownloadStreamService, { provide: PLATFORM_ID, useValue: platform }]
+		});
+		return TestBed.inject(DownloadStreamService);
+	}
+
+	it('is not supported during server rendering', () => {
+		(window as any).showSaveFilePicker = vi.fn();
+
+		expect(createService('server').isSupported()).toBe(false);
+	});
+
+	it('writes through the save dialog when the File System Access API exists', async () => {
+		const writable = new WritableStream<Uint8Array>();
+		const picker = vi.fn().mockResolvedValue({ createWritable: async () => writable });
+		(window as any).showSaveFilePicker = picker;
+		const service = createService();
+
+		expect(service.isSupported()).toBe(true);
+		expect(await service.createWritable('big.bin', 10)).toBe(writable);
+		expect(picker).toHaveBeenCalledWith({ suggestedName: 'big.bin' });
+	});
+
+	it('returns null when the save dialog is cancelled', async () => {
+		(window as any).showSaveFilePicker = vi
+			.fn()
+			.mockRejectedValue(Object.assign(new Error('cancelled'), { name: 'AbortError' }));
+
+		expect(await createService().createWritable('big.bin', 10)).toBeNull();
+	});
+});
@@ -0,0 +1,162 @@
+// File: src/app/download-stream.service.ts - Disk-backed write streams for large downloads (File System Access / service worker).
+
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+@Injectable({
+	providedIn: 'root'
+})
+/** Open a writable stream that lands on disk, so downloads never sit fully in memory. */
+export class DownloadStreamService {
+	private readonly SERVICE_WORKER_URL = '/download-sw.js';
+	private readonly SERVICE_WORKER_TIMEOUT_MS = 10000;
+	private readonly IFRAME_CLEANUP_DELAY_MS = 5000; // let the browser drain the finished response
+	private registration: Promise<ServiceWorkerRegistration> | null = null;
+
+	constructor(@Inject(PLATFORM_ID) private platformId: Object) {}
+
+	/** Whether a streaming download can be started in this browser. */
+	isSupported(): boolean {
+		if (!isPlatformBrowser(this.platformId)) return false;
+		return this.hasFileSystemAccess() || this.hasServiceWorker();
+	}
+
+	/**
+	 * Stream for a new download; null when the user cancels the save dialog.
+	 * Call directly from a user gesture: the save dialog needs transient activation.
+	 */
+	async createWritable(
+		fileName: string,
+		size: number
+	): Promise<WritableStream<Uint8Array> | null> {
+		if (this.hasFileSystemAccess()) {
+			try {
+				const handle = await (window as any).showSaveFilePicker({
+					suggestedName: fileName
+				});
+				return await handle.createWritable();
+			} catch (error: any) {
+				if (error?.name === 'AbortError') {
+					return null;
+				}
+				// Picker blocked (e.g. no user activation left): fall back to the service worker
+				if (!this.hasServiceWorker()) {
+					throw error;
+				}
+			}
+		}
+
+		if (this.hasServiceWorker()) {
+			return await this.createServiceWorkerStream(fileName, size);
+		}
+
+		throw new Error('Streaming downloads are not supported in this browser');
+	}
+
+	private hasFileSystemAccess(): boolean {
+		return (
+			isPlatformBrowser(this.platformId) &&
+			typeof (window as any).showSaveFilePicker === 'function'
+		);
+	}
+
+	private hasServiceWorker(): boolean {
+		return (
+			isPlatformBrowser(this.platformId) &&
+			'serviceWorker' in navigator &&
+			typeof ReadableStream !== 'undefined' &&
+			window.isSecureContext
+		);
+	}
+
+	private async getActiveWorker(): Promise<ServiceWorker> {
+		if (!this.registration) {
+			this.registration = navigator.serviceWorker
+				.register(this.SERVICE_WORKER_URL, { scope: '/' })
+				.then(() => navigator.serviceWorker.ready);
+			this.registration.catch(() => (this.registration = null));
+		}
+
+		const registration = await this.registration;
+		if (!registration.active) {
+			throw new Error('Download service worker is not active');
+		}
+		return registration.active;
+	}
+
+	/** Feed chunks to the service worker, which serves them as an attachment response. */
+	private async createServiceWorkerStream(
+		fileName: string,
+		size: number
+	): Promise<WritableStream<Uint8Array>> {
+		const worker = await this.getActiveWorker();
+		const channel = new MessageChannel();
+		const port = channel.port1;
+		let pullCredits = 0;
+		let waitingWriter: (() => void) | null = null;
+		let cancelled = false;
+
+		const ready = new Promise<string>((resolve, reject) => {
+			const timeout = setTimeout(
+				() => reject(new Error('Download service worker did not respond')),
+				this.SERVICE_WORKER_TIMEOUT_MS
+			);
+			port.onmessage = ({ data }) => {
+				if (data.type === 'ready') {
+					clearTimeout(timeout);
+					resolve(data.url);
+				} else if (data.type === 'pull') {
+					pullCredits++;
+				} else if (data.type === 'cancel') {
+					cancelled = true;
+				}
+				if ((pullCredits > 0 || cancelled) && waitingWriter) {
+					waitingWriter();
+					waitingWriter = null;
+				}
+			};
+		});
+
+		worker.postMessage({ type: 'register-download', id: crypto.randomUUID(), fileName, size }, [
+			channel.port2
+		]);
+		const iframe = this.startBrowserDownload(await ready);
+
+		return new WritableStream<Uint8Array>({
+			write: async chunk => {
+				// Wait until the service worker stream has room (backpressure)
+				if (pullCredits === 0 && !cancelled) {
+					await new Promise<void>(resolve => (waitingWriter = resolve));
+				}
+				if (cancelled) {
+					throw new Error('Download was cancelled');
+				}
+				pullCredits--;
+				const buffer = chunk.slice().buffer;
+				port.postMessage({ type: 'chunk', chunk: buffer }, [buffer]);
+			},
+			close: () => {
+				port.postMessage({ type: 'close' });
+				port.close();
+				setTimeout(() => iframe.remove(), this.IFRAME_CLEANUP_DELAY_MS);
+			},
+			abort: reason => {
+				port.postMessage({
+					type: 'abort',
+					reason: String(reason?.message || reason || '')
+				});
+				port.close();
+				iframe.remove();
+			}
+		});
+	}
+
+	/** Navigate a hidden iframe to the service worker URL to start the browser download. */
+	private startBrowserDownload(url: string): HTMLIFrameElement {
+		const iframe = document.createElement('iframe');
+		iframe.hidden = true;
+		iframe.src = url;
+		document.body.appendChild(iframe);
+		return iframe;
+	}
+}
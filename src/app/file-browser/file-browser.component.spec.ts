@@ -23,6 +23,12 @@ class FileServiceStub {
 	getDownloadProgress() {
 		return { subscribe: (_: any) => ({ unsubscribe() {} }) } as any;
 	}
+	getDirectoryConflicts() {
+		return { subscribe: (_: any) => ({ unsubscribe() {} }) } as any;
+	}
+	getOfflineMode() {
+		return { subscribe: (_: any) => ({ unsubscribe() {} }) } as any;
+	}
 }
 class AuthServiceStub {}
 class SessionHandlerServiceStub {
@@ -30,6 +36,12 @@ class SessionHandlerServiceStub {
 		return false;
 	}
 }
+class SharedFolderServiceStub {}
+class DownloadStreamServiceStub {
+	isSupported() {
+		return false;
+	}
+}
 
 describe('FileBrowserComponent (unit)', () => {
 	it('creates component', () => {
@@ -38,7 +50,9 @@ describe('FileBrowserComponent (unit)', () => {
 			new RouterStub() as any,
 			new FileServiceStub() as any,
 			new AuthServiceStub() as any,
-			new SessionHandlerServiceStub() as any
+			new SessionHandlerServiceStub() as any,
+			new DownloadStreamServiceStub() as any,
+			new SharedFolderServiceStub() as any
 		);
 		expect(comp).toBeTruthy();
 	});
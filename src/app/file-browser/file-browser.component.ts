@@ -4,9 +4,21 @@
 import { Component, OnInit, OnDestroy, ViewChild, ElementRef } from '@angular/core';
 import { ActivatedRoute, Router } from '@angular/router';
 import { Subscription } from 'rxjs';
-import { FileService, DirectoryItem, UploadResult } from '../file.service';
+import {
+	FileService,
+	DirectoryItem,
+	UploadResult,
+	TrashedItem,
+	FsckReport,
+	FsckIssueType,
+	ShareSummary,
+	SearchIndexEntry
+} from '../file.service';
+import { UploadJournalEntry } from '../upload-journal.service';
+import { DownloadStreamService } from '../download-stream.service';
 import { AuthService } from '../auth.service';
 import { SessionHandlerService } from '../session-handler.service';
+import { SharedFolderRole, SharedFolderService } from '../shared-folder.service';
 
 import { FormsModule } from '@angular/forms';
 import { formatFileSize, formatDate } from '../utils/utils';
@@ -21,6 +33,8 @@ interface ProgressData {
 	chunksUploaded?: number;
 	chunksDownloaded?: number;
 	totalChunks: number;
+	bytesDownloaded?: number;
+	totalBytes?: number;
 }
 @Component({
 	selector: 'app-file-browser',
@@ -38,8 +52,11 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 	loading: boolean = false;
 	error: string = '';
 	warning: string = '';
+	syncNotice: string = ''; // conflicts merged from another session (survives clearMessages)
 
 	initialized: boolean = false;
+	sharedFolderRole: SharedFolderRole | null = null; // set when browsing a shared folder
+	offline: boolean = false; // node unreachable: browsing cached listings read-only
 
 	isUploading: boolean = false;
 	uploadStatus: string = '';
@@ -60,28 +77,101 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 
 	// Upload menu state
 	showUploadMenu: boolean = false;
+	transferConcurrency: number = 3;
+	readonly transferConcurrencyOptions: number[] = [1, 2, 3, 4, 6, 8];
+	padFileSizes: boolean = false;
+	compressUploads: boolean = false;
+
+	// Search across the whole tree (encrypted index stored on the node)
+	searchQuery: string = '';
+	searchResults: SearchIndexEntry[] | null = null; // null until a search runs
+	searching: boolean = false;
+	searchContents: boolean = false; // index the text of small text files too
 
 	// Custom confirmation popup
 	showConfirmPopup: boolean = false;
 	confirmTitle: string = '';
 	confirmMessage: string = '';
+	confirmButtonText: string = 'Delete';
 	confirmAction: (() => void) | null = null;
 
+	// Trash view
+	showTrashPopup: boolean = false;
+	trashItems: TrashedItem[] = [];
+	trashLoading: boolean = false;
+	trashRetentionDays: number = 30;
+	readonly trashRetentionOptions: number[] = [7, 30, 90, 365];
+
+	// Share link popup (one file) and list of active shares
+	showSharePopup: boolean = false;
+	shareTarget: DirectoryItem | null = null;
+	shareExpiryDays: number = 7; // 0: never expires
+	sharePassword: string = '';
+	shareMaxDownloads: number | null = null;
+	shareUrl: string = '';
+	shareCopied: boolean = false;
+	shareCreating: boolean = false;
+	readonly shareExpiryOptions: number[] = [0, 1, 7, 30];
+	showSharesPopup: boolean = false;
+	shares: ShareSummary[] = [];
+	sharesLoading: boolean = false;
+
+	// Filesystem check popup
+	showFsckPopup: boolean = false;
+	fsckReport: FsckReport | null = null;
+	fsckRunning: boolean = false;
+	fsckProgress: string = '';
+	fsckMessage: string = '';
+	readonly fsckIssueLabels: Record<FsckIssueType, string> = {
+		'missing-directory': 'Missing folder',
+		'unreadable-directory': 'Unreadable folder',
+		'missing-chunk': 'Missing chunk',
+		'unreadable-chunk': 'Unreadable chunk',
+		'parent-mismatch': 'Wrong parent link',
+		'size-mismatch': 'Size mismatch',
+		'duplicate-name': 'Duplicate name',
+		'orphaned-directory': 'Unlinked folder'
+	};
+
 	// File info popup
 	showFileInfoPopup: boolean = false;
 	selectedFileInfo: DirectoryItem | null = null;
 
+	// Rename popup
+	showRenamePopup: boolean = false;
+	renameTarget: DirectoryItem | null = null;
+	renameValue: string = '';
+
+	// Folder picker (move destination)
+	showFolderPicker: boolean = false;
+	folderPickerTitle: string = '';
+	folderPickerPath: { name: string; chunkId: string }[] = [];
+	folderPickerEntries: { name: string; chunkId: string }[] = [];
+	folderPickerLoading: boolean = false;
+	private folderPickerExcludesSelection: boolean = false;
+	private folderPickerAction: ((destinationChunkId: string) => Promise<void>) | null = null;
+
 	// Click handling for selection/navigation
 	private clickTimeout: any = null;
 	private clickDelay = 250; // milliseconds
 
 	@ViewChild('fileInput') fileInput!: ElementRef<HTMLInputElement>;
 	@ViewChild('directoryInput') directoryInput!: ElementRef<HTMLInputElement>;
+	@ViewChild('resumeInput') resumeInput!: ElementRef<HTMLInputElement>;
+
+	// Unfinished uploads recorded in the upload journal
+	resumableUploads: UploadJournalEntry[] = [];
+	private resumeTarget: UploadJournalEntry | null = null;
 
 	private routeSub: Subscription | undefined;
 	private directorySub: Subscription | undefined;
 	private uploadProgressSub: Subscription | undefined;
 	private downloadProgressSub: Subscription | undefined;
+	private conflictSub: Subscription | undefined;
+	private offlineSub: Subscription | undefined;
+
+	// Files above this size are streamed to disk instead of assembled in memory
+	private readonly STREAM_DOWNLOAD_THRESHOLD = 256 * 1024 * 1024;
 
 	public formatFileSize = formatBytes;
 	public formatDate = formatDate;
@@ -91,7 +181,9 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 		private router: Router,
 		public fileService: FileService,
 		private authService: AuthService,
-		private sessionHandler: SessionHandlerService
+		private sessionHandler: SessionHandlerService,
+		private downloadStream: DownloadStreamService,
+		private sharedFolderService: SharedFolderService
 	) {}
 
 	ngOnInit(): void {
@@ -133,6 +225,16 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 		this.downloadProgressSub = this.fileService.getDownloadProgress().subscribe(progress => {
 			this.handleProgressUpdate(progress, 'download');
 		});
+
+		// Subscribe to merge conflicts with changes from other sessions
+		this.conflictSub = this.fileService.getDirectoryConflicts().subscribe(names => {
+			this.syncNotice = `This folder was changed in another session. Conflicting items kept both versions: ${names.join(', ')}`;
+		});
+
+		// Subscribe to the node dropping out (cached listings stay browsable)
+		this.offlineSub = this.fileService.getOfflineMode().subscribe(offline => {
+			this.offline = offline;
+		});
 	}
 
 	private handleProgressUpdate(progress: ProgressData, type: 'upload' | 'download'): void {
@@ -148,7 +250,9 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 			const action = type === 'upload' ? 'Uploading' : 'Downloading';
 			this[status] = `${action} ${progress.fileName}`;
 			this[progressProp] = progress.progress;
-			this[chunksInfo] = `Chunks: ${progress[chunksKey] || 0}/${progress.totalChunks}`;
+			this[chunksInfo] = progress.totalBytes
+				? `${formatFileSize(progress.bytesDownloaded)} / ${formatFileSize(progress.totalBytes)}`
+				: `Chunks: ${progress[chunksKey] || 0}/${progress.totalChunks}`;
 		} else if (progress.progress === 100 && progress.fileName) {
 			const action = type === 'upload' ? 'uploaded' : 'downloaded';
 			this[status] = `Successfully ${action} ${progress.fileName}`;
@@ -177,7 +281,9 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 			this.routeSub,
 			this.directorySub,
 			this.uploadProgressSub,
-			this.downloadProgressSub
+			this.downloadProgressSub,
+			this.conflictSub,
+			this.offlineSub
 		];
 
 		subscriptions.forEach(sub => {
@@ -201,6 +307,30 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 	toggleUploadMenu(): void {
 		this.showUploadMenu = !this.showUploadMenu;
 	}
+	/** Store how many chunks transfer at once for this user. */
+	async updateTransferConcurrency(concurrency: number): Promise<void> {
+		const result = await this.fileService.setTransferConcurrency(Number(concurrency));
+		if (!result.success) {
+			this.warning = result.message || 'Failed to update transfer settings';
+			this.transferConcurrency = await this.fileService.getTransferConcurrency();
+		}
+	}
+	/** Store whether new uploads hide exact file sizes by padding their last chunk. */
+	async updatePadFileSizes(enabled: boolean): Promise<void> {
+		const result = await this.fileService.setPadFileSizes(enabled);
+		if (!result.success) {
+			this.warning = result.message || 'Failed to update transfer settings';
+			this.padFileSizes = await this.fileService.getPadFileSizes();
+		}
+	}
+	/** Store whether new uploads compress their chunks before encryption. */
+	async updateCompressUploads(enabled: boolean): Promise<void> {
+		const result = await this.fileService.setCompressUploads(enabled);
+		if (!result.success) {
+			this.warning = result.message || 'Failed to update transfer settings';
+			this.compressUploads = await this.fileService.getCompressUploads();
+		}
+	}
 	/** Close upload menu. */
 	closeUploadMenu(): void {
 		this.showUploadMenu = false;
@@ -230,6 +360,10 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 		this.error = '';
 		this.warning = '';
 	}
+	/** Dismiss the merge conflict notice. */
+	dismissSyncNotice(): void {
+		this.syncNotice = '';
+	}
 	/** Disable selection mode and clear selection. */
 	toggleSelectionMode(): void {
 		this.isSelectionMode = false;
@@ -404,11 +538,21 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 				return;
 			}
 
-			const result = await this.fileService.initializePage(password, this.nodeId);
+			const folderId = this.route.snapshot.queryParamMap.get('folder');
+			const result = folderId
+				? await this.openSharedFolder(folderId)
+				: await this.fileService.initializePage(password, this.nodeId);
 
 			if (result.success) {
 				this.directoryPath = [''];
 				this.initialized = true;
+				await this.loadResumableUploads();
+				this.transferConcurrency = await this.fileService.getTransferConcurrency();
+				this.padFileSizes = await this.fileService.getPadFileSizes();
+				this.compressUploads = await this.fileService.getCompressUploads();
+				this.searchContents = await this.fileService
+					.isContentSearchEnabled()
+					.catch(() => false);
 			} else {
 				this.error = result.message || 'Failed to initialize file system';
 			}
@@ -422,6 +566,35 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 		}
 	}
 
+	/** Open a shared folder; its key comes from the user's own folder list. */
+	private async openSharedFolder(
+		folderId: string
+	): Promise<{ success: boolean; message?: string }> {
+		const folder = (await this.sharedFolderService.listFolders()).find(
+			entry => entry.folderId === folderId
+		);
+		if (!folder?.key) {
+			return { success: false, message: 'This shared folder is not available to you' };
+		}
+
+		this.sharedFolderRole = folder.role;
+		return await this.fileService.openSharedFolder(this.nodeId, folder.rootChunkId, {
+			folderId,
+			key: folder.key,
+			role: folder.role
+		});
+	}
+
+	/** Members who may only view a shared folder cannot change it, nor anyone an offline node. */
+	get readOnly(): boolean {
+		return this.sharedFolderRole === 'read' || this.offline;
+	}
+
+	/** Share links need the node's owner (in a shared folder only its owner qualifies). */
+	get canShareLinks(): boolean {
+		return this.sharedFolderRole === null || this.sharedFolderRole === 'owner';
+	}
+
 	private updateDirectoryListing(): void {
 		this.clearMessages();
 		this.fileService.getDirectoryContents().then(contents => {
@@ -458,6 +631,7 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 
 		// Reset input regardless of result
 		input.value = '';
+		await this.loadResumableUploads();
 	}
 	/** Handle directory input change. */
 	async onDirectorySelected(event: Event): Promise<void> {
@@ -486,6 +660,72 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 
 		// Reset input regardless of result
 		input.value = '';
+		await this.loadResumableUploads();
+	}
+	/** Pick the original file again to continue an unfinished upload. */
+	resumeUpload(entry: UploadJournalEntry): void {
+		this.resumeTarget = entry;
+		this.resumeInput.nativeElement.click();
+	}
+	/** Handle file chosen for resuming an upload. */
+	async onResumeFileSelected(event: Event): Promise<void> {
+		const input = event.target as HTMLInputElement;
+		const file = input.files?.[0];
+		const entry = this.resumeTarget;
+		this.resumeTarget = null;
+
+		if (!file || !entry) {
+			return;
+		}
+
+		this.clearMessages();
+
+		try {
+			const result = await this.fileService.resumeUpload(entry, file);
+
+			if (result.success) {
+				this.selectedItems.clear();
+				this.directoryPath =
+					entry.directoryPath === '/' ? [''] : entry.directoryPath.split('/');
+				this.updateDirectoryListing();
+			} else {
+				this.error = `Upload failed: ${result.message}`;
+			}
+		} catch (error: any) {
+			if (this.handleError(error, 'Upload failed')) {
+				return;
+			}
+		}
+
+		input.value = '';
+		await this.loadResumableUploads();
+	}
+	/** Discard an unfinished upload and its stored chunks (after confirmation). */
+	discardUpload(entry: UploadJournalEntry): void {
+		this.showConfirmation(
+			'Discard Upload',
+			`Discard the unfinished upload of "${entry.fileName}"?\n\nChunks already stored for it will be deleted.`,
+			async () => {
+				await this.executeWithErrorHandling(async () => {
+					await this.fileService.discardUpload(entry);
+					await this.loadResumableUploads();
+				}, 'Failed to discard upload');
+			},
+			'Discard'
+		);
+	}
+	/** Percentage of chunks already stored for an unfinished upload. */
+	getResumeProgress(entry: UploadJournalEntry): number {
+		const stored = Object.keys(entry.completedChunks).length;
+		return entry.totalChunks > 0 ? Math.round((stored / entry.totalChunks) * 100) : 0;
+	}
+	private async loadResumableUploads(): Promise<void> {
+		try {
+			this.resumableUploads = await this.fileService.getResumableUploads();
+		} catch (error) {
+			console.warn('Failed to load unfinished uploads:', error);
+			this.resumableUploads = [];
+		}
 	}
 	private async handleSingleFileUpload(file: File): Promise<UploadResult> {
 		// First, try to upload without overwrite
@@ -568,7 +808,29 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 
 		return { blob, fileName };
 	}
-	private triggerDownload(blob: Blob, fileName: string): void {
+	/** Save a single item: large files and folders stream to disk, small files go through a Blob. */
+	private async triggerDownload(item: DirectoryItem): Promise<void> {
+		if (
+			item.type === 'file' &&
+			item.size > this.STREAM_DOWNLOAD_THRESHOLD &&
+			this.downloadStream.isSupported()
+		) {
+			const writable = await this.downloadStream.createWritable(item.name, item.size);
+			if (writable) {
+				await this.fileService.downloadFileToStream(item, writable);
+			}
+			return;
+		}
+
+		if (item.type === 'directory' && this.downloadStream.isSupported()) {
+			await this.saveItemsAsZip([item], `${item.name}.zip`);
+			return;
+		}
+
+		const { blob, fileName } = await this.getDownloadData(item);
+		this.saveBlob(blob, fileName);
+	}
+	private saveBlob(blob: Blob, fileName: string): void {
 		const url = window.URL.createObjectURL(blob);
 		const a = document.createElement('a');
 		document.body.appendChild(a);
@@ -609,6 +871,59 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 			'Failed to leave directory'
 		);
 	}
+	/** Search names, extensions and paths across the whole tree. */
+	async runSearch(): Promise<void> {
+		const query = this.searchQuery.trim();
+		if (!query) {
+			this.clearSearch();
+			return;
+		}
+
+		this.searching = true;
+		this.clearMessages();
+		try {
+			this.searchResults = await this.fileService.searchFiles(query);
+		} catch (error: any) {
+			this.handleError(error, 'Search failed');
+		} finally {
+			this.searching = false;
+		}
+	}
+	/** Close search results. */
+	clearSearch(): void {
+		this.searchQuery = '';
+		this.searchResults = null;
+	}
+	/** Jump to the folder holding a search result. */
+	async openSearchResult(entry: SearchIndexEntry): Promise<void> {
+		this.selectedItems.clear();
+		await this.navigateDirectory(
+			() => this.fileService.changeDirectory(entry.parentId),
+			() => {
+				this.directoryPath = entry.path === '/' ? [''] : entry.path.split('/');
+				this.clearSearch();
+			},
+			'Failed to open folder'
+		);
+	}
+	/** Turn content search on or off (rebuilds the index). */
+	async updateSearchContents(enabled: boolean): Promise<void> {
+		this.searching = true;
+		const result = await this.fileService.rebuildSearchIndex(enabled);
+		this.searching = false;
+		if (!result.success) {
+			this.warning = result.message || 'Failed to rebuild search index';
+			this.searchContents = !enabled;
+			return;
+		}
+		if (this.searchQuery.trim()) {
+			await this.runSearch();
+		}
+	}
+	/** Rebuild the search index (picks up changes made in other sessions). */
+	async rebuildSearchIndex(): Promise<void> {
+		await this.updateSearchContents(this.searchContents);
+	}
 	private async navigateDirectory(
 		serviceCall: () => Promise<{ success: boolean; message?: string }>,
 		pathUpdate: () => void,
@@ -685,8 +1000,7 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 			if (this.selectedItems.size === 1) {
 				// Single item - use existing download logic
 				const item = Array.from(this.selectedItems)[0];
-				const { blob, fileName } = await this.getDownloadData(item);
-				this.triggerDownload(blob, fileName);
+				await this.triggerDownload(item);
 			} else {
 				// Multiple items - create a ZIP
 				await this.downloadMultipleItemsAsZip();
@@ -698,65 +1012,19 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 		}
 	}
 	private async downloadMultipleItemsAsZip(): Promise<void> {
-		// Import JSZip dynamically if not already imported
-		const JSZip = (await import('jszip')).default;
-		const zip = new JSZip();
-
-		// Update progress
-		this.updateDownloadProgress({
-			fileName: 'selected-items.zip',
-			progress: 0,
-			isDownloading: true,
-			chunksDownloaded: 0,
-			totalChunks: this.selectedItems.size
-		});
-
-		let processedCount = 0;
-		const totalItems = this.selectedItems.size;
-
-		for (const item of this.selectedItems) {
-			try {
-				if (item.type === 'file') {
-					const fileBlob = await this.fileService.downloadFile(item);
-					zip.file(item.name, fileBlob);
-				} else if (item.type === 'directory') {
-					// For directories, we need to create a ZIP structure
-					const dirBlob = await this.fileService.downloadDirectory(item);
-					zip.file(`${item.name}.zip`, dirBlob);
-				}
-
-				processedCount++;
-				const progress = Math.round((processedCount / totalItems) * 100);
-				this.updateDownloadProgress({
-					fileName: 'selected-items.zip',
-					progress,
-					isDownloading: true,
-					chunksDownloaded: processedCount,
-					totalChunks: totalItems
-				});
-			} catch (error) {
-				console.warn(`Failed to add ${item.name} to ZIP:`, error);
+		await this.saveItemsAsZip(Array.from(this.selectedItems), 'selected-items.zip');
+	}
+	/** Stream a ZIP of the items to disk when supported, otherwise build it in memory. */
+	private async saveItemsAsZip(items: DirectoryItem[], archiveName: string): Promise<void> {
+		if (this.downloadStream.isSupported()) {
+			const writable = await this.downloadStream.createWritable(archiveName, 0);
+			if (writable) {
+				await this.fileService.downloadItemsAsZip(items, archiveName, writable);
 			}
+			return;
 		}
 
-		// Generate and download the ZIP
-		const zipBlob = await zip.generateAsync({ type: 'blob' });
-		this.triggerDownload(zipBlob, 'selected-items.zip');
-
-		// Complete progress
-		this.updateDownloadProgress({
-			fileName: 'selected-items.zip',
-			progress: 100,
-			isDownloading: false,
-			chunksDownloaded: totalItems,
-			totalChunks: totalItems
-		});
-	}
-	private updateDownloadProgress(progress: any): void {
-		this.downloadStatus = `Downloading ${progress.fileName}`;
-		this.downloadProgress = progress.progress;
-		this.isDownloading = progress.isDownloading;
-		this.downloadChunksInfo = `Items: ${progress.chunksDownloaded}/${progress.totalChunks}`;
+		this.saveBlob(await this.fileService.createZipBlob(items, archiveName), archiveName);
 	}
 	/** Batch: delete selected items recursively. */
 	async deleteSelectedItems(): Promise<void> {
@@ -783,13 +1051,16 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 		if (nonEmptyDirs.length > 0) {
 			confirmMessage += `\n\nThis includes ${nonEmptyDirs.length} director${
 				nonEmptyDirs.length > 1 ? 'ies' : 'y'
-			} that may contain files. All contents will be deleted recursively.`;
+			} that may contain files. All contents will be moved to the trash with them.`;
 		}
 
-		confirmMessage += '\n\nThis action cannot be undone.';
+		confirmMessage += '\n\nDeleted items can be restored from the trash.';
 
-		this.showConfirmation('Delete Selected Items', confirmMessage, () =>
-			this.performDeleteSelectedItems()
+		this.showConfirmation(
+			'Delete Selected Items',
+			confirmMessage,
+			() => this.performDeleteSelectedItems(),
+			'Move to Trash'
 		);
 	}
 	private async performDeleteSelectedItems(): Promise<void> {
@@ -834,12 +1105,12 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 			// Only show errors if there were actual failure errors, not "no longer exists" cases
 			const realErrors = errors.filter(error => !error.includes('no longer exists'));
 			if (realErrors.length > 0) {
-				this.warning = `${deletedCount} items deleted successfully. Errors: ${realErrors.join(
+				this.warning = `${deletedCount} items moved to trash. Errors: ${realErrors.join(
 					'; '
 				)}`;
 			} else if (deletedCount > 0) {
 				// All items processed successfully
-				this.warning = `${deletedCount} items deleted successfully.`;
+				this.warning = `${deletedCount} items moved to trash.`;
 			}
 		} catch (error: any) {
 			if (this.handleError(error, 'An unexpected error occurred during batch deletion')) {
@@ -868,10 +1139,482 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 		}
 		return true;
 	}
+	/** Open rename popup for the single selected item. */
+	startRenameSelected(): void {
+		if (this.selectedItems.size !== 1) {
+			this.warning = 'Select exactly one item to rename';
+			return;
+		}
+
+		const item = Array.from(this.selectedItems)[0];
+		this.renameTarget = item;
+		this.renameValue = item.name;
+		this.showRenamePopup = true;
+	}
+	/** Close rename popup. */
+	cancelRename(): void {
+		this.showRenamePopup = false;
+		this.renameTarget = null;
+		this.renameValue = '';
+	}
+	/** Apply rename from popup. */
+	async confirmRename(): Promise<void> {
+		const target = this.renameTarget;
+		if (!target) {
+			return;
+		}
+
+		await this.executeWithErrorHandling(async () => {
+			const result = await this.fileService.renameItem(target, this.renameValue);
+
+			if (result.success) {
+				this.cancelRename();
+				this.selectedItems.clear();
+				this.updateDirectoryListing();
+			} else {
+				this.warning = result.message || 'Failed to rename item';
+			}
+		}, 'Failed to rename item');
+	}
+	/** Open folder picker to move selected items. */
+	async startMoveSelected(): Promise<void> {
+		if (this.selectedItems.size === 0) {
+			this.warning = 'No items selected to move';
+			return;
+		}
+
+		await this.openFolderPicker(
+			'Move to…',
+			destinationChunkId => this.performMoveSelectedItems(destinationChunkId),
+			true
+		);
+	}
+	/** Open folder picker to copy selected items. */
+	async startCopySelected(): Promise<void> {
+		if (this.selectedItems.size === 0) {
+			this.warning = 'No items selected to copy';
+			return;
+		}
+
+		await this.openFolderPicker('Copy to…', destinationChunkId =>
+			this.performCopySelectedItems(destinationChunkId)
+		);
+	}
+	/** Duplicate selected items into the current directory. */
+	async duplicateSelectedItems(): Promise<void> {
+		const currentDirectory = this.fileService.getCurrentDirectory();
+		if (this.selectedItems.size === 0 || !currentDirectory) {
+			this.warning = 'No items selected to duplicate';
+			return;
+		}
+
+		await this.performCopySelectedItems(currentDirectory.chunkId);
+	}
+	/** Open folder picker at the root with an action to run on the chosen folder. */
+	private async openFolderPicker(
+		title: string,
+		action: (destinationChunkId: string) => Promise<void>,
+		excludeSelection: boolean = false
+	): Promise<void> {
+		const rootChunkId = this.fileService.getRootChunkId();
+		if (!rootChunkId) {
+			this.error = 'File system is not initialized';
+			return;
+		}
+
+		this.folderPickerTitle = title;
+		this.folderPickerAction = action;
+		this.folderPickerExcludesSelection = excludeSelection;
+		this.folderPickerPath = [{ name: '/', chunkId: rootChunkId }];
+		this.showFolderPicker = true;
+		await this.loadFolderPickerEntries();
+	}
+	/** Enter a folder inside the picker. */
+	async openPickerFolder(entry: { name: string; chunkId: string }): Promise<void> {
+		this.folderPickerPath = [...this.folderPickerPath, entry];
+		await this.loadFolderPickerEntries();
+	}
+	/** Go up one level inside the picker. */
+	async pickerUp(): Promise<void> {
+		if (this.folderPickerPath.length <= 1) {
+			return;
+		}
+		this.folderPickerPath = this.folderPickerPath.slice(0, -1);
+		await this.loadFolderPickerEntries();
+	}
+	/** Path label for the picker's current folder. */
+	getFolderPickerPath(): string {
+		return (
+			'/' +
+			this.folderPickerPath
+				.slice(1)
+				.map(entry => entry.name)
+				.join('/')
+		);
+	}
+	/** True if folder is one of the selected items (cannot be a destination). */
+	isPickerEntryDisabled(entry: { chunkId: string }): boolean {
+		if (!this.folderPickerExcludesSelection) {
+			return false;
+		}
+		return Array.from(this.selectedItems).some(
+			item => item.type === 'directory' && item.chunkId === entry.chunkId
+		);
+	}
+	/** Close folder picker. */
+	cancelFolderPicker(): void {
+		this.showFolderPicker = false;
+		this.folderPickerPath = [];
+		this.folderPickerEntries = [];
+		this.folderPickerAction = null;
+	}
+	/** Run picker action on the folder currently shown. */
+	async confirmFolderPick(): Promise<void> {
+		const action = this.folderPickerAction;
+		const destination = this.folderPickerPath[this.folderPickerPath.length - 1];
+		this.cancelFolderPicker();
+
+		if (action && destination) {
+			await action(destination.chunkId);
+		}
+	}
+	private async loadFolderPickerEntries(): Promise<void> {
+		const current = this.folderPickerPath[this.folderPickerPath.length - 1];
+		this.folderPickerLoading = true;
+
+		try {
+			const directory = await this.fileService.browseDirectory(current.chunkId);
+			this.folderPickerEntries = directory.contents
+				.filter(item => item.type === 'directory')
+				.map(item => ({
+					name: item.name,
+					chunkId: (item as DirectoryItem & { type: 'directory' }).chunkId
+				}))
+				.sort((a, b) => a.name.localeCompare(b.name));
+		} catch (error: any) {
+			this.cancelFolderPicker();
+			this.handleError(error, 'Failed to load folders');
+		} finally {
+			this.folderPickerLoading = false;
+		}
+	}
+	private async performMoveSelectedItems(destinationChunkId: string): Promise<void> {
+		this.loading = true;
+		this.clearMessages();
+
+		const errors: string[] = [];
+		let movedCount = 0;
+
+		try {
+			for (const selectedItem of Array.from(this.selectedItems)) {
+				const result = await this.fileService.moveItem(selectedItem, destinationChunkId);
+				if (result.success) {
+					movedCount++;
+				} else {
+					errors.push(`${selectedItem.name}: ${result.message || 'Unknown error'}`);
+				}
+			}
+
+			this.selectedItems.clear();
+			this.updateDirectoryListing();
+
+			if (errors.length > 0) {
+				this.warning = `${movedCount} items moved. Errors: ${errors.join('; ')}`;
+			} else if (movedCount > 0) {
+				this.warning = `${movedCount} items moved successfully.`;
+			}
+		} catch (error: any) {
+			if (this.handleError(error, 'An unexpected error occurred while moving items')) {
+				return;
+			}
+		} finally {
+			this.loading = false;
+		}
+	}
+	private async performCopySelectedItems(destinationChunkId: string): Promise<void> {
+		this.clearMessages();
+
+		const errors: string[] = [];
+		let copiedCount = 0;
+
+		try {
+			for (const selectedItem of Array.from(this.selectedItems)) {
+				const result = await this.fileService.copyItem(selectedItem, destinationChunkId);
+				if (result.success) {
+					copiedCount++;
+				} else {
+					errors.push(`${selectedItem.name}: ${result.message || 'Unknown error'}`);
+				}
+			}
+
+			this.selectedItems.clear();
+			this.updateDirectoryListing();
+
+			if (errors.length > 0) {
+				this.warning = `${copiedCount} items copied. Errors: ${errors.join('; ')}`;
+			} else if (copiedCount > 0) {
+				this.warning = `${copiedCount} items copied successfully.`;
+			}
+		} catch (error: any) {
+			this.handleError(error, 'An unexpected error occurred while copying items');
+		}
+	}
+	/** Open trash view. */
+	async openTrash(): Promise<void> {
+		this.showTrashPopup = true;
+		await this.loadTrash();
+	}
+	/** Close trash view. */
+	closeTrash(): void {
+		this.showTrashPopup = false;
+		this.trashItems = [];
+	}
+	/** Restore a trash entry to its original folder. */
+	async restoreFromTrash(entry: TrashedItem): Promise<void> {
+		this.trashLoading = true;
+		this.clearMessages();
+
+		try {
+			const result = await this.fileService.restoreTrashItem(entry);
+			if (result.success) {
+				this.updateDirectoryListing();
+			} else {
+				this.warning = result.message || 'Failed to restore item';
+			}
+		} catch (error: any) {
+			this.handleError(error, 'Failed to restore item');
+		} finally {
+			this.trashLoading = false;
+		}
+		await this.loadTrash();
+	}
+	/** Permanently delete a trash entry (after confirmation). */
+	deleteForever(entry: TrashedItem): void {
+		this.showConfirmation(
+			'Delete Forever',
+			`Permanently delete "${entry.name}"?\n\nThis action cannot be undone.`,
+			() => this.runTrashAction(() => this.fileService.deleteTrashItemForever(entry)),
+			'Delete Forever'
+		);
+	}
+	/** Permanently delete all trash entries (after confirmation). */
+	emptyTrash(): void {
+		this.showConfirmation(
+			'Empty Trash',
+			`Permanently delete ${this.trashItems.length} item(s) in the trash?\n\nThis action cannot be undone.`,
+			() => this.runTrashAction(() => this.fileService.emptyTrash()),
+			'Empty Trash'
+		);
+	}
+	/** Persist trash retention setting. */
+	async updateTrashRetention(days: number): Promise<void> {
+		const result = await this.fileService.setTrashRetentionDays(Number(days));
+		if (!result.success) {
+			this.warning = result.message || 'Failed to update trash retention';
+		}
+	}
+	private async runTrashAction(
+		action: () => Promise<{ success: boolean; message?: string }>
+	): Promise<void> {
+		this.trashLoading = true;
+		this.clearMessages();
+
+		try {
+			const result = await action();
+			if (!result.success) {
+				this.warning = result.message || 'Trash operation failed';
+			}
+		} catch (error: any) {
+			this.handleError(error, 'Trash operation failed');
+		} finally {
+			this.trashLoading = false;
+		}
+		await this.loadTrash();
+	}
+	private async loadTrash(): Promise<void> {
+		this.trashLoading = true;
+
+		try {
+			this.trashItems = await this.fileService.getTrashItems();
+			this.trashRetentionDays = await this.fileService.getTrashRetentionDays();
+		} catch (error: any) {
+			this.closeTrash();
+			this.handleError(error, 'Failed to load trash');
+		} finally {
+			this.trashLoading = false;
+		}
+	}
+	/** Open the share popup for the single selected file. */
+	startShareSelected(): void {
+		const item = Array.from(this.selectedItems)[0];
+		if (this.selectedItems.size !== 1 || item.type !== 'file') {
+			this.warning = 'Select exactly one file to share';
+			return;
+		}
+
+		this.shareTarget = item;
+		this.shareExpiryDays = 7;
+		this.sharePassword = '';
+		this.shareMaxDownloads = null;
+		this.shareUrl = '';
+		this.shareCopied = false;
+		this.showSharePopup = true;
+	}
+	/** Close the share popup; the link is not shown again. */
+	closeSharePopup(): void {
+		if (this.shareCreating) {
+			return;
+		}
+		this.showSharePopup = false;
+		this.shareTarget = null;
+		this.sharePassword = '';
+		this.shareUrl = '';
+	}
+	/** Create the share link with the chosen expiry, password and download limit. */
+	async createShareLink(): Promise<void> {
+		if (!this.shareTarget) {
+			return;
+		}
+
+		this.clearMessages();
+		this.shareCreating = true;
+		try {
+			const result = await this.fileService.createShare(this.shareTarget, {
+				password: this.sharePassword || undefined,
+				expiresAt: this.shareExpiryDays
+					? new Date(Date.now() + this.shareExpiryDays * 86400000).toISOString()
+					: undefined,
+				maxDownloads: this.shareMaxDownloads || undefined
+			});
+			if (result.success) {
+				this.shareUrl = result.url!;
+			} else {
+				this.warning = result.message || 'Failed to create share link';
+			}
+		} catch (error: any) {
+			this.handleError(error, 'Failed to create share link');
+		} finally {
+			this.shareCreating = false;
+		}
+	}
+	/** Copy the created share link. */
+	async copyShareUrl(): Promise<void> {
+		await navigator.clipboard.writeText(this.shareUrl);
+		this.shareCopied = true;
+	}
+	/** Open the list of active share links. */
+	async openShares(): Promise<void> {
+		this.showSharesPopup = true;
+		await this.loadShares();
+	}
+	/** Close the share list. */
+	closeShares(): void {
+		this.showSharesPopup = false;
+		this.shares = [];
+	}
+	/** Revoke a share link (after confirmation). */
+	revokeShare(share: ShareSummary): void {
+		this.showConfirmation(
+			'Revoke Link',
+			`Revoke the share link for "${share.name}"?\n\nAnyone holding the link loses access immediately.`,
+			async () => {
+				this.clearMessages();
+				const result = await this.fileService.revokeShare(share.shareId);
+				if (!result.success) {
+					this.warning = result.message || 'Failed to revoke share link';
+				}
+				await this.loadShares();
+			},
+			'Revoke'
+		);
+	}
+	private async loadShares(): Promise<void> {
+		this.sharesLoading = true;
+
+		try {
+			this.shares = await this.fileService.listShares();
+		} catch (error: any) {
+			this.closeShares();
+			this.handleError(error, 'Failed to load share links');
+		} finally {
+			this.sharesLoading = false;
+		}
+	}
+	/** Open filesystem check and run it. */
+	async openFsck(): Promise<void> {
+		this.showFsckPopup = true;
+		this.fsckMessage = '';
+		await this.runFsck();
+	}
+	/** Close filesystem check popup. */
+	closeFsck(): void {
+		if (this.fsckRunning) {
+			return;
+		}
+		this.showFsckPopup = false;
+		this.fsckReport = null;
+		this.fsckProgress = '';
+		this.fsckMessage = '';
+	}
+	/** Number of issues the repair can fix. */
+	getRepairableIssueCount(): number {
+		return this.fsckReport?.issues.filter(issue => issue.repairable).length || 0;
+	}
+	/** Repair fixable issues (after confirmation), then re-check. */
+	repairFsckIssues(): void {
+		const report = this.fsckReport;
+		if (!report) {
+			return;
+		}
+
+		this.showConfirmation(
+			'Repair Filesystem',
+			`Repair ${this.getRepairableIssueCount()} issue(s)?\n\nDangling entries are removed and unlinked folders are moved to /lost+found.`,
+			async () => {
+				this.fsckRunning = true;
+				this.fsckProgress = 'Repairing...';
+				try {
+					const result = await this.fileService.repairFilesystem(report.issues);
+					this.fsckMessage =
+						`Repaired ${result.repaired} issue(s)` +
+						(result.failed > 0 ? `, ${result.failed} failed` : '');
+					this.updateDirectoryListing();
+				} catch (error: any) {
+					this.fsckMessage = error.message || 'Repair failed';
+				} finally {
+					this.fsckRunning = false;
+				}
+				await this.runFsck();
+			},
+			'Repair'
+		);
+	}
+	private async runFsck(): Promise<void> {
+		this.fsckRunning = true;
+		this.fsckReport = null;
+		this.fsckProgress = 'Checking folders...';
+
+		try {
+			this.fsckReport = await this.fileService.checkFilesystem((checked, total) => {
+				this.fsckProgress = `Verified ${checked} of ${total} chunks`;
+			});
+		} catch (error: any) {
+			this.fsckMessage = error.message || 'Filesystem check failed';
+		} finally {
+			this.fsckRunning = false;
+			this.fsckProgress = '';
+		}
+	}
 	/** Show confirmation modal. */
-	showConfirmation(title: string, message: string, action: () => void): void {
+	showConfirmation(
+		title: string,
+		message: string,
+		action: () => void,
+		buttonText: string = 'Delete'
+	): void {
 		this.confirmTitle = title;
 		this.confirmMessage = message;
+		this.confirmButtonText = buttonText;
 		this.confirmAction = action;
 		this.showConfirmPopup = true;
 	}
@@ -880,6 +1623,7 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 		this.showConfirmPopup = false;
 		this.confirmTitle = '';
 		this.confirmMessage = '';
+		this.confirmButtonText = 'Delete';
 		this.confirmAction = null;
 	}
 	/** Run stored confirm action. */
@@ -899,6 +1643,54 @@ export class FileBrowserComponent implements OnInit, OnDestroy {
 		this.showFileInfoPopup = false;
 		this.selectedFileInfo = null;
 	}
+	/** Show info popup for the single selected item. */
+	showSelectedItemInfo(): void {
+		if (this.selectedItems.size !== 1) {
+			this.warning = 'Select exactly one item to view its info';
+			return;
+		}
+
+		this.showFileInfo(Array.from(this.selectedItems)[0]);
+	}
+	/** Download an earlier version of the file shown in the info popup. */
+	async downloadFileVersion(versionIndex: number): Promise<void> {
+		const item = this.selectedFileInfo;
+		if (!item || item.type !== 'file') {
+			return;
+		}
+
+		this.clearMessages();
+
+		try {
+			const blob = await this.fileService.downloadFileVersion(item, versionIndex);
+			this.saveBlob(blob, item.name);
+		} catch (error: any) {
+			this.handleError(error, 'Download failed');
+		}
+	}
+	/** Make an earlier version current for the file shown in the info popup. */
+	async restoreFileVersion(versionIndex: number): Promise<void> {
+		const item = this.selectedFileInfo;
+		if (!item || item.type !== 'file') {
+			return;
+		}
+
+		await this.executeWithErrorHandling(async () => {
+			const result = await this.fileService.restoreFileVersion(item, versionIndex);
+
+			if (result.success) {
+				this.selectedItems.clear();
+				this.directoryList = await this.fileService.getDirectoryContents();
+				// Directory contents were replaced; point the popup at the fresh entry
+				this.selectedFileInfo =
+					this.directoryList.find(
+						entry => entry.type === 'file' && entry.name === item.name
+					) || null;
+			} else {
+				this.warning = result.message || 'Failed to restore version';
+			}
+		}, 'Failed to restore version');
+	}
 	/** Extract file extension. */
 	getFileExtension(filename: string): string {
 		const lastDot = filename.lastIndexOf('.');
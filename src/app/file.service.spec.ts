@@ -8,10 +8,18 @@ import {
 	Directory,
 	DirectoryItem,
 	ProgressData,
-	DownloadProgressData
+	DownloadProgressData,
+	TrashedItem,
+	RootMigration,
+	AUTHENTICATED_ITEM_FORMAT,
+	ITEM_FORMAT_VERSION,
+	getPaddedLength
 } from './file.service';
 import { AuthService } from './auth.service';
 import { CryptoService } from './crypto.service';
+import { UploadJournalService, UploadJournalEntry } from './upload-journal.service';
+import { DirectoryCacheService } from './directory-cache.service';
+import { compressData } from './utils/compression';
 
 // Helper to build an ArrayBuffer with 12-byte IV + payload
 function buildIvPrefixedBuffer(payloadBytes: Uint8Array): ArrayBuffer {
@@ -22,6 +30,27 @@ function buildIvPrefixedBuffer(payloadBytes: Uint8Array): ArrayBuffer {
 	return out.buffer;
 }
 
+// jsdom's Blob has no arrayBuffer(); give slices one so uploads can read them
+function createSliceableFile(bytes: Uint8Array, name: string, lastModified = 0): File {
+	const file = new File([bytes], name, { lastModified });
+	return Object.assign(file, {
+		slice: vi.fn((start: number, end: number) => ({
+			size: end - start,
+			arrayBuffer: async () => bytes.slice(start, end).buffer
+		}))
+	}) as File;
+}
+
+// Read a request body Blob through FileReader (no Blob.arrayBuffer() in jsdom)
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as ArrayBuffer);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsArrayBuffer(blob);
+	});
+}
+
 describe('FileService', () => {
 	// Suite: initialization, CRUD, encryption error paths & progress state
 	let service: FileService;
@@ -60,6 +89,8 @@ describe('FileService', () => {
 	} as any;
 
 	const encoder = new TextEncoder();
+	const dataKey = { type: 'secret' } as CryptoKey;
+	const chunkKey = { type: 'secret', usages: ['encrypt', 'decrypt'] } as unknown as CryptoKey;
 
 	let cryptoStub: Partial<CryptoService> & {
 		getRootChunk: (password: string) => Promise<string>;
@@ -68,6 +99,20 @@ describe('FileService', () => {
 			data: ArrayBuffer | Uint8Array
 		) => Promise<{ encryptedData: ArrayBuffer; iv: Uint8Array }>;
 		generateUUID: () => string;
+		deriveChunkId: (seed: string) => Promise<string>;
+		generateDataKey: () => Promise<CryptoKey>;
+		wrapDataKey: (key: CryptoKey) => Promise<string>;
+		unwrapDataKey: (wrappedKey: string) => Promise<CryptoKey>;
+	};
+	let journalStub: {
+		getEntries: ReturnType<typeof vi.fn>;
+		getEntry: ReturnType<typeof vi.fn>;
+		saveEntry: ReturnType<typeof vi.fn>;
+		removeEntry: ReturnType<typeof vi.fn>;
+	};
+	let cacheStub: {
+		getDirectory: ReturnType<typeof vi.fn>;
+		saveDirectory: ReturnType<typeof vi.fn>;
 	};
 
 	beforeAll(() => {
@@ -81,7 +126,36 @@ describe('FileService', () => {
 			encryptData: vi
 				.fn()
 				.mockResolvedValue({ encryptedData: new ArrayBuffer(8), iv: new Uint8Array(12) }),
-			generateUUID: vi.fn().mockReturnValue('uuid-1234')
+			generateUUID: vi.fn().mockReturnValue('uuid-1234'),
+			deriveChunkId: vi.fn().mockImplementation(async (seed: string) => `derived-${seed}`),
+			generateDataKey: vi.fn().mockResolvedValue(dataKey),
+			wrapDataKey: vi.fn().mockResolvedValue('wrapped-key'),
+			unwrapDataKey: vi.fn().mockResolvedValue(dataKey),
+			generateHashKey: vi.fn().mockReturnValue('hash-key'),
+			// Equal content hashes alike, so duplicates are visible to the tests
+			hashChunk: vi
+				.fn()
+				.mockImplementation(
+					async (data: Uint8Array) => `hash:${Array.from(data).join(',')}`
+				),
+			deriveChunkKey: vi
+				.fn()
+				.mockImplementation(async (hash: string) => encoder.encode(hash)),
+			importChunkKey: vi.fn().mockResolvedValue(chunkKey),
+			sealChunkKeys: vi.fn().mockResolvedValue('sealed-chunk-keys'),
+			openChunkKeys: vi.fn().mockResolvedValue([])
+		};
+
+		journalStub = {
+			getEntries: vi.fn().mockResolvedValue([]),
+			getEntry: vi.fn().mockResolvedValue(null),
+			saveEntry: vi.fn().mockResolvedValue(undefined),
+			removeEntry: vi.fn().mockResolvedValue(undefined)
+		};
+
+		cacheStub = {
+			getDirectory: vi.fn().mockResolvedValue(null),
+			saveDirectory: vi.fn().mockResolvedValue(undefined)
 		};
 
 		TestBed.configureTestingModule({
@@ -89,17 +163,42 @@ describe('FileService', () => {
 			providers: [
 				{ provide: AuthService, useValue: authStub },
 				{ provide: CryptoService, useValue: cryptoStub },
+				{ provide: UploadJournalService, useValue: journalStub },
+				{ provide: DirectoryCacheService, useValue: cacheStub },
 				{
 					provide: FileService,
-					useFactory: (http: HttpClient, auth: AuthService, crypto: CryptoService) =>
-						new FileService(http, auth, crypto),
-					deps: [HttpClient, AuthService, CryptoService]
+					useFactory: (
+						http: HttpClient,
+						auth: AuthService,
+						crypto: CryptoService,
+						journal: UploadJournalService,
+						cache: DirectoryCacheService
+					) => new FileService(http, auth, crypto, journal, cache),
+					deps: [
+						HttpClient,
+						AuthService,
+						CryptoService,
+						UploadJournalService,
+						DirectoryCacheService
+					]
 				}
 			]
 		});
 
 		service = TestBed.inject(FileService);
 		httpMock = TestBed.inject(HttpTestingController);
+		// Uploads read the padding and compression preferences; tests that need them turn them on
+		(service as any)['padFileSizes'] = false;
+		(service as any)['compressUploads'] = false;
+		// Uploads and deletes go through the deduplication index; its writes are not under test
+		(service as any)['dedupIndex'] = {
+			chunkId: 'dedup-index',
+			hashKey: 'hash-key',
+			entries: {}
+		};
+		vi.spyOn(service as any, 'writeDedupIndex').mockResolvedValue(undefined);
+		// Metadata reads check the revision registry; tests about it answer the request themselves
+		vi.spyOn(service as any, 'getDirectoryRevision').mockResolvedValue(0);
 	});
 
 	afterEach(() => {
@@ -165,10 +264,8 @@ describe('FileService', () => {
 			);
 
 			const initPromise = service.initializePage(mockPassword, mockNodeId);
-			await Promise.resolve(); // allow getRootChunk await to resolve
-
-			const req = httpMock.expectOne(
-				`${apiUrl}/nodes/${mockNodeId}/chunks/${mockRootChunkId}`
+			const req = await vi.waitFor(() =>
+				httpMock.expectOne(`${apiUrl}/nodes/${mockNodeId}/chunks/${mockRootChunkId}`)
 			);
 			expect(req.request.method).toBe('GET');
 			expect(req.request.responseType).toBe('arraybuffer');
@@ -184,6 +281,7 @@ describe('FileService', () => {
 			const fetchSpy = vi
 				.spyOn(service as any, 'fetchAndDecryptChunk')
 				.mockRejectedValue({ status: 404, message: 'not found' });
+			vi.spyOn(service, 'getRootMigration').mockResolvedValue(null);
 
 			const realEncryptAndStore = (service as any)['encryptAndStoreChunk'].bind(service);
 			const encSpy = vi
@@ -192,8 +290,8 @@ describe('FileService', () => {
 					realEncryptAndStore(data, chunkId)) as any);
 
 			const initRootPromise = (service as any)['initializeRootDirectory'](mockRootChunkId);
-			await Promise.resolve();
-			await Promise.resolve();
+			// let the primary and journal lookups settle before the create request
+			await new Promise(resolve => setTimeout(resolve, 0));
 
 			const postReq = httpMock.expectOne(
 				`${apiUrl}/nodes/${mockNodeId}/chunks/${mockRootChunkId}`
@@ -220,6 +318,7 @@ describe('FileService', () => {
 			const fetchSpy = vi
 				.spyOn(service as any, 'fetchAndDecryptChunk')
 				.mockRejectedValue({ status: 404, message: 'not found' });
+			vi.spyOn(service, 'getRootMigration').mockResolvedValue(null);
 			(cryptoStub.encryptData as any).mockRejectedValueOnce(new Error('Encryption failed'));
 
 			const result = await (service as any)['initializeRootDirectory'](mockRootChunkId);
@@ -236,9 +335,8 @@ describe('FileService', () => {
 				encoder.encode(JSON.stringify(mockDirectory)).buffer
 			);
 			const initPromise = service.initializePage(mockPassword, mockNodeId);
-			await Promise.resolve();
-			const req = httpMock.expectOne(
-				`${apiUrl}/nodes/${mockNodeId}/chunks/${mockRootChunkId}`
+			const req = await vi.waitFor(() =>
+				httpMock.expectOne(`${apiUrl}/nodes/${mockNodeId}/chunks/${mockRootChunkId}`)
 			);
 			req.flush(buildIvPrefixedBuffer(new Uint8Array([9, 9, 9])));
 			await initPromise;
@@ -376,9 +474,8 @@ describe('FileService', () => {
 				).buffer
 			);
 			const initPromise = service.initializePage(mockPassword, mockNodeId);
-			await Promise.resolve();
-			const req = httpMock.expectOne(
-				`${apiUrl}/nodes/${mockNodeId}/chunks/${mockRootChunkId}`
+			const req = await vi.waitFor(() =>
+				httpMock.expectOne(`${apiUrl}/nodes/${mockNodeId}/chunks/${mockRootChunkId}`)
 			);
 			req.flush(buildIvPrefixedBuffer(new Uint8Array([1])));
 			await initPromise;
@@ -501,16 +598,2382 @@ describe('FileService', () => {
 		});
 	});
 
-	describe('Integration Scenarios', () => {
-		it('should handle complete initialization flow and maintain state', async () => {
-			(cryptoStub.decryptData as any).mockResolvedValueOnce(
-				encoder.encode(JSON.stringify(mockDirectory)).buffer
+	describe('Rename and Move', () => {
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['directory'].next(structuredClone(mockDirectory));
+		});
+
+		it('should rename a file and persist only the current directory', async () => {
+			const rewriteSpy = vi.spyOn(service as any, 'rewriteDirectory').mockResolvedValue({});
+			const updateSpy = vi
+				.spyOn(service as any, 'updateDirectory')
+				.mockResolvedValue(undefined);
+
+			const file = service.getCurrentDirectory()!.contents[0];
+			const result = await service.renameItem(file, 'renamed.txt');
+
+			expect(result.success).toBe(true);
+			expect(service.getCurrentDirectory()!.contents[0].name).toBe('renamed.txt');
+			expect(rewriteSpy).not.toHaveBeenCalled();
+			expect(updateSpy).toHaveBeenCalledTimes(1);
+		});
+
+		it('should reject rename onto an existing name', async () => {
+			const updateSpy = vi.spyOn(service as any, 'updateDirectory');
+
+			const file = service.getCurrentDirectory()!.contents[0];
+			const result = await service.renameItem(file, 'subfolder');
+
+			expect(result.success).toBe(false);
+			expect(result.message).toContain('already exists');
+			expect(updateSpy).not.toHaveBeenCalled();
+		});
+
+		it('should rename a directory inside its own metadata too', async () => {
+			vi.spyOn(service as any, 'fetchDirectory').mockResolvedValue({
+				name: 'subfolder',
+				chunkId: 'subfolder-chunk-id',
+				parentId: mockRootChunkId,
+				contents: []
+			});
+			const rewriteSpy = vi.spyOn(service as any, 'rewriteDirectory').mockResolvedValue({});
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+
+			const dir = service.getCurrentDirectory()!.contents[1];
+			const result = await service.renameItem(dir, 'photos');
+
+			expect(result.success).toBe(true);
+			expect(rewriteSpy).toHaveBeenCalledWith(
+				expect.objectContaining({ chunkId: 'subfolder-chunk-id', name: 'photos' })
 			);
+		});
 
-			const initPromise = service.initializePage(mockPassword, mockNodeId);
-			await Promise.resolve();
-			const req = httpMock.expectOne(
-				`${apiUrl}/nodes/${mockNodeId}/chunks/${mockRootChunkId}`
+		it('should move a directory and rewrite its parent pointer', async () => {
+			const destination: Directory = {
+				name: 'target',
+				chunkId: 'target-chunk-id',
+				parentId: mockRootChunkId,
+				contents: []
+			};
+			const moved: Directory = {
+				name: 'subfolder',
+				chunkId: 'subfolder-chunk-id',
+				parentId: mockRootChunkId,
+				contents: []
+			};
+			const directories: Record<string, Directory> = {
+				'target-chunk-id': destination,
+				'subfolder-chunk-id': moved,
+				[mockRootChunkId]: structuredClone(mockDirectory)
+			};
+			vi.spyOn(service as any, 'fetchDirectory').mockImplementation((async (id: string) =>
+				structuredClone(directories[id])) as any);
+			const rewriteSpy = vi.spyOn(service as any, 'rewriteDirectory').mockResolvedValue({});
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+
+			const dir = service.getCurrentDirectory()!.contents[1];
+			const result = await service.moveItem(dir, 'target-chunk-id');
+
+			expect(result.success).toBe(true);
+			expect(rewriteSpy).toHaveBeenCalledWith(
+				expect.objectContaining({
+					chunkId: 'target-chunk-id',
+					contents: [
+						{ type: 'directory', name: 'subfolder', chunkId: 'subfolder-chunk-id' }
+					]
+				})
+			);
+			expect(rewriteSpy).toHaveBeenCalledWith(
+				expect.objectContaining({
+					chunkId: 'subfolder-chunk-id',
+					parentId: 'target-chunk-id'
+				})
+			);
+			expect(service.getCurrentDirectory()!.contents.map(i => i.name)).toEqual(['test.txt']);
+		});
+
+		it('should reject moving a directory into its own descendant', async () => {
+			const nested: Directory = {
+				name: 'nested',
+				chunkId: 'nested-chunk-id',
+				parentId: 'subfolder-chunk-id',
+				contents: []
+			};
+			const directories: Record<string, Directory> = {
+				'nested-chunk-id': nested,
+				'subfolder-chunk-id': {
+					name: 'subfolder',
+					chunkId: 'subfolder-chunk-id',
+					parentId: mockRootChunkId,
+					contents: [{ type: 'directory', name: 'nested', chunkId: 'nested-chunk-id' }]
+				}
+			};
+			vi.spyOn(service as any, 'fetchDirectory').mockImplementation((async (id: string) =>
+				structuredClone(directories[id])) as any);
+			const rewriteSpy = vi.spyOn(service as any, 'rewriteDirectory');
+
+			const dir = service.getCurrentDirectory()!.contents[1];
+			const result = await service.moveItem(dir, 'nested-chunk-id');
+
+			expect(result.success).toBe(false);
+			expect(result.message).toContain('own subdirectories');
+			expect(rewriteSpy).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('Copy', () => {
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['directory'].next(structuredClone(mockDirectory));
+		});
+
+		it('should request a node-side copy for a chunk', async () => {
+			const copyPromise = (service as any)['copyChunk']('chunk1');
+
+			const req = httpMock.expectOne(`${apiUrl}/nodes/${mockNodeId}/chunks/chunk1/copies`);
+			expect(req.request.method).toBe('POST');
+			req.flush({ success: true, data: { chunkId: 'chunk1-copy' } });
+
+			expect(await copyPromise).toBe('chunk1-copy');
+		});
+
+		it('should duplicate a file next to the original with fresh chunk ids', async () => {
+			vi.spyOn(service as any, 'copyChunk').mockImplementation(
+				(async (id: string) => `${id}-copy`) as any
+			);
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+
+			const file = service.getCurrentDirectory()!.contents[0];
+			const result = await service.copyItem(file, mockRootChunkId);
+
+			expect(result.success).toBe(true);
+			const copy = service
+				.getCurrentDirectory()!
+				.contents.find(i => i.name === 'test (copy).txt') as DirectoryItem & {
+				type: 'file';
+			};
+			expect(copy.fileChunks).toEqual(['chunk1-copy', 'chunk2-copy']);
+			expect(service.getCurrentUploadProgress()).toEqual(
+				expect.objectContaining({ progress: 100, chunksUploaded: 2, totalChunks: 2 })
+			);
+		});
+
+		it('should re-encrypt format 3 chunks so the copy decrypts under its own chunk ids', async () => {
+			const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+			(service as any)['transferConcurrency'] = 1;
+			service.getCurrentDirectory()!.contents[0] = {
+				...(mockDirectory.contents[0] as DirectoryItem & { type: 'file' }),
+				formatVersion: AUTHENTICATED_ITEM_FORMAT,
+				wrappedKey: 'wrapped-key'
+			};
+			const copyChunkSpy = vi.spyOn(service as any, 'copyChunk');
+			const downloadSpy = vi
+				.spyOn(service as any, 'downloadFileChunk')
+				.mockResolvedValue(new Uint8Array([7, 7]).buffer);
+			let nextChunk = 0;
+			vi.spyOn(service as any, 'prepareUploadSession').mockImplementation((async () => ({
+				chunkId: `copy-${nextChunk++}`,
+				uploadUrl: 'https://node.test/upload',
+				temporaryObjectName: 'tmp'
+			})) as any);
+			const encryptSpy = vi
+				.spyOn(service as any, 'encryptAndUploadChunk')
+				.mockResolvedValue(undefined);
+			vi.spyOn(service as any, 'completeChunkTransfer').mockResolvedValue(undefined);
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+
+			const result = await service.copyItem(
+				service.getCurrentDirectory()!.contents[0],
+				mockRootChunkId
+			);
+
+			expect(result.success).toBe(true);
+			expect(copyChunkSpy).not.toHaveBeenCalled();
+			const copy = service
+				.getCurrentDirectory()!
+				.contents.find(i => i.name === 'test (copy).txt') as DirectoryItem & {
+				type: 'file';
+			};
+			expect(copy.fileChunks).toEqual(['copy-0', 'copy-1']);
+			const sealedUnder = encryptSpy.mock.calls.map(call => decode(call[3] as Uint8Array));
+
+			// Reading the copy checks each chunk against the data it was sealed with
+			downloadSpy.mockClear();
+			await (service as any)['downloadAndDecryptChunks'](copy, 2);
+			expect(downloadSpy.mock.calls.map(call => decode(call[2] as Uint8Array))).toEqual(
+				sealedUnder
+			);
+			expect(sealedUnder).toEqual([
+				'yourcloud:v3:file:copy-0:0',
+				'yourcloud:v3:file:copy-1:1'
+			]);
+		});
+
+		it('should rebuild directory metadata when copying a folder', async () => {
+			const source: Directory = {
+				name: 'subfolder',
+				chunkId: 'subfolder-chunk-id',
+				parentId: mockRootChunkId,
+				contents: [
+					{
+						type: 'file',
+						name: 'inner.bin',
+						size: 10,
+						createdAt: '2024-01-01T00:00:00.000Z',
+						fileChunks: ['inner-chunk']
+					}
+				]
+			};
+			vi.spyOn(service as any, 'fetchDirectory').mockImplementation((async () =>
+				structuredClone(source)) as any);
+			vi.spyOn(service as any, 'copyChunk').mockResolvedValue('inner-chunk-copy');
+			vi.spyOn(service as any, 'storeDirectory').mockImplementation(
+				(async (d: Directory) => d) as any
+			);
+			const rewriteSpy = vi
+				.spyOn(service as any, 'rewriteDirectory')
+				.mockImplementation((async (d: Directory) => d) as any);
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+
+			const dir = service.getCurrentDirectory()!.contents[1];
+			const result = await service.copyItem(dir, mockRootChunkId);
+
+			expect(result.success).toBe(true);
+			expect(rewriteSpy).toHaveBeenCalledWith(
+				expect.objectContaining({
+					name: 'subfolder (copy)',
+					chunkId: 'uuid-1234',
+					parentId: mockRootChunkId,
+					contents: [expect.objectContaining({ fileChunks: ['inner-chunk-copy'] })]
+				})
+			);
+			expect(service.getCurrentDirectory()!.contents).toContainEqual({
+				type: 'directory',
+				name: 'subfolder (copy)',
+				chunkId: 'uuid-1234'
+			});
+		});
+
+		it('should number repeated copy names', () => {
+			const directory: Directory = {
+				...mockDirectory,
+				contents: [
+					...mockDirectory.contents,
+					{
+						type: 'file',
+						name: 'test (copy).txt',
+						size: 1,
+						createdAt: '2024-01-01T00:00:00.000Z',
+						fileChunks: []
+					}
+				]
+			};
+			expect((service as any)['getAvailableName'](directory, 'test.txt', 'copy')).toBe(
+				'test (copy 2).txt'
+			);
+		});
+	});
+
+	describe('Trash', () => {
+		const trashChunkId = 'trash-chunk-id';
+		let trashDirectory: Directory & { retentionDays?: number };
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['rootChunkId'] = mockRootChunkId;
+			(service as any)['directory'].next({ ...structuredClone(mockDirectory), trashChunkId });
+			trashDirectory = {
+				name: '.trash',
+				chunkId: trashChunkId,
+				parentId: mockRootChunkId,
+				contents: []
+			};
+			vi.spyOn(service as any, 'fetchDirectory').mockImplementation((async (id: string) => {
+				if (id === trashChunkId) return structuredClone(trashDirectory);
+				return {
+					name: 'subfolder',
+					chunkId: id,
+					parentId: mockRootChunkId,
+					contents: [{ type: 'directory', name: 'inner', chunkId: 'inner-id' }]
+				};
+			}) as any);
+		});
+
+		it('should move a deleted file into the trash instead of deleting chunks', async () => {
+			const rewriteSpy = vi.spyOn(service as any, 'rewriteDirectory').mockResolvedValue({});
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+			const deleteChunkSpy = vi.spyOn(service as any, 'deleteChunk');
+
+			const file = service.getCurrentDirectory()!.contents[0];
+			const result = await service.deleteItem(file);
+
+			expect(result.success).toBe(true);
+			expect(deleteChunkSpy).not.toHaveBeenCalled();
+			const savedTrash = rewriteSpy.mock.calls[0][0] as Directory;
+			expect(savedTrash.chunkId).toBe(trashChunkId);
+			expect(savedTrash.contents[0]).toEqual(
+				expect.objectContaining({
+					name: 'test.txt',
+					trash: expect.objectContaining({
+						originalPath: '/',
+						originalParentId: mockRootChunkId
+					})
+				})
+			);
+			expect(service.getCurrentDirectory()!.contents.map(i => i.name)).toEqual(['subfolder']);
+		});
+
+		it('should still ask for confirmation before trashing a non-empty directory', async () => {
+			const dir = service.getCurrentDirectory()!.contents[1];
+			const result = await service.deleteItem(dir, false);
+
+			expect(result.success).toBe(false);
+			expect(result.requiresConfirmation).toBe(true);
+		});
+
+		it('should create and link the trash directory on first delete', async () => {
+			const root = service.getCurrentDirectory()!;
+			delete root.trashChunkId;
+			vi.spyOn(service as any, 'createDirectory').mockResolvedValue({
+				name: '.trash',
+				chunkId: 'new-trash-id',
+				parentId: mockRootChunkId,
+				contents: []
+			});
+			vi.spyOn(service as any, 'rewriteDirectory').mockResolvedValue({});
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+
+			const result = await service.deleteItem(root.contents[0]);
+
+			expect(result.success).toBe(true);
+			expect(service.getCurrentDirectory()!.trashChunkId).toBe('new-trash-id');
+		});
+
+		it('should restore an entry into its original directory', async () => {
+			const entry: TrashedItem = {
+				...(structuredClone(mockDirectory.contents[0]) as DirectoryItem),
+				trash: {
+					id: 'entry-1',
+					deletedAt: new Date().toISOString(),
+					originalPath: '/',
+					originalParentId: mockRootChunkId
+				}
+			};
+			trashDirectory.contents = [entry];
+			service.getCurrentDirectory()!.contents = [];
+			const rewriteSpy = vi.spyOn(service as any, 'rewriteDirectory').mockResolvedValue({});
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+
+			const result = await service.restoreTrashItem(entry);
+
+			expect(result.success).toBe(true);
+			expect(service.getCurrentDirectory()!.contents).toEqual([mockDirectory.contents[0]]);
+			expect(rewriteSpy).toHaveBeenCalledWith(
+				expect.objectContaining({ chunkId: trashChunkId, contents: [] })
+			);
+		});
+
+		it('should purge entries older than the retention window', async () => {
+			const old = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000).toISOString();
+			const recent = new Date().toISOString();
+			trashDirectory.contents = [
+				{
+					...(structuredClone(mockDirectory.contents[0]) as DirectoryItem),
+					trash: { id: 'old', deletedAt: old, originalPath: '/', originalParentId: '' }
+				},
+				{
+					...(structuredClone(mockDirectory.contents[0]) as DirectoryItem),
+					trash: {
+						id: 'recent',
+						deletedAt: recent,
+						originalPath: '/',
+						originalParentId: ''
+					}
+				}
+			] as TrashedItem[];
+			const destroySpy = vi.spyOn(service as any, 'destroyItem').mockResolvedValue(undefined);
+			const rewriteSpy = vi.spyOn(service as any, 'rewriteDirectory').mockResolvedValue({});
+
+			await (service as any)['purgeExpiredTrash']();
+
+			expect(destroySpy).toHaveBeenCalledTimes(1);
+			const savedTrash = rewriteSpy.mock.calls[0][0] as Directory;
+			expect((savedTrash.contents as TrashedItem[]).map(e => e.trash.id)).toEqual(['recent']);
+		});
+	});
+
+	describe('Versions', () => {
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['directory'].next(structuredClone(mockDirectory));
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+		});
+
+		it('should keep the previous content as a version when overwriting', async () => {
+			const deleteChunkSpy = vi.spyOn(service as any, 'deleteChunk');
+
+			await (service as any)['addFileToDirectory']('test.txt', {
+				size: 2048,
+				createdAt: '2024-02-01T00:00:00.000Z',
+				fileChunks: ['new1']
+			});
+
+			const files = service.getCurrentDirectory()!.contents.filter(i => i.type === 'file');
+			expect(files.length).toBe(1);
+			expect(files[0]).toEqual(
+				expect.objectContaining({
+					size: 2048,
+					fileChunks: ['new1'],
+					versions: [
+						{
+							size: 1024,
+							createdAt: '2024-01-01T00:00:00.000Z',
+							fileChunks: ['chunk1', 'chunk2']
+						}
+					]
+				})
+			);
+			expect(deleteChunkSpy).not.toHaveBeenCalled();
+		});
+
+		it('should leave the existing file untouched when the upload fails', async () => {
+			vi.spyOn(service as any, 'estimateFileMetadataSize').mockResolvedValue(300);
+			vi.spyOn(service as any, 'uploadFileChunks').mockRejectedValue(
+				new Error('Node offline')
+			);
+			const deleteChunkSpy = vi.spyOn(service as any, 'deleteChunk');
+			const file = new File([new Uint8Array([1, 2, 3])], 'test.txt');
+
+			const result = await service.uploadFile(file, 'test.txt', true);
+
+			expect(result.success).toBe(false);
+			expect(deleteChunkSpy).not.toHaveBeenCalled();
+			expect(service.getCurrentDirectory()).toEqual(mockDirectory);
+		});
+
+		it('should release only versions beyond the limit', async () => {
+			const deleteChunkSpy = vi
+				.spyOn(service as any, 'deleteChunk')
+				.mockResolvedValue(undefined);
+			const limit = (service as any)['MAX_FILE_VERSIONS'] as number;
+			const file = service.getCurrentDirectory()!.contents[0] as any;
+			file.versions = Array.from({ length: limit }, (_, i) => ({
+				size: i,
+				createdAt: '2023-01-01T00:00:00.000Z',
+				fileChunks: [`old-${i}`]
+			}));
+
+			await (service as any)['addFileToDirectory']('test.txt', {
+				size: 10,
+				createdAt: '2024-02-01T00:00:00.000Z',
+				fileChunks: ['new1']
+			});
+
+			expect(file.versions.length).toBe(limit);
+			expect(file.versions[0].fileChunks).toEqual(['chunk1', 'chunk2']);
+			expect(deleteChunkSpy).toHaveBeenCalledTimes(1);
+			expect(deleteChunkSpy).toHaveBeenCalledWith(`old-${limit - 1}`);
+		});
+
+		it('should swap a restored version with the current content', async () => {
+			const file = service.getCurrentDirectory()!.contents[0] as any;
+			file.versions = [
+				{ size: 5, createdAt: '2023-01-01T00:00:00.000Z', fileChunks: ['v1'] }
+			];
+
+			const result = await service.restoreFileVersion(file, 0);
+
+			expect(result.success).toBe(true);
+			expect(file.fileChunks).toEqual(['v1']);
+			expect(file.size).toBe(5);
+			expect(file.versions).toEqual([
+				{
+					size: 1024,
+					createdAt: '2024-01-01T00:00:00.000Z',
+					fileChunks: ['chunk1', 'chunk2']
+				}
+			]);
+		});
+
+		it('should count version chunk ids in the metadata estimate', async () => {
+			const fileSize = 10 * 1024 * 1024 * 1024;
+			const numChunks = Math.ceil(fileSize / (service as any)['CHUNK_SIZE']);
+			const chunkIds = Array.from(
+				{ length: numChunks },
+				(_, i) => `temp-mock-file-id-${i.toString().padStart(8, '0')}-mock-uuid`
+			);
+			// Directories are stored padded to their size bucket
+			const sizeOf = (value: unknown) =>
+				getPaddedLength(new TextEncoder().encode(JSON.stringify(value)).length, 4096);
+			const before = sizeOf(service.getCurrentDirectory());
+
+			const estimate = await service.estimateFileMetadataSize('test.txt', fileSize);
+			await (service as any)['addFileToDirectory']('test.txt', {
+				size: fileSize,
+				createdAt: new Date().toISOString(),
+				fileChunks: chunkIds,
+				formatVersion: ITEM_FORMAT_VERSION,
+				wrappedKey: 'k'.repeat(80),
+				chunkKeys: 'k'.repeat((service as any)['getSealedChunkKeysLength'](numChunks))
+			});
+
+			// Estimate matches the stored entry including the new version record
+			const file = service.getCurrentDirectory()!.contents[0] as any;
+			expect(file.versions[0].fileChunks).toEqual(['chunk1', 'chunk2']);
+			expect(estimate).toBe(sizeOf(service.getCurrentDirectory()) - before + 32);
+		});
+	});
+
+	describe('Per-file Keys', () => {
+		const legacyFile = {
+			type: 'file' as const,
+			name: 'old.txt',
+			size: 1,
+			createdAt: '2024-01-01T00:00:00.000Z',
+			fileChunks: ['legacy-chunk']
+		};
+		const keyedFile = {
+			...legacyFile,
+			name: 'new.txt',
+			fileChunks: ['keyed-chunk'],
+			formatVersion: AUTHENTICATED_ITEM_FORMAT,
+			wrappedKey: 'wrapped-key'
+		};
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['transferConcurrency'] = 1;
+			(service as any)['directory'].next(structuredClone(mockDirectory));
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+		});
+
+		it('should encrypt uploads with a fresh data key and store it wrapped', async () => {
+			vi.spyOn(service as any, 'estimateFileMetadataSize').mockResolvedValue(300);
+			const uploadChunkSpy = vi
+				.spyOn(service as any, 'uploadFileChunk')
+				.mockResolvedValue('chunk-0');
+
+			const result = await service.uploadFile(
+				createSliceableFile(new Uint8Array([1]), 'new.bin', 1),
+				'new.bin'
+			);
+
+			expect(result.success).toBe(true);
+			expect(cryptoStub.generateDataKey).toHaveBeenCalledTimes(1);
+			// The chunk is under its own key; the data key seals the chunk keys
+			expect(uploadChunkSpy.mock.calls[0][2]).toBe(chunkKey);
+			expect(uploadChunkSpy.mock.calls[0].slice(3)).toEqual([ITEM_FORMAT_VERSION, 0]);
+			expect((cryptoStub as any).sealChunkKeys).toHaveBeenCalledWith(
+				[encoder.encode('hash:1')],
+				dataKey
+			);
+			expect(service.getCurrentDirectory()!.contents).toContainEqual(
+				expect.objectContaining({
+					name: 'new.bin',
+					formatVersion: ITEM_FORMAT_VERSION,
+					wrappedKey: 'wrapped-key',
+					chunkKeys: 'sealed-chunk-keys'
+				})
+			);
+		});
+
+		it('should decrypt legacy items with the master key and new items with their data key', async () => {
+			const downloadSpy = vi
+				.spyOn(service as any, 'downloadFileChunk')
+				.mockResolvedValue(new Uint8Array([7]).buffer);
+
+			await service.downloadFile(legacyFile);
+			await service.downloadFile(keyedFile);
+
+			expect(downloadSpy).toHaveBeenNthCalledWith(
+				1,
+				'legacy-chunk',
+				undefined,
+				undefined,
+				undefined
+			);
+			expect(downloadSpy).toHaveBeenNthCalledWith(
+				2,
+				'keyed-chunk',
+				dataKey,
+				expect.anything(),
+				undefined
+			);
+			expect(cryptoStub.unwrapDataKey).toHaveBeenCalledWith('wrapped-key', undefined);
+		});
+
+		it('should keep each version paired with its own key', async () => {
+			const directory = service.getCurrentDirectory()!;
+			directory.contents = [structuredClone(keyedFile)];
+
+			await (service as any)['addFileToDirectory']('new.txt', {
+				size: 2,
+				createdAt: '2024-02-01T00:00:00.000Z',
+				fileChunks: ['legacy-upload']
+			});
+
+			const file = directory.contents[0] as any;
+			expect(file.formatVersion).toBeUndefined();
+			expect(file.wrappedKey).toBeUndefined();
+			expect(file.versions[0]).toEqual(
+				expect.objectContaining({
+					fileChunks: ['keyed-chunk'],
+					formatVersion: AUTHENTICATED_ITEM_FORMAT,
+					wrappedKey: 'wrapped-key'
+				})
+			);
+
+			await service.restoreFileVersion(file, 0);
+			expect(file.wrappedKey).toBe('wrapped-key');
+			expect(file.versions[0].wrappedKey).toBeUndefined();
+		});
+
+		it('should refuse items written in a newer format', async () => {
+			await expect(
+				service.downloadFile({ ...keyedFile, formatVersion: ITEM_FORMAT_VERSION + 1 })
+			).rejects.toThrow('Unsupported file format version');
+		});
+	});
+
+	describe('Share Links', () => {
+		const sharedFile = {
+			type: 'file' as const,
+			name: 'report.pdf',
+			size: 10,
+			createdAt: '2024-01-01T00:00:00.000Z',
+			fileChunks: ['chunk-a', 'chunk-b'],
+			formatVersion: ITEM_FORMAT_VERSION,
+			wrappedKey: 'wrapped-key'
+		};
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			Object.assign(cryptoStub, {
+				createShareKey: vi
+					.fn()
+					.mockResolvedValue({ shareKey: 'share-key', wrappedDataKey: '+/+/' }),
+				encryptText: vi
+					.fn()
+					.mockImplementation(async (text: string, key?: CryptoKey) =>
+						key ? 'encrypted-manifest' : `encrypted:${text}`
+					),
+				decryptText: vi.fn().mockResolvedValue('report.pdf')
+			});
+		});
+
+		it('should send the share key to the server and keep the wrapped data key in the fragment', async () => {
+			const promise = service.createShare(sharedFile, { maxDownloads: 3 });
+
+			const req = await vi.waitFor(() => httpMock.expectOne(`${apiUrl}/shares`));
+			expect(req.request.body).toEqual({
+				nodeId: mockNodeId,
+				chunkIds: ['chunk-a', 'chunk-b'],
+				shareKey: 'share-key',
+				encryptedManifest: 'encrypted-manifest',
+				encryptedName: 'encrypted:report.pdf',
+				maxDownloads: 3
+			});
+			expect(JSON.stringify(req.request.body)).not.toContain('+/+/');
+			req.flush({ success: true, data: { share_id: 'abc' } });
+
+			const result = await promise;
+			expect(result.url).toBe(`${window.location.origin}/s/abc#-_-_`);
+			expect(JSON.parse((cryptoStub as any).encryptText.mock.calls[0][0])).toEqual({
+				name: 'report.pdf',
+				size: 10,
+				formatVersion: ITEM_FORMAT_VERSION,
+				fileChunks: ['chunk-a', 'chunk-b']
+			});
+		});
+
+		it('should refuse to share files still under the master key', async () => {
+			const { formatVersion, wrappedKey, ...legacyFile } = sharedFile;
+
+			const result = await service.createShare(legacyFile);
+
+			expect(result.success).toBe(false);
+			expect(result.message).toContain('re-upload');
+			httpMock.expectNone(`${apiUrl}/shares`);
+		});
+
+		it('should list shares with decrypted names', async () => {
+			const promise = service.listShares();
+
+			httpMock.expectOne(`${apiUrl}/shares`).flush({
+				success: true,
+				data: {
+					shares: [
+						{
+							share_id: 'abc',
+							encrypted_name: 'encrypted:report.pdf',
+							has_password: true,
+							created_at: '2024-01-01T00:00:00.000Z',
+							expires_at: null,
+							max_downloads: null,
+							download_count: 2
+						}
+					]
+				}
+			});
+
+			expect(await promise).toEqual([
+				{
+					shareId: 'abc',
+					name: 'report.pdf',
+					hasPassword: true,
+					createdAt: '2024-01-01T00:00:00.000Z',
+					expiresAt: null,
+					maxDownloads: null,
+					downloadCount: 2
+				}
+			]);
+		});
+	});
+
+	describe('Chunk Authentication', () => {
+		const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['transferConcurrency'] = 1;
+		});
+
+		it('should store metadata chunks with a format header and bind them to their chunk id', async () => {
+			const storePromise = (service as any)['encryptAndStoreChunk']('{}', 'dir-1');
+			const req = await vi.waitFor(() =>
+				httpMock.expectOne(`${apiUrl}/nodes/${mockNodeId}/chunks/dir-1`)
+			);
+			const body = new Uint8Array(await readBlob(req.request.body));
+			req.flush({ success: true });
+			await storePromise;
+
+			expect(Array.from(body.slice(0, 3))).toEqual([0x59, 0x43, 3]);
+			const aad = (cryptoStub.encryptData as any).mock.calls[0][3];
+			expect(decode(aad)).toBe('yourcloud:v3:metadata:dir-1');
+		});
+
+		it('should verify headered chunks against their id and read legacy chunks without', async () => {
+			const header = new Uint8Array([0x59, 0x43, 3]);
+			const legacy = new Uint8Array(buildIvPrefixedBuffer(new Uint8Array([1])));
+			const current = new Uint8Array([...header, ...legacy]);
+
+			await (service as any)['processChunkResponse'](current.buffer, 'dir-1');
+			await (service as any)['processChunkResponse'](legacy.buffer, 'dir-2');
+
+			const calls = (cryptoStub.decryptData as any).mock.calls;
+			expect(decode(calls[0][3])).toBe('yourcloud:v3:metadata:dir-1');
+			expect(calls[1][3]).toBeUndefined();
+		});
+
+		it('should fail loudly when a chunk was swapped', async () => {
+			(cryptoStub.decryptData as any).mockRejectedValue(
+				Object.assign(new Error(''), { name: 'OperationError' })
+			);
+			const swapped = new Uint8Array([
+				0x59,
+				0x43,
+				3,
+				...new Uint8Array(buildIvPrefixedBuffer(new Uint8Array([1])))
+			]);
+
+			await expect(
+				(service as any)['processChunkResponse'](swapped.buffer, 'dir-1')
+			).rejects.toThrow('Chunk dir-1 failed authentication');
+		});
+
+		it('should bind file chunks to their id and index from format 3 on', async () => {
+			const downloadSpy = vi
+				.spyOn(service as any, 'downloadFileChunk')
+				.mockResolvedValue(new Uint8Array([7]).buffer);
+
+			await (service as any)['downloadAndDecryptChunks'](
+				{
+					type: 'file',
+					name: 'a.bin',
+					size: 2,
+					createdAt: '2024-01-01T00:00:00.000Z',
+					fileChunks: ['c-0', 'c-1'],
+					formatVersion: AUTHENTICATED_ITEM_FORMAT,
+					wrappedKey: 'wrapped-key'
+				},
+				2
+			);
+			await (service as any)['downloadAndDecryptChunks'](
+				{
+					type: 'file',
+					name: 'b.bin',
+					size: 1,
+					createdAt: '2024-01-01T00:00:00.000Z',
+					fileChunks: ['old-0'],
+					formatVersion: 2,
+					wrappedKey: 'wrapped-key'
+				},
+				1
+			);
+
+			expect(decode(downloadSpy.mock.calls[0][2] as Uint8Array)).toBe(
+				'yourcloud:v3:file:c-0:0'
+			);
+			expect(decode(downloadSpy.mock.calls[1][2] as Uint8Array)).toBe(
+				'yourcloud:v3:file:c-1:1'
+			);
+			expect(downloadSpy.mock.calls[2][2]).toBeUndefined();
+		});
+
+		it('should bind deduplicated chunks to their id only, each under its own key', async () => {
+			const keys = [{ type: 'secret' }, { type: 'secret' }] as CryptoKey[];
+			(cryptoStub as any).openChunkKeys.mockResolvedValue(keys);
+			const downloadSpy = vi
+				.spyOn(service as any, 'downloadFileChunk')
+				.mockResolvedValue(new Uint8Array([7]).buffer);
+
+			await (service as any)['downloadAndDecryptChunks'](
+				{
+					type: 'file',
+					name: 'a.bin',
+					size: 2,
+					createdAt: '2024-01-01T00:00:00.000Z',
+					fileChunks: ['c-0', 'c-1'],
+					formatVersion: ITEM_FORMAT_VERSION,
+					wrappedKey: 'wrapped-key',
+					chunkKeys: 'sealed-chunk-keys'
+				},
+				2
+			);
+
+			expect((cryptoStub as any).openChunkKeys).toHaveBeenCalledWith(
+				'sealed-chunk-keys',
+				dataKey
+			);
+			expect(downloadSpy.mock.calls.map(call => call[1])).toEqual(keys);
+			expect(decode(downloadSpy.mock.calls[1][2] as Uint8Array)).toBe(
+				`yourcloud:v${ITEM_FORMAT_VERSION}:file:c-1`
+			);
+		});
+	});
+
+	describe('Resumable Uploads', () => {
+		const lastModified = 1700000000000;
+		const entryId = `${mockNodeId}:${mockRootChunkId}:new.bin`;
+		const file = () =>
+			createSliceableFile(new Uint8Array([1, 2, 3, 4, 5]), 'new.bin', lastModified);
+		const journalEntry = (overrides: Partial<UploadJournalEntry> = {}): UploadJournalEntry => ({
+			id: entryId,
+			nodeId: mockNodeId,
+			directoryChunkId: mockRootChunkId,
+			directoryPath: '/',
+			fileName: 'new.bin',
+			fileSize: 5,
+			lastModified,
+			chunkSize: 2,
+			totalChunks: 3,
+			completedChunks: {},
+			wrappedKey: 'wrapped-key',
+			formatVersion: ITEM_FORMAT_VERSION,
+			updatedAt: '2024-01-01T00:00:00.000Z',
+			...overrides
+		});
+		let uploadChunkSpy: ReturnType<typeof vi.spyOn>;
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['CHUNK_SIZE'] = 2;
+			(service as any)['transferConcurrency'] = 1;
+			(service as any)['directory'].next(structuredClone(mockDirectory));
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+			vi.spyOn(service as any, 'estimateFileMetadataSize').mockResolvedValue(300);
+			let uploaded = 0;
+			uploadChunkSpy = vi
+				.spyOn(service as any, 'uploadFileChunk')
+				.mockImplementation((async () => `new-${uploaded++}`) as any);
+		});
+
+		it('should skip journaled chunks and reserve only the missing bytes', async () => {
+			journalStub.getEntry.mockResolvedValue(
+				journalEntry({ completedChunks: { 0: 'stored-0' } })
+			);
+
+			const result = await service.uploadFile(file(), 'new.bin');
+
+			expect(result.success).toBe(true);
+			expect(uploadChunkSpy).toHaveBeenCalledTimes(2);
+			expect(uploadChunkSpy.mock.calls.map(call => call[1])).toEqual([303, 0]);
+			const stored = service.getCurrentDirectory()!.contents.find(i => i.name === 'new.bin');
+			expect(stored).toEqual(
+				expect.objectContaining({ size: 5, fileChunks: ['stored-0', 'new-0', 'new-1'] })
+			);
+			expect(journalStub.removeEntry).toHaveBeenCalledWith(entryId);
+		});
+
+		it('should read the file one slice per chunk', async () => {
+			const upload = file();
+
+			await service.uploadFile(upload, 'new.bin');
+
+			// Once to find and hash the chunks, once more to upload them
+			expect((upload.slice as any).mock.calls).toEqual([
+				[0, 2],
+				[2, 4],
+				[4, 5],
+				[0, 2],
+				[2, 4],
+				[4, 5]
+			]);
+			const sent = uploadChunkSpy.mock.calls.map(call =>
+				Array.from(new Uint8Array(call[0] as ArrayBuffer))
+			);
+			expect(sent).toEqual([[1, 2], [3, 4], [5]]);
+		});
+
+		it('should zero-pad the last chunk and reserve the padded size when enabled', async () => {
+			(service as any)['padFileSizes'] = true;
+			(service as any)['MIN_PADDED_SIZE'] = 2;
+
+			const result = await service.uploadFile(file(), 'new.bin');
+
+			expect(result.success).toBe(true);
+			const sent = uploadChunkSpy.mock.calls.map(call =>
+				Array.from(new Uint8Array(call[0] as ArrayBuffer))
+			);
+			expect(sent).toEqual([
+				[1, 2],
+				[3, 4],
+				[5, 0]
+			]);
+			expect(uploadChunkSpy.mock.calls.map(call => call[1])).toEqual([306, 0, 0]);
+			const stored = service.getCurrentDirectory()!.contents.find(i => i.name === 'new.bin');
+			expect(stored).toEqual(expect.objectContaining({ size: 5, paddedSize: 6 }));
+		});
+
+		it('should journal each stored chunk and keep the entry when the upload fails', async () => {
+			uploadChunkSpy
+				.mockResolvedValueOnce('new-0')
+				.mockRejectedValueOnce(Object.assign(new Error('Forbidden'), { status: 403 }));
+
+			const result = await service.uploadFile(file(), 'new.bin');
+
+			expect(result.success).toBe(false);
+			expect(journalStub.saveEntry).toHaveBeenCalledTimes(1);
+			expect(journalStub.saveEntry.mock.calls[0][0]).toEqual(
+				expect.objectContaining({
+					id: entryId,
+					directoryPath: '/',
+					totalChunks: 3,
+					completedChunks: { 0: 'new-0' }
+				})
+			);
+			expect(journalStub.removeEntry).not.toHaveBeenCalled();
+		});
+
+		it('should discard the stored chunks of a different file with the same name', async () => {
+			journalStub.getEntry.mockResolvedValue(
+				journalEntry({ lastModified: 1, completedChunks: { 0: 'stale-0' } })
+			);
+			vi.spyOn(service as any, 'fetchDirectory').mockResolvedValue(
+				structuredClone(mockDirectory)
+			);
+			const deleteChunkSpy = vi
+				.spyOn(service as any, 'deleteChunk')
+				.mockResolvedValue(undefined);
+
+			const result = await service.uploadFile(file(), 'new.bin');
+
+			expect(result.success).toBe(true);
+			expect(deleteChunkSpy).toHaveBeenCalledWith('stale-0');
+			expect(uploadChunkSpy).toHaveBeenCalledTimes(3);
+		});
+
+		it('should refuse to resume with a file that does not match the entry', async () => {
+			const changeDirectorySpy = vi.spyOn(service, 'changeDirectory');
+
+			const result = await service.resumeUpload(journalEntry({ fileSize: 99 }), file());
+
+			expect(result.success).toBe(false);
+			expect(changeDirectorySpy).not.toHaveBeenCalled();
+			expect(uploadChunkSpy).not.toHaveBeenCalled();
+		});
+
+		it('should resume in the target folder and upload only the missing chunks', async () => {
+			const entry = journalEntry({ completedChunks: { 0: 'stored-0', 1: 'stored-1' } });
+			journalStub.getEntry.mockResolvedValue(entry);
+			const changeDirectorySpy = vi
+				.spyOn(service, 'changeDirectory')
+				.mockResolvedValue(undefined as any);
+
+			const result = await service.resumeUpload(entry, file());
+
+			expect(result.success).toBe(true);
+			expect(changeDirectorySpy).toHaveBeenCalledWith(mockRootChunkId);
+			expect(uploadChunkSpy).toHaveBeenCalledTimes(1);
+			const stored = service.getCurrentDirectory()!.contents.find(i => i.name === 'new.bin');
+			expect(stored).toEqual(
+				expect.objectContaining({ fileChunks: ['stored-0', 'stored-1', 'new-0'] })
+			);
+			expect(journalStub.removeEntry).toHaveBeenCalledWith(entryId);
+		});
+
+		it('should delete the chunks a discarded upload stored unless they are referenced', async () => {
+			const directory = structuredClone(mockDirectory);
+			directory.contents.push({
+				type: 'file',
+				name: 'finished.bin',
+				size: 2,
+				createdAt: '2024-01-01T00:00:00.000Z',
+				fileChunks: ['kept-0']
+			} as any);
+			vi.spyOn(service as any, 'fetchDirectory').mockResolvedValue(directory);
+			vi.spyOn(service as any, 'loadDedupIndex').mockResolvedValue({
+				entries: { 'hash:1': { chunkId: 'deduped-2', refs: 1 } }
+			});
+			const deleteChunkSpy = vi
+				.spyOn(service as any, 'deleteChunk')
+				.mockResolvedValue(undefined);
+
+			await service.discardUpload(
+				journalEntry({ completedChunks: { 0: 'kept-0', 1: 'stored-1', 2: 'deduped-2' } })
+			);
+
+			expect(deleteChunkSpy.mock.calls).toEqual([['stored-1']]);
+			expect(journalStub.removeEntry).toHaveBeenCalledWith(entryId);
+		});
+	});
+
+	describe('Deduplication', () => {
+		const sharedFile = {
+			type: 'file' as const,
+			name: 'shared.bin',
+			size: 4,
+			createdAt: '2024-01-01T00:00:00.000Z',
+			fileChunks: ['chunk-a', 'chunk-b'],
+			formatVersion: ITEM_FORMAT_VERSION,
+			wrappedKey: 'wrapped-key',
+			chunkKeys: 'sealed-chunk-keys'
+		};
+		const dedupIndex = () => (service as any)['dedupIndex'];
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['CHUNK_SIZE'] = 2;
+			(service as any)['transferConcurrency'] = 1;
+			(service as any)['directory'].next(structuredClone(mockDirectory));
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+			vi.spyOn(service as any, 'estimateFileMetadataSize').mockResolvedValue(300);
+			dedupIndex().entries = {
+				'hash:1,2': { chunkId: 'chunk-a', refs: 2 },
+				'hash:3,4': { chunkId: 'chunk-b', refs: 1 }
+			};
+		});
+
+		it('should upload repeated content once and reference chunks the index already holds', async () => {
+			const uploadChunkSpy = vi
+				.spyOn(service as any, 'uploadFileChunk')
+				.mockResolvedValue('chunk-c');
+
+			const result = await service.uploadFile(
+				createSliceableFile(new Uint8Array([5, 6, 1, 2, 5, 6]), 'new.bin'),
+				'new.bin'
+			);
+
+			expect(result.success).toBe(true);
+			expect(uploadChunkSpy).toHaveBeenCalledTimes(1);
+			expect(
+				Array.from(new Uint8Array(uploadChunkSpy.mock.calls[0][0] as ArrayBuffer))
+			).toEqual([5, 6]);
+			const stored = service.getCurrentDirectory()!.contents.find(i => i.name === 'new.bin');
+			expect(stored).toEqual(
+				expect.objectContaining({ fileChunks: ['chunk-c', 'chunk-a', 'chunk-c'] })
+			);
+			expect(dedupIndex().entries).toEqual({
+				'hash:1,2': { chunkId: 'chunk-a', refs: 3 },
+				'hash:3,4': { chunkId: 'chunk-b', refs: 1 },
+				'hash:5,6': { chunkId: 'chunk-c', refs: 2 }
+			});
+		});
+
+		it('should delete a chunk only once nothing references it', async () => {
+			const deleteChunkSpy = vi
+				.spyOn(service as any, 'deleteChunk')
+				.mockResolvedValue(undefined);
+
+			await (service as any)['destroyItem'](sharedFile);
+
+			expect(deleteChunkSpy).toHaveBeenCalledTimes(1);
+			expect(deleteChunkSpy).toHaveBeenCalledWith('chunk-b');
+			expect(dedupIndex().entries).toEqual({
+				'hash:1,2': { chunkId: 'chunk-a', refs: 1 }
+			});
+		});
+
+		it('should copy a file by adding references instead of copying chunks', async () => {
+			const copyChunkSpy = vi.spyOn(service as any, 'copyChunk');
+			service.getCurrentDirectory()!.contents.push(structuredClone(sharedFile));
+
+			const result = await service.copyItem(
+				service.getCurrentDirectory()!.contents.at(-1)!,
+				mockRootChunkId
+			);
+
+			expect(result.success).toBe(true);
+			expect(copyChunkSpy).not.toHaveBeenCalled();
+			const copy = service
+				.getCurrentDirectory()!
+				.contents.find(i => i.name === 'shared (copy).bin');
+			expect(copy).toEqual(
+				expect.objectContaining({
+					fileChunks: ['chunk-a', 'chunk-b'],
+					chunkKeys: 'sealed-chunk-keys'
+				})
+			);
+			expect(dedupIndex().entries['hash:3,4'].refs).toBe(2);
+		});
+	});
+
+	describe('Compression', () => {
+		// 64 zeros compress well; 64 bytes without repeats only grow
+		const compressible = new Uint8Array(64);
+		const incompressible = Uint8Array.from({ length: 64 }, (_, i) => (i * 97 + 13) & 0xff);
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['CHUNK_SIZE'] = 64;
+			(service as any)['transferConcurrency'] = 1;
+			(service as any)['compressUploads'] = true;
+			(service as any)['directory'].next(structuredClone(mockDirectory));
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+			vi.spyOn(service as any, 'estimateFileMetadataSize').mockResolvedValue(300);
+		});
+
+		it('should compress chunks that shrink and record their codec and the bytes saved', async () => {
+			const uploadChunkSpy = vi
+				.spyOn(service as any, 'uploadFileChunk')
+				.mockResolvedValueOnce('chunk-z')
+				.mockResolvedValueOnce('chunk-r');
+
+			const result = await service.uploadFile(
+				createSliceableFile(
+					new Uint8Array([...compressible, ...incompressible]),
+					'mixed.bin'
+				),
+				'mixed.bin'
+			);
+
+			expect(result.success).toBe(true);
+			const [zeros, other] = uploadChunkSpy.mock.calls.map(call => call[0] as ArrayBuffer);
+			expect(zeros.byteLength).toBeLessThan(64);
+			expect(Array.from(new Uint8Array(other))).toEqual(Array.from(incompressible));
+			const stored = service
+				.getCurrentDirectory()!
+				.contents.find(i => i.name === 'mixed.bin');
+			expect(stored).toEqual(
+				expect.objectContaining({
+					fileChunks: ['chunk-z', 'chunk-r'],
+					chunkCodecs: ['gzip', null],
+					savedBytes: 64 - zeros.byteLength
+				})
+			);
+			const entry = (service as any)['dedupIndex'].entries[`hash:${compressible.join(',')}`];
+			expect(entry).toEqual({
+				chunkId: 'chunk-z',
+				codec: 'gzip',
+				savedBytes: 64 - zeros.byteLength,
+				refs: 1
+			});
+		});
+
+		it('should leave a padded last chunk uncompressed', async () => {
+			(service as any)['padFileSizes'] = true;
+			const uploadChunkSpy = vi
+				.spyOn(service as any, 'uploadFileChunk')
+				.mockResolvedValue('chunk-p');
+
+			await service.uploadFile(
+				createSliceableFile(new Uint8Array(40), 'short.bin'),
+				'short.bin'
+			);
+
+			expect((uploadChunkSpy.mock.calls[0][0] as ArrayBuffer).byteLength).toBe(64);
+			const stored = service
+				.getCurrentDirectory()!
+				.contents.find(i => i.name === 'short.bin');
+			expect(stored).not.toHaveProperty('chunkCodecs');
+		});
+
+		it('should decompress a chunk after decrypting it', async () => {
+			const original = new TextEncoder().encode('compressed '.repeat(20));
+			const compressed = await compressData(original, 'gzip');
+			(cryptoStub.decryptData as any).mockResolvedValue(compressed.buffer);
+
+			const chunkPromise = (service as any)['downloadAndDecryptChunk'](
+				'https://node.test/chunk',
+				dataKey,
+				undefined,
+				'gzip'
+			);
+			const req = await vi.waitFor(() => httpMock.expectOne('https://node.test/chunk'));
+			req.flush(buildIvPrefixedBuffer(new Uint8Array([1, 2, 3])));
+
+			expect(new TextDecoder().decode(await chunkPromise)).toBe('compressed '.repeat(20));
+		});
+	});
+
+	describe('Parallel Transfers', () => {
+		const fileItem = (chunks: number) => ({
+			type: 'file' as const,
+			name: 'big.bin',
+			size: chunks,
+			createdAt: '2024-01-01T00:00:00.000Z',
+			fileChunks: Array.from({ length: chunks }, (_, i) => `chunk-${i}`)
+		});
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['transferConcurrency'] = 2;
+			(service as any)['CHUNK_RETRY_DELAY_MS'] = 0;
+		});
+
+		it('should keep chunk order while limiting chunks in flight', async () => {
+			let inFlight = 0;
+			let maxInFlight = 0;
+			vi.spyOn(service as any, 'downloadFileChunk').mockImplementation((async (
+				chunkId: string
+			) => {
+				inFlight++;
+				maxInFlight = Math.max(maxInFlight, inFlight);
+				const index = Number(chunkId.split('-')[1]);
+				// Later chunks finish first
+				await new Promise(resolve => setTimeout(resolve, (5 - index) * 2));
+				inFlight--;
+				return new Uint8Array([index]).buffer;
+			}) as any);
+
+			const chunks = await (service as any)['downloadAndDecryptChunks'](fileItem(5), 5);
+
+			expect(chunks.map((chunk: ArrayBuffer) => new Uint8Array(chunk)[0])).toEqual([
+				0, 1, 2, 3, 4
+			]);
+			expect(maxInFlight).toBe(2);
+			expect(service.getCurrentDownloadProgress()).toEqual(
+				expect.objectContaining({ chunksDownloaded: 5, progress: 100 })
+			);
+		});
+
+		it('should retry a chunk after a transient failure', async () => {
+			const downloadSpy = vi
+				.spyOn(service as any, 'downloadFileChunk')
+				.mockRejectedValueOnce(Object.assign(new Error('Bad gateway'), { status: 502 }))
+				.mockResolvedValue(new ArrayBuffer(1));
+
+			const chunks = await (service as any)['downloadAndDecryptChunks'](fileItem(2), 2);
+
+			expect(chunks.length).toBe(2);
+			expect(downloadSpy).toHaveBeenCalledTimes(3);
+		});
+
+		it('should fail without retrying client errors and stop starting new chunks', async () => {
+			(service as any)['transferConcurrency'] = 1;
+			const downloadSpy = vi
+				.spyOn(service as any, 'downloadFileChunk')
+				.mockRejectedValue(Object.assign(new Error('Chunk not found'), { status: 404 }));
+
+			await expect(
+				(service as any)['downloadAndDecryptChunks'](fileItem(3), 3)
+			).rejects.toThrow('Chunk not found');
+			expect(downloadSpy).toHaveBeenCalledTimes(1);
+		});
+
+		it('should stream chunks to the writable in order', async () => {
+			const written: number[] = [];
+			const writable = new WritableStream<Uint8Array>({
+				write: chunk => {
+					written.push(chunk[0]);
+				}
+			});
+			vi.spyOn(service as any, 'downloadFileChunk').mockImplementation((async (
+				chunkId: string
+			) => {
+				const index = Number(chunkId.split('-')[1]);
+				await new Promise(resolve => setTimeout(resolve, (4 - index) * 2));
+				return new Uint8Array([index]).buffer;
+			}) as any);
+
+			await service.downloadFileToStream(fileItem(4), writable);
+
+			expect(written).toEqual([0, 1, 2, 3]);
+			expect(service.getCurrentDownloadProgress()).toEqual(
+				expect.objectContaining({ isDownloading: false, progress: 100 })
+			);
+		});
+
+		it('should drop the padding of a padded last chunk', async () => {
+			const written: number[][] = [];
+			const writable = new WritableStream<Uint8Array>({
+				write: chunk => {
+					written.push(Array.from(chunk));
+				}
+			});
+			vi.spyOn(service as any, 'downloadFileChunk').mockImplementation(
+				(async (chunkId: string) =>
+					(chunkId === 'chunk-0' ? new Uint8Array([1, 2]) : new Uint8Array([3, 0, 0]))
+						.buffer) as any
+			);
+
+			await service.downloadFileToStream(
+				{ ...fileItem(2), size: 3, paddedSize: 5 },
+				writable
+			);
+
+			expect(written).toEqual([[1, 2], [3]]);
+		});
+
+		it('should abort the writable when a chunk cannot be downloaded', async () => {
+			const abort = vi.fn();
+			const writable = new WritableStream<Uint8Array>({ write: () => undefined, abort });
+			vi.spyOn(service as any, 'downloadFileChunk').mockRejectedValue(
+				Object.assign(new Error('Forbidden'), { status: 403 })
+			);
+
+			await expect(service.downloadFileToStream(fileItem(3), writable)).rejects.toThrow(
+				'Forbidden'
+			);
+			expect(abort).toHaveBeenCalled();
+		});
+
+		it('should load and update the per-user transfer concurrency', async () => {
+			(service as any)['transferConcurrency'] = null;
+
+			const loadPromise = service.getTransferConcurrency();
+			const getReq = httpMock.expectOne(`${apiUrl}/preferences`);
+			expect(getReq.request.method).toBe('GET');
+			getReq.flush({ success: true, data: { transfer_concurrency: 5 } });
+			expect(await loadPromise).toBe(5);
+
+			expect((await service.setTransferConcurrency(0)).success).toBe(false);
+
+			const savePromise = service.setTransferConcurrency(4);
+			const putReq = httpMock.expectOne(`${apiUrl}/preferences`);
+			expect(putReq.request.body).toEqual({ transfer_concurrency: 4 });
+			putReq.flush({ success: true, data: { transfer_concurrency: 4 } });
+			expect((await savePromise).success).toBe(true);
+			expect(await service.getTransferConcurrency()).toBe(4);
+		});
+	});
+
+	describe('Zip Export', () => {
+		const file = (name: string, bytes: number[]) => ({
+			type: 'file' as const,
+			name,
+			size: bytes.length,
+			createdAt: '2024-01-01T00:00:00.000Z',
+			fileChunks: bytes.map(byte => `chunk-${byte}`)
+		});
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['transferConcurrency'] = 2;
+			vi.spyOn(service as any, 'downloadFileChunk').mockImplementation(
+				(async (chunkId: string) =>
+					new Uint8Array([Number(chunkId.split('-')[1])]).buffer) as any
+			);
+			vi.spyOn(service as any, 'fetchDirectory').mockImplementation((async (id: string) =>
+				id === 'docs-chunk'
+					? {
+							name: 'docs',
+							chunkId: id,
+							parentId: 'root',
+							contents: [file('b.bin', [3])]
+						}
+					: Promise.reject(new Error('not found'))) as any);
+		});
+
+		it('should stream folders without changing the current directory', async () => {
+			const changeDirectorySpy = vi.spyOn(service, 'changeDirectory');
+			const written: Uint8Array[] = [];
+			const progress: number[] = [];
+			const subscription = service.getDownloadProgress().subscribe(update => {
+				if (update.totalBytes) progress.push(update.bytesDownloaded!);
+			});
+
+			await service.downloadItemsAsZip(
+				[file('a.bin', [1, 2]), { type: 'directory', name: 'docs', chunkId: 'docs-chunk' }],
+				'export.zip',
+				new WritableStream<Uint8Array>({ write: chunk => void written.push(chunk) })
+			);
+			subscription.unsubscribe();
+
+			const archive = written.map(part => new TextDecoder().decode(part)).join('');
+			expect(archive).toContain('a.bin');
+			expect(archive).toContain('docs/b.bin');
+			expect(changeDirectorySpy).not.toHaveBeenCalled();
+			expect(progress).toEqual([1, 2, 3]);
+			expect(service.getCurrentDownloadProgress()).toEqual(
+				expect.objectContaining({ isDownloading: false, progress: 100, totalChunks: 3 })
+			);
+		});
+
+		it('should export unreadable folders as empty entries', async () => {
+			const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+			const blob = await service.createZipBlob(
+				[{ type: 'directory', name: 'broken', chunkId: 'missing-chunk' }],
+				'broken.zip'
+			);
+
+			expect(blob.type).toBe('application/zip');
+			expect(warnSpy).toHaveBeenCalled();
+		});
+	});
+
+	describe('Crash-safe Directory Writes', () => {
+		const journalId = `derived-journal:${mockRootChunkId}`;
+		const notFound = { status: 404, message: 'Chunk not found' };
+		let calls: string[];
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			vi.spyOn(service as any, 'claimDirectoryRevision').mockResolvedValue(undefined);
+			calls = [];
+		});
+
+		it('should stage the journal before replacing the primary chunk', async () => {
+			vi.spyOn(service as any, 'encryptAndStoreChunk').mockImplementation((async (
+				_data: string,
+				chunkId: string
+			) => {
+				calls.push(`store ${chunkId}`);
+			}) as any);
+			vi.spyOn(service as any, 'deleteChunk').mockImplementation((async (chunkId: string) => {
+				calls.push(`delete ${chunkId}`);
+			}) as any);
+
+			await (service as any)['rewriteDirectory'](structuredClone(mockDirectory));
+
+			expect(calls).toEqual([
+				`store ${journalId}`,
+				`delete ${mockRootChunkId}`,
+				`store ${mockRootChunkId}`,
+				`delete ${journalId}`
+			]);
+		});
+
+		it('should replace a stale journal left by an interrupted update', async () => {
+			const storeSpy = vi
+				.spyOn(service as any, 'encryptAndStoreChunk')
+				.mockRejectedValueOnce({ status: 409, message: 'Chunk ID already exists' })
+				.mockResolvedValue(undefined);
+			const deleteSpy = vi.spyOn(service as any, 'deleteChunk').mockResolvedValue(undefined);
+
+			await (service as any)['rewriteDirectory'](structuredClone(mockDirectory));
+
+			expect(deleteSpy.mock.calls[0][0]).toBe(journalId);
+			expect(storeSpy.mock.calls.map(call => call[1])).toEqual([
+				journalId,
+				journalId,
+				mockRootChunkId
+			]);
+		});
+
+		it('should recover a directory from its journal when the primary is missing', async () => {
+			const json = JSON.stringify(mockDirectory);
+			vi.spyOn(service as any, 'fetchAndDecryptChunk').mockImplementation((async (
+				chunkId: string
+			) => {
+				if (chunkId === journalId) return json;
+				throw notFound;
+			}) as any);
+			const storeSpy = vi
+				.spyOn(service as any, 'encryptAndStoreChunk')
+				.mockResolvedValue(undefined);
+			const deleteSpy = vi.spyOn(service as any, 'deleteChunk').mockResolvedValue(undefined);
+
+			const directory = await (service as any)['fetchDirectory'](mockRootChunkId);
+
+			expect(directory).toEqual(mockDirectory);
+			expect(storeSpy).toHaveBeenCalledWith(json, mockRootChunkId);
+			expect(deleteSpy).toHaveBeenCalledWith(journalId);
+		});
+
+		it('should not restore a journal older than the committed revision', async () => {
+			(service as any)['REVISION_WAIT_MS'] = 0;
+			vi.spyOn(service as any, 'getDirectoryRevision').mockResolvedValue(3);
+			vi.spyOn(service as any, 'fetchAndDecryptChunk').mockImplementation((async (
+				chunkId: string
+			) => {
+				if (chunkId === journalId) return JSON.stringify({ ...mockDirectory, revision: 2 });
+				throw notFound;
+			}) as any);
+			const storeSpy = vi.spyOn(service as any, 'encryptAndStoreChunk');
+
+			await expect((service as any)['fetchDirectory'](mockRootChunkId)).rejects.toThrow(
+				'outdated copy'
+			);
+			expect(storeSpy).not.toHaveBeenCalled();
+		});
+
+		it('should restore the root from its journal instead of creating an empty root', async () => {
+			vi.spyOn(service as any, 'fetchAndDecryptChunk').mockImplementation((async (
+				chunkId: string
+			) => {
+				if (chunkId === journalId) return JSON.stringify(mockDirectory);
+				throw notFound;
+			}) as any);
+			vi.spyOn(service as any, 'encryptAndStoreChunk').mockResolvedValue(undefined);
+			vi.spyOn(service as any, 'deleteChunk').mockResolvedValue(undefined);
+			const createSpy = vi.spyOn(service as any, 'createNewRootDirectory');
+
+			const result = await (service as any)['initializeRootDirectory'](mockRootChunkId);
+
+			expect(result.success).toBe(true);
+			expect(createSpy).not.toHaveBeenCalled();
+			expect(service.getCurrentDirectory()).toEqual(mockDirectory);
+		});
+	});
+
+	describe('Concurrent Edits', () => {
+		const conflict = { status: 409, currentRevision: 4 };
+		let stored: Directory[];
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			stored = [];
+			vi.spyOn(service as any, 'encryptAndStoreChunk').mockImplementation((async (
+				data: string,
+				chunkId: string
+			) => {
+				if (chunkId === mockRootChunkId) stored.push(JSON.parse(data));
+			}) as any);
+			vi.spyOn(service as any, 'deleteChunk').mockResolvedValue(undefined);
+		});
+
+		/** Simulate another session having written `remote` after we read `base`. */
+		const setupRemote = (base: Directory, remote: Directory) => {
+			(service as any)['directorySnapshots'].set(mockRootChunkId, JSON.stringify(base));
+			vi.spyOn(service as any, 'fetchDirectory').mockResolvedValue(structuredClone(remote));
+			const claimSpy = vi.spyOn(service as any, 'claimDirectoryRevision');
+			claimSpy.mockRejectedValueOnce(conflict).mockImplementation((async (dir: Directory) => {
+				dir.revision = (dir.revision || 0) + 1;
+			}) as any);
+			return claimSpy;
+		};
+
+		it('should claim the next revision before writing', async () => {
+			const directory = { ...structuredClone(mockDirectory), revision: 2 };
+
+			const claimPromise = (service as any)['claimDirectoryRevision'](directory);
+			const req = httpMock.expectOne(
+				`${apiUrl}/nodes/${mockNodeId}/chunks/${mockRootChunkId}/revision`
+			);
+			expect(req.request.method).toBe('PUT');
+			expect(req.request.body).toEqual({ expected_revision: 2, revision: 3 });
+			req.flush({ success: true, data: { revision: 3 } });
+			await claimPromise;
+
+			expect(directory.revision).toBe(3);
+		});
+
+		it('should merge non-conflicting adds and deletes from another session', async () => {
+			const base = { ...structuredClone(mockDirectory), revision: 3 };
+			const remote: Directory = {
+				...structuredClone(base),
+				revision: 4,
+				contents: [
+					base.contents[0],
+					{ type: 'directory', name: 'theirs', chunkId: 'theirs-id' }
+				]
+			};
+			const local: Directory = structuredClone(base);
+			local.contents = local.contents.filter(item => item.name !== 'test.txt');
+			local.contents.push({
+				type: 'file',
+				name: 'mine.txt',
+				size: 1,
+				createdAt: '2024-02-01T00:00:00.000Z',
+				fileChunks: ['mine-chunk']
+			});
+			const claimSpy = setupRemote(base, remote);
+			const conflictSpy = vi.fn();
+			service.getDirectoryConflicts().subscribe(conflictSpy);
+
+			await (service as any)['rewriteDirectory'](local);
+
+			expect(claimSpy).toHaveBeenCalledTimes(2);
+			expect(stored[0].revision).toBe(5);
+			expect(stored[0].contents.map(item => item.name)).toEqual(['theirs', 'mine.txt']);
+			expect(conflictSpy).not.toHaveBeenCalled();
+		});
+
+		it('should keep both versions and report a conflicting edit', async () => {
+			const base = { ...structuredClone(mockDirectory), revision: 3 };
+			const remote = { ...structuredClone(base), revision: 4 };
+			(remote.contents[0] as any).fileChunks = ['their-chunk'];
+			const local = structuredClone(base);
+			(local.contents[0] as any).fileChunks = ['my-chunk'];
+			setupRemote(base, remote);
+			const conflictSpy = vi.fn();
+			service.getDirectoryConflicts().subscribe(conflictSpy);
+
+			await (service as any)['rewriteDirectory'](local);
+
+			const files = stored[0].contents.filter(item => item.type === 'file') as any[];
+			expect(files.map(file => [file.name, file.fileChunks[0]])).toEqual([
+				['test.txt', 'their-chunk'],
+				['test (conflict).txt', 'my-chunk']
+			]);
+			expect(conflictSpy).toHaveBeenCalledWith(['test.txt']);
+		});
+	});
+
+	describe('Orphaned Chunks', () => {
+		const tree: Record<string, Directory> = {
+			[mockRootChunkId]: {
+				...structuredClone(mockDirectory),
+				trashChunkId: 'trash-id',
+				contents: [
+					{
+						type: 'file',
+						name: 'test.txt',
+						size: 1024,
+						createdAt: '2024-01-01T00:00:00.000Z',
+						fileChunks: ['chunk1', 'chunk2'],
+						versions: [
+							{ size: 1, createdAt: '2023-01-01T00:00:00.000Z', fileChunks: ['v1'] }
+						]
+					},
+					{ type: 'directory', name: 'subfolder', chunkId: 'subfolder-chunk-id' }
+				]
+			},
+			'subfolder-chunk-id': {
+				name: 'subfolder',
+				chunkId: 'subfolder-chunk-id',
+				parentId: mockRootChunkId,
+				contents: [
+					{
+						type: 'file',
+						name: 'a.txt',
+						size: 1,
+						createdAt: '2024-01-01T00:00:00.000Z',
+						fileChunks: ['chunk3']
+					}
+				]
+			},
+			'trash-id': {
+				name: '.trash',
+				chunkId: 'trash-id',
+				parentId: mockRootChunkId,
+				contents: [
+					{
+						type: 'file',
+						name: 'old.txt',
+						size: 1,
+						createdAt: '2024-01-01T00:00:00.000Z',
+						fileChunks: ['chunk4']
+					}
+				]
+			}
+		};
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['rootChunkId'] = mockRootChunkId;
+			vi.spyOn(service as any, 'fetchDirectory').mockImplementation((async (id: string) =>
+				structuredClone(tree[id])) as any);
+		});
+
+		it('should report unreferenced chunks older than the grace period', async () => {
+			const old = '2024-01-01T00:00:00.000Z';
+			const referenced = [
+				mockRootChunkId,
+				'subfolder-chunk-id',
+				'trash-id',
+				'chunk1',
+				'chunk2',
+				'chunk3',
+				'chunk4',
+				'v1'
+			].map(chunkId => ({ chunkId, size: 10, createdAt: old }));
+			vi.spyOn(service as any, 'listNodeChunks').mockResolvedValue([
+				...referenced,
+				{ chunkId: 'orphan-old', size: 100, createdAt: old },
+				{ chunkId: 'orphan-new', size: 50, createdAt: new Date().toISOString() },
+				{ chunkId: 'shared-folder-chunk', size: 10, createdAt: old, sharedFolderId: 'f1' }
+			]);
+
+			const report = await service.scanOrphanedChunks();
+
+			expect(report.totalChunks).toBe(11);
+			expect(report.referencedChunks).toBe(9);
+			expect(report.orphanedChunks).toEqual([{ chunkId: 'orphan-old', size: 100 }]);
+			expect(report.orphanedBytes).toBe(100);
+			expect(report.skippedRecentChunks).toBe(1);
+		});
+
+		it('should keep chunks of journaled uploads and honour a shorter grace period', async () => {
+			const hourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+			journalStub.getEntries.mockResolvedValue([
+				{ nodeId: mockNodeId, completedChunks: { 0: 'paused-upload' } }
+			]);
+			vi.spyOn(service as any, 'collectReferencedChunkIds').mockResolvedValue(new Set());
+			vi.spyOn(service as any, 'listNodeChunks').mockResolvedValue([
+				{ chunkId: 'paused-upload', size: 10, createdAt: '2024-01-01T00:00:00.000Z' },
+				{ chunkId: 'orphan-hour', size: 20, createdAt: hourAgo }
+			]);
+
+			const report = await service.scanOrphanedChunks(30 * 60 * 1000);
+
+			expect(journalStub.getEntries).toHaveBeenCalledWith(mockNodeId);
+			expect(report.orphanedChunks).toEqual([{ chunkId: 'orphan-hour', size: 20 }]);
+			expect(report.skippedRecentChunks).toBe(1);
+
+			const deleteSpy = vi.spyOn(service as any, 'deleteChunk').mockResolvedValue(undefined);
+			const result = await service.deleteOrphanedChunks([
+				{ chunkId: 'paused-upload', size: 10 },
+				...report.orphanedChunks
+			]);
+			expect(result).toEqual({ deleted: 1, failed: 0, skipped: 1 });
+			expect(deleteSpy).toHaveBeenCalledWith('orphan-hour');
+		});
+
+		it('should list node chunks through the storage route', async () => {
+			const listPromise = (service as any)['listNodeChunks']();
+			const req = httpMock.expectOne(`${apiUrl}/nodes/${mockNodeId}/chunks`);
+			expect(req.request.method).toBe('GET');
+			req.flush({ success: true, data: { chunks: [{ chunkId: 'c1', size: 5 }] } });
+
+			expect(await listPromise).toEqual([{ chunkId: 'c1', size: 5 }]);
+		});
+
+		it('should not delete chunks that became referenced after the scan', async () => {
+			const deleteSpy = vi.spyOn(service as any, 'deleteChunk').mockResolvedValue(undefined);
+
+			const result = await service.deleteOrphanedChunks([
+				{ chunkId: 'orphan-old', size: 100 },
+				{ chunkId: 'chunk3', size: 10 }
+			]);
+
+			expect(result).toEqual({ deleted: 1, failed: 0, skipped: 1 });
+			expect(deleteSpy).toHaveBeenCalledTimes(1);
+			expect(deleteSpy).toHaveBeenCalledWith('orphan-old');
+		});
+	});
+
+	describe('Shared Folders', () => {
+		const folderKey = { type: 'secret', algorithm: 'folder' } as unknown as CryptoKey;
+		const folder = { folderId: 'folder-1', key: folderKey, role: 'read' as const };
+
+		it('should read a shared folder under its key and name it to the server', async () => {
+			(cryptoStub.decryptData as any).mockResolvedValueOnce(
+				encoder.encode(JSON.stringify(mockDirectory)).buffer
+			);
+
+			const openPromise = service.openSharedFolder(mockNodeId, mockRootChunkId, folder);
+			const req = await vi.waitFor(() =>
+				httpMock.expectOne(`${apiUrl}/nodes/${mockNodeId}/chunks/${mockRootChunkId}`)
+			);
+			expect(req.request.headers.get('X-Shared-Folder')).toBe('folder-1');
+			req.flush(buildIvPrefixedBuffer(new Uint8Array([1, 2, 3, 4])));
+
+			expect((await openPromise).success).toBe(true);
+			expect((cryptoStub.decryptData as any).mock.calls[0][2]).toBe(folderKey);
+			expect(service.isReadOnly()).toBe(true);
+			expect(service.getCurrentDirectory()).toEqual(mockDirectory);
+		});
+
+		it('should keep shared folder uploads and chunks apart from the owner tree', async () => {
+			journalStub.getEntries.mockResolvedValue([
+				{ id: 'own', sharedFolderId: undefined },
+				{ id: 'shared', sharedFolderId: 'folder-1' }
+			]);
+			(service as any)['storageNodeId'] = mockNodeId;
+			expect((await service.getResumableUploads()).map(entry => entry.id)).toEqual(['own']);
+
+			(service as any)['sharedFolder'] = folder;
+			expect((await service.getResumableUploads()).map(entry => entry.id)).toEqual([
+				'shared'
+			]);
+			await expect(service.scanOrphanedChunks()).rejects.toThrow('cleaned by their owner');
+		});
+	});
+
+	describe('Filesystem Check', () => {
+		const file = (name: string, size: number, fileChunks: string[]) => ({
+			type: 'file' as const,
+			name,
+			size,
+			createdAt: '2024-01-01T00:00:00.000Z',
+			fileChunks
+		});
+		let tree: Record<string, Directory>;
+		let chunkSizes: Record<string, number>;
+
+		beforeEach(() => {
+			tree = {
+				[mockRootChunkId]: {
+					...structuredClone(mockDirectory),
+					contents: [
+						file('test.txt', 10, ['chunk1']),
+						{ type: 'directory', name: 'subfolder', chunkId: 'subfolder-chunk-id' }
+					]
+				},
+				'subfolder-chunk-id': {
+					name: 'subfolder',
+					chunkId: 'subfolder-chunk-id',
+					parentId: mockRootChunkId,
+					contents: [file('a.txt', 5, ['chunk2'])]
+				}
+			};
+			chunkSizes = { chunk1: 10, chunk2: 5 };
+
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['rootChunkId'] = mockRootChunkId;
+			vi.spyOn(service as any, 'fetchDirectory').mockImplementation((async (id: string) => {
+				if (!tree[id]) {
+					throw Object.assign(new Error('Chunk not found'), { status: 404 });
+				}
+				return structuredClone(tree[id]);
+			}) as any);
+			vi.spyOn(service as any, 'downloadFileChunk').mockImplementation((async (
+				id: string
+			) => {
+				if (chunkSizes[id] === undefined) {
+					throw new Error('Chunk not found');
+				}
+				return new ArrayBuffer(chunkSizes[id]);
+			}) as any);
+			vi.spyOn(service as any, 'listNodeChunks').mockResolvedValue([]);
+			vi.spyOn(service as any, 'rewriteDirectory').mockImplementation((async (
+				directory: Directory
+			) => {
+				tree[directory.chunkId] = structuredClone(directory);
+			}) as any);
+		});
+
+		it('should report no issues for a consistent tree', async () => {
+			const progress = vi.fn();
+
+			const report = await service.checkFilesystem(progress);
+
+			expect(report).toEqual({
+				directoriesChecked: 2,
+				filesChecked: 2,
+				chunksChecked: 2,
+				issues: []
+			});
+			expect(progress).toHaveBeenLastCalledWith(2, 2);
+		});
+
+		it('should report missing chunks, wrong back-pointers, sizes and duplicate names', async () => {
+			tree[mockRootChunkId].contents.push(
+				{ type: 'directory', name: 'gone', chunkId: 'missing-dir' },
+				file('test.txt', 3, ['chunk3'])
+			);
+			tree['subfolder-chunk-id'].parentId = 'someone-else';
+			tree['subfolder-chunk-id'].contents.push(file('b.txt', 1, ['missing-chunk']));
+			chunkSizes['chunk3'] = 4;
+
+			const report = await service.checkFilesystem();
+			const types = report.issues.map(issue => issue.type).sort();
+
+			expect(types).toEqual([
+				'duplicate-name',
+				'missing-chunk',
+				'missing-directory',
+				'parent-mismatch',
+				'size-mismatch'
+			]);
+			const missingChunk = report.issues.find(issue => issue.type === 'missing-chunk')!;
+			expect(missingChunk.path).toBe('/subfolder/b.txt');
+			expect(missingChunk.directoryChunkId).toBe('subfolder-chunk-id');
+			expect(report.issues.find(issue => issue.type === 'duplicate-name')!.repairable).toBe(
+				false
+			);
+		});
+
+		it('should report only the top of an orphaned directory subtree', async () => {
+			const orphans: Record<string, Directory> = {
+				'orphan-top': {
+					name: 'photos',
+					chunkId: 'orphan-top',
+					parentId: 'deleted-parent',
+					contents: [{ type: 'directory', name: 'nested', chunkId: 'orphan-nested' }]
+				},
+				'orphan-nested': {
+					name: 'nested',
+					chunkId: 'orphan-nested',
+					parentId: 'orphan-top',
+					contents: []
+				}
+			};
+			vi.spyOn(service as any, 'listNodeChunks').mockResolvedValue([
+				{ chunkId: mockRootChunkId, size: 100 },
+				// Large directories are still recognised by their header
+				{ chunkId: 'orphan-top', size: 8 * 1024 * 1024 },
+				{ chunkId: 'orphan-nested', size: 100 },
+				{ chunkId: 'file-data', size: 100 }
+			]);
+			vi.spyOn(service as any, 'fetchChunkData').mockImplementation(
+				(async (id: string) =>
+					new Uint8Array(orphans[id] ? [0x59, 0x43, 3, 0, 0, 0] : [7, 7, 7, 7, 7, 7])
+						.buffer) as any
+			);
+			const decryptSpy = vi
+				.spyOn(service as any, 'decryptChunkData')
+				.mockImplementation((async (_data: Uint8Array, id: string) =>
+					JSON.stringify(orphans[id])) as any);
+
+			const report = await service.checkFilesystem();
+
+			expect(decryptSpy.mock.calls.map(call => call[1]).sort()).toEqual([
+				'orphan-nested',
+				'orphan-top'
+			]);
+			expect(report.issues).toHaveLength(1);
+			expect(report.issues[0]).toMatchObject({
+				type: 'orphaned-directory',
+				chunkId: 'orphan-top',
+				repairable: true
+			});
+		});
+
+		it('should repair dangling entries and relink orphans into lost+found', async () => {
+			tree[mockRootChunkId].contents.push({
+				type: 'directory',
+				name: 'gone',
+				chunkId: 'missing-dir'
+			});
+			tree['subfolder-chunk-id'].contents = [
+				{
+					...file('a.txt', 5, ['missing-chunk']),
+					versions: [
+						{ size: 2, createdAt: '2023-01-01T00:00:00.000Z', fileChunks: ['v1'] }
+					]
+				}
+			];
+			tree['orphan-top'] = {
+				name: 'photos',
+				chunkId: 'orphan-top',
+				parentId: 'deleted-parent',
+				contents: []
+			};
+			vi.spyOn(service as any, 'createDirectory').mockImplementation((async (
+				name: string,
+				parentId: string
+			) => {
+				tree['lost-found-id'] = { name, chunkId: 'lost-found-id', parentId, contents: [] };
+				return tree['lost-found-id'];
+			}) as any);
+
+			const result = await service.repairFilesystem([
+				{
+					type: 'missing-directory',
+					path: '/gone/',
+					message: '',
+					directoryChunkId: mockRootChunkId,
+					itemName: 'gone',
+					chunkId: 'missing-dir',
+					repairable: true
+				},
+				{
+					type: 'missing-chunk',
+					path: '/subfolder/a.txt',
+					message: '',
+					directoryChunkId: 'subfolder-chunk-id',
+					itemName: 'a.txt',
+					chunkId: 'missing-chunk',
+					repairable: true
+				},
+				{
+					type: 'orphaned-directory',
+					path: 'photos/',
+					message: '',
+					directoryChunkId: 'orphan-top',
+					chunkId: 'orphan-top',
+					repairable: true
+				},
+				{
+					type: 'duplicate-name',
+					path: '/test.txt',
+					message: '',
+					directoryChunkId: mockRootChunkId,
+					repairable: false
+				}
+			]);
+
+			expect(result).toEqual({ repaired: 3, failed: 0 });
+			expect(tree[mockRootChunkId].contents.map(item => item.name)).toEqual([
+				'test.txt',
+				'subfolder',
+				'lost+found'
+			]);
+			expect(tree['subfolder-chunk-id'].contents[0]).toMatchObject({
+				size: 2,
+				fileChunks: ['v1'],
+				versions: []
+			});
+			expect(tree['lost-found-id'].contents).toEqual([
+				{ type: 'directory', name: 'photos', chunkId: 'orphan-top' }
+			]);
+			expect(tree['orphan-top'].parentId).toBe('lost-found-id');
+		});
+	});
+
+	describe('Password Change', () => {
+		const previousRootId = 'old-root-id';
+		const notFound = () => Object.assign(new Error('Chunk not found'), { status: 404 });
+		let nodes: Record<string, Record<string, string>>;
+		let migration: RootMigration | null;
+
+		const oldTree = (): Record<string, string> => ({
+			[previousRootId]: JSON.stringify({
+				name: '',
+				chunkId: previousRootId,
+				parentId: '',
+				revision: 4,
+				trashChunkId: 'trash-id',
+				contents: [{ type: 'directory', name: 'docs', chunkId: 'docs-id' }]
+			}),
+			'docs-id': JSON.stringify({
+				name: 'docs',
+				chunkId: 'docs-id',
+				parentId: previousRootId,
+				contents: []
+			}),
+			'trash-id': JSON.stringify({
+				name: '.trash',
+				chunkId: 'trash-id',
+				parentId: previousRootId,
+				contents: [
+					{
+						type: 'directory',
+						name: 'old',
+						chunkId: 'old-id',
+						trash: { id: 't1', originalParentId: previousRootId }
+					}
+				]
+			})
+		});
+		const stored = (nodeId: string, chunkId: string) => JSON.parse(nodes[nodeId][chunkId]);
+
+		beforeEach(() => {
+			nodes = { 'node-a': oldTree(), 'node-b': oldTree() };
+			migration = {
+				previous_root_chunk_id: previousRootId,
+				pending_nodes: ['node-a', 'node-b']
+			};
+			(service as any)['storageNodeId'] = mockNodeId;
+
+			const node = () => {
+				const chunks = nodes[(service as any)['storageNodeId']];
+				if (!chunks) {
+					throw Object.assign(new Error('Node offline'), { status: 503 });
+				}
+				return chunks;
+			};
+			vi.spyOn(service as any, 'fetchAndDecryptChunk').mockImplementation((async (
+				id: string
+			) => {
+				if (node()[id] === undefined) throw notFound();
+				return node()[id];
+			}) as any);
+			vi.spyOn(service as any, 'encryptAndStoreChunk').mockImplementation((async (
+				data: string,
+				id: string
+			) => {
+				node()[id] = data;
+			}) as any);
+			vi.spyOn(service as any, 'deleteChunk').mockImplementation((async (id: string) => {
+				if (node()[id] === undefined) throw notFound();
+				delete node()[id];
+			}) as any);
+			vi.spyOn(service as any, 'claimDirectoryRevision').mockResolvedValue(undefined);
+			vi.spyOn(service, 'getRootMigration').mockImplementation(async () => migration);
+			vi.spyOn(service as any, 'completeRootMigration').mockImplementation((async (
+				nodeId: string
+			) => {
+				migration!.pending_nodes = migration!.pending_nodes.filter(id => id !== nodeId);
+			}) as any);
+		});
+
+		it('should move the root on every pending node and re-point its children', async () => {
+			const progress = vi.fn();
+
+			const result = await service.resumeRootMigration(mockPassword, progress);
+
+			expect(result).toEqual({ success: true, pendingNodes: [] });
+			expect(progress.mock.calls).toEqual([
+				[0, 2],
+				[1, 2],
+				[2, 2]
+			]);
+			for (const nodeId of ['node-a', 'node-b']) {
+				expect(nodes[nodeId][previousRootId]).toBeUndefined();
+				const root = stored(nodeId, mockRootChunkId);
+				expect(root.chunkId).toBe(mockRootChunkId);
+				expect(root.revision).toBeUndefined();
+				expect(stored(nodeId, 'docs-id').parentId).toBe(mockRootChunkId);
+				expect(stored(nodeId, 'trash-id').parentId).toBe(mockRootChunkId);
+				expect(stored(nodeId, 'trash-id').contents[0].trash.originalParentId).toBe(
+					mockRootChunkId
+				);
+			}
+			expect((service as any)['storageNodeId']).toBe(mockNodeId);
+		});
+
+		it('should keep unreachable nodes pending and finish them on the next run', async () => {
+			const offline = nodes['node-b'];
+			delete nodes['node-b'];
+
+			const first = await service.resumeRootMigration(mockPassword);
+			expect(first.success).toBe(false);
+			expect(first.pendingNodes).toEqual(['node-b']);
+			expect(migration!.pending_nodes).toEqual(['node-b']);
+
+			nodes['node-b'] = offline;
+			const second = await service.resumeRootMigration(mockPassword);
+			expect(second.success).toBe(true);
+			expect(stored('node-b', mockRootChunkId).chunkId).toBe(mockRootChunkId);
+		});
+
+		it('should finish an interrupted move by dropping the leftover old root', async () => {
+			nodes['node-a'][mockRootChunkId] = nodes['node-a'][previousRootId].replace(
+				`"chunkId":"${previousRootId}"`,
+				`"chunkId":"${mockRootChunkId}"`
+			);
+			const docs = nodes['node-a']['docs-id'];
+
+			await service.resumeRootMigration(mockPassword);
+
+			expect(nodes['node-a'][previousRootId]).toBeUndefined();
+			expect(nodes['node-a']['docs-id']).toBe(docs);
+		});
+
+		it('should move a pending root on first open instead of creating an empty one', async () => {
+			(service as any)['storageNodeId'] = 'node-a';
+
+			const result = await (service as any)['initializeRootDirectory'](mockRootChunkId);
+
+			expect(result.success).toBe(true);
+			expect(service.getCurrentDirectory()?.contents).toEqual([
+				{ type: 'directory', name: 'docs', chunkId: 'docs-id' }
+			]);
+			expect(migration!.pending_nodes).toEqual(['node-b']);
+		});
+	});
+
+	describe('Metadata Cache', () => {
+		const cachedFolder: Directory = {
+			name: 'subfolder',
+			chunkId: 'subfolder-chunk-id',
+			parentId: mockRootChunkId,
+			contents: [],
+			revision: 1
+		};
+		const revisionUrl = `${apiUrl}/nodes/${mockNodeId}/chunks/subfolder-chunk-id/revision`;
+		const chunkUrl = `${apiUrl}/nodes/${mockNodeId}/chunks/subfolder-chunk-id`;
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			vi.spyOn(service as any, 'getDirectoryRevision').mockRestore();
+			cacheStub.getDirectory.mockResolvedValue({
+				revision: 1,
+				data: JSON.stringify(cachedFolder)
+			});
+		});
+
+		it('should show the cached listing at once and keep it while its revision is current', async () => {
+			expect((await service.changeDirectory('subfolder-chunk-id')).success).toBe(true);
+			expect(service.getCurrentDirectory()).toEqual(cachedFolder);
+
+			httpMock.expectOne(revisionUrl).flush({ success: true, data: { revision: 1 } });
+			await new Promise(resolve => setTimeout(resolve, 0));
+			httpMock.expectNone(chunkUrl);
+			expect(service.getCurrentDirectory()).toEqual(cachedFolder);
+		});
+
+		it('should replace the cached listing when the server has a newer revision', async () => {
+			const updated = { ...cachedFolder, contents: mockDirectory.contents, revision: 2 };
+			(cryptoStub.decryptData as any).mockResolvedValueOnce(
+				encoder.encode(JSON.stringify(updated)).buffer
+			);
+
+			await service.changeDirectory('subfolder-chunk-id');
+			httpMock.expectOne(revisionUrl).flush({ success: true, data: { revision: 2 } });
+			// The fetch checks what the node returns against the registry again
+			(await vi.waitFor(() => httpMock.expectOne(revisionUrl))).flush({
+				success: true,
+				data: { revision: 2 }
+			});
+			(await vi.waitFor(() => httpMock.expectOne(chunkUrl))).flush(
+				buildIvPrefixedBuffer(new Uint8Array([1, 2, 3, 4]))
+			);
+
+			await vi.waitFor(() => expect(service.getCurrentDirectory()).toEqual(updated));
+			expect(cacheStub.saveDirectory).toHaveBeenCalledWith(
+				mockNodeId,
+				'subfolder-chunk-id',
+				2,
+				JSON.stringify(updated)
+			);
+		});
+
+		it('should refuse an older revision than the server committed', async () => {
+			(service as any)['REVISION_WAIT_MS'] = 0;
+			(cryptoStub.decryptData as any).mockResolvedValue(
+				encoder.encode(JSON.stringify(cachedFolder)).buffer
+			);
+
+			const fetchPromise = (service as any)['fetchDirectory']('subfolder-chunk-id');
+			const settled = fetchPromise.catch((error: Error) => error);
+			// The node keeps serving revision 1 after revision 2 was committed
+			for (let attempt = 0; attempt <= 3; attempt++) {
+				(await vi.waitFor(() => httpMock.expectOne(revisionUrl))).flush({
+					success: true,
+					data: { revision: 2 }
+				});
+				(await vi.waitFor(() => httpMock.expectOne(chunkUrl))).flush(
+					buildIvPrefixedBuffer(new Uint8Array([1, 2, 3, 4]))
+				);
+			}
+
+			expect(((await settled) as Error).message).toContain('outdated copy');
+			expect(cacheStub.saveDirectory).not.toHaveBeenCalled();
+		});
+
+		it('should browse cached folders read-only while the node is offline', async () => {
+			cacheStub.getDirectory.mockResolvedValue({
+				revision: 0,
+				data: JSON.stringify(mockDirectory)
+			});
+			vi.spyOn(service as any, 'fetchAndDecryptChunk').mockRejectedValue({
+				status: 503,
+				message: 'Storage node is not available'
+			});
+			// The server still answers while the node is down
+			vi.spyOn(service as any, 'getDirectoryRevision').mockResolvedValue(0);
+
+			const result = await service.initializePage(mockPassword, mockNodeId);
+			expect(result.success).toBe(true);
+			expect(service.getCurrentDirectory()).toEqual(mockDirectory);
+			expect(service.isReadOnly()).toBe(true);
+
+			const created = await service.createSubdirectory('new');
+			expect(created.success).toBe(false);
+			expect(created.message).toContain('offline');
+			httpMock.expectNone(req => req.method !== 'GET');
+		});
+	});
+
+	describe('Search', () => {
+		const subfolder: Directory = {
+			name: 'subfolder',
+			chunkId: 'subfolder-chunk-id',
+			parentId: mockRootChunkId,
+			contents: [
+				{
+					type: 'file',
+					name: 'report.pdf',
+					size: 10,
+					createdAt: '2024-01-01T00:00:00.000Z',
+					fileChunks: ['chunk3']
+				}
+			]
+		};
+		let storeSpy: ReturnType<typeof vi.spyOn>;
+
+		beforeEach(() => {
+			(service as any)['storageNodeId'] = mockNodeId;
+			(service as any)['rootChunkId'] = mockRootChunkId;
+			(service as any)['directory'].next(structuredClone(mockDirectory));
+			const directories: Record<string, Directory> = {
+				[mockRootChunkId]: mockDirectory,
+				'subfolder-chunk-id': subfolder
+			};
+			vi.spyOn(service as any, 'fetchDirectory').mockImplementation((async (id: string) =>
+				structuredClone(directories[id])) as any);
+			vi.spyOn(service as any, 'saveDirectory').mockResolvedValue(undefined);
+			storeSpy = vi
+				.spyOn(service as any, 'encryptAndStoreChunk')
+				.mockResolvedValue(undefined);
+		});
+
+		it('should build the index on first search and match names, extensions and paths', async () => {
+			const byName = await service.searchFiles('report');
+			expect(byName).toEqual([
+				expect.objectContaining({
+					name: 'report.pdf',
+					path: '/subfolder',
+					parentId: 'subfolder-chunk-id'
+				})
+			]);
+			expect((await service.searchFiles('.PDF')).map(entry => entry.name)).toEqual([
+				'report.pdf'
+			]);
+			// Name matches rank above items that only match by path
+			expect((await service.searchFiles('subfolder')).map(entry => entry.name)).toEqual([
+				'subfolder',
+				'report.pdf'
+			]);
+
+			// Stored once as its own chunk and linked from the root
+			expect(storeSpy).toHaveBeenCalledTimes(1);
+			expect(storeSpy.mock.calls[0][1]).toBe('uuid-1234');
+			expect(JSON.parse(storeSpy.mock.calls[0][0] as string).entries).toHaveLength(3);
+			expect(service.getCurrentDirectory()!.searchIndexChunkId).toBe('uuid-1234');
+		});
+
+		it('should move the paths below a renamed directory and drop deleted subtrees', async () => {
+			await service.searchFiles('report');
+			const replaceSpy = vi
+				.spyOn(service as any, 'replaceChunk')
+				.mockResolvedValue(undefined);
+			vi.spyOn(service as any, 'rewriteDirectory').mockResolvedValue({});
+			vi.spyOn(service as any, 'updateDirectory').mockResolvedValue(undefined);
+			vi.spyOn(service as any, 'moveToTrash').mockResolvedValue(undefined);
+
+			const dir = service.getCurrentDirectory()!.contents[1];
+			expect((await service.renameItem(dir, 'archive')).success).toBe(true);
+			expect(await service.searchFiles('archive')).toEqual([
+				expect.objectContaining({ name: 'archive', path: '/' }),
+				expect.objectContaining({ name: 'report.pdf', path: '/archive' })
+			]);
+
+			expect((await service.deleteItem(dir, true)).success).toBe(true);
+			expect(await service.searchFiles('report')).toEqual([]);
+			expect(replaceSpy).toHaveBeenCalledTimes(2);
+		});
+
+		it('should index the words of small text files when contents are included', async () => {
+			const index = { rootChunkId: mockRootChunkId, includeContents: true, entries: [] };
+			(service as any)['searchIndex'] = index;
+			const upload = createSliceableFile(
+				encoder.encode('Quarterly budget, draft'),
+				'plan.md'
+			);
+
+			await (service as any)['addToSearchIndex'](
+				index,
+				mockDirectory,
+				{ ...mockDirectory.contents[0], name: 'plan.md', size: upload.size },
+				upload
+			);
+
+			expect((await service.searchFiles('budg')).map(entry => entry.name)).toEqual([
+				'plan.md'
+			]);
+			expect(index.entries[0]).toEqual(
+				expect.objectContaining({ terms: ['quarterly', 'budget', 'draft'] })
+			);
+		});
+	});
+
+	describe('Integration Scenarios', () => {
+		it('should handle complete initialization flow and maintain state', async () => {
+			(cryptoStub.decryptData as any).mockResolvedValueOnce(
+				encoder.encode(JSON.stringify(mockDirectory)).buffer
+			);
+
+			const initPromise = service.initializePage(mockPassword, mockNodeId);
+			const req = await vi.waitFor(() =>
+				httpMock.expectOne(`${apiUrl}/nodes/${mockNodeId}/chunks/${mockRootChunkId}`)
 			);
 			req.flush(buildIvPrefixedBuffer(new Uint8Array([1, 2, 3])));
 			const initResult = await initPromise;
@@ -2,11 +2,22 @@
 
 import { Injectable } from '@angular/core';
 import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { BehaviorSubject } from 'rxjs';
+import { BehaviorSubject, Subject } from 'rxjs';
 import { AuthService } from './auth.service';
 import { CryptoService } from './crypto.service';
+import { UploadJournalService, UploadJournalEntry } from './upload-journal.service';
+import { DirectoryCacheService } from './directory-cache.service';
 import { firstValueFrom } from 'rxjs';
-import JSZip from 'jszip';
+import { isTextFile, joinPath, validateDirectoryName, validateFileName } from './utils/file-utils';
+import { ZipWriter } from './utils/zip-writer';
+import { findChunkBoundary } from './utils/fastcdc';
+import {
+	ChunkCodec,
+	compressData,
+	decompressData,
+	isCompressionSupported
+} from './utils/compression';
+import { base64ToUint8Array, uint8ArrayToBase64Url } from './utils/utils';
 
 // Progress tracking interfaces
 export interface ProgressData {
@@ -23,6 +34,8 @@ export interface DownloadProgressData {
 	isDownloading: boolean;
 	chunksDownloaded: number;
 	totalChunks: number;
+	bytesDownloaded?: number; // ZIP exports track progress by bytes
+	totalBytes?: number;
 }
 
 export interface Directory {
@@ -30,6 +43,22 @@ export interface Directory {
 	chunkId: string;
 	parentId: string;
 	contents: DirectoryItem[];
+	trashChunkId?: string; // root only: hidden trash directory
+	searchIndexChunkId?: string; // root only: encrypted search index
+	dedupIndexChunkId?: string; // root only: encrypted deduplication index
+	revision?: number; // claimed in the server's registry per write; reads refuse copies behind it
+}
+
+// Trash directory: hidden Directory whose entries remember where they came from
+interface TrashDirectory extends Directory {
+	retentionDays?: number;
+}
+
+export interface TrashInfo {
+	id: string;
+	deletedAt: string;
+	originalPath: string;
+	originalParentId: string;
 }
 
 export interface DeleteResult {
@@ -56,8 +85,205 @@ export type DirectoryItem =
 			size: number;
 			createdAt: string;
 			fileChunks: string[];
+			formatVersion?: number; // see ITEM_FORMAT_VERSION
+			wrappedKey?: string; // data key wrapped by the master key (format 2+)
+			paddedSize?: number; // bytes stored when the last chunk is zero-padded past size
+			chunkKeys?: string; // per-chunk keys sealed under the data key (format 4+)
+			chunkCodecs?: (ChunkCodec | null)[]; // per chunk, as fileChunks; absent: none compressed
+			savedBytes?: number; // bytes compression saved across the chunks
+			versions?: FileVersion[]; // newest first
 	  };
 
+export interface FileVersion {
+	size: number;
+	createdAt: string;
+	fileChunks: string[];
+	formatVersion?: number;
+	wrappedKey?: string;
+	paddedSize?: number;
+	chunkKeys?: string;
+	chunkCodecs?: (ChunkCodec | null)[];
+	savedBytes?: number;
+}
+
+// File item formats: 1 (field absent) = chunks under the master key, 2 = chunks under a per-file data key,
+// 3 = as 2, with each chunk's ID and index authenticated as AES-GCM associated data,
+// 4 = content-defined chunks under keys derived from their content (sealed in chunkKeys), shared
+// between files through the deduplication index; associated data binds the chunk ID only
+export const LEGACY_ITEM_FORMAT = 1;
+export const DATA_KEY_ITEM_FORMAT = 2;
+export const AUTHENTICATED_ITEM_FORMAT = 3;
+export const DEDUPLICATED_ITEM_FORMAT = 4;
+export const ITEM_FORMAT_VERSION = 4;
+
+// Metadata chunks (directories, journals) written with associated data start with 'YC' + format byte;
+// chunks without the header predate it and are decrypted without associated data
+const METADATA_CHUNK_MAGIC = [0x59, 0x43];
+const METADATA_CHUNK_FORMAT = 3;
+const METADATA_HEADER_LENGTH = METADATA_CHUNK_MAGIC.length + 1;
+
+/**
+ * Associated data binding a file chunk to its chunk ID and index (none before format 3). From
+ * format 4 on only the ID is bound, as a deduplicated chunk sits at different indexes.
+ */
+export function getFileChunkAad(
+	formatVersion: number | undefined,
+	chunkId: string,
+	index: number
+): Uint8Array | undefined {
+	const version = formatVersion || LEGACY_ITEM_FORMAT;
+	if (version < AUTHENTICATED_ITEM_FORMAT) {
+		return undefined;
+	}
+	const position = version < DEDUPLICATED_ITEM_FORMAT ? `${chunkId}:${index}` : chunkId;
+	return new TextEncoder().encode(`yourcloud:v${formatVersion}:file:${position}`);
+}
+
+/**
+ * Padmé bucket for a length: rounds up by dropping low bits so only O(log log length) bits of
+ * the length stay visible, at most ~12% overhead. Lengths below minimum share one bucket.
+ */
+export function getPaddedLength(length: number, minimum = 0): number {
+	const target = Math.max(length, minimum);
+	if (target < 2) {
+		return target;
+	}
+	const exponent = Math.floor(Math.log2(target));
+	const step = 2 ** (exponent - Math.floor(Math.log2(exponent)) - 1);
+	return Math.ceil(target / step) * step;
+}
+
+export type TrashedItem = DirectoryItem & { trash: TrashInfo };
+
+// Share links: the fragment after '#' carries the data key wrapped by the share key
+export interface ShareOptions {
+	password?: string;
+	expiresAt?: string; // ISO date
+	maxDownloads?: number;
+}
+
+export interface ShareSummary {
+	shareId: string;
+	name: string;
+	hasPassword: boolean;
+	createdAt: string;
+	expiresAt: string | null;
+	maxDownloads: number | null;
+	downloadCount: number;
+}
+
+// What a recipient decrypts with the data key: enough to fetch and reassemble the file
+export interface ShareManifest {
+	name: string;
+	size: number;
+	formatVersion: number;
+	fileChunks: string[];
+	chunkKeys?: string; // format 4+: opened with the data key
+	chunkCodecs?: (ChunkCodec | null)[];
+}
+
+// Nodes whose root still sits at the chunk ID derived from the previous password
+export interface RootMigration {
+	previous_root_chunk_id: string;
+	pending_nodes: string[];
+}
+
+export interface RootMigrationResult {
+	success: boolean;
+	message?: string;
+	pendingNodes: string[]; // nodes that still need their root moved
+}
+
+// Shared folder the service is browsing instead of the user's own tree
+export interface SharedFolderContext {
+	folderId: string;
+	key: CryptoKey; // folder key: encrypts its directories and wraps its files' data keys
+	role: 'owner' | 'write' | 'read';
+}
+
+export interface OrphanedChunk {
+	chunkId: string;
+	size: number;
+}
+
+export interface OrphanReport {
+	totalChunks: number;
+	referencedChunks: number;
+	orphanedChunks: OrphanedChunk[];
+	orphanedBytes: number;
+	skippedRecentChunks: number; // unreferenced but young or journaled: possibly an upload in progress
+}
+
+export type FsckIssueType =
+	| 'missing-directory'
+	| 'unreadable-directory'
+	| 'missing-chunk'
+	| 'unreadable-chunk'
+	| 'parent-mismatch'
+	| 'size-mismatch'
+	| 'duplicate-name'
+	| 'orphaned-directory';
+
+export interface FsckIssue {
+	type: FsckIssueType;
+	path: string;
+	message: string;
+	directoryChunkId: string; // directory holding the entry (the orphan itself for orphaned-directory)
+	itemName?: string;
+	chunkId?: string;
+	repairable: boolean;
+}
+
+export interface FsckReport {
+	directoriesChecked: number;
+	filesChecked: number;
+	chunksChecked: number;
+	issues: FsckIssue[];
+}
+
+// Search index: one encrypted chunk per tree listing where every item lives
+export interface SearchIndexEntry {
+	type: 'file' | 'directory';
+	name: string;
+	parentId: string; // chunk ID of the folder holding the item
+	path: string; // display path of that folder ('/' for the root)
+	chunkId?: string; // directories only
+	terms?: string[]; // words of a small text file (when contents are indexed)
+}
+
+interface SearchIndex {
+	rootChunkId: string; // rebuilt when the root moves to another chunk
+	includeContents: boolean;
+	entries: SearchIndexEntry[];
+}
+
+// Deduplication index: one encrypted chunk per tree mapping content hashes to stored chunks
+interface DedupIndex {
+	chunkId: string;
+	revision?: number; // claimed like a directory revision, so concurrent updates retry
+	hashKey: string; // keys the content hashes (see CryptoService.hashChunk)
+	entries: Record<string, DedupEntry>; // content hash -> chunk
+}
+
+// A chunk as stored: compressed before encryption when that made it smaller
+interface StoredChunk {
+	chunkId: string;
+	codec?: ChunkCodec;
+	savedBytes?: number; // plaintext bytes compression saved
+}
+
+interface DedupEntry extends StoredChunk {
+	refs: number; // file contents (current or version) that list the chunk
+}
+
+// One content-defined chunk of a file being uploaded
+interface FileChunkPlan {
+	start: number;
+	end: number;
+	storedLength: number; // end - start, plus zero padding on a padded last chunk
+	hash: string;
+}
+
 @Injectable({
 	providedIn: 'root'
 })
@@ -68,6 +294,9 @@ export class FileService {
 	// Directory state
 	private directory = new BehaviorSubject<Directory | null>(null);
 	private storageNodeId: string | null = null;
+	private rootChunkId: string | null = null;
+	private sharedFolder: SharedFolderContext | null = null;
+	private offline = new BehaviorSubject<boolean>(false); // node unreachable: cached listings, read-only
 
 	// Upload progress tracking
 	private uploadProgress = new BehaviorSubject<ProgressData>({
@@ -87,12 +316,45 @@ export class FileService {
 		totalChunks: 0
 	});
 
-	private readonly CHUNK_SIZE = 64 * 1024 * 1024; // 64 MB
+	private readonly CHUNK_SIZE = 16 * 1024 * 1024; // largest content-defined chunk
+	private readonly MIN_CHUNK_SIZE = 1024 * 1024;
+	private readonly AVERAGE_CHUNK_SIZE = 4 * 1024 * 1024; // power of two
+	private readonly DEFAULT_TRASH_RETENTION_DAYS = 30;
+	private readonly MAX_FILE_VERSIONS = 5; // previous versions kept per file
+	private readonly WRAPPED_KEY_LENGTH = 80; // base64 of IV + wrapped 256-bit key + tag
+	private readonly MIN_PADDED_SIZE = 4 * 1024; // smallest bucket for directories and padded files
+	private readonly MAX_INDEXED_TEXT_SIZE = 256 * 1024; // larger text files are indexed by name only
+	private readonly MAX_INDEXED_TERMS = 5000; // distinct words kept per file
+	private readonly MAX_SEARCH_RESULTS = 100;
+	private searchIndex: SearchIndex | null = null; // loaded on first search or index update
+	private dedupIndex: DedupIndex | null = null; // loaded on first upload or delete
+
+	// chunkId -> display path, used for trash "original path" labels
+	private directoryPathCache = new Map<string, string>();
+
+	// chunkId -> directory JSON as last read from / written to the node (merge base)
+	private directorySnapshots = new Map<string, string>();
+	private directoryConflicts = new Subject<string[]>();
+	private readonly MAX_REVISION_CONFLICT_RETRIES = 3;
+	private readonly REVISION_WAIT_MS = 500;
+	private readonly ORPHAN_GRACE_PERIOD_MS = 60 * 60 * 1000; // 1 hour
+	private readonly LOST_AND_FOUND_NAME = 'lost+found';
+
+	// Parallel chunk transfers (per-user preference, loaded on first transfer)
+	private readonly DEFAULT_TRANSFER_CONCURRENCY = 3;
+	private readonly MAX_TRANSFER_CONCURRENCY = 8;
+	private readonly MAX_CHUNK_RETRIES = 3; // retries after the first failed attempt
+	private readonly CHUNK_RETRY_DELAY_MS = 1000; // grows linearly per attempt
+	private transferConcurrency: number | null = null;
+	private padFileSizes: boolean | null = null; // pad last chunks so exact file sizes stay hidden
+	private compressUploads: boolean | null = null; // gzip chunks before encryption
 
 	constructor(
 		private http: HttpClient,
 		private authService: AuthService,
-		private cryptoService: CryptoService
+		private cryptoService: CryptoService,
+		private uploadJournal: UploadJournalService,
+		private directoryCache: DirectoryCacheService
 	) {
 		this.apiUrl = this.authService.getApiUrl();
 	}
@@ -122,6 +384,16 @@ export class FileService {
 		return this.downloadProgress.getValue();
 	}
 
+	/** Names of entries that conflicted while merging another session's changes. */
+	getDirectoryConflicts() {
+		return this.directoryConflicts.asObservable();
+	}
+
+	/** Whether the node is unreachable and cached listings are shown read-only. */
+	getOfflineMode() {
+		return this.offline.asObservable();
+	}
+
 	/** Ensure a storage node has been selected. */
 	private validateStorageNode(): void {
 		if (!this.storageNodeId) {
@@ -129,6 +401,13 @@ export class FileService {
 		}
 	}
 
+	/** Refuse writes while only cached listings are available. */
+	private validateOnline(): void {
+		if (this.offline.getValue()) {
+			throw new Error('Storage node is offline; cached folders are read-only');
+		}
+	}
+
 	/** Ensure directory loaded and return it. */
 	private validateCurrentDirectory(): Directory {
 		const currentDirectory = this.directory.getValue();
@@ -172,7 +451,9 @@ export class FileService {
 			progress: 0,
 			isDownloading: false,
 			chunksDownloaded: 0,
-			totalChunks: 0
+			totalChunks: 0,
+			bytesDownloaded: undefined,
+			totalBytes: undefined
 		});
 	}
 
@@ -182,10 +463,21 @@ export class FileService {
 		nodeId: string
 	): Promise<{ success: boolean; message?: string }> {
 		this.storageNodeId = nodeId;
+		this.sharedFolder = null;
+		this.offline.next(false);
 
 		try {
 			const rootChunkId = await this.cryptoService.getRootChunk(password);
-			return await this.initializeRootDirectory(rootChunkId);
+			this.rootChunkId = rootChunkId;
+			this.directoryPathCache.clear();
+			this.directorySnapshots.clear();
+			this.searchIndex = null;
+			this.dedupIndex = null;
+			const result = await this.initializeRootDirectory(rootChunkId);
+			if (result.success && !this.offline.getValue()) {
+				await this.purgeExpiredTrash();
+			}
+			return result;
 		} catch (error: any) {
 			return {
 				success: false,
@@ -194,12 +486,43 @@ export class FileService {
 		}
 	}
 
+	/** Browse a shared folder: its root replaces the user's own, under the folder key. */
+	async openSharedFolder(
+		nodeId: string,
+		rootChunkId: string,
+		folder: SharedFolderContext
+	): Promise<{ success: boolean; message?: string }> {
+		this.storageNodeId = nodeId;
+		this.sharedFolder = folder;
+		this.offline.next(false);
+		this.rootChunkId = rootChunkId;
+		this.directoryPathCache.clear();
+		this.directorySnapshots.clear();
+		this.searchIndex = null;
+		this.dedupIndex = null;
+
+		try {
+			// The owner writes the empty root on first open
+			return await this.initializeRootDirectory(rootChunkId);
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error opening shared folder: ${error.message || error}`
+			};
+		}
+	}
+
+	/** Whether the open tree is a shared folder the user may only read, or only cached. */
+	public isReadOnly(): boolean {
+		return this.sharedFolder?.role === 'read' || this.offline.getValue();
+	}
+
 	/** Setup root directory from chunk (create if missing). */
 	private async initializeRootDirectory(
 		rootChunkId: string
 	): Promise<{ success: boolean; message?: string }> {
 		try {
-			const jsonString = await this.fetchAndDecryptChunk(rootChunkId);
+			const jsonString = await this.fetchDirectoryData(rootChunkId);
 
 			if (jsonString) {
 				const directoryData = JSON.parse(jsonString) as Directory;
@@ -208,9 +531,21 @@ export class FileService {
 			}
 			return { success: true };
 		} catch (error: any) {
-			if (error?.status === 404 && error.message?.includes('not found')) {
+			if (this.isChunkNotFound(error)) {
+				// After a password change the root may still be at the previous ID on this node
+				if (!this.sharedFolder && (await this.migratePendingRoot(rootChunkId))) {
+					return await this.initializeRootDirectory(rootChunkId);
+				}
 				return await this.createNewRootDirectory(rootChunkId);
 			}
+			const cached = this.isNodeUnavailable(error)
+				? await this.getCachedDirectory(rootChunkId)
+				: null;
+			if (cached) {
+				this.offline.next(true);
+				this.directory.next(cached);
+				return { success: true };
+			}
 			throw error;
 		}
 	}
@@ -233,6 +568,176 @@ export class FileService {
 		}
 	}
 
+	/** Pending root migration after a password change (null when every node is done). */
+	async getRootMigration(): Promise<RootMigration | null> {
+		const response = await firstValueFrom(
+			this.http.get<any>(`${this.apiUrl}/root-migration`, { headers: this.authHeaders })
+		);
+		return response.data?.root_migration ?? null;
+	}
+
+	/** Mark the root of one node as moved. */
+	private async completeRootMigration(nodeId: string): Promise<void> {
+		await firstValueFrom(
+			this.http.delete(`${this.apiUrl}/root-migration/nodes/${nodeId}`, {
+				headers: this.authHeaders
+			})
+		);
+	}
+
+	/**
+	 * Move the root on every node still pending after a password change. Nodes that fail
+	 * (e.g. offline) stay pending, so calling this again resumes where it stopped.
+	 */
+	async resumeRootMigration(
+		password: string,
+		onProgress?: (completed: number, total: number) => void
+	): Promise<RootMigrationResult> {
+		try {
+			const migration = await this.getRootMigration();
+			if (!migration) {
+				return { success: true, pendingNodes: [] };
+			}
+
+			const rootChunkId = await this.cryptoService.getRootChunk(password);
+			const total = migration.pending_nodes.length;
+			const failedNodes: string[] = [];
+			const previousNodeId = this.storageNodeId;
+
+			try {
+				for (const [index, nodeId] of migration.pending_nodes.entries()) {
+					onProgress?.(index, total);
+					this.storageNodeId = nodeId;
+					try {
+						await this.migrateNodeRoot(migration.previous_root_chunk_id, rootChunkId);
+						await this.completeRootMigration(nodeId);
+					} catch (error) {
+						console.warn(`Failed to move the root directory on node ${nodeId}:`, error);
+						failedNodes.push(nodeId);
+					}
+				}
+				onProgress?.(total, total);
+			} finally {
+				this.storageNodeId = previousNodeId;
+				// Cached state belongs to the old root IDs; callers reinitialize
+				this.directorySnapshots.clear();
+				this.directoryPathCache.clear();
+				if (this.rootChunkId === migration.previous_root_chunk_id) {
+					this.rootChunkId = null;
+					this.directory.next(null);
+				}
+			}
+
+			if (failedNodes.length > 0) {
+				return {
+					success: false,
+					message: `Files on ${failedNodes.length} of ${total} node(s) could not be moved yet`,
+					pendingNodes: failedNodes
+				};
+			}
+			return { success: true, pendingNodes: [] };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error moving files to the new password: ${error.error?.message || error.message || error}`,
+				pendingNodes: []
+			};
+		}
+	}
+
+	/** Move this node's root if it is still pending; true when a root now exists at rootChunkId. */
+	private async migratePendingRoot(rootChunkId: string): Promise<boolean> {
+		const migration = await this.getRootMigration();
+		if (!migration || !migration.pending_nodes.includes(this.storageNodeId!)) {
+			return false;
+		}
+
+		const moved = await this.migrateNodeRoot(migration.previous_root_chunk_id, rootChunkId);
+		await this.completeRootMigration(this.storageNodeId!);
+		return moved;
+	}
+
+	/**
+	 * Move the root directory on the current node from the previous chunk ID to the new one.
+	 * Children are re-pointed before the new root is stored and the old root is deleted last,
+	 * so an interrupted move can simply be repeated. Returns false if there was no old root.
+	 */
+	private async migrateNodeRoot(
+		previousRootChunkId: string,
+		rootChunkId: string
+	): Promise<boolean> {
+		try {
+			await this.fetchDirectoryData(rootChunkId);
+			// Already moved; only the old root may be left behind
+			try {
+				await this.deleteChunk(previousRootChunkId);
+			} catch (error) {
+				if (!this.isChunkNotFound(error)) {
+					console.warn(`Failed to delete previous root ${previousRootChunkId}:`, error);
+				}
+			}
+			return true;
+		} catch (error: any) {
+			if (!this.isChunkNotFound(error)) {
+				throw error;
+			}
+		}
+
+		let root: Directory;
+		try {
+			root = await this.fetchDirectory(previousRootChunkId);
+		} catch (error: any) {
+			if (this.isChunkNotFound(error)) {
+				return false;
+			}
+			throw error;
+		}
+
+		const childIds = root.contents
+			.filter(item => item.type === 'directory')
+			.map(item => item.chunkId);
+		if (root.trashChunkId) {
+			childIds.push(root.trashChunkId);
+		}
+
+		for (const childId of childIds) {
+			let child: Directory;
+			try {
+				child = await this.fetchDirectory(childId);
+			} catch (error: any) {
+				if (this.isChunkNotFound(error)) {
+					continue; // reported by fsck as a missing directory
+				}
+				throw error;
+			}
+
+			let changed = false;
+			if (child.parentId === previousRootChunkId) {
+				child.parentId = rootChunkId;
+				changed = true;
+			}
+			// Trash entries remember the directory they are restored into
+			for (const entry of child.contents as TrashedItem[]) {
+				if (entry.trash?.originalParentId === previousRootChunkId) {
+					entry.trash.originalParentId = rootChunkId;
+					changed = true;
+				}
+			}
+			if (changed) {
+				await this.rewriteDirectory(child);
+			}
+		}
+
+		root.chunkId = rootChunkId;
+		delete root.revision;
+		const data = JSON.stringify(root);
+		await this.encryptAndStoreChunk(data, rootChunkId);
+		this.rememberDirectory(rootChunkId, data);
+
+		await this.deleteChunk(previousRootChunkId);
+		return true;
+	}
+
 	/** Create a directory object (optionally with provided chunkId). */
 	private async createDirectory(
 		name: string,
@@ -249,111 +754,464 @@ export class FileService {
 		return await this.storeDirectory(newDirectory);
 	}
 
-	/** Persist updated directory JSON (delete old -> store new -> clone). */
+	/** Persist updated directory JSON (journaled rewrite -> clone). */
 	private async updateDirectory(): Promise<void> {
 		this.validateStorageNode();
 		let currentDirectory = this.validateCurrentDirectory();
 
-		// Delete old directory metadata
-		await this.deleteChunk(currentDirectory.chunkId);
-
-		// Store updated directory metadata
-		currentDirectory = await this.storeDirectory(currentDirectory);
+		// Replace old directory metadata with the updated version
+		currentDirectory = await this.rewriteDirectory(currentDirectory);
 
 		// Update the local state with a deep clone to trigger observable and UI update
 		const updatedDirectory: Directory = structuredClone(currentDirectory);
 		this.directory.next(updatedDirectory);
 	}
 
-	/** Store directory JSON; regenerate chunkId on conflict. */
-	private async storeDirectory(directory: Directory): Promise<Directory> {
+	/** Persist any directory JSON in place (claim revision -> journal new -> delete old -> store new -> drop journal). */
+	private async rewriteDirectory(directory: Directory): Promise<Directory> {
 		this.validateStorageNode();
+		this.validateOnline();
 
-		while (true) {
+		await this.claimNextRevision(directory);
+
+		const data = JSON.stringify(directory);
+		await this.replaceJournaledChunk(data, directory.chunkId);
+		this.rememberDirectory(directory.chunkId, data);
+
+		return directory;
+	}
+
+	/** Replace a metadata chunk in place through its journal (see fetchJournaledChunk). */
+	private async replaceJournaledChunk(data: string, chunkId: string): Promise<void> {
+		const journalChunkId = await this.getJournalChunkId(chunkId);
+
+		// Stage the new version first so a valid copy exists while the primary is replaced
+		await this.replaceChunk(data, journalChunkId);
+		await this.deleteChunk(chunkId);
+		await this.encryptAndStoreChunk(data, chunkId);
+
+		// The update is committed; a journal left behind here is cleared by the next write
+		try {
+			await this.deleteChunk(journalChunkId);
+		} catch (error) {
+			console.warn(`Failed to delete journal for chunk ${chunkId}:`, error);
+		}
+	}
+
+	/** Claim the next revision, merging in another session's changes on conflict. */
+	private async claimNextRevision(directory: Directory): Promise<void> {
+		for (let attempt = 0; ; attempt++) {
 			try {
-				await this.encryptAndStoreChunk(JSON.stringify(directory), directory.chunkId);
-				return directory;
+				await this.claimDirectoryRevision(directory);
+				return;
 			} catch (error: any) {
-				if (error?.status === 409) {
-					// Chunk ID conflict, generate a new one and retry
-					directory.chunkId = this.cryptoService.generateUUID();
-					continue;
+				if (error?.status !== 409 || attempt >= this.MAX_REVISION_CONFLICT_RETRIES) {
+					throw error;
 				}
-				throw error;
+				await this.mergeRemoteDirectory(directory, error.currentRevision);
 			}
 		}
 	}
 
-	/** Create a new subdirectory in the current directory. */
-	public async createSubdirectory(name: string): Promise<{ success: boolean; message?: string }> {
-		try {
-			this.validateStorageNode();
-			const currentDirectory = this.validateCurrentDirectory();
+	/** Compare-and-swap directory.revision -> revision + 1 on the server. */
+	private async claimDirectoryRevision(
+		directory: Pick<Directory, 'chunkId' | 'revision'>
+	): Promise<void> {
+		const expectedRevision = directory.revision || 0;
 
-			// Check if directory name already exists
-			if (this.checkIfItemExists(currentDirectory, name)) {
-				return {
-					success: false,
-					message: `Directory "${name}" already exists`
-				};
+		try {
+			await firstValueFrom(
+				this.http.put<any>(
+					`${this.apiUrl}/nodes/${this.storageNodeId}/chunks/${directory.chunkId}/revision`,
+					{ expected_revision: expectedRevision, revision: expectedRevision + 1 },
+					{ headers: this.authHeaders }
+				)
+			);
+		} catch (error: any) {
+			if (error?.status === 409) {
+				const conflict: any = new Error('Directory was changed in another session');
+				conflict.status = 409;
+				conflict.currentRevision = error.error?.errors?.revision ?? expectedRevision + 1;
+				throw conflict;
 			}
+			throw error;
+		}
 
-			// Create the new directory
-			const newDirectory = await this.createDirectory(name, currentDirectory.chunkId);
+		directory.revision = expectedRevision + 1;
+	}
 
-			// Add the new directory to the current directory
-			this.addDirectoryToContents(currentDirectory, newDirectory);
+	/** Re-fetch a directory changed elsewhere and merge it into the local copy. */
+	private async mergeRemoteDirectory(
+		directory: Directory,
+		currentRevision: number
+	): Promise<void> {
+		const baseData = this.directorySnapshots.get(directory.chunkId);
+		const base: Directory | null = baseData ? JSON.parse(baseData) : null;
 
-			// Update the directory metadata
-			await this.updateDirectory();
+		// Fetching waits for the revision the other session claimed (see fetchJournaledChunk)
+		const remote = await this.fetchDirectory(directory.chunkId);
 
-			return { success: true };
-		} catch (error) {
-			return {
-				success: false,
-				message: `Error Creating Subdirectory: ${error}`
-			};
+		const conflicts = this.mergeDirectory(base, directory, remote);
+		directory.revision = currentRevision;
+
+		if (conflicts.length > 0) {
+			this.directoryConflicts.next(conflicts);
 		}
 	}
 
-	/** Check if name exists within directory. */
-	private checkIfItemExists(directory: Directory, name: string): boolean {
-		return directory.contents.some(item => item.name === name);
-	}
+	/** Three-way merge of remote changes into local (in place); returns conflicting names. */
+	private mergeDirectory(base: Directory | null, local: Directory, remote: Directory): string[] {
+		const keyOf = (item: DirectoryItem) =>
+			item.type === 'directory' ? `directory:${item.chunkId}` : `file:${item.name}`;
+		const toMap = (items: DirectoryItem[]) =>
+			new Map(items.map(item => [keyOf(item), item] as const));
+		const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+		const baseItems = toMap(base?.contents || []);
+		const localItems = toMap(local.contents);
+		const remoteItems = toMap(remote.contents);
+
+		const conflicts: string[] = [];
+		const conflictedFiles: DirectoryItem[] = [];
+		const merged: DirectoryItem[] = [];
+
+		// Remote order first, then entries only this session knows about
+		for (const key of new Set([...remoteItems.keys(), ...localItems.keys()])) {
+			const baseItem = baseItems.get(key);
+			const localItem = localItems.get(key);
+			const remoteItem = remoteItems.get(key);
+
+			let result: DirectoryItem | undefined;
+			if (same(localItem, baseItem)) {
+				result = remoteItem;
+			} else if (same(remoteItem, baseItem) || same(localItem, remoteItem)) {
+				result = localItem;
+			} else {
+				// Both sessions changed the same entry: keep theirs, save ours as a copy
+				conflicts.push((localItem || remoteItem)!.name);
+				result = remoteItem || localItem;
+				if (localItem && remoteItem && localItem.type === 'file') {
+					conflictedFiles.push(localItem);
+				}
+			}
 
-	/** Add new directory entry to contents. */
-	private addDirectoryToContents(currentDirectory: Directory, newDirectory: Directory): void {
-		currentDirectory.contents = [
-			...currentDirectory.contents,
-			{
-				type: 'directory',
-				name: newDirectory.name,
-				chunkId: newDirectory.chunkId
+			if (result) {
+				merged.push(result);
 			}
-		];
-	}
+		}
 
-	/** Change current working directory to provided chunk id. */
-	public async changeDirectory(
-		directoryChunkId: string
-	): Promise<{ success: boolean; message?: string }> {
-		try {
-			this.validateStorageNode();
+		// Directory-level fields (name, parent, trash settings) follow the same rule
+		const localFields = local as unknown as Record<string, unknown>;
+		const baseFields = (base || {}) as unknown as Record<string, unknown>;
+		const remoteFields = remote as unknown as Record<string, unknown>;
+		for (const field of new Set([...Object.keys(remoteFields), ...Object.keys(localFields)])) {
+			if (field === 'contents' || field === 'revision') {
+				continue;
+			}
+			if (same(localFields[field], baseFields[field])) {
+				if (field in remoteFields) {
+					localFields[field] = remoteFields[field];
+				} else {
+					delete localFields[field];
+				}
+			}
+		}
 
-			// Fetch and decrypt the directory
-			const directory = JSON.parse(
-				await this.fetchAndDecryptChunk(directoryChunkId)
-			) as Directory;
+		local.contents = merged;
+		for (const file of conflictedFiles) {
+			local.contents.push({
+				...file,
+				name: this.getAvailableName(local, file.name, 'conflict')
+			});
+		}
 
-			// Update the current directory
-			this.directory.next(directory);
+		// Entries added on both sides may now share a name
+		const seenNames = new Set<string>();
+		for (const item of local.contents) {
+			if (seenNames.has(item.name)) {
+				conflicts.push(item.name);
+				item.name = this.getAvailableName(local, item.name, 'conflict');
+			}
+			seenNames.add(item.name);
+		}
 
-			return { success: true };
-		} catch (error) {
-			return {
-				success: false,
-				message: `Error changing directory ${error}`
-			};
+		return conflicts;
+	}
+
+	/** Store a metadata chunk, replacing an earlier copy (a stale journal, the search index). */
+	private async replaceChunk(data: string, chunkId: string): Promise<void> {
+		try {
+			await this.encryptAndStoreChunk(data, chunkId);
+		} catch (error: any) {
+			if (error?.status !== 409) {
+				throw error;
+			}
+			await this.deleteChunk(chunkId);
+			await this.encryptAndStoreChunk(data, chunkId);
+		}
+	}
+
+	/** Deterministic journal chunk id for a directory chunk. */
+	private async getJournalChunkId(chunkId: string): Promise<string> {
+		return await this.cryptoService.deriveChunkId(`journal:${chunkId}`);
+	}
+
+	/** Fetch and parse a directory without touching current directory state. */
+	private async fetchDirectory(chunkId: string): Promise<Directory> {
+		return JSON.parse(await this.fetchDirectoryData(chunkId)) as Directory;
+	}
+
+	/** Fetch directory JSON, finishing an interrupted update from its journal if needed. */
+	private async fetchDirectoryData(chunkId: string): Promise<string> {
+		const data = await this.fetchJournaledChunk(chunkId);
+		this.rememberDirectory(chunkId, data);
+		return data;
+	}
+
+	/**
+	 * Fetch a journaled metadata chunk, restoring it from the journal if a rewrite was cut off.
+	 * The copy must be at least at the revision the server's registry holds, so a node cannot
+	 * serve an older version (or get a stale journal restored over the primary). Writers claim
+	 * a revision before storing the chunk, so a copy that is behind is waited for briefly first.
+	 */
+	private async fetchJournaledChunk(chunkId: string): Promise<string> {
+		for (let waits = 0; ; waits++) {
+			const registryRevision = await this.getDirectoryRevision(chunkId);
+			const { data, journalChunkId } = await this.readJournaledChunk(chunkId);
+			const revision = (JSON.parse(data) as { revision?: number }).revision || 0;
+
+			if (revision < registryRevision) {
+				if (waits < this.MAX_REVISION_CONFLICT_RETRIES) {
+					await new Promise(resolve => setTimeout(resolve, this.REVISION_WAIT_MS));
+					continue;
+				}
+				throw new Error(
+					`Chunk ${chunkId} is at revision ${revision} but revision ${registryRevision} was committed; the node served an outdated copy`
+				);
+			}
+
+			if (journalChunkId) {
+				// Primary was deleted mid-update: restore it from the journal, then drop the journal
+				await this.encryptAndStoreChunk(data, chunkId);
+				try {
+					await this.deleteChunk(journalChunkId);
+				} catch (deleteError) {
+					console.warn(`Failed to delete journal for chunk ${chunkId}:`, deleteError);
+				}
+			}
+
+			return data;
+		}
+	}
+
+	/** Read a metadata chunk, or its journal (with the journal's ID) if the primary is missing. */
+	private async readJournaledChunk(
+		chunkId: string
+	): Promise<{ data: string; journalChunkId?: string }> {
+		try {
+			return { data: await this.fetchAndDecryptChunk(chunkId) };
+		} catch (error: any) {
+			if (!this.isChunkNotFound(error)) {
+				throw error;
+			}
+
+			const journalChunkId = await this.getJournalChunkId(chunkId);
+			try {
+				return { data: await this.fetchAndDecryptChunk(journalChunkId), journalChunkId };
+			} catch (journalError: any) {
+				throw this.isChunkNotFound(journalError) ? error : journalError;
+			}
+		}
+	}
+
+	/** True for a 404 chunk lookup failure. */
+	private isChunkNotFound(error: any): boolean {
+		return error?.status === 404 && Boolean(error.message?.includes('not found'));
+	}
+
+	/** True when the node (503) or the server (status 0) could not be reached. */
+	private isNodeUnavailable(error: any): boolean {
+		return error?.status === 503 || error?.status === 0;
+	}
+
+	/** Record directory JSON as the merge base and in the local cache. */
+	private rememberDirectory(chunkId: string, data: string): void {
+		this.directorySnapshots.set(chunkId, data);
+		const revision = (JSON.parse(data) as Directory).revision || 0;
+		void this.directoryCache.saveDirectory(this.storageNodeId!, chunkId, revision, data);
+	}
+
+	/** Last known copy of a directory: this page's snapshot, else the local cache. */
+	private async getCachedDirectory(chunkId: string): Promise<Directory | null> {
+		let data = this.directorySnapshots.get(chunkId);
+		if (!data) {
+			data = (await this.directoryCache.getDirectory(this.storageNodeId!, chunkId))?.data;
+			if (!data) {
+				return null;
+			}
+			// Edits made before revalidation merge against what was shown
+			this.directorySnapshots.set(chunkId, data);
+		}
+		return JSON.parse(data) as Directory;
+	}
+
+	/** Current revision of a directory on the server (answered without the node). */
+	private async getDirectoryRevision(chunkId: string): Promise<number> {
+		const response = await firstValueFrom(
+			this.http.get<any>(
+				`${this.apiUrl}/nodes/${this.storageNodeId}/chunks/${chunkId}/revision`,
+				{ headers: this.authHeaders }
+			)
+		);
+		return response.data.revision;
+	}
+
+	/** Replace a listing shown from the cache if the server has a newer revision. */
+	private async revalidateDirectory(cached: Directory): Promise<void> {
+		try {
+			const revision = await this.getDirectoryRevision(cached.chunkId);
+			// While offline, fetch anyway to find out whether the node is back
+			if (revision === (cached.revision || 0) && !this.offline.getValue()) {
+				return;
+			}
+
+			const directory = await this.fetchDirectory(cached.chunkId);
+			this.offline.next(false);
+			if (this.directory.getValue() === cached) {
+				this.directory.next(directory);
+			}
+		} catch (error) {
+			if (this.isNodeUnavailable(error)) {
+				this.offline.next(true);
+				return;
+			}
+			console.warn(`Failed to revalidate directory ${cached.chunkId}:`, error);
+		}
+	}
+
+	/** Current directory object if it matches chunkId, otherwise a fetched copy. */
+	private async loadDirectory(chunkId: string): Promise<Directory> {
+		const currentDirectory = this.directory.getValue();
+		if (currentDirectory && currentDirectory.chunkId === chunkId) {
+			return currentDirectory;
+		}
+		return await this.fetchDirectory(chunkId);
+	}
+
+	/** Persist a directory from loadDirectory (refreshes UI state if it is current). */
+	private async saveDirectory(directory: Directory): Promise<void> {
+		if (directory === this.directory.getValue()) {
+			await this.updateDirectory();
+		} else {
+			await this.rewriteDirectory(directory);
+		}
+	}
+
+	/** Store directory JSON; regenerate chunkId on conflict. */
+	private async storeDirectory(directory: Directory): Promise<Directory> {
+		this.validateStorageNode();
+		this.validateOnline();
+
+		while (true) {
+			try {
+				const data = JSON.stringify(directory);
+				await this.encryptAndStoreChunk(data, directory.chunkId);
+				this.rememberDirectory(directory.chunkId, data);
+				return directory;
+			} catch (error: any) {
+				if (error?.status === 409) {
+					// Chunk ID conflict, generate a new one and retry
+					directory.chunkId = this.cryptoService.generateUUID();
+					continue;
+				}
+				throw error;
+			}
+		}
+	}
+
+	/** Create a new subdirectory in the current directory. */
+	public async createSubdirectory(name: string): Promise<{ success: boolean; message?: string }> {
+		try {
+			this.validateStorageNode();
+			const currentDirectory = this.validateCurrentDirectory();
+
+			// Check if directory name already exists
+			if (this.checkIfItemExists(currentDirectory, name)) {
+				return {
+					success: false,
+					message: `Directory "${name}" already exists`
+				};
+			}
+
+			// Create the new directory
+			const newDirectory = await this.createDirectory(name, currentDirectory.chunkId);
+
+			// Add the new directory to the current directory
+			this.addDirectoryToContents(currentDirectory, newDirectory);
+
+			// Update the directory metadata
+			await this.updateDirectory();
+			await this.updateSearchIndex(index =>
+				this.addToSearchIndex(index, currentDirectory, {
+					type: 'directory',
+					name: newDirectory.name,
+					chunkId: newDirectory.chunkId
+				})
+			);
+
+			return { success: true };
+		} catch (error) {
+			return {
+				success: false,
+				message: `Error Creating Subdirectory: ${error}`
+			};
+		}
+	}
+
+	/** Check if name exists within directory. */
+	private checkIfItemExists(directory: Directory, name: string): boolean {
+		return directory.contents.some(item => item.name === name);
+	}
+
+	/** Add new directory entry to contents. */
+	private addDirectoryToContents(currentDirectory: Directory, newDirectory: Directory): void {
+		currentDirectory.contents = [
+			...currentDirectory.contents,
+			{
+				type: 'directory',
+				name: newDirectory.name,
+				chunkId: newDirectory.chunkId
+			}
+		];
+	}
+
+	/** Change current working directory to provided chunk id. */
+	public async changeDirectory(
+		directoryChunkId: string
+	): Promise<{ success: boolean; message?: string }> {
+		try {
+			this.validateStorageNode();
+
+			// Show the last known listing right away and check it against the server afterwards
+			const cached = await this.getCachedDirectory(directoryChunkId);
+			if (cached) {
+				this.directory.next(cached);
+				void this.revalidateDirectory(cached);
+				return { success: true };
+			}
+
+			// Fetch and decrypt the directory
+			const directory = await this.fetchDirectory(directoryChunkId);
+
+			// Update the current directory
+			this.directory.next(directory);
+
+			return { success: true };
+		} catch (error) {
+			return {
+				success: false,
+				message: `Error changing directory ${error}`
+			};
 		}
 	}
 
@@ -381,431 +1239,2847 @@ export class FileService {
 			.filter(item => item.type === 'file')
 			.sort((a, b) => a.name.localeCompare(b.name));
 
-		return [...directories, ...files];
-	}
+		return [...directories, ...files];
+	}
+
+	/** Chunk id of the root directory for the active node. */
+	public getRootChunkId(): string | null {
+		return this.rootChunkId;
+	}
+
+	/** Read a directory by chunk id (e.g. for folder pickers) without navigating. */
+	public async browseDirectory(chunkId: string): Promise<Directory> {
+		this.validateStorageNode();
+		return await this.fetchDirectory(chunkId);
+	}
+
+	/** Rename a file or directory in the current directory. */
+	public async renameItem(
+		item: DirectoryItem,
+		newName: string
+	): Promise<{ success: boolean; message?: string }> {
+		try {
+			this.validateStorageNode();
+			const currentDirectory = this.validateCurrentDirectory();
+
+			const existingItem = this.findItemInDirectory(currentDirectory, item);
+			if (!existingItem) {
+				return { success: false, message: 'Item not found in current directory' };
+			}
+
+			const trimmedName = newName.trim();
+			const validation =
+				item.type === 'directory'
+					? validateDirectoryName(trimmedName)
+					: validateFileName(trimmedName);
+			if (!validation.isValid) {
+				return { success: false, message: validation.message };
+			}
+
+			if (trimmedName === existingItem.name) {
+				return { success: true };
+			}
+
+			if (this.checkIfItemExists(currentDirectory, trimmedName)) {
+				return {
+					success: false,
+					message: `An item named "${trimmedName}" already exists in this directory`
+				};
+			}
+
+			// Directories also carry their own name in their metadata chunk
+			if (existingItem.type === 'directory') {
+				const targetDirectory = await this.fetchDirectory(existingItem.chunkId);
+				targetDirectory.name = trimmedName;
+				await this.rewriteDirectory(targetDirectory);
+			}
+
+			const previousName = existingItem.name;
+			existingItem.name = trimmedName;
+			await this.updateDirectory();
+			this.directoryPathCache.clear();
+			await this.updateSearchIndex(index =>
+				this.relocateInSearchIndex(
+					index,
+					{ parentId: currentDirectory.chunkId, name: previousName },
+					{ parent: currentDirectory, name: trimmedName }
+				)
+			);
+
+			return { success: true };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error renaming item: ${error.message || error}`
+			};
+		}
+	}
+
+	/** Move a file or directory from the current directory into another directory. */
+	public async moveItem(
+		item: DirectoryItem,
+		destinationChunkId: string
+	): Promise<{ success: boolean; message?: string }> {
+		try {
+			this.validateStorageNode();
+			const currentDirectory = this.validateCurrentDirectory();
+
+			const existingItem = this.findItemInDirectory(currentDirectory, item);
+			if (!existingItem) {
+				return { success: false, message: 'Item not found in current directory' };
+			}
+
+			if (destinationChunkId === currentDirectory.chunkId) {
+				return { success: false, message: `"${item.name}" is already in this directory` };
+			}
+
+			if (existingItem.type === 'directory' && existingItem.chunkId === destinationChunkId) {
+				return { success: false, message: 'Cannot move a directory into itself' };
+			}
+
+			const destination = await this.fetchDirectory(destinationChunkId);
+
+			if (
+				existingItem.type === 'directory' &&
+				(await this.isDescendantOf(destination, existingItem.chunkId))
+			) {
+				return {
+					success: false,
+					message: 'Cannot move a directory into one of its own subdirectories'
+				};
+			}
+
+			if (this.checkIfItemExists(destination, existingItem.name)) {
+				return {
+					success: false,
+					message: `An item named "${existingItem.name}" already exists in the destination`
+				};
+			}
+
+			// Link into destination first so a failure never leaves the item unreachable
+			destination.contents = [...destination.contents, structuredClone(existingItem)];
+			await this.rewriteDirectory(destination);
+
+			if (existingItem.type === 'directory') {
+				const movedDirectory = await this.fetchDirectory(existingItem.chunkId);
+				movedDirectory.parentId = destination.chunkId;
+				await this.rewriteDirectory(movedDirectory);
+			}
+
+			currentDirectory.contents = currentDirectory.contents.filter(
+				dirItem => dirItem !== existingItem
+			);
+			await this.updateDirectory();
+			this.directoryPathCache.clear();
+			await this.updateSearchIndex(index =>
+				this.relocateInSearchIndex(
+					index,
+					{ parentId: currentDirectory.chunkId, name: existingItem.name },
+					{ parent: destination, name: existingItem.name }
+				)
+			);
+
+			return { success: true };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error moving item: ${error.message || error}`
+			};
+		}
+	}
+
+	/** Copy a file or directory from the current directory into a destination (node-side). */
+	public async copyItem(
+		item: DirectoryItem,
+		destinationChunkId: string
+	): Promise<{ success: boolean; message?: string }> {
+		try {
+			this.validateStorageNode();
+			const currentDirectory = this.validateCurrentDirectory();
+
+			const existingItem = this.findItemInDirectory(currentDirectory, item);
+			if (!existingItem) {
+				return { success: false, message: 'Item not found in current directory' };
+			}
+
+			const destination = await this.loadDirectory(destinationChunkId);
+			const copyName = this.getAvailableName(destination, existingItem.name, 'copy');
+			const progressLabel = `copy of ${existingItem.name}`;
+
+			const totalChunks = await this.countChunksToCopy(existingItem);
+			const progress = { copied: 0, total: totalChunks, label: progressLabel };
+			this.updateUploadProgress({
+				fileName: progressLabel,
+				progress: 0,
+				isUploading: true,
+				chunksUploaded: 0,
+				totalChunks
+			});
+
+			let copiedEntry: DirectoryItem;
+			if (existingItem.type === 'file') {
+				copiedEntry = await this.copyFileEntry(existingItem, copyName, progress);
+			} else {
+				const sourceDirectory = await this.fetchDirectory(existingItem.chunkId);
+				const copiedDirectory = await this.copyDirectoryTree(
+					sourceDirectory,
+					copyName,
+					destination.chunkId,
+					progress
+				);
+				copiedEntry = {
+					type: 'directory',
+					name: copiedDirectory.name,
+					chunkId: copiedDirectory.chunkId
+				};
+			}
+
+			// Link the finished copy into its destination last
+			destination.contents = [...destination.contents, copiedEntry];
+			await this.saveDirectory(destination);
+			await this.updateSearchIndex(index =>
+				this.addToSearchIndex(index, destination, copiedEntry)
+			);
+
+			this.updateUploadProgress({
+				fileName: progressLabel,
+				progress: 100,
+				isUploading: false,
+				chunksUploaded: totalChunks,
+				totalChunks
+			});
+
+			return { success: true };
+		} catch (error: any) {
+			this.resetUploadProgress();
+			return {
+				success: false,
+				message: `Error copying item: ${error.message || error}`
+			};
+		}
+	}
+
+	/** Pick a non-conflicting name ("a.txt" -> "a (copy).txt" -> "a (copy 2).txt"). */
+	private getAvailableName(directory: Directory, name: string, label: string): string {
+		if (!this.checkIfItemExists(directory, name)) {
+			return name;
+		}
+
+		const lastDot = name.lastIndexOf('.');
+		const hasExtension = lastDot > 0;
+		const base = hasExtension ? name.substring(0, lastDot) : name;
+		const extension = hasExtension ? name.substring(lastDot) : '';
+
+		let attempt = 1;
+		while (true) {
+			const suffix = attempt === 1 ? ` (${label})` : ` (${label} ${attempt})`;
+			const candidate = `${base}${suffix}${extension}`;
+			if (!this.checkIfItemExists(directory, candidate)) {
+				return candidate;
+			}
+			attempt++;
+		}
+	}
+
+	/** Count data chunks below an item (for copy progress). */
+	private async countChunksToCopy(item: DirectoryItem): Promise<number> {
+		if (item.type === 'file') {
+			return item.fileChunks.length;
+		}
+
+		let total = 0;
+		const stack: string[] = [item.chunkId];
+		while (stack.length > 0) {
+			const directory = await this.fetchDirectory(stack.pop() as string);
+			for (const child of directory.contents) {
+				if (child.type === 'file') {
+					total += child.fileChunks.length;
+				} else {
+					stack.push(child.chunkId);
+				}
+			}
+		}
+		return total;
+	}
+
+	/** Duplicate a file's data chunks node-side and return the new entry. */
+	private async copyFileEntry(
+		item: DirectoryItem & { type: 'file' },
+		name: string,
+		progress: { copied: number; total: number; label: string }
+	): Promise<DirectoryItem> {
+		const content = this.getFileContent(item);
+		const reportProgress = (copied: number) => {
+			progress.copied += copied;
+			this.updateUploadProgress({
+				fileName: progress.label,
+				progress: Math.round((progress.copied / Math.max(progress.total, 1)) * 100),
+				isUploading: true,
+				chunksUploaded: progress.copied,
+				totalChunks: progress.total
+			});
+		};
+
+		if (this.isDeduplicated(content)) {
+			// Deduplicated chunks are shared between files, so the copy only adds references
+			await this.retainDedupChunks(content.fileChunks);
+			reportProgress(content.fileChunks.length);
+			return { type: 'file', name, ...content, createdAt: new Date().toISOString() };
+		}
+
+		// Format 3 binds each chunk to its ID, so its chunks are re-encrypted under the new IDs
+		const chunkKeys =
+			content.formatVersion === AUTHENTICATED_ITEM_FORMAT
+				? await this.getChunkKeys(content)
+				: null;
+		const copiedChunks: string[] = [];
+		for (const [index, chunkId] of content.fileChunks.entries()) {
+			copiedChunks.push(
+				chunkKeys
+					? await this.reencryptChunk(content, chunkId, index, chunkKeys[index]!)
+					: await this.copyChunk(chunkId)
+			);
+			reportProgress(1);
+		}
+
+		// Chunks keep their data key either way, so the copy keeps the same wrapped data key
+		return {
+			type: 'file',
+			name,
+			...content,
+			createdAt: new Date().toISOString(),
+			fileChunks: copiedChunks
+		};
+	}
+
+	/** Recreate a directory tree with fresh metadata chunks and copied data chunks. */
+	private async copyDirectoryTree(
+		source: Directory,
+		name: string,
+		parentId: string,
+		progress: { copied: number; total: number; label: string }
+	): Promise<Directory> {
+		// Claim the new chunk id up front so children can point at it
+		const copy = await this.createDirectory(name, parentId);
+
+		for (const child of source.contents) {
+			if (child.type === 'file') {
+				copy.contents.push(await this.copyFileEntry(child, child.name, progress));
+			} else {
+				const childSource = await this.fetchDirectory(child.chunkId);
+				const childCopy = await this.copyDirectoryTree(
+					childSource,
+					child.name,
+					copy.chunkId,
+					progress
+				);
+				copy.contents.push({
+					type: 'directory',
+					name: childCopy.name,
+					chunkId: childCopy.chunkId
+				});
+			}
+		}
+
+		if (copy.contents.length > 0) {
+			await this.rewriteDirectory(copy);
+		}
+		return copy;
+	}
+
+	/** Find an entry in a directory by type + name (tolerates stale references). */
+	private findItemInDirectory(
+		directory: Directory,
+		item: DirectoryItem
+	): DirectoryItem | undefined {
+		return (
+			directory.contents.find(i => i === item) ||
+			directory.contents.find(i => i.type === item.type && i.name === item.name)
+		);
+	}
+
+	/** True if directory is (or sits below) the directory with ancestorChunkId. */
+	private async isDescendantOf(directory: Directory, ancestorChunkId: string): Promise<boolean> {
+		const visited = new Set<string>();
+		let current: Directory | null = directory;
+
+		while (current) {
+			if (current.chunkId === ancestorChunkId) {
+				return true;
+			}
+			if (!current.parentId || visited.has(current.chunkId)) {
+				return false;
+			}
+			visited.add(current.chunkId);
+			current = await this.fetchDirectory(current.parentId);
+		}
+
+		return false;
+	}
+
+	/** HTTP auth headers shortcut (naming the open shared folder, if any). */
+	private get authHeaders(): HttpHeaders {
+		const headers = this.authService.getAuthHeaders();
+		return this.sharedFolder
+			? headers.set('X-Shared-Folder', this.sharedFolder.folderId)
+			: headers;
+	}
+
+	/** Fetch encrypted chunk and return decrypted JSON string. */
+	private async fetchAndDecryptChunk(chunkId: string): Promise<string> {
+		return await this.processChunkResponse(await this.fetchChunkData(chunkId), chunkId);
+	}
+
+	/** Fetch a stored chunk as is (header, IV and ciphertext). */
+	private async fetchChunkData(chunkId: string): Promise<ArrayBuffer> {
+		this.validateStorageNode();
+		try {
+			return await firstValueFrom(
+				this.http.get(`${this.apiUrl}/nodes/${this.storageNodeId}/chunks/${chunkId}`, {
+					headers: this.authHeaders,
+					responseType: 'arraybuffer' as 'arraybuffer'
+				})
+			);
+		} catch (error) {
+			throw this.processChunkError(error);
+		}
+	}
+
+	/** Process raw chunk HTTP response (strip header, extract IV + decrypt bound to chunkId). */
+	private async processChunkResponse(response: any, chunkId: string): Promise<string> {
+		if (!response || response.byteLength === 0) {
+			throw new Error('No data received when fetching chunk');
+		}
+
+		const responseBuffer = new Uint8Array(response);
+
+		if (!this.hasMetadataHeader(responseBuffer)) {
+			return await this.decryptChunkData(responseBuffer, chunkId);
+		}
+
+		try {
+			return await this.decryptChunkData(
+				responseBuffer.subarray(METADATA_HEADER_LENGTH),
+				chunkId,
+				this.getMetadataChunkAad(chunkId)
+			);
+		} catch (error) {
+			// A legacy chunk's random IV can start with the header bytes (1 in 2^24)
+			try {
+				return await this.decryptChunkData(responseBuffer, chunkId);
+			} catch {
+				throw error;
+			}
+		}
+	}
+
+	/** Split IV + ciphertext and decrypt; a chunk served under the wrong ID fails authentication. */
+	private async decryptChunkData(
+		data: Uint8Array,
+		chunkId: string,
+		associatedData?: Uint8Array
+	): Promise<string> {
+		if (data.length < 12) {
+			throw new Error('Invalid chunk data: too short');
+		}
+
+		// Extract IV and encrypted content
+		const iv = data.slice(0, 12);
+		const encryptedContent = data.slice(12);
+
+		let decryptedData: ArrayBuffer;
+		try {
+			decryptedData = await this.cryptoService.decryptData(
+				encryptedContent.buffer,
+				iv,
+				this.sharedFolder?.key,
+				associatedData
+			);
+		} catch (error: any) {
+			throw this.toAuthenticationError(error, `Chunk ${chunkId}`);
+		}
+		return new TextDecoder().decode(decryptedData);
+	}
+
+	/** Name AES-GCM tag failures as tampering; other errors pass through. */
+	private toAuthenticationError(error: any, subject: string): Error {
+		if (error?.name !== 'OperationError') {
+			return error;
+		}
+		return new Error(
+			`${subject} failed authentication; it was modified or stored under another ID`
+		);
+	}
+
+	/** True if a stored chunk starts with the metadata format header. */
+	private hasMetadataHeader(data: Uint8Array): boolean {
+		return (
+			data.length > METADATA_HEADER_LENGTH &&
+			METADATA_CHUNK_MAGIC.every((byte, index) => data[index] === byte) &&
+			data[METADATA_CHUNK_MAGIC.length] === METADATA_CHUNK_FORMAT
+		);
+	}
+
+	/** Associated data binding a metadata chunk to its chunk ID. */
+	private getMetadataChunkAad(chunkId: string): Uint8Array {
+		return new TextEncoder().encode(`yourcloud:v${METADATA_CHUNK_FORMAT}:metadata:${chunkId}`);
+	}
+
+	/** Build readable error from chunk fetch failure. */
+	private processChunkError(error: any): Error {
+		const errAny = error as any;
+		if (errAny && errAny.error instanceof ArrayBuffer) {
+			const errorString = this.decodeErrorBuffer(errAny.error);
+			const jsonError = this.tryParseJsonError(errorString);
+			if (jsonError?.message) {
+				const err: any = new Error(jsonError.message);
+				if (errAny.status) err.status = errAny.status;
+				return err;
+			} else {
+				const err: any = new Error(errorString || 'Unknown error');
+				if (errAny.status) err.status = errAny.status;
+				return err;
+			}
+		}
+		return error;
+	}
+
+	/** Decode ArrayBuffer -> string safely. */
+	private decodeErrorBuffer(errorBuffer: ArrayBuffer): string {
+		try {
+			return new TextDecoder().decode(errorBuffer);
+		} catch (e) {
+			return '';
+		}
+	}
+
+	/** Try parse JSON error payload. */
+	private tryParseJsonError(errorString: string): any {
+		try {
+			return JSON.parse(errorString);
+		} catch (e) {
+			return null;
+		}
+	}
+
+	/** Encrypt and store directory/file chunk bound to its chunk ID (prepend header + IV). */
+	private async encryptAndStoreChunk(data: string, chunkId: string): Promise<void> {
+		this.validateStorageNode();
+
+		// Pad the JSON with trailing whitespace to its size bucket; parsing ignores it
+		const encoded = new TextEncoder().encode(data);
+		const dataBuffer = new Uint8Array(getPaddedLength(encoded.length, this.MIN_PADDED_SIZE));
+		dataBuffer.set(encoded);
+		dataBuffer.fill(0x20, encoded.length);
+
+		// Encrypt the chunk data
+		const { encryptedData, iv: encryptionIv } = await this.cryptoService.encryptData(
+			dataBuffer,
+			undefined,
+			this.sharedFolder?.key,
+			this.getMetadataChunkAad(chunkId)
+		);
+
+		// Prepare final data with IV prepended
+		const finalData = this.prepareFinalChunkData(encryptedData, encryptionIv);
+		const header = new Uint8Array([...METADATA_CHUNK_MAGIC, METADATA_CHUNK_FORMAT]);
+
+		await firstValueFrom(
+			this.http.post(
+				`${this.apiUrl}/nodes/${this.storageNodeId}/chunks/${chunkId}`,
+				new Blob([header, finalData]),
+				{ headers: this.authHeaders.set('Content-Type', 'application/octet-stream') }
+			)
+		);
+	}
+
+	/** Concatenate IV + encrypted bytes. */
+	private prepareFinalChunkData(encryptedData: ArrayBuffer, iv: Uint8Array): ArrayBuffer {
+		const finalData = new ArrayBuffer(iv.length + encryptedData.byteLength);
+		const finalView = new Uint8Array(finalData);
+		finalView.set(iv);
+		finalView.set(new Uint8Array(encryptedData), iv.length);
+		return finalData;
+	}
+
+	/** Delete a chunk by id. */
+	private async deleteChunk(chunkId: string): Promise<void> {
+		this.validateStorageNode();
+
+		await firstValueFrom(
+			this.http.delete(`${this.apiUrl}/nodes/${this.storageNodeId}/chunks/${chunkId}`, {
+				headers: this.authHeaders
+			})
+		);
+	}
+
+	/** Ask the storage node to duplicate a chunk; returns the new chunk id. */
+	private async copyChunk(chunkId: string): Promise<string> {
+		const copyResponse = await firstValueFrom(
+			this.http.post<any>(
+				`${this.apiUrl}/nodes/${this.storageNodeId}/chunks/${chunkId}/copies`,
+				{},
+				{ headers: this.authHeaders }
+			)
+		);
+		if (!copyResponse.success) {
+			throw new Error(copyResponse.message || `Failed to copy chunk ${chunkId}.`);
+		}
+		return copyResponse.data.chunkId;
+	}
+
+	/** Copy a chunk by decrypting it and storing it again bound to a new ID and its index. */
+	private async reencryptChunk(
+		content: FileVersion,
+		chunkId: string,
+		index: number,
+		key: CryptoKey
+	): Promise<string> {
+		const data = await this.retryChunkTransfer(() =>
+			this.downloadFileChunk(
+				chunkId,
+				key,
+				getFileChunkAad(content.formatVersion, chunkId, index)
+			)
+		);
+		return await this.retryChunkTransfer(() =>
+			this.uploadFileChunk(data, data.byteLength, key, content.formatVersion!, index)
+		);
+	}
+
+	/** Move file or directory to the trash (non-empty directories need recursive). */
+	public async deleteItem(
+		item: DirectoryItem,
+		recursive: boolean = false
+	): Promise<DeleteResult> {
+		if (!this.storageNodeId) {
+			return {
+				success: false,
+				message: 'Node ID not available'
+			};
+		}
+
+		const currentDirectory = this.directory.getValue();
+		if (!currentDirectory) {
+			return {
+				success: false,
+				message: 'Current directory is not initialized'
+			};
+		}
+
+		// Check if item exists in the current directory
+		const existingItem = currentDirectory.contents.find(i => i === item);
+		if (!existingItem) {
+			return {
+				success: false,
+				message: 'Item not found in current directory'
+			};
+		}
+
+		try {
+			if (existingItem.type === 'directory' && !recursive) {
+				// Keep the confirmation step for non-empty directories
+				const targetDirectory = await this.fetchDirectory(existingItem.chunkId);
+				if (targetDirectory.contents.length > 0) {
+					return {
+						success: false,
+						message: `Cannot delete "${item.name}": Directory is not empty. Please delete all files and subdirectories first.`,
+						requiresConfirmation: true
+					};
+				}
+			}
+
+			await this.moveToTrash(currentDirectory, existingItem);
+			await this.updateSearchIndex(index =>
+				this.removeFromSearchIndex(index, currentDirectory.chunkId, existingItem.name)
+			);
+
+			return { success: true };
+		} catch (error) {
+			return {
+				success: false,
+				message: `Error deleting ${existingItem.type}: ${error}`
+			};
+		}
+	}
+
+	/** List trash entries, newest first. */
+	public async getTrashItems(): Promise<TrashedItem[]> {
+		this.validateStorageNode();
+		const trash = await this.getTrashDirectory(false);
+		if (!trash) {
+			return [];
+		}
+
+		return (trash.contents as TrashedItem[])
+			.filter(entry => entry.trash)
+			.sort((a, b) => b.trash.deletedAt.localeCompare(a.trash.deletedAt));
+	}
+
+	/** Retention (days) after which trash entries are purged. */
+	public async getTrashRetentionDays(): Promise<number> {
+		this.validateStorageNode();
+		const trash = await this.getTrashDirectory(false);
+		return trash?.retentionDays ?? this.DEFAULT_TRASH_RETENTION_DAYS;
+	}
+
+	/** Change trash retention for this node. */
+	public async setTrashRetentionDays(
+		days: number
+	): Promise<{ success: boolean; message?: string }> {
+		if (!Number.isInteger(days) || days < 1) {
+			return { success: false, message: 'Retention must be at least one day' };
+		}
+
+		try {
+			this.validateStorageNode();
+			const trash = (await this.getTrashDirectory(true)) as TrashDirectory;
+			trash.retentionDays = days;
+			await this.rewriteDirectory(trash);
+			return { success: true };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error updating trash retention: ${error.message || error}`
+			};
+		}
+	}
+
+	/** Put a trash entry back where it came from (root if that folder is gone). */
+	public async restoreTrashItem(
+		entry: TrashedItem
+	): Promise<{ success: boolean; message?: string }> {
+		try {
+			this.validateStorageNode();
+			const trash = await this.getTrashDirectory(false);
+			const trashed = trash ? this.findTrashEntry(trash, entry.trash.id) : undefined;
+			if (!trash || !trashed) {
+				return { success: false, message: 'Item not found in trash' };
+			}
+
+			let target: Directory;
+			try {
+				target = await this.loadDirectory(trashed.trash.originalParentId);
+			} catch (error: any) {
+				if (error?.status !== 404) {
+					throw error;
+				}
+				target = await this.loadDirectory(this.rootChunkId as string);
+			}
+
+			const { trash: _trashInfo, ...restored } = structuredClone(trashed);
+			restored.name = this.getAvailableName(target, restored.name, 'restored');
+
+			if (restored.type === 'directory') {
+				const restoredDirectory = await this.fetchDirectory(restored.chunkId);
+				if (restoredDirectory.parentId !== target.chunkId) {
+					restoredDirectory.parentId = target.chunkId;
+					await this.rewriteDirectory(restoredDirectory);
+				}
+			}
+
+			// Relink first, then drop from trash: a failure leaves a duplicate, never a loss
+			target.contents = [...target.contents, restored as DirectoryItem];
+			await this.saveDirectory(target);
+			await this.updateSearchIndex(index =>
+				this.addToSearchIndex(index, target, restored as DirectoryItem)
+			);
+
+			trash.contents = trash.contents.filter(item => item !== trashed);
+			await this.rewriteDirectory(trash);
+
+			return { success: true };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error restoring item: ${error.message || error}`
+			};
+		}
+	}
+
+	/** Permanently delete a single trash entry and its chunks. */
+	public async deleteTrashItemForever(
+		entry: TrashedItem
+	): Promise<{ success: boolean; message?: string }> {
+		try {
+			this.validateStorageNode();
+			const trash = await this.getTrashDirectory(false);
+			const trashed = trash ? this.findTrashEntry(trash, entry.trash.id) : undefined;
+			if (!trash || !trashed) {
+				return { success: false, message: 'Item not found in trash' };
+			}
+
+			await this.destroyItem(trashed);
+
+			trash.contents = trash.contents.filter(item => item !== trashed);
+			await this.rewriteDirectory(trash);
+
+			return { success: true };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error deleting item: ${error.message || error}`
+			};
+		}
+	}
+
+	/** Permanently delete everything in the trash. */
+	public async emptyTrash(): Promise<{ success: boolean; message?: string }> {
+		try {
+			this.validateStorageNode();
+			const trash = await this.getTrashDirectory(false);
+			if (!trash) {
+				return { success: true };
+			}
+
+			const failures = await this.destroyTrashEntries(trash, () => true);
+			if (failures > 0) {
+				return {
+					success: false,
+					message: `${failures} item(s) could not be deleted and remain in the trash`
+				};
+			}
+			return { success: true };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error emptying trash: ${error.message || error}`
+			};
+		}
+	}
+
+	/** Drop trash entries older than the retention window (best effort). */
+	private async purgeExpiredTrash(): Promise<void> {
+		try {
+			const trash = (await this.getTrashDirectory(false)) as TrashDirectory | null;
+			if (!trash) {
+				return;
+			}
+
+			const retentionDays = trash.retentionDays ?? this.DEFAULT_TRASH_RETENTION_DAYS;
+			const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+			await this.destroyTrashEntries(
+				trash,
+				entry => new Date(entry.trash.deletedAt).getTime() < cutoff
+			);
+		} catch (error) {
+			console.warn('Failed to purge expired trash entries:', error);
+		}
+	}
+
+	/** Destroy matching trash entries; failed ones stay. Returns failure count. */
+	private async destroyTrashEntries(
+		trash: Directory,
+		shouldDestroy: (entry: TrashedItem) => boolean
+	): Promise<number> {
+		const remaining: DirectoryItem[] = [];
+		let destroyed = 0;
+		let failures = 0;
+
+		for (const entry of trash.contents as TrashedItem[]) {
+			if (!entry.trash || !shouldDestroy(entry)) {
+				remaining.push(entry);
+				continue;
+			}
+			try {
+				await this.destroyItem(entry);
+				destroyed++;
+			} catch (error) {
+				console.warn(`Failed to delete trash entry ${entry.name}:`, error);
+				remaining.push(entry);
+				failures++;
+			}
+		}
+
+		if (destroyed > 0) {
+			trash.contents = remaining;
+			await this.rewriteDirectory(trash);
+		}
+		return failures;
+	}
+
+	/** Append an entry to the trash, then unlink it from its parent. */
+	private async moveToTrash(parent: Directory, item: DirectoryItem): Promise<void> {
+		const trash = await this.getTrashDirectory(true);
+		if (!trash) {
+			throw new Error('Trash is not available');
+		}
+
+		const trashedItem: TrashedItem = {
+			...structuredClone(item),
+			trash: {
+				id: this.cryptoService.generateUUID(),
+				deletedAt: new Date().toISOString(),
+				originalPath: await this.getDirectoryPath(parent),
+				originalParentId: parent.chunkId
+			}
+		};
+
+		trash.contents = [...trash.contents, trashedItem];
+		await this.rewriteDirectory(trash);
+
+		parent.contents = parent.contents.filter(dirItem => dirItem !== item);
+		await this.saveDirectory(parent);
+	}
+
+	/** Load the node's trash directory, creating (and linking from root) when asked. */
+	private async getTrashDirectory(create: boolean): Promise<TrashDirectory | null> {
+		if (!this.rootChunkId) {
+			throw new Error('Root directory is not initialized');
+		}
+
+		const root = await this.loadDirectory(this.rootChunkId);
+		if (root.trashChunkId) {
+			return (await this.fetchDirectory(root.trashChunkId)) as TrashDirectory;
+		}
+		if (!create) {
+			return null;
+		}
+
+		const trash = await this.createDirectory('.trash', root.chunkId);
+		root.trashChunkId = trash.chunkId;
+		await this.saveDirectory(root);
+		return trash;
+	}
+
+	/** Find a trash entry by its trash id. */
+	private findTrashEntry(trash: Directory, id: string): TrashedItem | undefined {
+		return (trash.contents as TrashedItem[]).find(entry => entry.trash?.id === id);
+	}
+
+	/**
+	 * Search names, extensions and paths across the whole tree (and the words of small text
+	 * files when contents are indexed). Every term must match; name matches rank first.
+	 */
+	public async searchFiles(query: string): Promise<SearchIndexEntry[]> {
+		this.validateStorageNode();
+		const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+		if (terms.length === 0) {
+			return [];
+		}
+
+		const index = (await this.loadSearchIndex()) || (await this.buildSearchIndex(false));
+		const scored: { entry: SearchIndexEntry; score: number }[] = [];
+		for (const entry of index.entries) {
+			const name = entry.name.toLowerCase();
+			const path = entry.path.toLowerCase();
+			let score = 0;
+			for (const term of terms) {
+				if (name.includes(term)) {
+					score += 3;
+				} else if (path.includes(term)) {
+					score += 2;
+				} else if (entry.terms?.some(word => word.startsWith(term))) {
+					score += 1;
+				} else {
+					score = 0;
+					break;
+				}
+			}
+			if (score > 0) {
+				scored.push({ entry, score });
+			}
+		}
+
+		return scored
+			.sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name))
+			.slice(0, this.MAX_SEARCH_RESULTS)
+			.map(({ entry }) => entry);
+	}
+
+	/** Whether the search index also covers the text of small text files. */
+	public async isContentSearchEnabled(): Promise<boolean> {
+		this.validateStorageNode();
+		return (await this.loadSearchIndex())?.includeContents ?? false;
+	}
+
+	/** Rebuild the search index from the whole tree (e.g. after changes from another session). */
+	public async rebuildSearchIndex(
+		includeContents?: boolean
+	): Promise<{ success: boolean; message?: string }> {
+		try {
+			this.validateStorageNode();
+			const current = await this.loadSearchIndex().catch(() => null);
+			await this.buildSearchIndex(includeContents ?? current?.includeContents ?? false);
+			return { success: true };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error rebuilding search index: ${error.message || error}`
+			};
+		}
+	}
+
+	/** The stored search index; null if none exists yet (a moved root triggers a rebuild). */
+	private async loadSearchIndex(): Promise<SearchIndex | null> {
+		if (this.searchIndex) {
+			return this.searchIndex;
+		}
+		if (!this.rootChunkId) {
+			throw new Error('Root directory is not initialized');
+		}
+
+		const root = await this.loadDirectory(this.rootChunkId);
+		if (!root.searchIndexChunkId) {
+			return null;
+		}
+		const index: SearchIndex = JSON.parse(
+			await this.fetchAndDecryptChunk(root.searchIndexChunkId)
+		);
+		if (index.rootChunkId !== this.rootChunkId) {
+			return await this.buildSearchIndex(index.includeContents);
+		}
+
+		this.searchIndex = index;
+		return index;
+	}
+
+	/** Index every item below the root and store it; a failed store still serves this session. */
+	private async buildSearchIndex(includeContents: boolean): Promise<SearchIndex> {
+		if (!this.rootChunkId) {
+			throw new Error('Root directory is not initialized');
+		}
+
+		const index: SearchIndex = { rootChunkId: this.rootChunkId, includeContents, entries: [] };
+		const root = await this.loadDirectory(this.rootChunkId);
+		for (const item of root.contents) {
+			await this.addToSearchIndex(index, root, item);
+		}
+		this.searchIndex = index;
+
+		try {
+			await this.storeSearchIndex(index);
+		} catch (error) {
+			console.warn('Failed to store search index:', error);
+		}
+		return index;
+	}
+
+	/** Write the index to its chunk, creating (and linking from root) the chunk on first use. */
+	private async storeSearchIndex(index: SearchIndex): Promise<void> {
+		const root = await this.loadDirectory(this.rootChunkId as string);
+		const data = JSON.stringify(index);
+		if (root.searchIndexChunkId) {
+			await this.replaceChunk(data, root.searchIndexChunkId);
+			return;
+		}
+
+		const chunkId = this.cryptoService.generateUUID();
+		await this.encryptAndStoreChunk(data, chunkId);
+		root.searchIndexChunkId = chunkId;
+		await this.saveDirectory(root);
+	}
+
+	/**
+	 * Apply an incremental change to the stored index. Best effort: without an index the change
+	 * is picked up when the first search builds one, and a failed write leaves a stale index
+	 * that a rebuild repairs.
+	 */
+	private async updateSearchIndex(
+		change: (index: SearchIndex) => void | Promise<void>
+	): Promise<void> {
+		try {
+			const index = await this.loadSearchIndex();
+			if (!index) {
+				return;
+			}
+			await change(index);
+			await this.storeSearchIndex(index);
+		} catch (error) {
+			console.warn('Failed to update search index:', error);
+		}
+	}
+
+	/** Add an item (and everything below a directory) to the index; replaces an old entry. */
+	private async addToSearchIndex(
+		index: SearchIndex,
+		parent: Directory,
+		item: DirectoryItem,
+		file?: Blob
+	): Promise<void> {
+		const path = await this.getDirectoryPath(parent);
+		index.entries = index.entries.filter(
+			entry => entry.parentId !== parent.chunkId || entry.name !== item.name
+		);
+
+		if (item.type === 'file') {
+			index.entries.push({
+				type: 'file',
+				name: item.name,
+				parentId: parent.chunkId,
+				path,
+				terms: index.includeContents ? await this.getSearchTerms(item, file) : undefined
+			});
+			return;
+		}
+
+		index.entries.push({
+			type: 'directory',
+			name: item.name,
+			parentId: parent.chunkId,
+			path,
+			chunkId: item.chunkId
+		});
+		let directory: Directory;
+		try {
+			directory = await this.fetchDirectory(item.chunkId);
+		} catch (error) {
+			console.warn(`Failed to index directory ${path}/${item.name}:`, error);
+			return;
+		}
+		for (const child of directory.contents) {
+			await this.addToSearchIndex(index, directory, child);
+		}
+	}
+
+	/** Drop an item (and everything below a directory) from the index. */
+	private removeFromSearchIndex(index: SearchIndex, parentId: string, name: string): void {
+		const removed = index.entries.find(
+			entry => entry.parentId === parentId && entry.name === name
+		);
+		if (!removed) {
+			return;
+		}
+
+		const subtreePath = joinPath(removed.path, removed.name);
+		index.entries = index.entries.filter(
+			entry =>
+				entry !== removed &&
+				(removed.type === 'file' ||
+					(entry.path !== subtreePath && !entry.path.startsWith(`${subtreePath}/`)))
+		);
+	}
+
+	/** Point an item at its new name or folder, moving the paths of everything below it. */
+	private async relocateInSearchIndex(
+		index: SearchIndex,
+		from: { parentId: string; name: string },
+		to: { parent: Directory; name: string }
+	): Promise<void> {
+		const entry = index.entries.find(
+			candidate => candidate.parentId === from.parentId && candidate.name === from.name
+		);
+		if (!entry) {
+			return;
+		}
+
+		const oldPath = joinPath(entry.path, entry.name);
+		entry.parentId = to.parent.chunkId;
+		entry.path = await this.getDirectoryPath(to.parent);
+		entry.name = to.name;
+		if (entry.type === 'file') {
+			return;
+		}
+
+		const newPath = joinPath(entry.path, entry.name);
+		for (const other of index.entries) {
+			if (other.path === oldPath || other.path.startsWith(`${oldPath}/`)) {
+				other.path = newPath + other.path.substring(oldPath.length);
+			}
+		}
+	}
+
+	/** Distinct words of a small text file, read from the upload or downloaded from the node. */
+	private async getSearchTerms(
+		item: DirectoryItem & { type: 'file' },
+		file?: Blob
+	): Promise<string[] | undefined> {
+		if (!isTextFile(item.name) || item.size > this.MAX_INDEXED_TEXT_SIZE) {
+			return undefined;
+		}
+
+		try {
+			let text: string;
+			if (file) {
+				text = new TextDecoder().decode(await file.slice(0, file.size).arrayBuffer());
+			} else {
+				const decoder = new TextDecoder();
+				text = '';
+				await this.pipeFileChunks(item, async chunk => {
+					text += decoder.decode(chunk, { stream: true });
+				});
+				text += decoder.decode();
+			}
+
+			const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+			return [...new Set(words.filter(word => word.length > 1 && word.length <= 40))].slice(
+				0,
+				this.MAX_INDEXED_TERMS
+			);
+		} catch (error) {
+			console.warn(`Failed to index the contents of ${item.name}:`, error);
+			return undefined;
+		}
+	}
+
+	/** Slash-separated path of a directory (walks parent pointers, cached). */
+	private async getDirectoryPath(directory: Directory): Promise<string> {
+		const cached = this.directoryPathCache.get(directory.chunkId);
+		if (cached !== undefined) {
+			return cached;
+		}
+
+		const names: string[] = [];
+		let current: Directory = directory;
+		while (current.parentId) {
+			names.unshift(current.name);
+			current = await this.fetchDirectory(current.parentId);
+		}
+
+		const path = '/' + names.join('/');
+		this.directoryPathCache.set(directory.chunkId, path);
+		return path;
+	}
+
+	/** Permanently delete an item's chunks (recursively for directories). */
+	private async destroyItem(item: DirectoryItem): Promise<void> {
+		if (item.type === 'file') {
+			await this.deleteFileChunks([item]);
+			return;
+		}
+
+		const targetDirectory = await this.fetchDirectory(item.chunkId);
+		await this.deleteDirectoryRecursively(targetDirectory);
+		await this.deleteChunk(item.chunkId);
+	}
+
+	/** Recursively delete directory tree (stack based); file chunks go once the walk is done. */
+	private async deleteDirectoryRecursively(directory: Directory): Promise<void> {
+		const stack: Directory[] = [directory];
+		const files: (DirectoryItem & { type: 'file' })[] = [];
+
+		while (stack.length > 0) {
+			const currentDirectory = stack.pop();
+			if (!currentDirectory) continue;
+
+			for (const item of currentDirectory.contents) {
+				if (item.type === 'file') {
+					files.push(item);
+				} else if (item.type === 'directory') {
+					// Fetch the subdirectory and push it onto the stack
+					const subDirectory = await this.fetchDirectory(item.chunkId);
+					stack.push(subDirectory);
+
+					// Delete the subdirectory chunk after processing its contents
+					await this.deleteChunk(item.chunkId);
+				}
+			}
+		}
+
+		await this.deleteFileChunks(files);
+	}
+
+	/**
+	 * Delete the data chunks of files, including old versions. Deduplicated chunks are released
+	 * last, in one index update, so a delete that fails earlier and is retried never drops the
+	 * same references twice.
+	 */
+	private async deleteFileChunks(files: (DirectoryItem & { type: 'file' })[]): Promise<void> {
+		const sharedChunkIds: string[] = [];
+		for (const file of files) {
+			for (const content of [this.getFileContent(file), ...(file.versions || [])]) {
+				if (this.isDeduplicated(content)) {
+					sharedChunkIds.push(...content.fileChunks);
+					continue;
+				}
+				for (const chunkId of content.fileChunks) {
+					await this.deleteChunk(chunkId);
+				}
+			}
+		}
+
+		await this.releaseDedupChunks(sharedChunkIds);
+	}
+
+	/** Whether a file's chunks are shared through the deduplication index (format 4+). */
+	private isDeduplicated(content: FileVersion): boolean {
+		return (content.formatVersion || LEGACY_ITEM_FORMAT) >= DEDUPLICATED_ITEM_FORMAT;
+	}
+
+	/** Load the tree's deduplication index, creating (and linking from root) when asked. */
+	private async loadDedupIndex(create: boolean): Promise<DedupIndex | null> {
+		if (this.dedupIndex) {
+			return this.dedupIndex;
+		}
+		if (!this.rootChunkId) {
+			throw new Error('Root directory is not initialized');
+		}
+
+		const root = await this.loadDirectory(this.rootChunkId);
+		if (root.dedupIndexChunkId) {
+			this.dedupIndex = JSON.parse(await this.fetchJournaledChunk(root.dedupIndexChunkId));
+			return this.dedupIndex;
+		}
+		if (!create) {
+			return null;
+		}
+
+		const index: DedupIndex = {
+			chunkId: this.cryptoService.generateUUID(),
+			hashKey: this.cryptoService.generateHashKey(),
+			entries: {}
+		};
+		await this.encryptAndStoreChunk(JSON.stringify(index), index.chunkId);
+		root.dedupIndexChunkId = index.chunkId;
+		await this.saveDirectory(root);
+		this.dedupIndex = index;
+		return index;
+	}
+
+	/**
+	 * Apply a change to a copy of the deduplication index and store it. Writes claim the index
+	 * revision like directory writes; when another session got there first the index is read
+	 * again and the change re-applied, so it must depend only on the index it is given.
+	 */
+	private async updateDedupIndex<T>(change: (index: DedupIndex) => T): Promise<T> {
+		for (let attempt = 0; ; attempt++) {
+			const index = structuredClone((await this.loadDedupIndex(true))!);
+			const result = change(index);
+			try {
+				await this.writeDedupIndex(index);
+				this.dedupIndex = index;
+				return result;
+			} catch (error: any) {
+				if (error?.status !== 409 || attempt >= this.MAX_REVISION_CONFLICT_RETRIES) {
+					throw error;
+				}
+				// The other session may have claimed the revision without having written yet
+				this.dedupIndex = null;
+				await new Promise(resolve => setTimeout(resolve, this.REVISION_WAIT_MS));
+			}
+		}
+	}
+
+	/** Claim the next index revision, then rewrite the index chunk through its journal. */
+	private async writeDedupIndex(index: DedupIndex): Promise<void> {
+		this.validateOnline();
+		await this.claimDirectoryRevision(index);
+		await this.replaceJournaledChunk(JSON.stringify(index), index.chunkId);
+	}
+
+	/** Index entries by the chunk they point to. */
+	private getDedupEntriesByChunk(index: DedupIndex): Map<string, DedupEntry> {
+		return new Map(Object.values(index.entries).map(entry => [entry.chunkId, entry] as const));
+	}
+
+	/**
+	 * Reference an upload's chunks in the index: new content gets an entry, known content one more
+	 * reference. Returns the stored chunk for each planned chunk; where another upload stored the
+	 * same content first, that chunk is used and the one uploaded here is returned as redundant.
+	 */
+	private async commitUploadChunks(
+		chunks: FileChunkPlan[],
+		uploaded: Map<string, StoredChunk>
+	): Promise<{ storedChunks: StoredChunk[]; redundant: string[] }> {
+		if (chunks.length === 0) {
+			return { storedChunks: [], redundant: [] };
+		}
+
+		return await this.updateDedupIndex(index => {
+			const redundant = new Set<string>();
+			const storedChunks = chunks.map(({ hash }): StoredChunk => {
+				const uploadedChunk = uploaded.get(hash);
+				let entry = index.entries[hash];
+				if (!entry) {
+					if (!uploadedChunk) {
+						throw new Error(
+							'A chunk this upload reuses was deleted meanwhile; upload the file again'
+						);
+					}
+					entry = index.entries[hash] = { ...uploadedChunk, refs: 0 };
+				} else if (uploadedChunk && uploadedChunk.chunkId !== entry.chunkId) {
+					redundant.add(uploadedChunk.chunkId);
+				}
+				entry.refs++;
+				return { chunkId: entry.chunkId, codec: entry.codec, savedBytes: entry.savedBytes };
+			});
+			return { storedChunks, redundant: [...redundant] };
+		});
+	}
+
+	/** Add a reference per listed chunk (a copied file); fails if one was freed meanwhile. */
+	private async retainDedupChunks(chunkIds: string[]): Promise<void> {
+		if (chunkIds.length === 0) {
+			return;
+		}
+
+		await this.updateDedupIndex(index => {
+			const entries = this.getDedupEntriesByChunk(index);
+			for (const chunkId of chunkIds) {
+				const entry = entries.get(chunkId);
+				if (!entry) {
+					throw new Error(`Chunk ${chunkId} is no longer stored`);
+				}
+				entry.refs++;
+			}
+		});
+	}
+
+	/**
+	 * Drop a reference per listed chunk and delete the chunks nothing references any more. Chunks
+	 * the index does not know, and unused chunks that fail to delete, are left to the orphan scan.
+	 */
+	private async releaseDedupChunks(chunkIds: string[]): Promise<void> {
+		if (chunkIds.length === 0) {
+			return;
+		}
+
+		const unused = await this.updateDedupIndex(index => {
+			const entries = this.getDedupEntriesByChunk(index);
+			for (const chunkId of chunkIds) {
+				const entry = entries.get(chunkId);
+				if (entry) {
+					entry.refs--;
+				}
+			}
+
+			const freed: string[] = [];
+			for (const [hash, entry] of Object.entries(index.entries)) {
+				if (entry.refs <= 0) {
+					delete index.entries[hash];
+					freed.push(entry.chunkId);
+				}
+			}
+			return freed;
+		});
+
+		for (const chunkId of unused) {
+			try {
+				await this.deleteChunk(chunkId);
+			} catch (error) {
+				console.warn(`Failed to delete unused chunk ${chunkId}:`, error);
+			}
+		}
+	}
+
+	/**
+	 * Dry run: find chunks on the node that nothing in the tree references. Chunks of unfinished
+	 * uploads journaled in this browser are kept; uploads running elsewhere are only protected
+	 * by the grace period, so it should outlast the longest upload in progress.
+	 */
+	public async scanOrphanedChunks(
+		gracePeriodMs = this.ORPHAN_GRACE_PERIOD_MS
+	): Promise<OrphanReport> {
+		if (this.sharedFolder) {
+			throw new Error(
+				'Clean up from your own files; shared folders are cleaned by their owner'
+			);
+		}
+		const referenced = await this.collectReferencedChunkIds();
+		const journaled = await this.collectJournaledChunkIds();
+		const storedChunks = await this.listNodeChunks();
+		const cutoff = Date.now() - gracePeriodMs;
+
+		const report: OrphanReport = {
+			totalChunks: storedChunks.length,
+			referencedChunks: 0,
+			orphanedChunks: [],
+			orphanedBytes: 0,
+			skippedRecentChunks: 0
+		};
+
+		for (const chunk of storedChunks) {
+			// Shared folders keep their chunks outside the owner's tree
+			if (referenced.has(chunk.chunkId) || chunk.sharedFolderId) {
+				report.referencedChunks++;
+			} else if (
+				journaled.has(chunk.chunkId) ||
+				(chunk.createdAt && new Date(chunk.createdAt).getTime() > cutoff)
+			) {
+				report.skippedRecentChunks++;
+			} else {
+				report.orphanedChunks.push({ chunkId: chunk.chunkId, size: chunk.size });
+				report.orphanedBytes += chunk.size;
+			}
+		}
+
+		return report;
+	}
+
+	/** Delete chunks from a scan report, re-checking that none became referenced since. */
+	public async deleteOrphanedChunks(
+		chunks: OrphanedChunk[]
+	): Promise<{ deleted: number; failed: number; skipped: number }> {
+		const referenced = await this.collectReferencedChunkIds();
+		const journaled = await this.collectJournaledChunkIds();
+		const result = { deleted: 0, failed: 0, skipped: 0 };
+
+		for (const chunk of chunks) {
+			if (referenced.has(chunk.chunkId) || journaled.has(chunk.chunkId)) {
+				result.skipped++;
+				continue;
+			}
+			try {
+				await this.deleteChunk(chunk.chunkId);
+				result.deleted++;
+			} catch (error) {
+				console.warn(`Failed to delete orphaned chunk ${chunk.chunkId}:`, error);
+				result.failed++;
+			}
+		}
+
+		return result;
+	}
+
+	/** Chunks stored by unfinished uploads to this node that this browser can still resume. */
+	private async collectJournaledChunkIds(): Promise<Set<string>> {
+		const entries = await this.uploadJournal.getEntries(this.storageNodeId!);
+		return new Set(entries.flatMap(entry => Object.values(entry.completedChunks)));
+	}
+
+	/** Every chunk id reachable from the root: directories, trash, indexes, files, versions. */
+	private async collectReferencedChunkIds(): Promise<Set<string>> {
+		if (!this.rootChunkId) {
+			throw new Error('Root directory is not initialized');
+		}
+
+		const referenced = new Set<string>();
+		const pending = [this.rootChunkId];
+
+		while (pending.length > 0) {
+			const chunkId = pending.pop()!;
+			if (referenced.has(chunkId)) {
+				continue;
+			}
+			referenced.add(chunkId);
+
+			// Any unreadable directory aborts the sweep rather than exposing its chunks
+			const directory = await this.fetchDirectory(chunkId);
+			if (directory.trashChunkId) {
+				pending.push(directory.trashChunkId);
+			}
+			if (directory.searchIndexChunkId) {
+				referenced.add(directory.searchIndexChunkId);
+			}
+			for (const item of directory.contents) {
+				if (item.type === 'directory') {
+					pending.push(item.chunkId);
+				} else {
+					this.getAllFileChunkIds(item).forEach(id => referenced.add(id));
+				}
+			}
+		}
+
+		// Indexed chunks stay until their last reference is released (read fresh, not cached)
+		this.dedupIndex = null;
+		const dedupIndex = await this.loadDedupIndex(false);
+		if (dedupIndex) {
+			referenced.add(dedupIndex.chunkId);
+			Object.values(dedupIndex.entries).forEach(entry => referenced.add(entry.chunkId));
+		}
+
+		// Chunks of unfinished uploads are kept so the upload can still resume
+		for (const entry of await this.uploadJournal.getEntries(this.storageNodeId!)) {
+			Object.values(entry.completedChunks).forEach(id => referenced.add(id));
+		}
+
+		return referenced;
+	}
+
+	/** List chunks stored on the current node. */
+	private async listNodeChunks(): Promise<
+		{ chunkId: string; size: number; createdAt?: string; sharedFolderId?: string }[]
+	> {
+		this.validateStorageNode();
+
+		const response = await firstValueFrom(
+			this.http.get<any>(`${this.apiUrl}/nodes/${this.storageNodeId}/chunks`, {
+				headers: this.authHeaders
+			})
+		);
+		if (!response.success) {
+			throw new Error(response.message || 'Failed to list chunks.');
+		}
+		return response.data.chunks;
+	}
+
+	/** Verify the whole tree: chunks exist and decrypt, back-pointers, sizes and names. */
+	public async checkFilesystem(
+		onProgress?: (chunksChecked: number, totalChunks: number) => void
+	): Promise<FsckReport> {
+		if (!this.rootChunkId) {
+			throw new Error('Root directory is not initialized');
+		}
+
+		const report: FsckReport = {
+			directoriesChecked: 0,
+			filesChecked: 0,
+			chunksChecked: 0,
+			issues: []
+		};
+		const reachable = new Set<string>([this.rootChunkId]);
+		const files: {
+			file: DirectoryItem & { type: 'file' };
+			directoryChunkId: string;
+			path: string;
+		}[] = [];
+		const queue = [
+			{ directory: await this.fetchDirectory(this.rootChunkId), path: '/', inTrash: false }
+		];
+
+		while (queue.length > 0) {
+			const { directory, path, inTrash } = queue.shift()!;
+			report.directoriesChecked++;
+
+			// Trash entries may legitimately share names and keep their original parentId
+			if (!inTrash) {
+				this.checkDuplicateNames(directory, path, report);
+			}
+
+			const children = directory.contents.filter(item => item.type === 'directory') as {
+				name: string;
+				chunkId: string;
+			}[];
+			if (directory.trashChunkId) {
+				children.push({ name: '.trash', chunkId: directory.trashChunkId });
+			}
+
+			for (const child of children) {
+				reachable.add(child.chunkId);
+				const childPath = `${path}${child.name}/`;
+				const childInTrash = inTrash || child.chunkId === directory.trashChunkId;
+
+				let childDirectory: Directory;
+				try {
+					childDirectory = await this.fetchDirectory(child.chunkId);
+				} catch (error: any) {
+					const missing = this.isChunkNotFound(error);
+					report.issues.push({
+						type: missing ? 'missing-directory' : 'unreadable-directory',
+						path: childPath,
+						message: missing
+							? 'Directory chunk does not exist'
+							: `Directory chunk could not be read: ${error.message || error}`,
+						directoryChunkId: directory.chunkId,
+						itemName: child.name,
+						chunkId: child.chunkId,
+						repairable: true
+					});
+					continue;
+				}
+
+				if (!inTrash && childDirectory.parentId !== directory.chunkId) {
+					report.issues.push({
+						type: 'parent-mismatch',
+						path: childPath,
+						message: 'Directory does not point back to the folder that lists it',
+						directoryChunkId: directory.chunkId,
+						itemName: child.name,
+						chunkId: child.chunkId,
+						repairable: true
+					});
+				}
+
+				queue.push({ directory: childDirectory, path: childPath, inTrash: childInTrash });
+			}
+
+			for (const item of directory.contents) {
+				if (item.type === 'file') {
+					files.push({
+						file: item,
+						directoryChunkId: directory.chunkId,
+						path: path + item.name
+					});
+				}
+			}
+		}
+
+		const totalChunks = files.reduce(
+			(sum, { file }) => sum + this.getAllFileChunkIds(file).length,
+			0
+		);
+		for (const { file, directoryChunkId, path } of files) {
+			report.filesChecked++;
+			const contents = [
+				{ label: path, ...this.getFileContent(file) },
+				...(file.versions || []).map(version => ({
+					label: `${path} (version from ${version.createdAt})`,
+					...version
+				}))
+			];
+
+			for (const content of contents) {
+				content.fileChunks.forEach(chunkId => reachable.add(chunkId));
+				const issue = await this.verifyFileContent(
+					content,
+					report,
+					totalChunks,
+					onProgress
+				);
+				if (issue) {
+					report.issues.push({
+						...issue,
+						directoryChunkId,
+						itemName: file.name
+					});
+				}
+			}
+		}
+
+		await this.findOrphanedDirectories(reachable, report);
+
+		return report;
+	}
+
+	/** Repair fixable issues from a report; returns counts of repaired and failed issues. */
+	public async repairFilesystem(
+		issues: FsckIssue[]
+	): Promise<{ repaired: number; failed: number }> {
+		const result = { repaired: 0, failed: 0 };
+
+		for (const issue of issues.filter(entry => entry.repairable)) {
+			try {
+				if (issue.type === 'parent-mismatch') {
+					const child = await this.loadDirectory(issue.chunkId!);
+					child.parentId = issue.directoryChunkId;
+					await this.saveDirectory(child);
+				} else if (issue.type === 'orphaned-directory') {
+					await this.relinkOrphanedDirectory(issue.directoryChunkId);
+				} else {
+					await this.removeBrokenReference(issue);
+				}
+				result.repaired++;
+			} catch (error) {
+				console.warn(`Failed to repair ${issue.type} at ${issue.path}:`, error);
+				result.failed++;
+			}
+		}
+
+		this.directoryPathCache.clear();
+
+		// Pick up repaired entries in the directory being shown
+		const currentDirectory = this.directory.getValue();
+		if (currentDirectory && result.repaired > 0) {
+			await this.changeDirectory(currentDirectory.chunkId);
+		}
+
+		return result;
+	}
+
+	/** Report names that appear more than once in one folder. */
+	private checkDuplicateNames(directory: Directory, path: string, report: FsckReport): void {
+		const counts = new Map<string, number>();
+		for (const item of directory.contents) {
+			counts.set(item.name, (counts.get(item.name) || 0) + 1);
+		}
+
+		for (const [name, count] of counts) {
+			if (count > 1) {
+				report.issues.push({
+					type: 'duplicate-name',
+					path: path + name,
+					message: `Name appears ${count} times in this folder`,
+					directoryChunkId: directory.chunkId,
+					itemName: name,
+					repairable: false
+				});
+			}
+		}
+	}
+
+	/** Download and decrypt every chunk of one file version; compare total size. */
+	private async verifyFileContent(
+		content: FileVersion & { label: string },
+		report: FsckReport,
+		totalChunks: number,
+		onProgress?: (chunksChecked: number, totalChunks: number) => void
+	): Promise<Omit<FsckIssue, 'directoryChunkId'> | null> {
+		let actualSize = 0;
+		let chunkKeys: (CryptoKey | undefined)[] | undefined;
+
+		for (const [index, chunkId] of content.fileChunks.entries()) {
+			try {
+				// Unwrapped lazily so a bad key is reported against the first chunk
+				chunkKeys = chunkKeys || (await this.getChunkKeys(content));
+				const data = await this.downloadFileChunk(
+					chunkId,
+					chunkKeys[index],
+					getFileChunkAad(content.formatVersion, chunkId, index),
+					content.chunkCodecs?.[index] ?? undefined
+				);
+				actualSize += data.byteLength;
+			} catch (error: any) {
+				const missing = /not found/i.test(error?.message || '');
+				return {
+					type: missing ? 'missing-chunk' : 'unreadable-chunk',
+					path: content.label,
+					message: missing
+						? `Chunk ${chunkId} does not exist`
+						: `Chunk ${chunkId} could not be decrypted: ${error.message || error}`,
+					chunkId,
+					repairable: true
+				};
+			} finally {
+				report.chunksChecked++;
+				onProgress?.(report.chunksChecked, totalChunks);
+			}
+		}
+
+		const expectedSize = content.paddedSize || content.size;
+		if (actualSize !== expectedSize) {
+			return {
+				type: 'size-mismatch',
+				path: content.label,
+				message: `Stored size is ${expectedSize} bytes but chunks hold ${actualSize} bytes`,
+				repairable: false
+			};
+		}
+
+		return null;
+	}
+
+	/** Find directory chunks on the node that no reachable folder links to. */
+	private async findOrphanedDirectories(
+		reachable: Set<string>,
+		report: FsckReport
+	): Promise<void> {
+		let storedChunks: { chunkId: string; size: number }[];
+		try {
+			storedChunks = await this.listNodeChunks();
+		} catch (error) {
+			console.warn('Skipping orphaned directory check, chunk listing failed:', error);
+			return;
+		}
+
+		const orphans = new Map<string, Directory>();
+		for (const chunk of storedChunks) {
+			if (reachable.has(chunk.chunkId)) {
+				continue;
+			}
+			try {
+				// Directories of any size carry the metadata header; file data is never decrypted
+				const data = await this.fetchChunkData(chunk.chunkId);
+				if (!this.hasMetadataHeader(new Uint8Array(data))) {
+					continue;
+				}
+				const candidate = JSON.parse(await this.processChunkResponse(data, chunk.chunkId));
+				// Journal copies carry their primary's chunkId; roots have no parent
+				if (
+					candidate?.chunkId === chunk.chunkId &&
+					candidate.parentId &&
+					Array.isArray(candidate.contents)
+				) {
+					orphans.set(chunk.chunkId, candidate as Directory);
+				}
+			} catch {
+				// Not a directory (file data or undecryptable)
+			}
+		}
+
+		for (const [chunkId, orphan] of orphans) {
+			// Only report the top of each orphaned subtree
+			const parent = orphans.get(orphan.parentId);
+			const listedByParent = parent?.contents.some(
+				item => item.type === 'directory' && item.chunkId === chunkId
+			);
+			if (listedByParent) {
+				continue;
+			}
+
+			report.issues.push({
+				type: 'orphaned-directory',
+				path: `${orphan.name || chunkId}/`,
+				message: `Directory is not linked from any folder; repair moves it to /${this.LOST_AND_FOUND_NAME}`,
+				directoryChunkId: chunkId,
+				itemName: orphan.name,
+				chunkId,
+				repairable: true
+			});
+		}
+	}
+
+	/** Drop a dangling directory link, or the broken file content that references a bad chunk. */
+	private async removeBrokenReference(issue: FsckIssue): Promise<void> {
+		const directory = await this.loadDirectory(issue.directoryChunkId);
+
+		if (issue.type === 'missing-directory' || issue.type === 'unreadable-directory') {
+			if (directory.trashChunkId === issue.chunkId) {
+				delete directory.trashChunkId;
+			} else {
+				directory.contents = directory.contents.filter(
+					item => !(item.type === 'directory' && item.chunkId === issue.chunkId)
+				);
+			}
+		} else {
+			const file = directory.contents.find(
+				item => item.type === 'file' && item.name === issue.itemName
+			) as (DirectoryItem & { type: 'file' }) | undefined;
+			if (!file) {
+				return;
+			}
+
+			const intactVersions = (file.versions || []).filter(
+				version => !version.fileChunks.includes(issue.chunkId!)
+			);
+			if (!file.fileChunks.includes(issue.chunkId!)) {
+				file.versions = intactVersions;
+			} else if (intactVersions.length > 0) {
+				// Fall back to the newest intact version instead of dropping the file
+				const [newest, ...older] = intactVersions;
+				this.setFileContent(file, newest);
+				file.versions = older;
+			} else {
+				directory.contents = directory.contents.filter(item => item !== file);
+			}
+		}
+
+		await this.saveDirectory(directory);
+	}
+
+	/** Link an orphaned directory into /lost+found (created on demand). */
+	private async relinkOrphanedDirectory(chunkId: string): Promise<void> {
+		const root = await this.loadDirectory(this.rootChunkId!);
+
+		let lostAndFound = root.contents.find(
+			item => item.type === 'directory' && item.name === this.LOST_AND_FOUND_NAME
+		) as (DirectoryItem & { type: 'directory' }) | undefined;
+		if (!lostAndFound) {
+			const created = await this.createDirectory(this.LOST_AND_FOUND_NAME, root.chunkId);
+			lostAndFound = {
+				type: 'directory',
+				name: this.LOST_AND_FOUND_NAME,
+				chunkId: created.chunkId
+			};
+			root.contents.push(lostAndFound);
+			await this.saveDirectory(root);
+		}
+
+		const target = await this.loadDirectory(lostAndFound.chunkId);
+		const orphan = await this.fetchDirectory(chunkId);
+		const name = this.getAvailableName(target, orphan.name || 'recovered', 'recovered');
+
+		target.contents.push({ type: 'directory', name, chunkId });
+		await this.saveDirectory(target);
+
+		orphan.name = name;
+		orphan.parentId = target.chunkId;
+		await this.rewriteDirectory(orphan);
+	}
+
+	/** Upload single file (optionally overwriting existing). */
+	public async uploadFile(
+		file: globalThis.File,
+		fileName: string,
+		overwrite: boolean = false
+	): Promise<UploadResult> {
+		try {
+			this.validateStorageNode();
+			if (!file) {
+				return {
+					success: false,
+					message: 'No file provided for upload.'
+				};
+			}
+
+			const currentDirectory = this.validateCurrentDirectory();
+
+			// Handle existing file check and overwrite logic
+			const overwriteResult = await this.handleFileOverwrite(
+				currentDirectory,
+				fileName,
+				overwrite
+			);
+			if (!overwriteResult.success) {
+				return overwriteResult;
+			}
+
+			// Perform the actual upload
+			return await this.performFileUpload(file, fileName, currentDirectory);
+		} catch (error: any) {
+			this.resetUploadProgress();
+			return {
+				success: false,
+				message: error.message || 'An error occurred during file upload.'
+			};
+		}
+	}
+
+	/** Handle overwrite logic (existing content is kept as a version once upload succeeds). */
+	private async handleFileOverwrite(
+		currentDirectory: Directory,
+		fileName: string,
+		overwrite: boolean
+	): Promise<UploadResult> {
+		const existingFile = currentDirectory.contents.find(
+			item => item.type === 'file' && item.name === fileName
+		);
+
+		if (existingFile && !overwrite) {
+			return {
+				success: false,
+				message: `File "${fileName}" already exists in this directory`,
+				requiresConfirmation: true
+			};
+		}
+
+		return { success: true };
+	}
+
+	/** Perform actual multi-chunk upload for a file. */
+	private async performFileUpload(
+		file: globalThis.File,
+		fileName: string,
+		directory: Directory
+	): Promise<UploadResult> {
+		const journal = await this.openUploadJournal(file, fileName, directory);
+		const dedupIndex = (await this.loadDedupIndex(true))!;
+
+		// Initialize progress tracking
+		this.updateUploadProgress({
+			fileName,
+			progress: 0,
+			isUploading: true,
+			chunksUploaded: 0,
+			totalChunks: 0
+		});
+
+		// Padding changes what is stored, so it cannot change once a chunk is stored
+		const padLastChunk =
+			Object.keys(journal.completedChunks).length > 0
+				? journal.paddedSize !== undefined
+				: await this.getPadFileSizes();
+		const chunks = await this.planFileChunks(file, dedupIndex.hashKey, padLastChunk);
+		const storedSize = chunks.reduce((sum, chunk) => sum + chunk.storedLength, 0);
+		journal.totalChunks = chunks.length;
+		journal.paddedSize = storedSize > file.size ? storedSize : undefined;
+		const compress = isCompressionSupported() && (await this.getCompressUploads());
+
+		// Only the first chunk of content the index does not know yet is uploaded
+		const uploads: number[] = [];
+		const seenHashes = new Set<string>();
+		chunks.forEach(({ hash }, index) => {
+			if (!seenHashes.has(hash)) {
+				seenHashes.add(hash);
+				if (journal.completedChunks[index] || !dedupIndex.entries[hash]) {
+					uploads.push(index);
+				}
+			}
+		});
+
+		const metadataSizeEstimate = await this.estimateFileMetadataSize(
+			fileName,
+			file.size,
+			journal.paddedSize,
+			chunks.length,
+			compress
+		);
+		const dataKey = await this.cryptoService.unwrapDataKey(
+			journal.wrappedKey!,
+			this.sharedFolder?.key
+		);
+		const chunkKeys = await Promise.all(
+			chunks.map(chunk => this.cryptoService.deriveChunkKey(chunk.hash, dedupIndex.hashKey))
+		);
+		const uploaded = await this.uploadFileChunks(
+			file,
+			chunks,
+			uploads,
+			chunkKeys,
+			fileName,
+			metadataSizeEstimate,
+			journal,
+			compress
+		);
+
+		// References are stored before the file, so a failure in between keeps chunks too long
+		// but never frees one the file needs
+		const { storedChunks, redundant } = await this.commitUploadChunks(chunks, uploaded);
+		const savedBytes = storedChunks.reduce((sum, chunk) => sum + (chunk.savedBytes ?? 0), 0);
+
+		// Add file to directory and update
+		await this.addFileToDirectory(fileName, {
+			size: file.size,
+			createdAt: new Date().toISOString(),
+			fileChunks: storedChunks.map(chunk => chunk.chunkId),
+			formatVersion: ITEM_FORMAT_VERSION,
+			wrappedKey: journal.wrappedKey,
+			...(journal.paddedSize ? { paddedSize: journal.paddedSize } : {}),
+			chunkKeys: await this.cryptoService.sealChunkKeys(chunkKeys, dataKey),
+			...(savedBytes > 0
+				? { chunkCodecs: storedChunks.map(chunk => chunk.codec ?? null), savedBytes }
+				: {})
+		});
+		await this.uploadJournal.removeEntry(journal.id);
+		for (const chunkId of redundant) {
+			try {
+				await this.deleteChunk(chunkId);
+			} catch (error) {
+				console.warn(`Failed to delete duplicate chunk ${chunkId}:`, error);
+			}
+		}
+		const uploadedItem = directory.contents.find(item => item.name === fileName);
+		if (uploadedItem) {
+			await this.updateSearchIndex(index =>
+				this.addToSearchIndex(index, directory, uploadedItem, file)
+			);
+		}
+
+		// Complete progress tracking
+		this.updateUploadProgress({
+			fileName,
+			progress: 100,
+			isUploading: false,
+			chunksUploaded: chunks.length,
+			totalChunks: chunks.length
+		});
+
+		return { success: true };
+	}
+
+	/**
+	 * Cut a file at content-defined boundaries (FastCDC) and hash each chunk as it will be stored.
+	 * The file is read in slices so that at most CHUNK_SIZE bytes past the last cut are in memory.
+	 */
+	private async planFileChunks(
+		file: Blob,
+		hashKey: string,
+		padLastChunk: boolean
+	): Promise<FileChunkPlan[]> {
+		const sizes = {
+			min: this.MIN_CHUNK_SIZE,
+			average: this.AVERAGE_CHUNK_SIZE,
+			max: this.CHUNK_SIZE
+		};
+		const chunks: FileChunkPlan[] = [];
+		let pending = new Uint8Array(0); // bytes from start up to readOffset
+		let readOffset = 0;
+		let start = 0;
+
+		while (start < file.size) {
+			if (readOffset < file.size && pending.length < this.CHUNK_SIZE) {
+				const readEnd = Math.min(start + this.CHUNK_SIZE, file.size);
+				const slice = new Uint8Array(
+					await this.readChunkSlice(file.slice(readOffset, readEnd), readEnd - readOffset)
+				);
+				const combined = new Uint8Array(pending.length + slice.length);
+				combined.set(pending);
+				combined.set(slice, pending.length);
+				pending = combined;
+				readOffset = readEnd;
+			}
+
+			const length = findChunkBoundary(pending, sizes);
+			const end = start + length;
+			let stored = pending.subarray(0, length);
+			if (padLastChunk && end === file.size) {
+				stored = new Uint8Array(
+					Math.min(getPaddedLength(length, this.MIN_PADDED_SIZE), this.CHUNK_SIZE)
+				);
+				stored.set(pending.subarray(0, length));
+			}
+
+			chunks.push({
+				start,
+				end,
+				storedLength: stored.length,
+				hash: await this.cryptoService.hashChunk(stored, hashKey)
+			});
+			pending = pending.slice(length);
+			start = end;
+		}
+
+		return chunks;
+	}
+
+	/**
+	 * Read, optionally compress, encrypt & upload the planned chunks at the given indexes in
+	 * parallel, each under the key derived from its content (journaled chunks are skipped).
+	 * Returns content hash -> stored chunk.
+	 */
+	private async uploadFileChunks(
+		file: Blob,
+		chunks: FileChunkPlan[],
+		uploads: number[],
+		chunkKeys: Uint8Array[],
+		fileName: string,
+		metadataSizeEstimate: number,
+		journal: UploadJournalEntry,
+		compress: boolean
+	): Promise<Map<string, StoredChunk>> {
+		let remainingSize = 0;
+		for (const index of uploads) {
+			if (!journal.completedChunks[index]) {
+				remainingSize += chunks[index].storedLength;
+			}
+		}
+		let spaceReserved = false;
+		// Chunks the index already holds count as done from the start
+		let chunksUploaded = chunks.length - uploads.length;
+		const uploaded = new Map<string, StoredChunk>();
+
+		const reportChunkDone = () => {
+			chunksUploaded++;
+			this.updateUploadProgress({
+				fileName,
+				progress: Math.round((chunksUploaded / chunks.length) * 100),
+				isUploading: true,
+				chunksUploaded,
+				totalChunks: chunks.length
+			});
+		};
+
+		await this.runChunkPool(uploads.length, async n => {
+			const i = uploads[n];
+			const { start, end, storedLength, hash } = chunks[i];
+			let chunkId = journal.completedChunks[i];
+
+			if (!chunkId) {
+				// The first chunk started in this session reserves space for everything still missing
+				const dataReservationSize = spaceReserved
+					? 0
+					: metadataSizeEstimate + remainingSize;
+				spaceReserved = true;
+				const chunkKey = await this.cryptoService.importChunkKey(chunkKeys[i]);
+				// A padded last chunk is stored as is: its compressed length would give the size away
+				const compressChunk = compress && storedLength === end - start;
+				let savedBytes = 0;
+
+				// Only this slice is read into memory, and only for the duration of one attempt
+				chunkId = await this.retryChunkTransfer(async () => {
+					let data = await this.readChunkSlice(file.slice(start, end), storedLength);
+					if (compressChunk) {
+						({ data, savedBytes } = await this.compressChunk(data));
+					}
+					return this.uploadFileChunk(
+						data,
+						dataReservationSize,
+						chunkKey,
+						ITEM_FORMAT_VERSION,
+						i
+					);
+				});
+
+				journal.completedChunks[i] = chunkId;
+				if (savedBytes > 0) {
+					(journal.compressedChunks ??= {})[i] = savedBytes;
+				}
+				await this.uploadJournal.saveEntry(journal);
+			}
+
+			const savedBytes = journal.compressedChunks?.[i];
+			uploaded.set(hash, savedBytes ? { chunkId, codec: 'gzip', savedBytes } : { chunkId });
+			reportChunkDone();
+		});
 
-	/** HTTP auth headers shortcut. */
-	private get authHeaders(): HttpHeaders {
-		return this.authService.getAuthHeaders();
+		return uploaded;
 	}
 
-	/** Fetch encrypted chunk and return decrypted JSON string. */
-	private async fetchAndDecryptChunk(chunkId: string): Promise<string> {
-		this.validateStorageNode();
-		try {
-			const response: any = await firstValueFrom(
-				this.http.get(`${this.apiUrl}/nodes/${this.storageNodeId}/chunks/${chunkId}`, {
-					headers: this.authHeaders,
-					responseType: 'arraybuffer' as 'arraybuffer'
-				})
-			);
-			return await this.processChunkResponse(response);
-		} catch (error) {
-			throw this.processChunkError(error);
+	/** Gzip a chunk before encryption; it stays as is unless that makes it smaller. */
+	private async compressChunk(
+		data: ArrayBuffer
+	): Promise<{ data: ArrayBuffer; savedBytes: number }> {
+		const compressed = await compressData(new Uint8Array(data), 'gzip');
+		if (compressed.length >= data.byteLength) {
+			return { data, savedBytes: 0 };
 		}
+		return {
+			data: compressed.buffer as ArrayBuffer,
+			savedBytes: data.byteLength - compressed.length
+		};
 	}
 
-	/** Process raw chunk HTTP response (extract IV + decrypt). */
-	private async processChunkResponse(response: any): Promise<string> {
-		if (!response || response.byteLength === 0) {
-			throw new Error('No data received when fetching chunk');
+	/** Read a file slice, zero-padded to storedLength (only the last chunk of a padded upload). */
+	private async readChunkSlice(chunkBlob: Blob, storedLength: number): Promise<ArrayBuffer> {
+		const data = await chunkBlob.arrayBuffer();
+		if (data.byteLength >= storedLength) {
+			return data;
 		}
+		const padded = new Uint8Array(storedLength);
+		padded.set(new Uint8Array(data));
+		return padded.buffer;
+	}
 
-		const responseBuffer = new Uint8Array(response);
+	/** Run chunk tasks by index with a bounded number in flight; results keep index order. */
+	private async runChunkPool<T>(
+		count: number,
+		task: (index: number) => Promise<T>
+	): Promise<T[]> {
+		const results: T[] = new Array(count);
+		const concurrency = Math.min(await this.getTransferConcurrency(), count);
+		let nextIndex = 0;
+		let failed = false;
+
+		const worker = async () => {
+			// Stop picking up new chunks once any chunk has failed for good
+			while (!failed && nextIndex < count) {
+				const index = nextIndex++;
+				try {
+					results[index] = await task(index);
+				} catch (error) {
+					failed = true;
+					throw error;
+				}
+			}
+		};
 
-		if (responseBuffer.length < 12) {
-			throw new Error('Invalid chunk data: too short');
+		// Wait for every worker so nothing is still in flight when the caller sees the error
+		const outcomes = await Promise.allSettled(Array.from({ length: concurrency }, worker));
+		const rejection = outcomes.find(outcome => outcome.status === 'rejected');
+		if (rejection) {
+			throw (rejection as PromiseRejectedResult).reason;
 		}
+		return results;
+	}
 
-		// Extract IV and encrypted content
-		const iv = responseBuffer.slice(0, 12);
-		const encryptedContent = responseBuffer.slice(12);
+	/** Retry a single chunk transfer on transient (network / server) errors. */
+	private async retryChunkTransfer<T>(operation: () => Promise<T>): Promise<T> {
+		let attempt = 0;
+		while (true) {
+			try {
+				return await operation();
+			} catch (error: any) {
+				if (attempt >= this.MAX_CHUNK_RETRIES || !this.isTransientTransferError(error)) {
+					throw error;
+				}
+				attempt++;
+				await new Promise(resolve =>
+					setTimeout(resolve, this.CHUNK_RETRY_DELAY_MS * attempt)
+				);
+			}
+		}
+	}
 
-		// Convert encrypted content to ArrayBuffer for decryption
-		const encryptedArrayBuffer = encryptedContent.buffer.slice(
-			encryptedContent.byteOffset,
-			encryptedContent.byteOffset + encryptedContent.byteLength
-		);
+	/** Client errors (4xx) and a full disk are final; everything else may succeed on retry. */
+	private isTransientTransferError(error: any): boolean {
+		if (/insufficient disk space/i.test(error?.error?.message || error?.message || '')) {
+			return false;
+		}
+		const status = error?.status;
+		if (typeof status !== 'number' || status === 0) {
+			return true;
+		}
+		return status >= 500 && status !== 507;
+	}
 
-		return await this.decryptChunkData(encryptedArrayBuffer, iv);
+	/** Parallel chunk transfers for the current user. */
+	public async getTransferConcurrency(): Promise<number> {
+		if (this.transferConcurrency === null) {
+			await this.loadPreferences();
+		}
+		return this.transferConcurrency ?? this.DEFAULT_TRANSFER_CONCURRENCY;
 	}
 
-	/** Decrypt chunk payload. */
-	private async decryptChunkData(encryptedData: ArrayBuffer, iv: Uint8Array): Promise<string> {
-		const decryptedData = await this.cryptoService.decryptData(encryptedData, iv);
-		return new TextDecoder().decode(decryptedData);
+	/** Whether new uploads pad their last chunk to a size bucket. */
+	public async getPadFileSizes(): Promise<boolean> {
+		if (this.padFileSizes === null) {
+			await this.loadPreferences();
+		}
+		return this.padFileSizes ?? false;
 	}
 
-	/** Build readable error from chunk fetch failure. */
-	private processChunkError(error: any): Error {
-		const errAny = error as any;
-		if (errAny && errAny.error instanceof ArrayBuffer) {
-			const errorString = this.decodeErrorBuffer(errAny.error);
-			const jsonError = this.tryParseJsonError(errorString);
-			if (jsonError?.message) {
-				const err: any = new Error(jsonError.message);
-				if (errAny.status) err.status = errAny.status;
-				return err;
-			} else {
-				const err: any = new Error(errorString || 'Unknown error');
-				if (errAny.status) err.status = errAny.status;
-				return err;
-			}
+	/** Whether new uploads gzip their chunks before encryption (only where the browser can). */
+	public async getCompressUploads(): Promise<boolean> {
+		if (this.compressUploads === null) {
+			await this.loadPreferences();
 		}
-		return error;
+		return this.compressUploads ?? false;
 	}
 
-	/** Decode ArrayBuffer -> string safely. */
-	private decodeErrorBuffer(errorBuffer: ArrayBuffer): string {
+	/** Fetch the user's transfer settings; on failure they stay unset and defaults apply. */
+	private async loadPreferences(): Promise<void> {
 		try {
-			return new TextDecoder().decode(errorBuffer);
-		} catch (e) {
-			return '';
+			const response = await firstValueFrom(
+				this.http.get<any>(`${this.apiUrl}/preferences`, { headers: this.authHeaders })
+			);
+			this.transferConcurrency ??=
+				response.data?.transfer_concurrency ?? this.DEFAULT_TRANSFER_CONCURRENCY;
+			this.padFileSizes ??= response.data?.pad_file_sizes ?? false;
+			this.compressUploads ??= response.data?.compress_uploads ?? false;
+		} catch (error) {
+			console.warn('Failed to load transfer preferences, using default:', error);
 		}
 	}
 
-	/** Try parse JSON error payload. */
-	private tryParseJsonError(errorString: string): any {
+	/** Change how many chunks transfer at once (stored per user). */
+	public async setTransferConcurrency(
+		concurrency: number
+	): Promise<{ success: boolean; message?: string }> {
+		if (
+			!Number.isInteger(concurrency) ||
+			concurrency < 1 ||
+			concurrency > this.MAX_TRANSFER_CONCURRENCY
+		) {
+			return {
+				success: false,
+				message: `Parallel transfers must be between 1 and ${this.MAX_TRANSFER_CONCURRENCY}`
+			};
+		}
+
 		try {
-			return JSON.parse(errorString);
-		} catch (e) {
-			return null;
+			await firstValueFrom(
+				this.http.put<any>(
+					`${this.apiUrl}/preferences`,
+					{ transfer_concurrency: concurrency },
+					{ headers: this.authHeaders }
+				)
+			);
+			this.transferConcurrency = concurrency;
+			return { success: true };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error updating transfer settings: ${error.error?.message || error.message || error}`
+			};
 		}
 	}
 
-	/** Encrypt and store directory/file chunk (prepend IV). */
-	private async encryptAndStoreChunk(data: string, chunkId: string): Promise<void> {
-		this.validateStorageNode();
-
-		// Encrypt the chunk data
-		const dataBuffer = new TextEncoder().encode(data);
-		const { encryptedData, iv: encryptionIv } =
-			await this.cryptoService.encryptData(dataBuffer);
+	/** Turn last-chunk padding for new uploads on or off (stored per user). */
+	public async setPadFileSizes(
+		enabled: boolean
+	): Promise<{ success: boolean; message?: string }> {
+		try {
+			await firstValueFrom(
+				this.http.put<any>(
+					`${this.apiUrl}/preferences`,
+					{ pad_file_sizes: enabled },
+					{ headers: this.authHeaders }
+				)
+			);
+			this.padFileSizes = enabled;
+			return { success: true };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error updating transfer settings: ${error.error?.message || error.message || error}`
+			};
+		}
+	}
 
-		// Prepare final data with IV prepended
-		const finalData = this.prepareFinalChunkData(encryptedData, encryptionIv);
+	/** Turn chunk compression for new uploads on or off (stored per user). */
+	public async setCompressUploads(
+		enabled: boolean
+	): Promise<{ success: boolean; message?: string }> {
+		try {
+			await firstValueFrom(
+				this.http.put<any>(
+					`${this.apiUrl}/preferences`,
+					{ compress_uploads: enabled },
+					{ headers: this.authHeaders }
+				)
+			);
+			this.compressUploads = enabled;
+			return { success: true };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error updating transfer settings: ${error.error?.message || error.message || error}`
+			};
+		}
+	}
 
-		await firstValueFrom(
-			this.http.post(
-				`${this.apiUrl}/nodes/${this.storageNodeId}/chunks/${chunkId}`,
-				new Blob([finalData]),
-				{ headers: this.authHeaders.set('Content-Type', 'application/octet-stream') }
-			)
+	/** Journal entry to continue for this file, or a fresh one (stale entries are discarded). */
+	private async openUploadJournal(
+		file: globalThis.File,
+		fileName: string,
+		directory: Directory
+	): Promise<UploadJournalEntry> {
+		const id = UploadJournalService.getEntryId(
+			this.storageNodeId!,
+			directory.chunkId,
+			fileName
 		);
-	}
+		const existing = await this.uploadJournal.getEntry(id);
+
+		if (existing) {
+			if (
+				UploadJournalService.matchesFile(existing, file) &&
+				existing.chunkSize === this.CHUNK_SIZE &&
+				existing.formatVersion === ITEM_FORMAT_VERSION
+			) {
+				return existing;
+			}
+			// Different content, or chunks cut or keyed the old way: the stored chunks are of no use
+			await this.discardUpload(existing);
+		}
 
-	/** Concatenate IV + encrypted bytes. */
-	private prepareFinalChunkData(encryptedData: ArrayBuffer, iv: Uint8Array): ArrayBuffer {
-		const finalData = new ArrayBuffer(iv.length + encryptedData.byteLength);
-		const finalView = new Uint8Array(finalData);
-		finalView.set(iv);
-		finalView.set(new Uint8Array(encryptedData), iv.length);
-		return finalData;
+		return {
+			id,
+			nodeId: this.storageNodeId!,
+			directoryChunkId: directory.chunkId,
+			directoryPath: await this.getDirectoryPath(directory),
+			fileName,
+			sharedFolderId: this.sharedFolder?.folderId,
+			fileSize: file.size,
+			lastModified: file.lastModified,
+			chunkSize: this.CHUNK_SIZE,
+			totalChunks: 0, // known once the file is cut into chunks
+			completedChunks: {},
+			wrappedKey: await this.cryptoService.wrapDataKey(
+				await this.cryptoService.generateDataKey(),
+				this.sharedFolder?.key
+			),
+			formatVersion: ITEM_FORMAT_VERSION,
+			updatedAt: new Date().toISOString()
+		};
 	}
 
-	/** Delete a chunk by id. */
-	private async deleteChunk(chunkId: string): Promise<void> {
+	/** Unfinished uploads recorded for the current node (and shared folder, if one is open). */
+	public async getResumableUploads(): Promise<UploadJournalEntry[]> {
 		this.validateStorageNode();
-
-		await firstValueFrom(
-			this.http.delete(`${this.apiUrl}/nodes/${this.storageNodeId}/chunks/${chunkId}`, {
-				headers: this.authHeaders
-			})
-		);
+		const entries = await this.uploadJournal.getEntries(this.storageNodeId!);
+		// Their data keys are wrapped by the key of the tree they were started in
+		return entries.filter(entry => entry.sharedFolderId === this.sharedFolder?.folderId);
 	}
 
-	/** Delete file or directory (optional recursive). */
-	public async deleteItem(
-		item: DirectoryItem,
-		recursive: boolean = false
-	): Promise<{
-		success: boolean;
-		message?: string;
-		requiresConfirmation?: boolean;
-	}> {
-		if (!this.storageNodeId) {
+	/** Continue an unfinished upload with the re-selected file, skipping stored chunks. */
+	public async resumeUpload(
+		entry: UploadJournalEntry,
+		file: globalThis.File
+	): Promise<UploadResult> {
+		if (!UploadJournalService.matchesFile(entry, file)) {
 			return {
 				success: false,
-				message: 'Node ID not available'
+				message: `The selected file does not match the unfinished upload of "${entry.fileName}"`
 			};
 		}
 
-		const currentDirectory = this.directory.getValue();
-		if (!currentDirectory) {
+		try {
+			await this.changeDirectory(entry.directoryChunkId);
+		} catch (error: any) {
 			return {
 				success: false,
-				message: 'Current directory is not initialized'
+				message: `Target folder ${entry.directoryPath} is no longer available: ${error.message || error}`
 			};
 		}
 
-		// Check if item exists in the current directory
-		const existingItem = currentDirectory.contents.find(i => i === item);
-		if (!existingItem) {
-			return {
-				success: false,
-				message: 'Item not found in current directory'
-			};
+		// The overwrite was confirmed (or not needed) when the upload started
+		return await this.uploadFile(file, entry.fileName, true);
+	}
+
+	/** Drop an unfinished upload and delete the chunks it already stored. */
+	public async discardUpload(entry: UploadJournalEntry): Promise<void> {
+		this.validateStorageNode();
+
+		// Chunks may already be referenced if the upload finished but its entry was not removed
+		let referenced = new Set<string>();
+		try {
+			const directory = await this.fetchDirectory(entry.directoryChunkId);
+			referenced = new Set(
+				directory.contents.flatMap(item =>
+					item.type === 'file' ? this.getAllFileChunkIds(item) : []
+				)
+			);
+			// ...or by the deduplication index, if the upload stored its references
+			const dedupIndex = await this.loadDedupIndex(false);
+			Object.values(dedupIndex?.entries || {}).forEach(indexed =>
+				referenced.add(indexed.chunkId)
+			);
+		} catch (error) {
+			console.warn('Could not read upload target folder, keeping stored chunks:', error);
+			await this.uploadJournal.removeEntry(entry.id);
+			return;
 		}
 
-		if (item.type === 'file') {
+		for (const chunkId of Object.values(entry.completedChunks)) {
+			if (referenced.has(chunkId)) {
+				continue;
+			}
 			try {
-				// Delete all data chunks that make up this file
-				for (const dataChunkId of item.fileChunks) {
-					await this.deleteChunk(dataChunkId);
-				}
+				await this.deleteChunk(chunkId);
+			} catch (error) {
+				console.warn(`Failed to delete chunk ${chunkId} of discarded upload:`, error);
+			}
+		}
 
-				// Remove the file from the directory
-				currentDirectory.contents = currentDirectory.contents.filter(
-					dirItem => !(dirItem.type === 'file' && dirItem === item)
-				);
+		await this.uploadJournal.removeEntry(entry.id);
+	}
 
-				// Update the directory metadata
-				await this.updateDirectory();
+	/** Add uploaded file metadata (older content becomes a version) then persist directory. */
+	private async addFileToDirectory(fileName: string, content: FileVersion): Promise<void> {
+		const currentDirectory = this.validateCurrentDirectory();
 
-				return { success: true };
-			} catch (error) {
-				return {
-					success: false,
-					message: `Error deleting file: ${error}`
-				};
-			}
-		} else if (item.type === 'directory') {
-			try {
-				// First, fetch the directory to check if it's empty
-				const targetDirectory = JSON.parse(
-					await this.fetchAndDecryptChunk(item.chunkId)
-				) as Directory;
+		const expiredVersions = this.applyFileUpload(currentDirectory, fileName, content);
 
-				// Check if directory is empty
-				if (targetDirectory.contents.length > 0) {
-					if (!recursive) {
-						return {
-							success: false,
-							message: `Cannot delete "${item.name}": Directory is not empty. Please delete all files and subdirectories first.`,
-							requiresConfirmation: true
-						};
-					}
+		await this.updateDirectory();
+
+		// Versions past the limit are only released once the new metadata is stored
+		await this.deleteVersionChunks(expiredVersions);
+	}
+
+	/** Insert file entry or replace its content; returns versions pushed past the limit. */
+	private applyFileUpload(
+		directory: Directory,
+		fileName: string,
+		content: FileVersion
+	): FileVersion[] {
+		const existingFile = directory.contents.find(
+			item => item.type === 'file' && item.name === fileName
+		) as (DirectoryItem & { type: 'file' }) | undefined;
+
+		if (!existingFile) {
+			directory.contents.push({ type: 'file', name: fileName, ...content });
+			return [];
+		}
+
+		const versions: FileVersion[] = [
+			this.getFileContent(existingFile),
+			...(existingFile.versions || [])
+		];
+
+		this.setFileContent(existingFile, content);
+		existingFile.versions = versions.slice(0, this.MAX_FILE_VERSIONS);
+
+		return versions.slice(this.MAX_FILE_VERSIONS);
+	}
+
+	/** Snapshot of a file's content fields (size, chunks and how they are keyed). */
+	private getFileContent(file: FileVersion): FileVersion {
+		const { size, createdAt, fileChunks, formatVersion, wrappedKey, paddedSize, chunkKeys } =
+			file;
+		const { chunkCodecs, savedBytes } = file;
+		const content: FileVersion = formatVersion
+			? { size, createdAt, fileChunks, formatVersion, wrappedKey }
+			: { size, createdAt, fileChunks };
+		if (paddedSize) {
+			content.paddedSize = paddedSize;
+		}
+		if (chunkKeys) {
+			content.chunkKeys = chunkKeys;
+		}
+		if (chunkCodecs) {
+			content.chunkCodecs = chunkCodecs;
+			content.savedBytes = savedBytes;
+		}
+		return content;
+	}
+
+	/** Make content current on a file entry, keeping its key fields in step. */
+	private setFileContent(file: DirectoryItem & { type: 'file' }, content: FileVersion): void {
+		file.size = content.size;
+		file.createdAt = content.createdAt;
+		file.fileChunks = content.fileChunks;
+		if (content.formatVersion) {
+			file.formatVersion = content.formatVersion;
+			file.wrappedKey = content.wrappedKey;
+		} else {
+			delete file.formatVersion;
+			delete file.wrappedKey;
+		}
+		if (content.paddedSize) {
+			file.paddedSize = content.paddedSize;
+		} else {
+			delete file.paddedSize;
+		}
+		if (content.chunkKeys) {
+			file.chunkKeys = content.chunkKeys;
+		} else {
+			delete file.chunkKeys;
+		}
+		if (content.chunkCodecs) {
+			file.chunkCodecs = content.chunkCodecs;
+			file.savedBytes = content.savedBytes;
+		} else {
+			delete file.chunkCodecs;
+			delete file.savedBytes;
+		}
+	}
+
+	/** Data key for a file's chunks; undefined for legacy items under the master key. */
+	private async getFileKey(content: FileVersion): Promise<CryptoKey | undefined> {
+		const formatVersion = content.formatVersion || LEGACY_ITEM_FORMAT;
+		if (formatVersion === LEGACY_ITEM_FORMAT) {
+			return undefined;
+		}
+		if (formatVersion > ITEM_FORMAT_VERSION) {
+			throw new Error(`Unsupported file format version ${formatVersion}`);
+		}
+		if (!content.wrappedKey) {
+			throw new Error('File data key is missing');
+		}
+		return await this.cryptoService.unwrapDataKey(content.wrappedKey, this.sharedFolder?.key);
+	}
+
+	/** Key for each chunk of a file: its sealed chunk keys from format 4 on, else the data key. */
+	private async getChunkKeys(content: FileVersion): Promise<(CryptoKey | undefined)[]> {
+		const dataKey = await this.getFileKey(content);
+		if (!this.isDeduplicated(content)) {
+			return content.fileChunks.map(() => dataKey);
+		}
+		if (!content.chunkKeys) {
+			throw new Error('File chunk keys are missing');
+		}
+
+		const chunkKeys = await this.cryptoService.openChunkKeys(content.chunkKeys, dataKey!);
+		if (chunkKeys.length !== content.fileChunks.length) {
+			throw new Error('File chunk keys do not match its chunks');
+		}
+		return chunkKeys;
+	}
 
-					// Recursively delete all contents
-					await this.deleteDirectoryRecursively(targetDirectory);
+	/** Best-effort release of chunks that belonged to dropped versions. */
+	private async deleteVersionChunks(versions: FileVersion[]): Promise<void> {
+		const sharedChunkIds: string[] = [];
+		for (const version of versions) {
+			if (this.isDeduplicated(version)) {
+				sharedChunkIds.push(...version.fileChunks);
+				continue;
+			}
+			for (const chunkId of version.fileChunks) {
+				try {
+					await this.deleteChunk(chunkId);
+				} catch (error) {
+					console.warn(`Failed to delete chunk ${chunkId} of an old version:`, error);
 				}
+			}
+		}
 
-				// Delete the directory chunk from storage
-				await this.deleteChunk(item.chunkId);
+		try {
+			await this.releaseDedupChunks(sharedChunkIds);
+		} catch (error) {
+			console.warn('Failed to release chunks of old versions:', error);
+		}
+	}
 
-				// Remove the directory from the parent directory
-				currentDirectory.contents = currentDirectory.contents.filter(
-					dirItem => !(dirItem.type === 'directory' && dirItem.chunkId === item.chunkId)
-				);
+	/** Current and version chunk ids of a file. */
+	private getAllFileChunkIds(item: DirectoryItem & { type: 'file' }): string[] {
+		return [
+			...item.fileChunks,
+			...(item.versions || []).flatMap(version => version.fileChunks)
+		];
+	}
 
-				// Update the parent directory metadata
-				await this.updateDirectory();
+	/** Make an earlier version current again (current content becomes a version). */
+	public async restoreFileVersion(
+		item: DirectoryItem,
+		versionIndex: number
+	): Promise<{ success: boolean; message?: string }> {
+		try {
+			this.validateStorageNode();
+			const currentDirectory = this.validateCurrentDirectory();
 
-				return { success: true };
-			} catch (error) {
-				return {
-					success: false,
-					message: `Error deleting directory: ${error}`
-				};
+			const existingFile = this.findItemInDirectory(currentDirectory, item);
+			if (!existingFile || existingFile.type !== 'file') {
+				return { success: false, message: 'File not found in current directory' };
 			}
-		} else {
+
+			const versions = existingFile.versions || [];
+			const version = versions[versionIndex];
+			if (!version) {
+				return { success: false, message: 'Version not found' };
+			}
+
+			const remaining = versions.filter((_, index) => index !== versionIndex);
+			existingFile.versions = [this.getFileContent(existingFile), ...remaining];
+			this.setFileContent(existingFile, version);
+
+			await this.updateDirectory();
+
+			return { success: true };
+		} catch (error: any) {
 			return {
 				success: false,
-				message: 'Unknown item type. Cannot delete.'
+				message: `Error restoring version: ${error.message || error}`
 			};
 		}
 	}
 
-	/** Recursively delete directory tree (stack based). */
-	private async deleteDirectoryRecursively(directory: Directory): Promise<void> {
-		const stack: Directory[] = [directory];
-
-		while (stack.length > 0) {
-			const currentDirectory = stack.pop();
-			if (!currentDirectory) continue;
-
-			for (const item of currentDirectory.contents) {
-				if (item.type === 'file') {
-					// Delete all data chunks that make up this file
-					for (const dataChunkId of item.fileChunks) {
-						await this.deleteChunk(dataChunkId);
-					}
-				} else if (item.type === 'directory') {
-					// Fetch the subdirectory and push it onto the stack
-					const subDirectory = JSON.parse(
-						await this.fetchAndDecryptChunk(item.chunkId)
-					) as Directory;
-					stack.push(subDirectory);
+	/** Download a specific earlier version of a file. */
+	public async downloadFileVersion(item: DirectoryItem, versionIndex: number): Promise<Blob> {
+		if (item.type !== 'file') {
+			throw new Error('Selected item is not a file.');
+		}
 
-					// Delete the subdirectory chunk after processing its contents
-					await this.deleteChunk(item.chunkId);
-				}
-			}
+		const version = (item.versions || [])[versionIndex];
+		if (!version) {
+			throw new Error('Version not found.');
 		}
+
+		return await this.downloadFile({ type: 'file', name: item.name, ...version });
 	}
 
-	/** Upload single file (optionally overwriting existing). */
-	public async uploadFile(
-		file: globalThis.File,
-		fileName: string,
-		overwrite: boolean = false
-	): Promise<UploadResult> {
+	/** Create a share link for a file; the link alone (plus password) is enough to download it. */
+	public async createShare(
+		item: DirectoryItem,
+		options: ShareOptions = {}
+	): Promise<{ success: boolean; message?: string; url?: string }> {
 		try {
 			this.validateStorageNode();
-			if (!file) {
+			if (item.type !== 'file') {
+				return { success: false, message: 'Only files can be shared' };
+			}
+			const dataKey = await this.getFileKey(item);
+			if (!dataKey) {
+				// Format 1 chunks are under the master key, which must never leave the account
 				return {
 					success: false,
-					message: 'No file provided for upload.'
+					message: 'This file was uploaded before per-file keys; re-upload it to share it'
 				};
 			}
 
-			const currentDirectory = this.validateCurrentDirectory();
-
-			// Handle existing file check and overwrite logic
-			const overwriteResult = await this.handleFileOverwrite(
-				currentDirectory,
-				fileName,
-				overwrite
+			const manifest: ShareManifest = {
+				name: item.name,
+				size: item.size,
+				formatVersion: item.formatVersion!,
+				fileChunks: item.fileChunks,
+				...(item.chunkKeys ? { chunkKeys: item.chunkKeys } : {}),
+				...(item.chunkCodecs ? { chunkCodecs: item.chunkCodecs } : {})
+			};
+			const { shareKey, wrappedDataKey } = await this.cryptoService.createShareKey(dataKey);
+			const response = await firstValueFrom(
+				this.http.post<any>(
+					`${this.apiUrl}/shares`,
+					{
+						nodeId: this.storageNodeId,
+						chunkIds: item.fileChunks,
+						shareKey,
+						encryptedManifest: await this.cryptoService.encryptText(
+							JSON.stringify(manifest),
+							dataKey
+						),
+						encryptedName: await this.cryptoService.encryptText(item.name),
+						...options
+					},
+					{ headers: this.authHeaders }
+				)
 			);
-			if (!overwriteResult.success) {
-				return overwriteResult;
-			}
 
-			// Perform the actual upload
-			return await this.performFileUpload(file, fileName);
+			const fragment = uint8ArrayToBase64Url(base64ToUint8Array(wrappedDataKey));
+			return {
+				success: true,
+				url: `${window.location.origin}/s/${response.data.share_id}#${fragment}`
+			};
 		} catch (error: any) {
-			this.resetUploadProgress();
 			return {
 				success: false,
-				message: error.message || 'An error occurred during file upload.'
+				message: `Error creating share: ${error.error?.message || error.message || error}`
 			};
 		}
 	}
 
-	/** Handle overwrite logic (delete existing if allowed). */
-	private async handleFileOverwrite(
-		currentDirectory: Directory,
-		fileName: string,
-		overwrite: boolean
-	): Promise<UploadResult> {
-		const existingFile = currentDirectory.contents.find(
-			item => item.type === 'file' && item.name === fileName
+	/** Active share links of the current user with their names decrypted. */
+	public async listShares(): Promise<ShareSummary[]> {
+		const response = await firstValueFrom(
+			this.http.get<any>(`${this.apiUrl}/shares`, { headers: this.authHeaders })
 		);
 
-		if (existingFile) {
-			if (!overwrite) {
-				return {
-					success: false,
-					message: `File "${fileName}" already exists in this directory`,
-					requiresConfirmation: true
-				};
-			} else {
-				const deleteResult = await this.deleteItem(existingFile, false);
-				if (!deleteResult.success) {
-					return {
-						success: false,
-						message: `Failed to overwrite existing file: ${deleteResult.message}`
-					};
-				}
-			}
-		}
-
-		return { success: true };
-	}
-
-	/** Perform actual multi-chunk upload for a file. */
-	private async performFileUpload(
-		file: globalThis.File,
-		fileName: string
-	): Promise<UploadResult> {
-		const metadataSizeEstimate = await this.estimateFileMetadataSize(fileName, file.size);
-		const fileBuffer = await file.arrayBuffer();
-		const totalSize = fileBuffer.byteLength;
-		const numChunks = Math.ceil(totalSize / this.CHUNK_SIZE);
-
-		// Initialize progress tracking
-		this.updateUploadProgress({
-			fileName,
-			progress: 0,
-			isUploading: true,
-			chunksUploaded: 0,
-			totalChunks: numChunks
-		});
-
-		const chunkIds = await this.uploadFileChunks(
-			fileBuffer,
-			totalSize,
-			numChunks,
-			fileName,
-			metadataSizeEstimate
+		return await Promise.all(
+			response.data.shares.map(async (share: any) => ({
+				shareId: share.share_id,
+				name: await this.cryptoService
+					.decryptText(share.encrypted_name)
+					.catch(() => 'Unreadable name'),
+				hasPassword: share.has_password,
+				createdAt: share.created_at,
+				expiresAt: share.expires_at,
+				maxDownloads: share.max_downloads,
+				downloadCount: share.download_count
+			}))
 		);
-
-		// Add file to directory and update
-		await this.addFileToDirectory(fileName, file.size, chunkIds);
-
-		// Complete progress tracking
-		this.updateUploadProgress({
-			fileName,
-			progress: 100,
-			isUploading: false,
-			chunksUploaded: numChunks,
-			totalChunks: numChunks
-		});
-
-		return { success: true };
 	}
 
-	/** Slice file buffer, encrypt & upload chunks sequentially. */
-	private async uploadFileChunks(
-		fileBuffer: ArrayBuffer,
-		totalSize: number,
-		numChunks: number,
-		fileName: string,
-		metadataSizeEstimate: number
-	): Promise<string[]> {
-		const chunkIds: string[] = [];
-
-		for (let i = 0; i < numChunks; i++) {
-			const start = i * this.CHUNK_SIZE;
-			const end = Math.min(start + this.CHUNK_SIZE, totalSize);
-			const chunkData = fileBuffer.slice(start, end);
-
-			const dataReservationSize = i === 0 ? metadataSizeEstimate + totalSize : 0;
-
-			const chunkId = await this.uploadFileChunk(chunkData, dataReservationSize);
-			chunkIds.push(chunkId);
-
-			// Update progress
-			const progress = Math.round(((i + 1) / numChunks) * 100);
-			this.updateUploadProgress({
-				fileName,
-				progress,
-				isUploading: true,
-				chunksUploaded: i + 1,
-				totalChunks: numChunks
-			});
+	/** Revoke a share link; it stops working immediately. */
+	public async revokeShare(shareId: string): Promise<{ success: boolean; message?: string }> {
+		try {
+			await firstValueFrom(
+				this.http.delete(`${this.apiUrl}/shares/${shareId}`, { headers: this.authHeaders })
+			);
+			return { success: true };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error revoking share: ${error.error?.message || error.message || error}`
+			};
 		}
-
-		return chunkIds;
-	}
-
-	/** Add uploaded file metadata then persist directory. */
-	private async addFileToDirectory(
-		fileName: string,
-		fileSize: number,
-		chunkIds: string[]
-	): Promise<void> {
-		const currentDirectory = this.validateCurrentDirectory();
-
-		currentDirectory.contents.push({
-			type: 'file',
-			name: fileName,
-			size: fileSize,
-			createdAt: new Date().toISOString(),
-			fileChunks: chunkIds
-		});
-
-		await this.updateDirectory();
 	}
 
 	/** Upload multiple files with aggregated progress. */
@@ -1145,13 +4419,24 @@ export class FileService {
 	}
 
 	/** Encrypt + upload a single chunk (prepare, send, complete). */
-	private async uploadFileChunk(data: ArrayBuffer, data_size: number): Promise<string> {
+	private async uploadFileChunk(
+		data: ArrayBuffer,
+		data_size: number,
+		dataKey: CryptoKey,
+		formatVersion: number,
+		index: number
+	): Promise<string> {
 		this.validateStorageNode();
 		// Prepare upload session
 		const { chunkId, uploadUrl, temporaryObjectName } =
 			await this.prepareUploadSession(data_size);
-		// Encrypt and upload data
-		await this.encryptAndUploadChunk(data, uploadUrl);
+		// Encrypt (bound to the assigned chunk ID and its index) and upload data
+		await this.encryptAndUploadChunk(
+			data,
+			uploadUrl,
+			dataKey,
+			getFileChunkAad(formatVersion, chunkId, index)
+		);
 		// Complete the transfer
 		await this.completeChunkTransfer(chunkId, temporaryObjectName);
 		return chunkId;
@@ -1177,13 +4462,21 @@ export class FileService {
 	}
 
 	/** Encrypt bytes and PUT to pre-signed URL. */
-	private async encryptAndUploadChunk(data: ArrayBuffer, uploadUrl: string): Promise<void> {
-		const { encryptedData, iv } = await this.cryptoService.encryptData(new Uint8Array(data));
-		const finalPayload = new Uint8Array(iv.length + encryptedData.byteLength);
-		finalPayload.set(iv);
-		finalPayload.set(new Uint8Array(encryptedData), iv.length);
+	private async encryptAndUploadChunk(
+		data: ArrayBuffer,
+		uploadUrl: string,
+		dataKey: CryptoKey,
+		associatedData?: Uint8Array
+	): Promise<void> {
+		const { encryptedData, iv } = await this.cryptoService.encryptData(
+			new Uint8Array(data),
+			undefined,
+			dataKey,
+			associatedData
+		);
+		// IV + ciphertext as Blob parts avoids another chunk-sized copy
 		await firstValueFrom(
-			this.http.put(uploadUrl, new Blob([finalPayload]), {
+			this.http.put(uploadUrl, new Blob([iv, encryptedData]), {
 				headers: { 'Content-Type': 'application/octet-stream' }
 			})
 		);
@@ -1245,164 +4538,276 @@ export class FileService {
 		}
 	}
 
+	/** Download a file chunk by chunk into a writable stream (only in-flight chunks stay in memory). */
+	public async downloadFileToStream(
+		item: DirectoryItem,
+		writable: WritableStream<Uint8Array>
+	): Promise<void> {
+		this.validateStorageNode();
+
+		if (item.type !== 'file') {
+			throw new Error('Selected item is not a file.');
+		}
+
+		const writer = writable.getWriter();
+		const totalChunks = item.fileChunks.length;
+		let chunksDownloaded = 0;
+
+		try {
+			this.updateDownloadProgress({
+				fileName: item.name,
+				progress: 0,
+				isDownloading: true,
+				chunksDownloaded: 0,
+				totalChunks
+			});
+
+			await this.pipeFileChunks(item, async chunk => {
+				await writer.write(chunk);
+
+				chunksDownloaded++;
+				this.updateDownloadProgress({
+					fileName: item.name,
+					progress: Math.round((chunksDownloaded / totalChunks) * 100),
+					isDownloading: true,
+					chunksDownloaded,
+					totalChunks
+				});
+			});
+
+			await writer.close();
+
+			this.updateDownloadProgress({
+				fileName: item.name,
+				progress: 100,
+				isDownloading: false,
+				chunksDownloaded: totalChunks,
+				totalChunks
+			});
+		} catch (error) {
+			this.resetDownloadProgress();
+			await writer.abort(error).catch(() => undefined);
+			throw error;
+		}
+	}
+
+	/** Download a file's chunks in parallel and hand them to onChunk strictly in order. */
+	private async pipeFileChunks(
+		item: DirectoryItem & { type: 'file' },
+		onChunk: (chunk: Uint8Array) => Promise<void>
+	): Promise<void> {
+		const chunkKeys = await this.getChunkKeys(item);
+		let previousWrite = Promise.resolve();
+		let bytesWritten = 0;
+
+		await this.runChunkPool(item.fileChunks.length, i => {
+			const ready = previousWrite;
+			const write = (async () => {
+				const decryptedChunk = await this.retryChunkTransfer(() =>
+					this.downloadFileChunk(
+						item.fileChunks[i],
+						chunkKeys[i],
+						getFileChunkAad(item.formatVersion, item.fileChunks[i], i),
+						item.chunkCodecs?.[i] ?? undefined
+					)
+				);
+				await ready;
+				// Writes run in order, so the padding past the file size is always at the end
+				const chunk = new Uint8Array(
+					decryptedChunk,
+					0,
+					Math.min(decryptedChunk.byteLength, item.size - bytesWritten)
+				);
+				bytesWritten += chunk.length;
+				await onChunk(chunk);
+			})();
+			previousWrite = write;
+			return write;
+		});
+	}
+
 	/** Download & decrypt all file chunks with progress. */
 	private async downloadAndDecryptChunks(
 		item: DirectoryItem & { type: 'file' },
 		totalChunks: number
 	): Promise<ArrayBuffer[]> {
-		const decryptedChunks: ArrayBuffer[] = [];
-
-		for (let i = 0; i < item.fileChunks.length; i++) {
-			const dataChunkId = item.fileChunks[i];
-			const decryptedChunk = await this.downloadFileChunk(dataChunkId);
-			decryptedChunks.push(decryptedChunk);
+		const chunkKeys = await this.getChunkKeys(item);
+		let chunksDownloaded = 0;
+
+		return await this.runChunkPool(item.fileChunks.length, async i => {
+			const decryptedChunk = await this.retryChunkTransfer(() =>
+				this.downloadFileChunk(
+					item.fileChunks[i],
+					chunkKeys[i],
+					getFileChunkAad(item.formatVersion, item.fileChunks[i], i),
+					item.chunkCodecs?.[i] ?? undefined
+				)
+			);
 
 			// Update progress
-			const chunksDownloaded = i + 1;
-			const progress = Math.round((chunksDownloaded / totalChunks) * 100);
+			chunksDownloaded++;
 			this.updateDownloadProgress({
 				fileName: item.name,
-				progress,
+				progress: Math.round((chunksDownloaded / totalChunks) * 100),
 				isDownloading: true,
 				chunksDownloaded,
 				totalChunks
 			});
-		}
-
-		return decryptedChunks;
+			return decryptedChunk;
+		});
 	}
 
-	/** Reassemble decrypted chunks into Blob. */
+	/** Reassemble decrypted chunks into Blob (padding past totalSize is dropped). */
 	private reassembleFileChunks(decryptedChunks: ArrayBuffer[], totalSize: number): Blob {
 		const reassembledBuffer = new Uint8Array(totalSize);
 		let offset = 0;
 
 		for (const chunk of decryptedChunks) {
-			reassembledBuffer.set(new Uint8Array(chunk), offset);
-			offset += chunk.byteLength;
+			const length = Math.min(chunk.byteLength, totalSize - offset);
+			reassembledBuffer.set(new Uint8Array(chunk, 0, length), offset);
+			offset += length;
 		}
 
 		return new Blob([reassembledBuffer]);
 	}
 
-	/** Download directory recursively as ZIP. */
+	/** Download a directory as a ZIP Blob (fallback when streaming to disk is unavailable). */
 	public async downloadDirectory(item: DirectoryItem): Promise<Blob> {
-		this.validateStorageNode();
-
 		if (item.type !== 'directory') {
 			throw new Error('Selected item is not a directory.');
 		}
 
-		try {
-			const zipFileName = `${item.name}.zip`;
+		return await this.createZipBlob([item], `${item.name}.zip`);
+	}
+
+	/** Build a ZIP of the given items in memory. */
+	public async createZipBlob(items: DirectoryItem[], archiveName: string): Promise<Blob> {
+		const parts: Uint8Array[] = [];
+		await this.downloadItemsAsZip(
+			items,
+			archiveName,
+			new WritableStream<Uint8Array>({ write: chunk => void parts.push(chunk) })
+		);
+		return new Blob(parts as BlobPart[], { type: 'application/zip' });
+	}
+
+	/**
+	 * Stream items (directories recursively) as a ZIP archive into a writable stream.
+	 * Directory metadata is fetched directly, so the current directory is never changed.
+	 */
+	public async downloadItemsAsZip(
+		items: DirectoryItem[],
+		archiveName: string,
+		writable: WritableStream<Uint8Array>
+	): Promise<void> {
+		this.validateStorageNode();
+
+		const writer = writable.getWriter();
 
-			// Initialize download progress tracking for directory
+		try {
 			this.updateDownloadProgress({
-				fileName: zipFileName,
+				fileName: archiveName,
 				progress: 0,
 				isDownloading: true,
 				chunksDownloaded: 0,
-				totalChunks: 0
+				totalChunks: 0,
+				bytesDownloaded: 0,
+				totalBytes: 0
 			});
 
-			const originalDirectory = this.validateCurrentDirectory();
-			const zip = new JSZip();
+			const entries = await this.collectZipEntries(items, '');
+			let totalBytes = 0;
+			let totalChunks = 0;
+			for (const { item } of entries) {
+				if (item.type === 'file') {
+					totalBytes += item.size;
+					totalChunks += item.fileChunks.length;
+				}
+			}
 
-			// Recursively add directory contents to ZIP
-			await this.addDirectoryToZip(zip, item, '');
+			let bytesDownloaded = 0;
+			let chunksDownloaded = 0;
+			const zip = new ZipWriter(writer);
 
-			// Return to original directory
-			await this.changeDirectory(originalDirectory.chunkId);
+			for (const { path, item } of entries) {
+				if (item.type === 'directory') {
+					await zip.addDirectory(path);
+					continue;
+				}
 
-			// Generate ZIP file
-			const zipBlob = await zip.generateAsync({ type: 'blob' });
+				await zip.addFile(path, item.size, new Date(item.createdAt), write =>
+					this.pipeFileChunks(item, async chunk => {
+						await write(chunk);
+
+						bytesDownloaded += chunk.length;
+						chunksDownloaded++;
+						this.updateDownloadProgress({
+							fileName: archiveName,
+							progress: totalBytes
+								? Math.round((bytesDownloaded / totalBytes) * 100)
+								: 0,
+							isDownloading: true,
+							chunksDownloaded,
+							totalChunks,
+							bytesDownloaded,
+							totalBytes
+						});
+					})
+				);
+			}
 
-			// Complete download progress tracking
+			await zip.close();
+
+			// Byte counters only describe an archive in progress
 			this.updateDownloadProgress({
-				fileName: zipFileName,
+				fileName: archiveName,
 				progress: 100,
 				isDownloading: false,
-				chunksDownloaded: 0,
-				totalChunks: 0
+				chunksDownloaded: totalChunks,
+				totalChunks,
+				bytesDownloaded: undefined,
+				totalBytes: undefined
 			});
-
-			return zipBlob;
 		} catch (error) {
 			this.resetDownloadProgress();
+			await writer.abort(error).catch(() => undefined);
 			throw error;
 		}
 	}
 
-	/** Recursively add directory contents to ZIP. */
-	private async addDirectoryToZip(
-		zip: JSZip,
-		directoryItem: DirectoryItem,
+	/** Flatten items into ZIP paths, reading subdirectories without navigating into them. */
+	private async collectZipEntries(
+		items: DirectoryItem[],
 		basePath: string
-	): Promise<void> {
-		if (directoryItem.type !== 'directory') {
-			return;
-		}
-
-		// Navigate to the directory
-		await this.changeDirectory(directoryItem.chunkId);
-
-		// Get directory contents
-		const directory = this.validateCurrentDirectory();
-
-		// Create the directory path in ZIP
-		const currentPath = basePath ? `${basePath}/${directoryItem.name}` : directoryItem.name;
-
-		zip.folder(currentPath);
+	): Promise<{ path: string; item: DirectoryItem }[]> {
+		const entries: { path: string; item: DirectoryItem }[] = [];
 
-		// Process all items in this directory
-		await this.processDirectoryItems(zip, directory.contents, currentPath);
-	}
-
-	/** Process items (files/subdirs) for ZIP. */
-	private async processDirectoryItems(
-		zip: JSZip,
-		items: DirectoryItem[],
-		currentPath: string
-	): Promise<void> {
 		for (const item of items) {
-			if (item.type === 'file') {
-				await this.addFileToZip(zip, item, currentPath);
-			} else if (item.type === 'directory') {
-				// Recursively add subdirectory
-				await this.addDirectoryToZip(zip, item, currentPath);
+			const path = basePath ? `${basePath}/${item.name}` : item.name;
+			entries.push({ path, item });
+
+			if (item.type === 'directory') {
+				let directory: Directory;
+				try {
+					directory = await this.fetchDirectory(item.chunkId);
+				} catch (error) {
+					console.warn(`Failed to read directory ${path}, exporting it empty:`, error);
+					continue;
+				}
+				entries.push(...(await this.collectZipEntries(directory.contents, path)));
 			}
 		}
-	}
-
-	/** Download, decrypt and add file to ZIP. */
-	private async addFileToZip(
-		zip: JSZip,
-		item: DirectoryItem & { type: 'file' },
-		currentPath: string
-	): Promise<void> {
-		try {
-			// Download file content
-			const fileBlob = await this.downloadFile(item);
-
-			// Add file to ZIP
-			zip.file(`${currentPath}/${item.name}`, fileBlob);
 
-			// Update progress
-			this.updateDownloadProgress({
-				fileName: `${currentPath}/${item.name}`,
-				progress: 50,
-				isDownloading: true,
-				chunksDownloaded: 0,
-				totalChunks: 0
-			});
-		} catch (error) {
-			console.warn(`Failed to download file ${item.name}:`, error);
-			// Continue with other files instead of failing completely
-		}
+		return entries;
 	}
 
 	/** Download & decrypt single chunk (session lifecycle). */
-	private async downloadFileChunk(chunkId: string): Promise<ArrayBuffer> {
+	private async downloadFileChunk(
+		chunkId: string,
+		dataKey?: CryptoKey,
+		associatedData?: Uint8Array,
+		codec?: ChunkCodec
+	): Promise<ArrayBuffer> {
 		this.validateStorageNode();
 
 		try {
@@ -1410,15 +4815,25 @@ export class FileService {
 			const { downloadUrl, temporaryObjectName } = await this.prepareDownloadSession(chunkId);
 
 			// Download and decrypt data
-			const decryptedData = await this.downloadAndDecryptChunk(downloadUrl);
+			const decryptedData = await this.downloadAndDecryptChunk(
+				downloadUrl,
+				dataKey,
+				associatedData,
+				codec
+			);
 
 			// Cleanup temporary object
 			await this.cleanupDownloadSession(chunkId, temporaryObjectName);
 
 			return decryptedData;
 		} catch (error: any) {
-			throw new Error(
-				error.message || `An unknown error occurred during download of chunk ${chunkId}.`
+			// Keep the HTTP status so transient failures can be retried
+			throw Object.assign(
+				new Error(
+					error.message ||
+						`An unknown error occurred during download of chunk ${chunkId}.`
+				),
+				{ status: error.status }
 			);
 		}
 	}
@@ -1442,8 +4857,16 @@ export class FileService {
 		return prepareResponse.data;
 	}
 
-	/** GET encrypted chunk via signed URL then decrypt. */
-	private async downloadAndDecryptChunk(downloadUrl: string): Promise<ArrayBuffer> {
+	/**
+	 * GET encrypted chunk via signed URL then decrypt (associated data must match) and, for chunks
+	 * compressed before encryption, decompress.
+	 */
+	private async downloadAndDecryptChunk(
+		downloadUrl: string,
+		dataKey?: CryptoKey,
+		associatedData?: Uint8Array,
+		codec?: ChunkCodec
+	): Promise<ArrayBuffer> {
 		const encryptedFileBuffer = await firstValueFrom(
 			this.http.get(downloadUrl, { responseType: 'arraybuffer' })
 		);
@@ -1456,7 +4879,23 @@ export class FileService {
 		const iv = encryptedDataWithIv.slice(0, 12);
 		const encryptedContent = encryptedDataWithIv.slice(12);
 
-		return await this.cryptoService.decryptData(encryptedContent.buffer, iv);
+		let decryptedData: ArrayBuffer;
+		try {
+			decryptedData = await this.cryptoService.decryptData(
+				encryptedContent.buffer,
+				iv,
+				dataKey,
+				associatedData
+			);
+		} catch (error: any) {
+			throw this.toAuthenticationError(error, 'File chunk');
+		}
+
+		if (!codec) {
+			return decryptedData;
+		}
+		const decompressed = await decompressData(new Uint8Array(decryptedData), codec);
+		return decompressed.buffer as ArrayBuffer;
 	}
 
 	/** Best-effort cleanup of temporary download object. */
@@ -1480,42 +4919,63 @@ export class FileService {
 		}
 	}
 
-	/** Estimate directory metadata growth for file upload. */
-	async estimateFileMetadataSize(fileName: string, fileSize: number): Promise<number> {
+	/** Estimate padded directory metadata growth for file upload (version history included). */
+	async estimateFileMetadataSize(
+		fileName: string,
+		fileSize: number,
+		paddedSize?: number,
+		chunkCount?: number,
+		compressed?: boolean
+	): Promise<number> {
 		const currentDirectory = this.directory.getValue();
 		if (!currentDirectory) {
 			throw new Error('Current directory is not initialized');
 		}
 
-		// Use Math.ceil to ensure we reflect the actual number of chunks allocated elsewhere
-		const num_chunks = Math.ceil(fileSize / this.CHUNK_SIZE);
+		// Without a count from chunking the file, assume the fewest (largest) chunks
+		const num_chunks = chunkCount ?? Math.ceil(fileSize / this.CHUNK_SIZE);
 		const chunkIdArr = Array.from(
 			{ length: num_chunks },
 			(_, i) => `temp-mock-file-id-${i.toString().padStart(8, '0')}-mock-uuid`
 		);
 
-		const mockFileItem: DirectoryItem = {
-			type: 'file',
-			name: fileName,
+		// Apply the same insert/version rules as the real upload to a copy of the directory
+		const mockDirectory = structuredClone(currentDirectory);
+		this.applyFileUpload(mockDirectory, fileName, {
 			size: fileSize,
 			createdAt: new Date().toISOString(),
-			fileChunks: chunkIdArr
-		};
-
-		const mockDirectory = {
-			...currentDirectory,
-			contents: [...currentDirectory.contents, mockFileItem]
-		};
+			fileChunks: chunkIdArr,
+			formatVersion: ITEM_FORMAT_VERSION,
+			wrappedKey: 'x'.repeat(this.WRAPPED_KEY_LENGTH),
+			...(paddedSize ? { paddedSize } : {}),
+			chunkKeys: 'x'.repeat(this.getSealedChunkKeysLength(num_chunks)),
+			// Assume every chunk shrinks, the most the codecs can add
+			...(compressed
+				? { chunkCodecs: Array(num_chunks).fill('gzip'), savedBytes: fileSize }
+				: {})
+		});
 
 		const currentJsonString = JSON.stringify(currentDirectory);
 		const mockJsonString = JSON.stringify(mockDirectory);
 
-		const currentSize = new TextEncoder().encode(currentJsonString).length;
-		const mockSize = new TextEncoder().encode(mockJsonString).length;
+		// Directory chunks are stored padded, so growth is measured between size buckets
+		const currentSize = getPaddedLength(
+			new TextEncoder().encode(currentJsonString).length,
+			this.MIN_PADDED_SIZE
+		);
+		const mockSize = getPaddedLength(
+			new TextEncoder().encode(mockJsonString).length,
+			this.MIN_PADDED_SIZE
+		);
 
 		const sizeDifference = mockSize - currentSize;
 		const estimatedSize = sizeDifference + 32; // encryption overhead buffer
 
 		return Math.max(estimatedSize, 300);
 	}
+
+	/** Base64 length of sealed chunk keys: IV + 32 bytes per chunk + tag. */
+	private getSealedChunkKeysLength(chunkCount: number): number {
+		return 4 * Math.ceil((12 + 32 * chunkCount + 16) / 3);
+	}
 }
@@ -228,6 +228,11 @@ export class LoginComponent implements OnInit, OnDestroy {
 			});
 	}
 
+	/** Navigate to password reset page. */
+	goToForgotPassword() {
+		this.router.navigate(['/reset-password']);
+	}
+
 	/** Navigate to register route. */
 	goToRegister() {
 		this.router.navigate(['/register']);
@@ -6,6 +6,7 @@ import { AuthService } from '../auth.service';
 import { ValidationService, FormErrors } from '../validation.service';
 
 import { FormsModule } from '@angular/forms';
+import { RecoveryKeyComponent } from '../utils/recovery-key.component';
 import { Subject, debounceTime, distinctUntilChanged } from 'rxjs';
 import {
 	getFieldErrors,
@@ -19,7 +20,7 @@ import {
 @Component({
 	selector: 'app-register',
 	standalone: true,
-	imports: [FormsModule],
+	imports: [FormsModule, RecoveryKeyComponent],
 	templateUrl: './register.component.html'
 })
 /** User registration component with validation + password strength UI. */
@@ -39,6 +40,10 @@ export class RegisterComponent implements OnDestroy {
 	errorMessage: string = '';
 	successMessage: string = '';
 
+	// Recovery key shown once after registration
+	recoveryKey: string = '';
+	registeredEmail: string = '';
+
 	// Password strength
 	passwordStrength: 'weak' | 'fair' | 'good' | 'strong' = 'weak';
 	showPasswordRequirements: boolean = false;
@@ -228,6 +233,8 @@ export class RegisterComponent implements OnDestroy {
 							response.message || 'Registration successful! Redirecting to login...';
 						this.errorMessage = '';
 
+						const registeredEmail = this.email;
+
 						// Clear form
 						this.name = '';
 						this.email = '';
@@ -236,13 +243,16 @@ export class RegisterComponent implements OnDestroy {
 						this.errors = {};
 						this.touched = {};
 
-						// Navigate to login after successful registration
-						this.router.navigate(['/login'], {
-							queryParams: {
-								message:
-									'Registration successful! Please log in with your new account.'
-							}
-						});
+						// Keep the recovery key on screen until the user has saved it
+						if (response.recoveryKey) {
+							this.recoveryKey = response.recoveryKey;
+							this.registeredEmail = registeredEmail;
+							this.successMessage =
+								'Registration successful! Save your recovery key before continuing.';
+							return;
+						}
+
+						this.continueToLogin();
 					} else {
 						this.errorMessage =
 							response.message || 'Registration failed. Please try again.';
@@ -273,6 +283,16 @@ export class RegisterComponent implements OnDestroy {
 			});
 	}
 
+	/** Navigate to login after successful registration. */
+	continueToLogin() {
+		this.recoveryKey = '';
+		this.router.navigate(['/login'], {
+			queryParams: {
+				message: 'Registration successful! Please log in with your new account.'
+			}
+		});
+	}
+
 	/** Navigate to login page. */
 	goToLogin() {
 		this.router.navigate(['/login']);
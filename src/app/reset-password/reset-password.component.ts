@@ -0,0 +1,116 @@
+// File: src/app/reset-password/reset-password.component.ts - Forgot password request & recovery key reset.
+
+import { Component, OnInit } from '@angular/core';
+import { Router, ActivatedRoute } from '@angular/router';
+import { AuthService } from '../auth.service';
+import { ValidationService } from '../validation.service';
+
+import { FormsModule } from '@angular/forms';
+
+@Component({
+	selector: 'app-reset-password',
+	standalone: true,
+	imports: [FormsModule],
+	templateUrl: './reset-password.component.html'
+})
+/** Requests a reset email, then resets the password with the emailed token + recovery key. */
+export class ResetPasswordComponent implements OnInit {
+	// Reset token from the emailed link (empty while requesting the email)
+	token: string = '';
+
+	email: string = '';
+	recoveryKey: string = '';
+	newPassword: string = '';
+	confirmPassword: string = '';
+
+	isSubmitting: boolean = false;
+	errorMessage: string = '';
+	successMessage: string = '';
+
+	constructor(
+		private authService: AuthService,
+		private router: Router,
+		private route: ActivatedRoute,
+		private validationService: ValidationService
+	) {}
+
+	ngOnInit() {
+		this.route.queryParams.subscribe(params => {
+			this.token = params['token'] || '';
+		});
+	}
+
+	/** Ask the server to email a reset link. */
+	onRequestReset() {
+		this.errorMessage = '';
+		this.successMessage = '';
+
+		this.email = this.validationService.sanitizeInput(this.email);
+		const emailValidation = this.validationService.validateEmail(this.email);
+		if (!emailValidation.isValid) {
+			this.errorMessage = emailValidation.message!;
+			return;
+		}
+
+		this.isSubmitting = true;
+		this.authService.requestPasswordReset(this.email.toLowerCase().trim()).subscribe({
+			next: response => {
+				this.isSubmitting = false;
+				this.successMessage =
+					response.message ||
+					'If an account with a recovery key exists, a reset link has been sent.';
+			},
+			error: error => {
+				this.isSubmitting = false;
+				this.errorMessage =
+					error.error?.message || 'Could not send the reset email. Please try again.';
+			}
+		});
+	}
+
+	/** Reset the password with the recovery key. */
+	async onResetPassword() {
+		this.errorMessage = '';
+		this.successMessage = '';
+
+		if (!this.recoveryKey.trim()) {
+			this.errorMessage = 'Recovery key is required';
+			return;
+		}
+		const passwordValidation = this.validationService.validatePassword(this.newPassword);
+		if (!passwordValidation.isValid) {
+			this.errorMessage = passwordValidation.message!;
+			return;
+		}
+		const confirmValidation = this.validationService.validatePasswordConfirmation(
+			this.newPassword,
+			this.confirmPassword
+		);
+		if (!confirmValidation.isValid) {
+			this.errorMessage = confirmValidation.message!;
+			return;
+		}
+
+		this.isSubmitting = true;
+		try {
+			await this.authService.resetPassword(this.token, this.recoveryKey, this.newPassword);
+			this.router.navigate(['/login'], {
+				queryParams: {
+					message: 'Password reset successful! Please log in with your new password.'
+				}
+			});
+		} catch (error: any) {
+			this.errorMessage =
+				error.error?.message || error.message || 'Password reset failed. Please try again.';
+		} finally {
+			this.isSubmitting = false;
+			this.newPassword = '';
+			this.confirmPassword = '';
+		}
+	}
+
+	/** Navigate to login page. */
+	goToLogin() {
+		this.router.navigate(['/login']);
+	}
+}
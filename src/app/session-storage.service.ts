@@ -2,11 +2,14 @@
 
 import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
 import { isPlatformBrowser } from '@angular/common';
+import { KdfParams } from './crypto.service';
 
 interface SessionData {
 	timestamp: number;
 	encryptedPassword: string;
 	salt: string;
+	wrappedMasterKey?: string;
+	kdfParams?: KdfParams;
 	sessionId: string;
 }
 
@@ -68,7 +71,12 @@ export class SessionStorageService {
 	}
 
 	/** Store encrypted credentials for active session. */
-	async storeCredentials(password: string, salt: string): Promise<void> {
+	async storeCredentials(
+		password: string,
+		salt: string,
+		wrappedMasterKey?: string,
+		kdfParams?: KdfParams
+	): Promise<void> {
 		if (!this.isBrowser()) return;
 
 		await this.ensureSession();
@@ -78,6 +86,8 @@ export class SessionStorageService {
 			timestamp: Date.now(),
 			encryptedPassword,
 			salt,
+			wrappedMasterKey,
+			kdfParams,
 			sessionId: this.currentSessionId!
 		};
 
@@ -88,6 +98,8 @@ export class SessionStorageService {
 	async retrieveCredentials(): Promise<{
 		password: string;
 		salt: string;
+		wrappedMasterKey?: string;
+		kdfParams?: KdfParams;
 	} | null> {
 		if (!this.isBrowser()) return null;
 
@@ -107,7 +119,12 @@ export class SessionStorageService {
 
 		try {
 			const password = await this.decryptData(sessionData.encryptedPassword);
-			return { password, salt: sessionData.salt };
+			return {
+				password,
+				salt: sessionData.salt,
+				wrappedMasterKey: sessionData.wrappedMasterKey,
+				kdfParams: sessionData.kdfParams
+			};
 		} catch (error) {
 			this.clearCredentials();
 			return null;
@@ -132,6 +149,14 @@ export class SessionStorageService {
 		return data ? this.isSessionValid(data) : false;
 	}
 
+	/** AES-GCM key of the active session, for other in-browser caches (null outside the browser). */
+	async getSessionKey(): Promise<CryptoKey | null> {
+		if (!this.isBrowser()) return null;
+
+		await this.ensureSession();
+		return this.sessionKey;
+	}
+
 	/** Internal encryption helper (AES-GCM). */
 	private async encryptData(data: string): Promise<string> {
 		if (!this.sessionKey) throw new Error('No session key available');
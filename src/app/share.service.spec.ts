@@ -0,0 +1,138 @@
+// File: src/app/share.service.spec.ts - Tests ShareService unlock & share-scoped download flow
+import { TestBed } from '@angular/core/testing';
+import { HttpClient } from '@angular/common/http';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { ShareService } from './share.service';
+import { AuthService } from './auth.service';
+import { CryptoService } from './crypto.service';
+import { ITEM_FORMAT_VERSION, getFileChunkAad } from './file.service';
+import { base64ToUint8Array, uint8ArrayToBase64Url } from './utils/utils';
+
+class AuthServiceStub {
+	getApiUrl() {
+		return 'https://api.test.com';
+	}
+}
+
+// Read a Blob through FileReader (no Blob.arrayBuffer() in jsdom)
+function readBlobText(blob: Blob): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsText(blob);
+	});
+}
+
+describe('ShareService', () => {
+	// Suite: a recipient opens a link with real crypto and downloads through share sessions
+	let service: ShareService;
+	let crypto: CryptoService;
+	let httpMock: HttpTestingController;
+	const apiUrl = 'https://api.test.com';
+
+	beforeEach(() => {
+		TestBed.configureTestingModule({
+			imports: [HttpClientTestingModule],
+			providers: [
+				HttpClient,
+				CryptoService,
+				{ provide: AuthService, useClass: AuthServiceStub },
+				{
+					provide: ShareService,
+					useFactory: (
+						http: HttpClient,
+						auth: AuthService,
+						cryptoService: CryptoService
+					) => new ShareService(http, auth, cryptoService),
+					deps: [HttpClient, AuthService, CryptoService]
+				}
+			]
+		});
+
+		service = TestBed.inject(ShareService);
+		crypto = TestBed.inject(CryptoService);
+		httpMock = TestBed.inject(HttpTestingController);
+	});
+
+	afterEach(() => {
+		httpMock.verify();
+	});
+
+	it('maps the public share summary', async () => {
+		const promise = service.getShareInfo('abc');
+		httpMock.expectOne(`${apiUrl}/shares/abc`).flush({
+			success: true,
+			data: { requires_password: true, expires_at: null, downloads_remaining: 2 }
+		});
+
+		expect(await promise).toEqual({
+			requiresPassword: true,
+			expiresAt: null,
+			downloadsRemaining: 2
+		});
+	});
+
+	it('unlocks a share with the link fragment and downloads its chunks', async () => {
+		// Owner side: one chunk under its content key, which the manifest seals with the data key
+		const dataKey = await crypto.generateDataKey();
+		const chunkKey = await crypto.deriveChunkKey('content-hash', crypto.generateHashKey());
+		const chunkId = 'chunk-a';
+		const { encryptedData, iv } = await crypto.encryptData(
+			new TextEncoder().encode('shared content').buffer,
+			undefined,
+			await crypto.importChunkKey(chunkKey),
+			getFileChunkAad(ITEM_FORMAT_VERSION, chunkId, 0)
+		);
+		const stored = new Uint8Array(12 + encryptedData.byteLength);
+		stored.set(iv);
+		stored.set(new Uint8Array(encryptedData), 12);
+		const manifest = {
+			name: 'notes.txt',
+			size: 14,
+			formatVersion: ITEM_FORMAT_VERSION,
+			fileChunks: [chunkId],
+			chunkKeys: await crypto.sealChunkKeys([chunkKey], dataKey)
+		};
+		const { shareKey, wrappedDataKey } = await crypto.createShareKey(dataKey);
+		const encryptedManifest = await crypto.encryptText(JSON.stringify(manifest), dataKey);
+		const fragment = uint8ArrayToBase64Url(base64ToUint8Array(wrappedDataKey));
+
+		const openPromise = service.openShare('abc', fragment, 'secret');
+		const access = httpMock.expectOne(`${apiUrl}/shares/abc/access`);
+		expect(access.request.body).toEqual({ password: 'secret' });
+		access.flush({
+			success: true,
+			data: {
+				token: 'share-token',
+				share_key: shareKey,
+				encrypted_manifest: encryptedManifest
+			}
+		});
+		const opened = await openPromise;
+		expect(opened.manifest).toEqual(manifest);
+
+		const downloadPromise = service.downloadShare(opened);
+		const sessionUrl = `${apiUrl}/shares/abc/chunks/${chunkId}/download-sessions`;
+		const session = await vi.waitFor(() =>
+			httpMock.expectOne(req => req.method === 'POST' && req.url === sessionUrl)
+		);
+		expect(session.request.headers.get('Authorization')).toBe('Bearer share-token');
+		session.flush({
+			success: true,
+			data: { downloadUrl: 'https://r2.test/object', temporaryObjectName: 'temp-object' }
+		});
+		(await vi.waitFor(() => httpMock.expectOne('https://r2.test/object'))).flush(stored.buffer);
+		const cleanup = await vi.waitFor(() =>
+			httpMock.expectOne(req => req.method === 'DELETE' && req.url === sessionUrl)
+		);
+		expect(cleanup.request.body).toEqual({ temporaryObjectName: 'temp-object' });
+		cleanup.flush({ success: true });
+
+		expect(await readBlobText(await downloadPromise)).toBe('shared content');
+	});
+
+	it('refuses links without the key fragment', async () => {
+		await expect(service.openShare('abc', '')).rejects.toThrow('missing its key');
+	});
+});
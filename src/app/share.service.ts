@@ -0,0 +1,137 @@
+// File: src/app/share.service.ts - Recipient side of share links: open, unlock & download a shared file.
+
+import { Injectable } from '@angular/core';
+import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { AuthService } from './auth.service';
+import { CryptoService } from './crypto.service';
+import { ShareManifest, getFileChunkAad } from './file.service';
+import { base64UrlToUint8Array, uint8ArrayToBase64 } from './utils/utils';
+import { decompressData } from './utils/compression';
+
+export interface ShareInfo {
+	requiresPassword: boolean;
+	expiresAt: string | null;
+	downloadsRemaining: number | null; // null: no download limit
+}
+
+// An unlocked share: the decrypted manifest plus what is needed to fetch its chunks
+export interface OpenedShare {
+	shareId: string;
+	token: string;
+	dataKey: CryptoKey;
+	manifest: ShareManifest;
+}
+
+@Injectable({ providedIn: 'root' })
+/** Opens share links without an account; the data key never leaves the link fragment. */
+export class ShareService {
+	private apiUrl: string;
+
+	constructor(
+		private http: HttpClient,
+		private authService: AuthService,
+		private cryptoService: CryptoService
+	) {
+		this.apiUrl = this.authService.getApiUrl();
+	}
+
+	/** Public summary of a share (throws with the server message if it is gone). */
+	async getShareInfo(shareId: string): Promise<ShareInfo> {
+		const response = await firstValueFrom(
+			this.http.get<any>(`${this.apiUrl}/shares/${shareId}`)
+		);
+		return {
+			requiresPassword: response.data.requires_password,
+			expiresAt: response.data.expires_at,
+			downloadsRemaining: response.data.downloads_remaining
+		};
+	}
+
+	/** Unlock a share with the link fragment (and password); counts as one download. */
+	async openShare(shareId: string, fragment: string, password?: string): Promise<OpenedShare> {
+		if (!fragment) {
+			throw new Error('The share link is missing its key; copy the whole link');
+		}
+
+		const response = await firstValueFrom(
+			this.http.post<any>(`${this.apiUrl}/shares/${shareId}/access`, { password })
+		);
+		const dataKey = await this.cryptoService.unwrapShareKey(
+			uint8ArrayToBase64(base64UrlToUint8Array(fragment)),
+			response.data.share_key
+		);
+		const manifest: ShareManifest = JSON.parse(
+			await this.cryptoService.decryptText(response.data.encrypted_manifest, dataKey)
+		);
+
+		return { shareId, token: response.data.token, dataKey, manifest };
+	}
+
+	/** Download and decrypt every chunk of an opened share. */
+	async downloadShare(
+		share: OpenedShare,
+		onProgress?: (chunksDownloaded: number, totalChunks: number) => void
+	): Promise<Blob> {
+		const { size, fileChunks, formatVersion, chunkKeys, chunkCodecs } = share.manifest;
+		const decryptedChunks: ArrayBuffer[] = [];
+		// Format 4 chunks each have their own key, sealed under the data key
+		const keys = chunkKeys
+			? await this.cryptoService.openChunkKeys(chunkKeys, share.dataKey)
+			: fileChunks.map(() => share.dataKey);
+
+		for (let index = 0; index < fileChunks.length; index++) {
+			const data = await this.downloadChunk(
+				share,
+				fileChunks[index],
+				keys[index],
+				getFileChunkAad(formatVersion, fileChunks[index], index)
+			);
+			// Chunks compressed before encryption are decompressed once decrypted
+			const codec = chunkCodecs?.[index];
+			decryptedChunks.push(
+				codec
+					? ((await decompressData(new Uint8Array(data), codec)).buffer as ArrayBuffer)
+					: data
+			);
+			onProgress?.(index + 1, fileChunks.length);
+		}
+
+		// The last chunk may be zero-padded past the file size
+		return new Blob(decryptedChunks).slice(0, size);
+	}
+
+	/** One chunk through a share-scoped download session. */
+	private async downloadChunk(
+		share: OpenedShare,
+		chunkId: string,
+		key: CryptoKey,
+		associatedData?: Uint8Array
+	): Promise<ArrayBuffer> {
+		const sessionUrl = `${this.apiUrl}/shares/${share.shareId}/chunks/${chunkId}/download-sessions`;
+		const headers = new HttpHeaders({ Authorization: `Bearer ${share.token}` });
+
+		const session = await firstValueFrom(this.http.post<any>(sessionUrl, {}, { headers }));
+		const { downloadUrl, temporaryObjectName } = session.data;
+		try {
+			const encrypted = new Uint8Array(
+				await firstValueFrom(this.http.get(downloadUrl, { responseType: 'arraybuffer' }))
+			);
+			if (encrypted.length < 12) {
+				throw new Error('Downloaded data is too short to be valid.');
+			}
+			return await this.cryptoService.decryptData(
+				encrypted.slice(12),
+				encrypted.slice(0, 12),
+				key,
+				associatedData
+			);
+		} finally {
+			await firstValueFrom(
+				this.http.delete(sessionUrl, { headers, body: { temporaryObjectName } })
+			).catch(error =>
+				console.warn(`Failed to cleanup temporary object ${temporaryObjectName}:`, error)
+			);
+		}
+	}
+}
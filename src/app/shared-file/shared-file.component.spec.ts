@@ -0,0 +1,71 @@
+// File: src/app/shared-file/shared-file.component.spec.ts - Tests SharedFileComponent load & download flow
+import { SharedFileComponent } from './shared-file.component';
+
+class ActivatedRouteStub {
+	snapshot = {
+		paramMap: { get: (key: string) => (key === 'shareId' ? 'abc' : null) },
+		fragment: 'wrapped-key'
+	};
+}
+class ShareServiceStub {
+	public openArgs: any[] | null = null;
+	constructor(private info: any) {}
+	async getShareInfo() {
+		if (!this.info) {
+			throw { error: { message: 'This link has expired or was revoked' } };
+		}
+		return this.info;
+	}
+	async openShare(...args: any[]) {
+		this.openArgs = args;
+		return { manifest: { name: 'notes.txt' } };
+	}
+	async downloadShare(_share: any, onProgress: (done: number, total: number) => void) {
+		onProgress(1, 1);
+		return new Blob(['x']);
+	}
+}
+
+describe('SharedFileComponent (unit)', () => {
+	// Suite: loads the public summary and unlocks the share with the fragment + password
+	beforeEach(() => {
+		(window.URL as any).createObjectURL = vi.fn(() => 'blob:share');
+		(window.URL as any).revokeObjectURL = vi.fn();
+		vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => undefined);
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('shows why an unavailable link cannot be opened', async () => {
+		const comp = new SharedFileComponent(
+			new ActivatedRouteStub() as any,
+			new ShareServiceStub(null) as any
+		);
+		await comp.ngOnInit();
+		expect(comp.info).toBeNull();
+		expect(comp.errorMessage).toContain('expired');
+	});
+
+	it('requires the password before opening, then downloads with the fragment', async () => {
+		const shares = new ShareServiceStub({
+			requiresPassword: true,
+			expiresAt: null,
+			downloadsRemaining: 2
+		});
+		const comp = new SharedFileComponent(new ActivatedRouteStub() as any, shares as any);
+		await comp.ngOnInit();
+
+		await comp.onDownload();
+		expect(shares.openArgs).toBeNull();
+		expect(comp.errorMessage).toBe('Password is required');
+
+		comp.password = 'secret';
+		await comp.onDownload();
+		expect(shares.openArgs).toEqual(['abc', 'wrapped-key', 'secret']);
+		expect(comp.downloadedName).toBe('notes.txt');
+		expect(comp.progress).toBe(100);
+		expect(comp.info!.downloadsRemaining).toBe(1);
+	});
+});
@@ -0,0 +1,83 @@
+// File: src/app/shared-file/shared-file.component.ts - Public page that opens a share link & downloads the file.
+
+import { Component, OnInit } from '@angular/core';
+import { ActivatedRoute } from '@angular/router';
+import { FormsModule } from '@angular/forms';
+import { ShareInfo, ShareService } from '../share.service';
+import { formatDate } from '../utils/utils';
+import { downloadBlob } from '../utils/file-utils';
+
+@Component({
+	selector: 'app-shared-file',
+	standalone: true,
+	imports: [FormsModule],
+	templateUrl: './shared-file.component.html'
+})
+/** Downloads a shared file in the browser; the key comes from the link fragment, never the server. */
+export class SharedFileComponent implements OnInit {
+	shareId: string = '';
+	// Wrapped data key from the part of the link after '#'
+	private fragment: string = '';
+
+	info: ShareInfo | null = null;
+	password: string = '';
+	downloadedName: string = '';
+	progress: number = 0;
+
+	isLoading: boolean = true;
+	isDownloading: boolean = false;
+	errorMessage: string = '';
+
+	public formatDate = formatDate;
+
+	constructor(
+		private route: ActivatedRoute,
+		private shareService: ShareService
+	) {}
+
+	async ngOnInit() {
+		this.shareId = this.route.snapshot.paramMap.get('shareId') || '';
+		this.fragment = this.route.snapshot.fragment || '';
+
+		try {
+			this.info = await this.shareService.getShareInfo(this.shareId);
+		} catch (error: any) {
+			this.errorMessage = error.error?.message || 'This link has expired or was revoked';
+		} finally {
+			this.isLoading = false;
+		}
+	}
+
+	/** Unlock the share, then download and decrypt the file. */
+	async onDownload() {
+		this.errorMessage = '';
+		if (this.info?.requiresPassword && !this.password) {
+			this.errorMessage = 'Password is required';
+			return;
+		}
+
+		this.isDownloading = true;
+		this.progress = 0;
+		try {
+			const opened = await this.shareService.openShare(
+				this.shareId,
+				this.fragment,
+				this.info?.requiresPassword ? this.password : undefined
+			);
+			const blob = await this.shareService.downloadShare(opened, (done, total) => {
+				this.progress = Math.round((done / total) * 100);
+			});
+			downloadBlob(blob, opened.manifest.name);
+			this.downloadedName = opened.manifest.name;
+			if (this.info && this.info.downloadsRemaining !== null) {
+				this.info.downloadsRemaining = Math.max(this.info.downloadsRemaining - 1, 0);
+			}
+		} catch (error: any) {
+			this.errorMessage =
+				error.error?.message || error.message || 'Download failed. Please try again.';
+		} finally {
+			this.isDownloading = false;
+			this.password = '';
+		}
+	}
+}
@@ -0,0 +1,174 @@
+// File: src/app/shared-folder.service.spec.ts - Tests SharedFolderService key sealing across create, list & grant
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { SharedFolderService } from './shared-folder.service';
+import { AuthService } from './auth.service';
+import { CryptoService } from './crypto.service';
+
+class AuthServiceStub {
+	getApiUrl() {
+		return 'https://api.test.com';
+	}
+	getAuthHeaders() {
+		return new HttpHeaders({ Authorization: 'Bearer t' });
+	}
+}
+
+describe('SharedFolderService', () => {
+	// Suite: real crypto; the server only ever sees sealed keys and encrypted names
+	let service: SharedFolderService;
+	let crypto: CryptoService;
+	let httpMock: HttpTestingController;
+	const apiUrl = 'https://api.test.com';
+
+	beforeEach(async () => {
+		TestBed.configureTestingModule({
+			imports: [HttpClientTestingModule],
+			providers: [
+				HttpClient,
+				CryptoService,
+				{ provide: AuthService, useClass: AuthServiceStub },
+				{
+					provide: SharedFolderService,
+					useFactory: (
+						http: HttpClient,
+						auth: AuthService,
+						cryptoService: CryptoService
+					) => new SharedFolderService(http, auth, cryptoService),
+					deps: [HttpClient, AuthService, CryptoService]
+				}
+			]
+		});
+
+		service = TestBed.inject(SharedFolderService);
+		crypto = TestBed.inject(CryptoService);
+		httpMock = TestBed.inject(HttpTestingController);
+		await crypto.generateMasterKey('password123', crypto.generateSalt());
+	});
+
+	afterEach(() => {
+		httpMock.verify();
+	});
+
+	const flushKeyPair = async (keyPair: { publicKey: string; wrappedPrivateKey: string }) => {
+		(await vi.waitFor(() => httpMock.expectOne(`${apiUrl}/key-pair`))).flush({
+			success: true,
+			data: { public_key: keyPair.publicKey, wrapped_private_key: keyPair.wrappedPrivateKey }
+		});
+	};
+
+	it('creates a folder sealed to the owner and lists it with the name decrypted', async () => {
+		const keyPair = await crypto.generateUserKeyPair();
+
+		const createPromise = service.createFolder('node-1', 'Team');
+		await flushKeyPair(keyPair);
+		const create = await vi.waitFor(() => httpMock.expectOne(`${apiUrl}/shared-folders`));
+		const body = create.request.body;
+		expect(body.nodeId).toBe('node-1');
+		expect(body.encryptedName).not.toContain('Team');
+		create.flush({ success: true, data: { folder_id: 'folder-1' } });
+		expect(await createPromise).toEqual({ success: true, folderId: 'folder-1' });
+
+		const listPromise = service.listFolders();
+		httpMock.expectOne(`${apiUrl}/shared-folders`).flush({
+			success: true,
+			data: {
+				folders: [
+					{
+						folder_id: 'folder-1',
+						node_id: 'node-1',
+						root_chunk_id: body.rootChunkId,
+						encrypted_name: body.encryptedName,
+						role: 'owner',
+						sealed_key: body.sealedKey,
+						owner: { name: 'Owner', email: 'owner@example.com' },
+						members: [
+							{
+								user_id: 'u1',
+								name: 'Owner',
+								email: 'owner@example.com',
+								role: 'owner'
+							}
+						]
+					}
+				]
+			}
+		});
+		await flushKeyPair(keyPair);
+
+		const [folder] = await listPromise;
+		expect(folder.name).toBe('Team');
+		expect(folder.key).toBeTruthy();
+		expect(folder.members).toEqual([
+			{ userId: 'u1', name: 'Owner', email: 'owner@example.com', role: 'owner' }
+		]);
+	});
+
+	it('grants access by sealing the folder key to the member', async () => {
+		const folderKey = await crypto.generateFolderKey();
+		const member = await crypto.generateUserKeyPair();
+		const folder = {
+			folderId: 'folder-1',
+			nodeId: 'node-1',
+			rootChunkId: 'root',
+			name: 'Team',
+			role: 'owner' as const,
+			ownerName: 'Owner',
+			ownerEmail: 'owner@example.com',
+			key: folderKey
+		};
+
+		const grantPromise = service.grantAccess(folder, 'member@example.com', 'write');
+		const lookup = httpMock.expectOne(req => req.url === `${apiUrl}/users/public-key`);
+		expect(lookup.request.params.get('email')).toBe('member@example.com');
+		lookup.flush({ success: true, data: { public_key: member.publicKey } });
+		const grant = await vi.waitFor(() =>
+			httpMock.expectOne(`${apiUrl}/shared-folders/folder-1/members`)
+		);
+		expect(grant.request.body.role).toBe('write');
+		// Only the member's private key opens it
+		const opened = await crypto.openSealedKey(
+			grant.request.body.sealedKey,
+			member.wrappedPrivateKey
+		);
+		const name = await crypto.encryptText('check', folderKey);
+		expect(await crypto.decryptText(name, opened)).toBe('check');
+		grant.flush({
+			success: true,
+			data: { user_id: 'u2', name: 'Member', email: 'member@example.com', role: 'write' }
+		});
+
+		expect((await grantPromise).member).toEqual({
+			userId: 'u2',
+			name: 'Member',
+			email: 'member@example.com',
+			role: 'write'
+		});
+	});
+
+	it('reports a missing account instead of throwing', async () => {
+		const folder = {
+			folderId: 'folder-1',
+			nodeId: 'node-1',
+			rootChunkId: 'root',
+			name: 'Team',
+			role: 'owner' as const,
+			ownerName: 'Owner',
+			ownerEmail: 'owner@example.com',
+			key: await crypto.generateFolderKey()
+		};
+
+		const grantPromise = service.grantAccess(folder, 'nobody@example.com', 'read');
+		httpMock
+			.expectOne(req => req.url === `${apiUrl}/users/public-key`)
+			.flush(
+				{ success: false, message: 'No account with sharing enabled uses this email' },
+				{ status: 404, statusText: 'Not Found' }
+			);
+
+		const result = await grantPromise;
+		expect(result.success).toBe(false);
+		expect(result.message).toContain('No account with sharing enabled');
+	});
+});
@@ -0,0 +1,234 @@
+// File: src/app/shared-folder.service.ts - Shared folders: create, list, grant & revoke access, leave.
+
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { AuthService } from './auth.service';
+import { CryptoService } from './crypto.service';
+
+export type SharedFolderRole = 'owner' | 'write' | 'read';
+
+export interface SharedFolderMember {
+	userId: string;
+	name: string;
+	email: string;
+	role: SharedFolderRole;
+}
+
+// A folder the user owns or was granted, with its folder key opened (null if unreadable)
+export interface SharedFolder {
+	folderId: string;
+	nodeId: string;
+	rootChunkId: string;
+	name: string;
+	role: SharedFolderRole;
+	ownerName: string;
+	ownerEmail: string;
+	key: CryptoKey | null;
+	members?: SharedFolderMember[]; // owners only
+}
+
+@Injectable({ providedIn: 'root' })
+/**
+ * Shared folders: the folder key is sealed to each member's public key, so the server only
+ * ever stores sealed copies and decides which chunks a member may reach.
+ */
+export class SharedFolderService {
+	private apiUrl: string;
+
+	constructor(
+		private http: HttpClient,
+		private authService: AuthService,
+		private cryptoService: CryptoService
+	) {
+		this.apiUrl = this.authService.getApiUrl();
+	}
+
+	/** Folders the user owns or was granted, with names decrypted. */
+	async listFolders(): Promise<SharedFolder[]> {
+		const response = await firstValueFrom(
+			this.http.get<any>(`${this.apiUrl}/shared-folders`, {
+				headers: this.authService.getAuthHeaders()
+			})
+		);
+		if (response.data.folders.length === 0) {
+			return [];
+		}
+		const { wrappedPrivateKey } = await this.getKeyPair();
+
+		return await Promise.all(
+			response.data.folders.map(async (folder: any) => {
+				const key = wrappedPrivateKey
+					? await this.cryptoService
+							.openSealedKey(folder.sealed_key, wrappedPrivateKey)
+							.catch(() => null)
+					: null;
+				return {
+					folderId: folder.folder_id,
+					nodeId: folder.node_id,
+					rootChunkId: folder.root_chunk_id,
+					name: key
+						? await this.cryptoService
+								.decryptText(folder.encrypted_name, key)
+								.catch(() => 'Unreadable name')
+						: 'Unreadable name',
+					role: folder.role,
+					ownerName: folder.owner.name,
+					ownerEmail: folder.owner.email,
+					key,
+					members: folder.members?.map((member: any) => ({
+						userId: member.user_id,
+						name: member.name,
+						email: member.email,
+						role: member.role
+					}))
+				};
+			})
+		);
+	}
+
+	/** Create a shared folder on one of the user's nodes; its root is written on first open. */
+	async createFolder(
+		nodeId: string,
+		name: string
+	): Promise<{ success: boolean; message?: string; folderId?: string }> {
+		try {
+			const { publicKey } = await this.getKeyPair();
+			if (!publicKey) {
+				throw new Error('Sharing is not set up for this account yet; log in again');
+			}
+
+			const folderKey = await this.cryptoService.generateFolderKey();
+			const response = await firstValueFrom(
+				this.http.post<any>(
+					`${this.apiUrl}/shared-folders`,
+					{
+						nodeId,
+						rootChunkId: this.cryptoService.generateUUID(),
+						encryptedName: await this.cryptoService.encryptText(name, folderKey),
+						sealedKey: await this.cryptoService.sealKey(folderKey, publicKey)
+					},
+					{ headers: this.authService.getAuthHeaders() }
+				)
+			);
+			return { success: true, folderId: response.data.folder_id };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error creating shared folder: ${error.error?.message || error.message || error}`
+			};
+		}
+	}
+
+	/** Grant (or change) another account's access by sealing the folder key to them. */
+	async grantAccess(
+		folder: SharedFolder,
+		email: string,
+		role: 'read' | 'write'
+	): Promise<{ success: boolean; message?: string; member?: SharedFolderMember }> {
+		try {
+			if (!folder.key) {
+				throw new Error('The folder key could not be opened');
+			}
+
+			const lookup = await firstValueFrom(
+				this.http.get<any>(`${this.apiUrl}/users/public-key`, {
+					headers: this.authService.getAuthHeaders(),
+					params: { email }
+				})
+			);
+			const response = await firstValueFrom(
+				this.http.post<any>(
+					`${this.apiUrl}/shared-folders/${folder.folderId}/members`,
+					{
+						email,
+						role,
+						sealedKey: await this.cryptoService.sealKey(
+							folder.key,
+							lookup.data.public_key
+						)
+					},
+					{ headers: this.authService.getAuthHeaders() }
+				)
+			);
+			return {
+				success: true,
+				member: {
+					userId: response.data.user_id,
+					name: response.data.name,
+					email: response.data.email,
+					role: response.data.role
+				}
+			};
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error granting access: ${error.error?.message || error.message || error}`
+			};
+		}
+	}
+
+	/**
+	 * Revoke a member. The folder key is not rotated: the server stops serving the folder's
+	 * chunks to them, but anything they already downloaded stays readable to them.
+	 */
+	async revokeAccess(
+		folder: SharedFolder,
+		userId: string
+	): Promise<{ success: boolean; message?: string }> {
+		return await this.remove(
+			`${this.apiUrl}/shared-folders/${folder.folderId}/members/${userId}`,
+			'revoking access'
+		);
+	}
+
+	/** Leave a folder shared with the user. */
+	async leaveFolder(folder: SharedFolder): Promise<{ success: boolean; message?: string }> {
+		return await this.remove(
+			`${this.apiUrl}/shared-folders/${folder.folderId}/membership`,
+			'leaving folder'
+		);
+	}
+
+	/** Stop sharing a folder; its chunks are left for the owner's orphan cleanup. */
+	async deleteFolder(folder: SharedFolder): Promise<{ success: boolean; message?: string }> {
+		return await this.remove(
+			`${this.apiUrl}/shared-folders/${folder.folderId}`,
+			'deleting shared folder'
+		);
+	}
+
+	/** DELETE helper reporting failures as `Error <action>: ...`. */
+	private async remove(
+		url: string,
+		action: string
+	): Promise<{ success: boolean; message?: string }> {
+		try {
+			await firstValueFrom(
+				this.http.delete(url, { headers: this.authService.getAuthHeaders() })
+			);
+			return { success: true };
+		} catch (error: any) {
+			return {
+				success: false,
+				message: `Error ${action}: ${error.error?.message || error.message || error}`
+			};
+		}
+	}
+
+	/** The account's key pair (the private half stays wrapped by the master key). */
+	private async getKeyPair(): Promise<{
+		publicKey: string | null;
+		wrappedPrivateKey: string | null;
+	}> {
+		const response = await firstValueFrom(
+			this.http.get<any>(`${this.apiUrl}/key-pair`, {
+				headers: this.authService.getAuthHeaders()
+			})
+		);
+		return {
+			publicKey: response.data.public_key,
+			wrappedPrivateKey: response.data.wrapped_private_key
+		};
+	}
+}
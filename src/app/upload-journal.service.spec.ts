@@ -0,0 +1,102 @@
+// File: src/app/upload-journal.service.spec.ts - Tests UploadJournalService storage, keys, file matching and fallbacks
+import { TestBed } from '@angular/core/testing';
+import { PLATFORM_ID } from '@angular/core';
+import { UploadJournalService, UploadJournalEntry } from './upload-journal.service';
+
+describe('UploadJournalService', () => {
+	// Suite: entry identity helpers and no-op behaviour without IndexedDB
+	const entry: UploadJournalEntry = {
+		id: 'node:dir:a.bin',
+		nodeId: 'node',
+		directoryChunkId: 'dir',
+		directoryPath: '/',
+		fileName: 'a.bin',
+		fileSize: 3,
+		lastModified: 1000,
+		chunkSize: 2,
+		totalChunks: 2,
+		completedChunks: { 0: 'chunk-0' },
+		updatedAt: '2024-01-01T00:00:00.000Z'
+	};
+
+	it('keys entries by node, target directory and file name', () => {
+		expect(UploadJournalService.getEntryId('node', 'dir', 'a.bin')).toBe('node:dir:a.bin');
+	});
+
+	it('matches a re-selected file by size and modification time', () => {
+		const same = new File([new Uint8Array(3)], 'renamed.bin', { lastModified: 1000 });
+		const edited = new File([new Uint8Array(3)], 'a.bin', { lastModified: 2000 });
+
+		expect(UploadJournalService.matchesFile(entry, same)).toBe(true);
+		expect(UploadJournalService.matchesFile(entry, edited)).toBe(false);
+	});
+
+	it('does nothing outside the browser', async () => {
+		TestBed.configureTestingModule({
+			providers: [UploadJournalService, { provide: PLATFORM_ID, useValue: 'server' }]
+		});
+		const service = TestBed.inject(UploadJournalService);
+
+		await service.saveEntry(entry);
+
+		expect(await service.getEntries('node')).toEqual([]);
+		expect(await service.getEntry(entry.id)).toBeNull();
+	});
+
+	describe('with a store', () => {
+		// Suite: an in-memory object store stands in for IndexedDB and outlives service instances
+		let records: Map<string, UploadJournalEntry>;
+
+		// A fresh instance over the same records, as after a page reload
+		const openJournal = () => {
+			const service = new UploadJournalService('browser');
+			const store = {
+				get: (id: string) => records.get(id),
+				put: (value: UploadJournalEntry) => records.set(value.id, value),
+				delete: (id: string) => records.delete(id),
+				index: () => ({
+					getAll: (nodeId: string) =>
+						[...records.values()].filter(value => value.nodeId === nodeId)
+				})
+			};
+			vi.spyOn(service as any, 'isAvailable').mockReturnValue(true);
+			vi.spyOn(service as any, 'runRequest').mockImplementation(async (...args: any[]) =>
+				args[1](store)
+			);
+			return service;
+		};
+
+		beforeEach(() => {
+			records = new Map();
+		});
+
+		it('keeps entries across a reload', async () => {
+			await openJournal().saveEntry(entry);
+
+			const restored = await openJournal().getEntry(entry.id);
+
+			expect(restored).toEqual({ ...entry, updatedAt: expect.any(String) });
+			expect(restored!.updatedAt).not.toBe(entry.updatedAt);
+		});
+
+		it('lists a node entries most recently touched first', async () => {
+			const journal = openJournal();
+			records.set('older', { ...entry, id: 'older', updatedAt: '2024-01-01T00:00:00.000Z' });
+			records.set('newer', { ...entry, id: 'newer', updatedAt: '2024-02-01T00:00:00.000Z' });
+			records.set('other', { ...entry, id: 'other', nodeId: 'node-b' });
+
+			const entries = await journal.getEntries('node');
+
+			expect(entries.map(value => value.id)).toEqual(['newer', 'older']);
+		});
+
+		it('forgets removed entries', async () => {
+			const journal = openJournal();
+			await journal.saveEntry(entry);
+
+			await journal.removeEntry(entry.id);
+
+			expect(await openJournal().getEntry(entry.id)).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,137 @@
+// File: src/app/upload-journal.service.ts - IndexedDB journal of in-progress uploads for resume.
+
+import { Injectable, Inject, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+
+export interface UploadJournalEntry {
+	id: string;
+	nodeId: string;
+	directoryChunkId: string;
+	directoryPath: string;
+	fileName: string;
+	sharedFolderId?: string; // shared folder the upload targets (absent for the user's own tree)
+	fileSize: number;
+	lastModified: number;
+	chunkSize: number; // largest chunk the file was cut into
+	totalChunks: number;
+	completedChunks: Record<number, string>; // chunk index -> stored chunk ID
+	wrappedKey?: string; // file data key wrapped by the master or folder key (absent on older entries)
+	formatVersion?: number; // item format the chunks are written in (absent = 2)
+	paddedSize?: number; // bytes stored once the last chunk is zero-padded (absent = unpadded)
+	compressedChunks?: Record<number, number>; // chunk index -> bytes gzip saved (absent = as is)
+	updatedAt: string;
+}
+
+@Injectable({
+	providedIn: 'root'
+})
+/** Persist upload progress so interrupted uploads can skip already stored chunks. */
+export class UploadJournalService {
+	private readonly DB_NAME = 'yourcloud-uploads';
+	private readonly STORE_NAME = 'uploads';
+	private dbPromise: Promise<IDBDatabase> | null = null;
+
+	constructor(@Inject(PLATFORM_ID) private platformId: Object) {}
+
+	/** Journal key for one file name in one target directory. */
+	static getEntryId(nodeId: string, directoryChunkId: string, fileName: string): string {
+		return `${nodeId}:${directoryChunkId}:${fileName}`;
+	}
+
+	/** Whether a selected file looks like the one the entry was started with. */
+	static matchesFile(entry: UploadJournalEntry, file: globalThis.File): boolean {
+		return entry.fileSize === file.size && entry.lastModified === file.lastModified;
+	}
+
+	private isAvailable(): boolean {
+		return isPlatformBrowser(this.platformId) && typeof indexedDB !== 'undefined';
+	}
+
+	private openDatabase(): Promise<IDBDatabase> {
+		if (!this.dbPromise) {
+			this.dbPromise = new Promise((resolve, reject) => {
+				const request = indexedDB.open(this.DB_NAME, 1);
+				request.onupgradeneeded = () => {
+					const store = request.result.createObjectStore(this.STORE_NAME, {
+						keyPath: 'id'
+					});
+					store.createIndex('nodeId', 'nodeId');
+				};
+				request.onsuccess = () => resolve(request.result);
+				request.onerror = () => {
+					this.dbPromise = null;
+					reject(request.error);
+				};
+			});
+		}
+		return this.dbPromise;
+	}
+
+	private async runRequest<T>(
+		mode: IDBTransactionMode,
+		operation: (store: IDBObjectStore) => IDBRequest
+	): Promise<T> {
+		const db = await this.openDatabase();
+		return new Promise((resolve, reject) => {
+			const request = operation(
+				db.transaction(this.STORE_NAME, mode).objectStore(this.STORE_NAME)
+			);
+			request.onsuccess = () => resolve(request.result as T);
+			request.onerror = () => reject(request.error);
+		});
+	}
+
+	/** Unfinished uploads for a node, most recently touched first. */
+	async getEntries(nodeId: string): Promise<UploadJournalEntry[]> {
+		if (!this.isAvailable()) return [];
+
+		try {
+			const entries = await this.runRequest<UploadJournalEntry[]>('readonly', store =>
+				store.index('nodeId').getAll(nodeId)
+			);
+			return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+		} catch (error) {
+			console.warn('Failed to read upload journal:', error);
+			return [];
+		}
+	}
+
+	/** Single entry by ID, or null. */
+	async getEntry(id: string): Promise<UploadJournalEntry | null> {
+		if (!this.isAvailable()) return null;
+
+		try {
+			const entry = await this.runRequest<UploadJournalEntry | undefined>('readonly', store =>
+				store.get(id)
+			);
+			return entry || null;
+		} catch (error) {
+			console.warn('Failed to read upload journal:', error);
+			return null;
+		}
+	}
+
+	/** Create or replace an entry (journal failures never block the upload). */
+	async saveEntry(entry: UploadJournalEntry): Promise<void> {
+		if (!this.isAvailable()) return;
+
+		try {
+			await this.runRequest('readwrite', store =>
+				store.put({ ...entry, updatedAt: new Date().toISOString() })
+			);
+		} catch (error) {
+			console.warn('Failed to write upload journal:', error);
+		}
+	}
+
+	/** Remove a finished or discarded entry. */
+	async removeEntry(id: string): Promise<void> {
+		if (!this.isAvailable()) return;
+
+		try {
+			await this.runRequest('readwrite', store => store.delete(id));
+		} catch (error) {
+			console.warn('Failed to remove upload journal entry:', error);
+		}
+	}
+}
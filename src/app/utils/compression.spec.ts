@@ -0,0 +1,19 @@
+// File: src/app/utils/compression.spec.ts - Tests chunk compression round trips
+import { compressData, decompressData } from './compression';
+
+describe('compression', () => {
+	// Suite: gzip through CompressionStream
+	it('restores compressed data exactly', async () => {
+		const data = new TextEncoder().encode('yourcloud '.repeat(1000));
+
+		const compressed = await compressData(data, 'gzip');
+		const restored = await decompressData(compressed, 'gzip');
+
+		expect(compressed.length).toBeLessThan(data.length);
+		expect(Array.from(restored)).toEqual(Array.from(data));
+	});
+
+	it('rejects data that is not compressed', async () => {
+		await expect(decompressData(new Uint8Array([1, 2, 3, 4]), 'gzip')).rejects.toBeDefined();
+	});
+});
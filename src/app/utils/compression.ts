@@ -0,0 +1,48 @@
+// File: src/app/utils/compression.ts - Chunk compression with the browser CompressionStream API
+
+/** Codecs a chunk can be stored with (chunks that would not shrink are stored as is). */
+export type ChunkCodec = 'gzip';
+
+/** True where the browser can compress (uploads skip compression elsewhere). */
+export function isCompressionSupported(): boolean {
+	return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+/** Feed data through a transform stream and collect the output. */
+async function runTransform(
+	data: Uint8Array,
+	transform: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+	const writer = transform.writable.getWriter();
+	// Write and read at the same time: the stream stalls once its queue fills
+	const writing = writer.write(data as Uint8Array<ArrayBuffer>).then(() => writer.close());
+	const reading = (async () => {
+		const reader = transform.readable.getReader();
+		const parts: Uint8Array[] = [];
+		let length = 0;
+		for (let result = await reader.read(); !result.done; result = await reader.read()) {
+			parts.push(result.value);
+			length += result.value.length;
+		}
+		const output = new Uint8Array(length);
+		let offset = 0;
+		for (const part of parts) {
+			output.set(part, offset);
+			offset += part.length;
+		}
+		return output;
+	})();
+
+	const [, output] = await Promise.all([writing, reading]);
+	return output;
+}
+
+/** Compress data with the given codec. */
+export function compressData(data: Uint8Array, codec: ChunkCodec): Promise<Uint8Array> {
+	return runTransform(data, new CompressionStream(codec));
+}
+
+/** Decompress data written by compressData. */
+export function decompressData(data: Uint8Array, codec: ChunkCodec): Promise<Uint8Array> {
+	return runTransform(data, new DecompressionStream(codec));
+}
@@ -0,0 +1,59 @@
+// File: src/app/utils/fastcdc.spec.ts - Tests FastCDC cut points: size limits and resync after edits
+import { ChunkSizes, findChunkBoundary } from './fastcdc';
+
+const sizes: ChunkSizes = { min: 256, average: 1024, max: 4096 };
+
+/** Deterministic pseudo-random bytes (xorshift32). */
+function randomBytes(length: number, seed: number): Uint8Array {
+	const bytes = new Uint8Array(length);
+	let state = seed;
+	for (let i = 0; i < length; i++) {
+		state ^= state << 13;
+		state ^= state >>> 17;
+		state ^= state << 5;
+		bytes[i] = state & 0xff;
+	}
+	return bytes;
+}
+
+/** Split data into chunks the way uploads do. */
+function splitChunks(data: Uint8Array): string[] {
+	const chunks: string[] = [];
+	let offset = 0;
+	while (offset < data.length) {
+		const length = findChunkBoundary(data.subarray(offset), sizes);
+		chunks.push(Array.from(data.subarray(offset, offset + length)).join(','));
+		offset += length;
+	}
+	return chunks;
+}
+
+describe('fastcdc', () => {
+	// Suite: chunk boundaries depend on content, not offsets
+	it('keeps chunks between the minimum and maximum size', () => {
+		const data = randomBytes(64 * 1024, 7);
+		const lengths = splitChunks(data).map(chunk => chunk.split(',').length);
+
+		expect(lengths.reduce((sum, length) => sum + length, 0)).toBe(data.length);
+		lengths.slice(0, -1).forEach(length => {
+			expect(length).toBeGreaterThanOrEqual(sizes.min);
+			expect(length).toBeLessThanOrEqual(sizes.max);
+		});
+		expect(findChunkBoundary(data.subarray(0, 100), sizes)).toBe(100);
+	});
+
+	it('finds the same chunks again after an insertion near the start', () => {
+		const original = randomBytes(64 * 1024, 11);
+		const edited = new Uint8Array(original.length + 10);
+		edited.set(original.subarray(0, 500));
+		edited.set(randomBytes(10, 3), 500);
+		edited.set(original.subarray(500), 510);
+
+		const before = splitChunks(original);
+		const after = new Set(splitChunks(edited));
+		const shared = before.filter(chunk => after.has(chunk)).length;
+
+		// Only the chunks around the edit change
+		expect(shared).toBeGreaterThanOrEqual(before.length - 2);
+	});
+});
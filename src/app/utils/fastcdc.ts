@@ -0,0 +1,67 @@
+// File: src/app/utils/fastcdc.ts - FastCDC content-defined chunking (gear hash, normalized cut points)
+
+export interface ChunkSizes {
+	min: number;
+	average: number; // power of two
+	max: number;
+}
+
+let gearTable: Uint32Array | null = null;
+
+/**
+ * Gear table: 256 pseudo-random 32-bit values from a fixed seed (splitmix32). Cut points, and
+ * with them deduplication, depend on it, so it must never change.
+ */
+function getGearTable(): Uint32Array {
+	if (!gearTable) {
+		gearTable = new Uint32Array(256);
+		let state = 0x59433443;
+		for (let i = 0; i < 256; i++) {
+			state = (state + 0x9e3779b9) >>> 0;
+			let z = state;
+			z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+			z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+			gearTable[i] = (z ^ (z >>> 16)) >>> 0;
+		}
+	}
+	return gearTable;
+}
+
+/** Mask of the top `bits` bits (the gear hash mixes the most recent 32 bytes into them). */
+function topBitsMask(bits: number): number {
+	return (0xffffffff << (32 - bits)) >>> 0;
+}
+
+/**
+ * Length of the next chunk at the start of data. Cuts are harder to hit before the average
+ * size and easier after it, which keeps chunk sizes close to the average; data shorter than
+ * the minimum (the end of a file) is one chunk.
+ */
+export function findChunkBoundary(data: Uint8Array, sizes: ChunkSizes): number {
+	const length = Math.min(data.length, sizes.max);
+	if (length <= sizes.min) {
+		return length;
+	}
+
+	const table = getGearTable();
+	const bits = Math.round(Math.log2(sizes.average));
+	const strictMask = topBitsMask(bits + 2);
+	const looseMask = topBitsMask(bits - 2);
+	const normalLength = Math.min(sizes.average, length);
+
+	let hash = 0;
+	let i = sizes.min;
+	for (; i < normalLength; i++) {
+		hash = ((hash << 1) + table[data[i]]) >>> 0;
+		if ((hash & strictMask) === 0) {
+			return i + 1;
+		}
+	}
+	for (; i < length; i++) {
+		hash = ((hash << 1) + table[data[i]]) >>> 0;
+		if ((hash & looseMask) === 0) {
+			return i + 1;
+		}
+	}
+	return length;
+}
@@ -145,6 +145,13 @@ export function isDocumentFile(filename: string): boolean {
 	return documentExtensions.includes(extension);
 }
 
+export function isTextFile(filename: string): boolean {
+	// Check if file is plain text worth indexing for search
+	const textExtensions = ['txt', 'md', 'csv', 'log', 'json', 'xml', 'yaml', 'yml', 'ini', 'html'];
+	const extension = getFileExtension(filename);
+	return textExtensions.includes(extension);
+}
+
 // Validation utilities
 export function validateFileName(name: string): { isValid: boolean; message?: string } {
 	// Validate a file name against length, chars and reserved words
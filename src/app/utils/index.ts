@@ -7,3 +7,4 @@ export * from './file-utils';
 export * from './node-utils';
 export * from './utils';
 export * from './validation-utils';
+export * from './zip-writer';
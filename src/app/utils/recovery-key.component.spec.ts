@@ -0,0 +1,24 @@
+// File: src/app/utils/recovery-key.component.spec.ts - Tests RecoveryKeyComponent rendering & saved text
+import { TestBed } from '@angular/core/testing';
+import { RecoveryKeyComponent } from './recovery-key.component';
+
+describe('RecoveryKeyComponent', () => {
+	// Suite: verifies the key is shown and included in the saved document
+	beforeEach(async () => {
+		await TestBed.configureTestingModule({
+			imports: [RecoveryKeyComponent]
+		}).compileComponents();
+	});
+
+	it('renders the key and builds the saved document', () => {
+		const fixture = TestBed.createComponent(RecoveryKeyComponent);
+		const cmp = fixture.componentInstance;
+		cmp.recoveryKey = 'ABCD-EFGH';
+		cmp.accountEmail = 'a@b.com';
+		fixture.detectChanges();
+
+		expect(fixture.nativeElement.textContent).toContain('ABCD-EFGH');
+		expect(cmp.document).toContain('Account: a@b.com');
+		expect(cmp.document).toContain('\nABCD-EFGH\n');
+	});
+});
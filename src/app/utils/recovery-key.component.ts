@@ -0,0 +1,101 @@
+// File: src/app/utils/recovery-key.component.ts - Recovery key display with copy/download/print actions
+
+import { Component, Input } from '@angular/core';
+
+@Component({
+	selector: 'app-recovery-key',
+	standalone: true,
+	template: `
+		<div class="space-y-3">
+			<p class="text-sm text-gray-700">
+				This recovery key is the only way to reset a forgotten password without losing your
+				files. It is shown once; store it somewhere safe and offline.
+			</p>
+			<p
+				class="font-mono text-center text-sm tracking-wider break-all p-3 rounded-lg bg-white/40 border border-white/30 text-gray-800 select-all"
+			>
+				{{ recoveryKey }}
+			</p>
+			<div class="flex space-x-3">
+				<button
+					type="button"
+					(click)="copy()"
+					class="flex-1 py-2 px-4 bg-white/20 hover:bg-white/30 backdrop-blur-sm text-gray-700 text-sm font-medium rounded-lg border border-white/30 transition-all duration-300 focus:outline-hidden focus:ring-2 focus:ring-gray-400/50"
+				>
+					{{ copied ? 'Copied' : 'Copy' }}
+				</button>
+				<button
+					type="button"
+					(click)="download()"
+					class="flex-1 py-2 px-4 bg-white/20 hover:bg-white/30 backdrop-blur-sm text-gray-700 text-sm font-medium rounded-lg border border-white/30 transition-all duration-300 focus:outline-hidden focus:ring-2 focus:ring-gray-400/50"
+				>
+					Download
+				</button>
+				<button
+					type="button"
+					(click)="print()"
+					class="flex-1 py-2 px-4 bg-white/20 hover:bg-white/30 backdrop-blur-sm text-gray-700 text-sm font-medium rounded-lg border border-white/30 transition-all duration-300 focus:outline-hidden focus:ring-2 focus:ring-gray-400/50"
+				>
+					Print
+				</button>
+			</div>
+		</div>
+	`
+})
+export class RecoveryKeyComponent {
+	// Formatted recovery key to show
+	@Input() recoveryKey: string = '';
+	// Account the key belongs to (included in the saved file)
+	@Input() accountEmail: string = '';
+
+	copied: boolean = false;
+
+	/** Text saved or printed alongside the key. */
+	get document(): string {
+		const lines = ['Project-YourCloud recovery key'];
+		if (this.accountEmail) {
+			lines.push(`Account: ${this.accountEmail}`);
+		}
+		lines.push(
+			`Created: ${new Date().toLocaleString()}`,
+			'',
+			this.recoveryKey,
+			'',
+			'Use this key on the "Forgot password" page to reset your password without losing files.'
+		);
+		return lines.join('\n');
+	}
+
+	/** Copy the key to the clipboard. */
+	async copy(): Promise<void> {
+		await navigator.clipboard.writeText(this.recoveryKey);
+		this.copied = true;
+	}
+
+	/** Save the key as a text file. */
+	download(): void {
+		const url = window.URL.createObjectURL(new Blob([this.document], { type: 'text/plain' }));
+		const a = document.createElement('a');
+		document.body.appendChild(a);
+		a.style.display = 'none';
+		a.href = url;
+		a.download = 'yourcloud-recovery-key.txt';
+		a.click();
+		window.URL.revokeObjectURL(url);
+		a.remove();
+	}
+
+	/** Print the key on its own page. */
+	print(): void {
+		const printWindow = window.open('', '_blank', 'width=600,height=400');
+		if (!printWindow) {
+			return;
+		}
+		const pre = printWindow.document.createElement('pre');
+		pre.style.fontSize = '16px';
+		pre.textContent = this.document;
+		printWindow.document.body.appendChild(pre);
+		printWindow.print();
+		printWindow.close();
+	}
+}
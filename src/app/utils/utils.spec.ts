@@ -1,5 +1,14 @@
-// File: src/app/utils/utils.spec.ts - Tests general formatting and base64 helpers
-import { formatFileSize, formatDate, uint8ArrayToBase64, base64ToUint8Array } from './utils';
+// File: src/app/utils/utils.spec.ts - Tests general formatting and base64/base32 helpers
+import {
+	formatFileSize,
+	formatDate,
+	uint8ArrayToBase64,
+	base64ToUint8Array,
+	uint8ArrayToBase64Url,
+	base64UrlToUint8Array,
+	uint8ArrayToBase32,
+	base32ToUint8Array
+} from './utils';
 
 describe('utils', () => {
 	// Suite: file size/date + base64 conversions
@@ -21,4 +30,18 @@ describe('utils', () => {
 		const roundtrip = base64ToUint8Array(b64);
 		expect(Array.from(roundtrip)).toEqual(Array.from(original));
 	});
+
+	it('converts between URL-safe base64 and Uint8Array', () => {
+		const original = new Uint8Array([251, 255, 191]); // '+/+/' in plain base64
+		expect(uint8ArrayToBase64Url(original)).toBe('-_-_');
+		expect(Array.from(base64UrlToUint8Array('aGk'))).toEqual([104, 105]);
+	});
+
+	it('converts between base32 and Uint8Array', () => {
+		expect(uint8ArrayToBase32(new TextEncoder().encode('foobar'))).toBe('MZXW6YTBOI');
+		const original = crypto.getRandomValues(new Uint8Array(32));
+		const roundtrip = base32ToUint8Array(uint8ArrayToBase32(original).toLowerCase());
+		expect(Array.from(roundtrip)).toEqual(Array.from(original));
+		expect(() => base32ToUint8Array('AB1')).toThrow('Invalid base32 character');
+	});
 });
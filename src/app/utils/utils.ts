@@ -1,4 +1,4 @@
-// File: src/app/utils/utils.ts - Generic formatting and base64 helpers
+// File: src/app/utils/utils.ts - Generic formatting and base64/base32 helpers
 
 export function formatFileSize(size: number | undefined): string {
 	// Format bytes into human readable size (up to GB)
@@ -34,3 +34,55 @@ export function base64ToUint8Array(base64: string): Uint8Array {
 	}
 	return bytes;
 }
+
+export function uint8ArrayToBase64Url(array: Uint8Array): string {
+	// Convert Uint8Array -> URL-safe base64 without padding (for link fragments)
+	return uint8ArrayToBase64(array).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlToUint8Array(base64Url: string): Uint8Array {
+	// Convert URL-safe base64 (padding optional) -> Uint8Array
+	const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+	return base64ToUint8Array(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function uint8ArrayToBase32(array: Uint8Array): string {
+	// Convert Uint8Array -> RFC 4648 base32 (no padding)
+	let output = '';
+	let buffer = 0;
+	let bits = 0;
+	for (const byte of array) {
+		buffer = (buffer << 8) | byte;
+		bits += 8;
+		while (bits >= 5) {
+			output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+			bits -= 5;
+		}
+	}
+	if (bits > 0) {
+		output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+	}
+	return output;
+}
+
+export function base32ToUint8Array(base32: string): Uint8Array {
+	// Convert base32 (no padding, case-insensitive) -> Uint8Array; throws on invalid characters
+	const bytes: number[] = [];
+	let buffer = 0;
+	let bits = 0;
+	for (const char of base32.toUpperCase()) {
+		const value = BASE32_ALPHABET.indexOf(char);
+		if (value === -1) {
+			throw new Error(`Invalid base32 character: ${char}`);
+		}
+		buffer = ((buffer << 5) | value) & 0xfff;
+		bits += 5;
+		if (bits >= 8) {
+			bytes.push((buffer >>> (bits - 8)) & 0xff);
+			bits -= 8;
+		}
+	}
+	return new Uint8Array(bytes);
+}
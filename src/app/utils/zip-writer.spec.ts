@@ -0,0 +1,100 @@
+// File: src/app/utils/zip-writer.spec.ts - Tests streaming ZIP writer records, CRC and ZIP64 end records
+import { ZipWriter, crc32 } from './zip-writer';
+
+/** Writer that keeps every written part in memory. */
+function createCollectingWriter(): {
+	writer: WritableStreamDefaultWriter<Uint8Array>;
+	bytes: () => Uint8Array;
+} {
+	const parts: Uint8Array[] = [];
+	const writer = {
+		write: async (chunk: Uint8Array) => void parts.push(chunk),
+		close: async () => undefined
+	} as unknown as WritableStreamDefaultWriter<Uint8Array>;
+
+	return {
+		writer,
+		bytes: () => {
+			const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+			let offset = 0;
+			parts.forEach(part => {
+				output.set(part, offset);
+				offset += part.length;
+			});
+			return output;
+		}
+	};
+}
+
+describe('zip-writer', () => {
+	// Suite: archive layout for stored entries and ZIP64 end records
+	const encoder = new TextEncoder();
+
+	it('computes CRC-32 incrementally', () => {
+		expect(crc32(encoder.encode('hello'))).toBe(0x3610a686);
+		expect(crc32(encoder.encode('llo'), crc32(encoder.encode('he')))).toBe(0x3610a686);
+	});
+
+	it('writes local headers, data descriptors and a central directory', async () => {
+		const { writer, bytes } = createCollectingWriter();
+		const zip = new ZipWriter(writer);
+
+		await zip.addDirectory('docs');
+		await zip.addFile('docs/a.txt', 5, new Date(2024, 0, 2, 3, 4, 6), async write => {
+			await write(encoder.encode('he'));
+			await write(encoder.encode('llo'));
+		});
+		await zip.close();
+
+		const archive = bytes();
+		const view = new DataView(archive.buffer);
+		expect(archive.length).toBe(zip.bytesWritten);
+		expect(view.getUint32(0, true)).toBe(0x04034b50);
+
+		// End of central directory: two entries, no ZIP64 records needed
+		const end = archive.length - 22;
+		expect(view.getUint32(end, true)).toBe(0x06054b50);
+		expect(view.getUint16(end + 10, true)).toBe(2);
+		const centralDirectoryOffset = view.getUint32(end + 16, true);
+		expect(view.getUint32(centralDirectoryOffset, true)).toBe(0x02014b50);
+
+		// Second central entry carries the file's CRC and size
+		const firstNameLength = view.getUint16(centralDirectoryOffset + 28, true);
+		const second = centralDirectoryOffset + 46 + firstNameLength;
+		expect(view.getUint32(second + 16, true)).toBe(0x3610a686);
+		expect(view.getUint32(second + 24, true)).toBe(5);
+		expect(new TextDecoder().decode(archive.subarray(second + 46, second + 56))).toBe(
+			'docs/a.txt'
+		);
+	});
+
+	it('rejects files whose data does not match the declared size', async () => {
+		const { writer } = createCollectingWriter();
+		const zip = new ZipWriter(writer);
+
+		await expect(
+			zip.addFile('short.bin', 10, new Date(), async write => write(new Uint8Array(3)))
+		).rejects.toThrow('expected 10 bytes');
+	});
+
+	it('adds ZIP64 end records when the entry count overflows', async () => {
+		const { writer, bytes } = createCollectingWriter();
+		const zip = new ZipWriter(writer);
+
+		for (let i = 0; i < 0x10000; i++) {
+			await zip.addDirectory(`d${i}`);
+		}
+		await zip.close();
+
+		const archive = bytes();
+		const view = new DataView(archive.buffer);
+		const end = archive.length - 22;
+		const locator = end - 20;
+		expect(view.getUint16(end + 10, true)).toBe(0xffff);
+		expect(view.getUint32(locator, true)).toBe(0x07064b50);
+
+		const zip64End = Number(view.getBigUint64(locator + 8, true));
+		expect(view.getUint32(zip64End, true)).toBe(0x06064b50);
+		expect(Number(view.getBigUint64(zip64End + 32, true))).toBe(0x10000);
+	});
+});
@@ -0,0 +1,275 @@
+// File: src/app/utils/zip-writer.ts - Streaming ZIP writer (stored entries, data descriptors, ZIP64)
+
+const ZIP64_LIMIT = 0xffffffff;
+const ZIP64_ENTRY_LIMIT = 0xffff;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+
+let crcTable: Uint32Array | null = null;
+
+/** CRC-32 (IEEE) of data, continuing from a previous value. */
+export function crc32(data: Uint8Array, crc: number = 0): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	let value = crc ^ 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		value = crcTable[(value ^ data[i]) & 0xff] ^ (value >>> 8);
+	}
+	return (value ^ 0xffffffff) >>> 0;
+}
+
+interface ZipEntryRecord {
+	name: Uint8Array;
+	flags: number;
+	dosTime: number;
+	dosDate: number;
+	crc: number;
+	size: number;
+	offset: number;
+	isDirectory: boolean;
+}
+
+/** Little-endian record builder. */
+class RecordBuilder {
+	readonly bytes: Uint8Array;
+	private view: DataView;
+	private position = 0;
+
+	constructor(length: number) {
+		this.bytes = new Uint8Array(length);
+		this.view = new DataView(this.bytes.buffer);
+	}
+
+	u16(value: number): this {
+		this.view.setUint16(this.position, value, true);
+		this.position += 2;
+		return this;
+	}
+
+	u32(value: number): this {
+		this.view.setUint32(this.position, value >>> 0, true);
+		this.position += 4;
+		return this;
+	}
+
+	u64(value: number): this {
+		this.view.setBigUint64(this.position, BigInt(value), true);
+		this.position += 8;
+		return this;
+	}
+
+	raw(data: Uint8Array): this {
+		this.bytes.set(data, this.position);
+		this.position += data.length;
+		return this;
+	}
+}
+
+/**
+ * Writes a ZIP archive entry by entry into a stream without buffering file data.
+ * Entries are stored (no compression); ZIP64 records are used when sizes, offsets or
+ * the entry count exceed the classic format limits.
+ */
+export class ZipWriter {
+	private offset = 0;
+	private entries: ZipEntryRecord[] = [];
+	private encoder = new TextEncoder();
+
+	constructor(private writer: WritableStreamDefaultWriter<Uint8Array>) {}
+
+	/** Archive bytes written so far. */
+	get bytesWritten(): number {
+		return this.offset;
+	}
+
+	/** Add an (empty) directory entry. */
+	async addDirectory(path: string, modified: Date = new Date()): Promise<void> {
+		const name = this.encoder.encode(path.endsWith('/') ? path : `${path}/`);
+		const entry = this.createEntry(name, FLAG_UTF8, modified, true);
+		await this.write(this.localHeader(entry, false));
+		this.entries.push(entry);
+	}
+
+	/**
+	 * Add a file whose bytes are produced by `writeData` in order. `expectedSize` decides
+	 * up front whether the local header needs ZIP64 fields; the actual size must match.
+	 */
+	async addFile(
+		path: string,
+		expectedSize: number,
+		modified: Date,
+		writeData: (write: (chunk: Uint8Array) => Promise<void>) => Promise<void>
+	): Promise<void> {
+		const name = this.encoder.encode(path);
+		const entry = this.createEntry(name, FLAG_UTF8 | FLAG_DATA_DESCRIPTOR, modified, false);
+		const zip64 = expectedSize >= ZIP64_LIMIT;
+		await this.write(this.localHeader(entry, zip64));
+
+		await writeData(async chunk => {
+			entry.crc = crc32(chunk, entry.crc);
+			entry.size += chunk.length;
+			await this.write(chunk);
+		});
+
+		if (entry.size !== expectedSize) {
+			throw new Error(
+				`${path}: expected ${expectedSize} bytes but ${entry.size} bytes were written`
+			);
+		}
+
+		const descriptor = zip64
+			? new RecordBuilder(24).u32(0x08074b50).u32(entry.crc).u64(entry.size).u64(entry.size)
+			: new RecordBuilder(16).u32(0x08074b50).u32(entry.crc).u32(entry.size).u32(entry.size);
+		await this.write(descriptor.bytes);
+		this.entries.push(entry);
+	}
+
+	/** Write the central directory and end records, then close the stream. */
+	async close(): Promise<void> {
+		const centralDirectoryOffset = this.offset;
+		for (const entry of this.entries) {
+			await this.write(this.centralDirectoryHeader(entry));
+		}
+		const centralDirectorySize = this.offset - centralDirectoryOffset;
+		const count = this.entries.length;
+
+		const needsZip64 =
+			count >= ZIP64_ENTRY_LIMIT ||
+			centralDirectoryOffset >= ZIP64_LIMIT ||
+			centralDirectorySize >= ZIP64_LIMIT;
+
+		if (needsZip64) {
+			const zip64EndOffset = this.offset;
+			await this.write(
+				new RecordBuilder(56)
+					.u32(0x06064b50)
+					.u64(44) // size of the remaining record
+					.u16(VERSION_ZIP64)
+					.u16(VERSION_ZIP64)
+					.u32(0)
+					.u32(0)
+					.u64(count)
+					.u64(count)
+					.u64(centralDirectorySize)
+					.u64(centralDirectoryOffset).bytes
+			);
+			await this.write(
+				new RecordBuilder(20).u32(0x07064b50).u32(0).u64(zip64EndOffset).u32(1).bytes
+			);
+		}
+
+		await this.write(
+			new RecordBuilder(22)
+				.u32(0x06054b50)
+				.u16(0)
+				.u16(0)
+				.u16(Math.min(count, ZIP64_ENTRY_LIMIT))
+				.u16(Math.min(count, ZIP64_ENTRY_LIMIT))
+				.u32(Math.min(centralDirectorySize, ZIP64_LIMIT))
+				.u32(Math.min(centralDirectoryOffset, ZIP64_LIMIT))
+				.u16(0).bytes
+		);
+
+		await this.writer.close();
+	}
+
+	private async write(data: Uint8Array): Promise<void> {
+		await this.writer.write(data);
+		this.offset += data.length;
+	}
+
+	private createEntry(
+		name: Uint8Array,
+		flags: number,
+		modified: Date,
+		isDirectory: boolean
+	): ZipEntryRecord {
+		if (isNaN(modified.getTime())) {
+			modified = new Date();
+		}
+		const year = Math.max(modified.getFullYear(), 1980);
+		return {
+			name,
+			flags,
+			dosTime:
+				(modified.getHours() << 11) |
+				(modified.getMinutes() << 5) |
+				Math.floor(modified.getSeconds() / 2),
+			dosDate: ((year - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate(),
+			crc: 0,
+			size: 0,
+			offset: this.offset,
+			isDirectory
+		};
+	}
+
+	/** Local file header; CRC and sizes follow in the data descriptor. */
+	private localHeader(entry: ZipEntryRecord, zip64: boolean): Uint8Array {
+		const record = new RecordBuilder(30 + entry.name.length + (zip64 ? 20 : 0))
+			.u32(0x04034b50)
+			.u16(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT)
+			.u16(entry.flags)
+			.u16(0) // stored
+			.u16(entry.dosTime)
+			.u16(entry.dosDate)
+			.u32(0)
+			.u32(zip64 ? ZIP64_LIMIT : 0)
+			.u32(zip64 ? ZIP64_LIMIT : 0)
+			.u16(entry.name.length)
+			.u16(zip64 ? 20 : 0)
+			.raw(entry.name);
+		if (zip64) {
+			record.u16(0x0001).u16(16).u64(0).u64(0);
+		}
+		return record.bytes;
+	}
+
+	private centralDirectoryHeader(entry: ZipEntryRecord): Uint8Array {
+		// ZIP64 extra carries only the fields that overflow, in spec order
+		const extraFields: number[] = [];
+		if (entry.size >= ZIP64_LIMIT) {
+			extraFields.push(entry.size, entry.size);
+		}
+		if (entry.offset >= ZIP64_LIMIT) {
+			extraFields.push(entry.offset);
+		}
+		const extraLength = extraFields.length > 0 ? 4 + extraFields.length * 8 : 0;
+		const version = extraFields.length > 0 ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+		const record = new RecordBuilder(46 + entry.name.length + extraLength)
+			.u32(0x02014b50)
+			.u16(VERSION_ZIP64) // made by
+			.u16(version)
+			.u16(entry.flags)
+			.u16(0)
+			.u16(entry.dosTime)
+			.u16(entry.dosDate)
+			.u32(entry.crc)
+			.u32(Math.min(entry.size, ZIP64_LIMIT))
+			.u32(Math.min(entry.size, ZIP64_LIMIT))
+			.u16(entry.name.length)
+			.u16(extraLength)
+			.u16(0) // comment
+			.u16(0) // disk
+			.u16(0) // internal attributes
+			.u32(entry.isDirectory ? 0x10 : 0)
+			.u32(Math.min(entry.offset, ZIP64_LIMIT))
+			.raw(entry.name);
+		if (extraFields.length > 0) {
+			record.u16(0x0001).u16(extraFields.length * 8);
+			extraFields.forEach(value => record.u64(value));
+		}
+		return record.bytes;
+	}
+}
@@ -1,4 +1,4 @@
-// File: src/models/User.js - Mongoose schemas/models for Users & StorageNodes
+// File: src/models/User.js - Mongoose schemas/models for Users, StorageNodes, DirectoryRevisions, Shares & SharedFolders
 
 // Database models
 const mongoose = require('mongoose');
@@ -18,6 +18,33 @@ const StorageNodeSchema = new mongoose.Schema({
 	owner_user_id: { type: mongoose.Schema.Types.ObjectId, ref: 'User' }
 });
 
+/**
+ * RootMigration schema: nodes whose root directory still sits at the chunk ID derived from
+ * the previous password.
+ */
+const RootMigrationSchema = new mongoose.Schema(
+	{
+		previous_root_chunk_id: { type: String, required: true },
+		pending_nodes: [{ type: String }]
+	},
+	{ _id: false }
+);
+
+/**
+ * KdfParams schema: how the client derives its password key (and root chunk ID) from the
+ * password + salt. Absent on accounts created before parameters were recorded.
+ */
+const KdfParamsSchema = new mongoose.Schema(
+	{
+		algorithm: { type: String, enum: ['pbkdf2-sha256', 'argon2id'], required: true },
+		iterations: { type: Number, required: true },
+		memory_kib: { type: Number }, // argon2id only
+		parallelism: { type: Number }, // argon2id only
+		root_iterations: { type: Number } // pbkdf2-sha256 only: separate root chunk ID derivation
+	},
+	{ _id: false }
+);
+
 /**
  * User schema: authentication credentials, verification & owned nodes.
  */
@@ -32,6 +59,14 @@ const UserSchema = new mongoose.Schema({
 	},
 	password: { type: String, required: true },
 	salt: { type: String, required: true },
+	kdf_params: { type: KdfParamsSchema, default: null }, // null: legacy PBKDF2 parameters
+	wrapped_master_key: { type: String }, // absent: master key is derived from the password
+	root_migration: { type: RootMigrationSchema, default: null },
+	recovery_wrapped_key: { type: String }, // master key wrapped by the user's recovery key
+	recovery_verifier_hash: { type: String }, // SHA-256 of the verifier derived from the recovery key
+	root_locator: { type: String }, // current root chunk ID encrypted under the master key
+	public_key: { type: String }, // ECDH P-256 public key (SPKI) others seal folder keys to
+	wrapped_private_key: { type: String }, // matching private key wrapped by the master key
 	storage_nodes: [{ type: String }],
 	last_login: { type: Date },
 	created_at: { type: Date, default: Date.now },
@@ -40,14 +75,103 @@ const UserSchema = new mongoose.Schema({
 		default: false
 	},
 	emailVerificationToken: { type: String },
-	emailVerificationExpires: { type: Date }
+	emailVerificationExpires: { type: Date },
+	passwordResetTokenHash: { type: String },
+	passwordResetExpires: { type: Date },
+	token_version: { type: Number, default: 0 }, // bumped on password changes; older JWTs are refused
+	transfer_concurrency: { type: Number, default: 3, min: 1, max: 8 },
+	// Pad the last chunk of new uploads so nodes cannot read exact file sizes
+	pad_file_sizes: { type: Boolean, default: false },
+	// Gzip chunks of new uploads before encryption where that makes them smaller
+	compress_uploads: { type: Boolean, default: false }
+});
+
+/**
+ * DirectoryRevision schema: latest claimed revision per encrypted directory chunk.
+ */
+const DirectoryRevisionSchema = new mongoose.Schema({
+	node_id: { type: String, required: true },
+	chunk_id: { type: String, required: true },
+	revision: { type: Number, required: true, default: 0 },
+	updated_at: { type: Date, default: Date.now }
+});
+
+/**
+ * Share schema: a file shared by link. The link fragment holds the file's data key wrapped
+ * by share_key, so neither the record nor the link alone can decrypt the file.
+ */
+const ShareSchema = new mongoose.Schema({
+	share_id: { type: String, unique: true, required: true },
+	owner_user_id: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+	node_id: { type: String, required: true },
+	// Chunks a share session may download
+	chunk_ids: [{ type: String }],
+	share_key: { type: String, required: true },
+	// File name, size and chunk order, encrypted under the data key
+	encrypted_manifest: { type: String, required: true },
+	// File name under the owner's master key, for the owner's share list
+	encrypted_name: { type: String, required: true },
+	password_hash: { type: String, default: null },
+	expires_at: { type: Date, default: null },
+	max_downloads: { type: Number, default: null },
+	download_count: { type: Number, default: 0 },
+	created_at: { type: Date, default: Date.now }
+});
+
+/**
+ * SharedFolderMember schema: one account's role and its copy of the folder key, sealed to
+ * that account's public key. The owner is a member too.
+ */
+const SharedFolderMemberSchema = new mongoose.Schema(
+	{
+		user_id: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+		role: { type: String, enum: ['owner', 'write', 'read'], required: true },
+		sealed_key: { type: String, required: true }
+	},
+	{ _id: false }
+);
+
+/**
+ * SharedFolder schema: a directory tree on the owner's node encrypted under its own folder
+ * key instead of the owner's master key.
+ */
+const SharedFolderSchema = new mongoose.Schema({
+	folder_id: { type: String, unique: true, required: true },
+	owner_user_id: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+	node_id: { type: String, required: true },
+	root_chunk_id: { type: String, required: true },
+	// Folder name under the folder key, readable by every member
+	encrypted_name: { type: String, required: true },
+	members: [SharedFolderMemberSchema],
+	created_at: { type: Date, default: Date.now }
+});
+
+/**
+ * SharedChunk schema: chunks that belong to a shared folder. Members may only reach chunks
+ * registered to a folder they belong to.
+ */
+const SharedChunkSchema = new mongoose.Schema({
+	folder_id: { type: String, required: true },
+	node_id: { type: String, required: true },
+	chunk_id: { type: String, required: true }
 });
 
 // Add indexes for better performance
 UserSchema.index({ created_at: 1 });
 StorageNodeSchema.index({ owner_user_id: 1 });
+DirectoryRevisionSchema.index({ node_id: 1, chunk_id: 1 }, { unique: true });
+ShareSchema.index({ owner_user_id: 1 });
+// Expired shares are removed by MongoDB; shares without an expiry are kept
+ShareSchema.index({ expires_at: 1 }, { expireAfterSeconds: 0 });
+SharedFolderSchema.index({ 'members.user_id': 1 });
+SharedChunkSchema.index({ node_id: 1, chunk_id: 1 }, { unique: true });
+SharedChunkSchema.index({ folder_id: 1 });
 
 const StorageNode = mongoose.model('StorageNodes', StorageNodeSchema);
 const User = mongoose.model('Users', UserSchema);
+const DirectoryRevision = mongoose.model('DirectoryRevisions', DirectoryRevisionSchema);
+const Share = mongoose.model('Shares', ShareSchema);
+const SharedFolder = mongoose.model('SharedFolders', SharedFolderSchema);
+const SharedChunk = mongoose.model('SharedChunks', SharedChunkSchema);
 
-module.exports = { StorageNode, User };
+module.exports = { StorageNode, User, DirectoryRevision, Share, SharedFolder, SharedChunk };
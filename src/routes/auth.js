@@ -7,14 +7,23 @@ const { User } = require('../models/User');
 const {
 	validateRegistrationInput,
 	validateLoginInput,
+	validatePasswordChangeInput,
+	validateKdfUpgradeInput,
+	validateRecoveryKeyInput,
+	validatePasswordResetInput,
+	validateKeyPairInput,
 	sanitizeString
 } = require('../utils/validation');
 const crypto = require('crypto');
-const { sendVerificationEmail } = require('../utils/emailService');
+const { sendVerificationEmail, sendPasswordResetEmail } = require('../utils/emailService');
 const { apiSuccess, apiError } = require('./apiResponse');
 
 const router = express.Router();
 
+// Session tokens name this API and its users, so tokens minted for other purposes never pass
+const AUTH_TOKEN_ISSUER = 'yourcloud-api';
+const AUTH_TOKEN_AUDIENCE = 'yourcloud-users';
+
 // -----------------------------------------------------------------------------
 // Token Blacklist Maintenance
 // -----------------------------------------------------------------------------
@@ -70,7 +79,8 @@ const authenticateToken = async (req, res, next) => {
 		return apiError(res, 401, 'Token has been invalidated');
 	}
 
-	jwt.verify(token, process.env.JWT_SECRET, async (err, decoded) => {
+	const verifyOptions = { issuer: AUTH_TOKEN_ISSUER, audience: AUTH_TOKEN_AUDIENCE };
+	jwt.verify(token, process.env.JWT_SECRET, verifyOptions, async (err, decoded) => {
 		if (err) {
 			return apiError(res, 403, 'Invalid or expired token');
 		}
@@ -85,6 +95,11 @@ const authenticateToken = async (req, res, next) => {
 				return apiError(res, 403, 'Access denied. Please verify your email.');
 			}
 
+			// Issued before the last password change or reset (tokens without a version are 0)
+			if ((decoded.tokenVersion || 0) !== (user.token_version || 0)) {
+				return apiError(res, 401, 'Token has been invalidated');
+			}
+
 			req.user = decoded;
 			req.token = token;
 			next();
@@ -101,6 +116,25 @@ const authenticateToken = async (req, res, next) => {
 // Helpers
 // -----------------------------------------------------------------------------
 
+/**
+ * Sign a session JWT for a user, bound to their current token version.
+ * @param {object} user User document
+ * @returns {string} JWT valid for 24h
+ */
+function signAuthToken(user) {
+	return jwt.sign(
+		{
+			userId: user._id,
+			email: user.email,
+			name: user.name,
+			tokenVersion: user.token_version || 0,
+			iat: Math.floor(Date.now() / 1000)
+		},
+		process.env.JWT_SECRET,
+		{ expiresIn: '24h', issuer: AUTH_TOKEN_ISSUER, audience: AUTH_TOKEN_AUDIENCE }
+	);
+}
+
 /**
  * Blacklist a JWT until its natural expiration. No-op on decode failure.
  * @param {string} token Raw JWT string
@@ -118,20 +152,61 @@ function blacklistToken(token) {
 	}
 }
 
+/**
+ * SHA-256 hex digest; reset tokens and recovery verifiers are only stored hashed.
+ * @param {string} value
+ */
+function sha256(value) {
+	return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+// Parameters every account used before they were stored per user
+const LEGACY_KDF_PARAMS = {
+	algorithm: 'pbkdf2-sha256',
+	iterations: 100000,
+	root_iterations: 10000
+};
+
+/**
+ * Key-derivation parameters the client must use for this user's password.
+ * @param {object} user User document
+ */
+function getKdfParams(user) {
+	return user.kdf_params ? user.kdf_params.toObject() : LEGACY_KDF_PARAMS;
+}
+
 // -----------------------------------------------------------------------------
 // Routes: Registration
 // -----------------------------------------------------------------------------
 /**
  * POST /register
  * Registers a new user, hashes password, issues verification email.
- * Body: { name, email, password, salt }
+ * Body: { name, email, password, salt, kdfParams?, recoveryWrappedKey?, recoveryVerifier?, rootLocator? }
  * Success: 201 { userId }
  */
 router.post('/register', async (req, res) => {
 	try {
-		const { name, email, password, salt } = req.body;
-
-		const validation = validateRegistrationInput({ name, email, password, salt });
+		const {
+			name,
+			email,
+			password,
+			salt,
+			kdfParams,
+			recoveryWrappedKey,
+			recoveryVerifier,
+			rootLocator
+		} = req.body;
+
+		const validation = validateRegistrationInput({
+			name,
+			email,
+			password,
+			salt,
+			kdfParams,
+			recoveryWrappedKey,
+			recoveryVerifier,
+			rootLocator
+		});
 		if (!validation.isValid) {
 			return apiError(res, 400, 'Invalid input data', validation.errors);
 		}
@@ -149,6 +224,10 @@ router.post('/register', async (req, res) => {
 			email: email.toLowerCase().trim(),
 			password: hashedPassword,
 			salt: salt,
+			kdf_params: kdfParams || null,
+			recovery_wrapped_key: recoveryWrappedKey,
+			recovery_verifier_hash: recoveryVerifier ? sha256(recoveryVerifier) : undefined,
+			root_locator: rootLocator,
 			isVerified: false,
 			emailVerificationToken: crypto.randomBytes(32).toString('hex'),
 			emailVerificationExpires: Date.now() + 3600000
@@ -181,7 +260,8 @@ router.post('/register', async (req, res) => {
 // -----------------------------------------------------------------------------
 /**
  * POST /login
- * Authenticates user credentials and returns JWT + user profile subset.
+ * Authenticates user credentials and returns JWT + user profile subset, including the
+ * salt and KDF parameters the client derives its keys with.
  * Body: { email, password }
  */
 router.post('/login', async (req, res) => {
@@ -207,20 +287,20 @@ router.post('/login', async (req, res) => {
 			return apiError(res, 403, 'Please verify your email before logging in.');
 		}
 
-		const token = jwt.sign(
-			{
-				userId: user._id,
-				email: user.email,
-				name: user.name,
-				iat: Math.floor(Date.now() / 1000)
-			},
-			process.env.JWT_SECRET,
-			{ expiresIn: '24h', issuer: 'yourcloud-api', audience: 'yourcloud-users' }
-		);
+		const token = signAuthToken(user);
 
 		return apiSuccess(res, 200, 'Login successful', {
 			token,
-			user: { id: user._id, name: user.name, email: user.email, salt: user.salt }
+			user: {
+				id: user._id,
+				name: user.name,
+				email: user.email,
+				salt: user.salt,
+				kdf_params: getKdfParams(user),
+				wrapped_master_key: user.wrapped_master_key,
+				root_migration_pending: Boolean(getPendingRootMigration(user)),
+				has_key_pair: Boolean(user.public_key)
+			}
 		});
 	} catch (error) {
 		if (process.env.NODE_ENV !== 'test') {
@@ -290,6 +370,542 @@ router.post('/logout', authenticateToken, (req, res) => {
 	}
 });
 
+// -----------------------------------------------------------------------------
+// Routes: Password Change
+// -----------------------------------------------------------------------------
+/**
+ * Pending root migration limited to nodes the user still owns; null when nothing is left.
+ * @param {object} user User document
+ */
+function getPendingRootMigration(user) {
+	if (!user.root_migration) {
+		return null;
+	}
+
+	const pendingNodes = user.root_migration.pending_nodes.filter(nodeId =>
+		user.storage_nodes.includes(nodeId)
+	);
+	if (pendingNodes.length === 0) {
+		return null;
+	}
+
+	return {
+		previous_root_chunk_id: user.root_migration.previous_root_chunk_id,
+		pending_nodes: pendingNodes
+	};
+}
+
+/**
+ * Set a new password hash, salt, KDF parameters and wrapped master key, and queue every owned
+ * node's root for a move away from the previous root chunk ID. Bumps the token version, so
+ * every session issued before is refused. Caller saves the user.
+ * @param {object} user User document
+ * @param {{newPassword:string,salt:string,kdfParams?:object,wrappedMasterKey:string,previousRootChunkId:string,rootLocator?:string}} data
+ */
+async function applyNewPassword(user, data) {
+	user.password = await bcrypt.hash(data.newPassword, 12);
+	user.salt = data.salt;
+	// Clients that send no parameters derived the new key with the legacy ones
+	user.kdf_params = data.kdfParams || null;
+	user.wrapped_master_key = data.wrappedMasterKey;
+	if (data.rootLocator) {
+		user.root_locator = data.rootLocator;
+	}
+	user.token_version = (user.token_version || 0) + 1;
+	user.root_migration = null;
+	if (user.storage_nodes.length > 0) {
+		user.root_migration = {
+			previous_root_chunk_id: data.previousRootChunkId,
+			pending_nodes: user.storage_nodes
+		};
+	}
+}
+
+/**
+ * POST /change-password
+ * Replaces the password hash and salt and stores the master key re-wrapped by the client.
+ * Records the previous root chunk ID so each owned node's root can be moved to the ID
+ * derived from the new password. Other sessions are signed out; the caller gets a new token.
+ * Body: { currentPassword, newPassword, salt, kdfParams?, wrappedMasterKey, previousRootChunkId, rootLocator? }
+ */
+router.post('/change-password', authenticateToken, async (req, res) => {
+	try {
+		const validation = validatePasswordChangeInput(req.body);
+		if (!validation.isValid) {
+			return apiError(res, 400, 'Invalid input data', validation.errors);
+		}
+
+		const user = await User.findById(req.user.userId);
+		if (!user) {
+			return apiError(res, 404, 'User not found');
+		}
+
+		const isPasswordValid = await bcrypt.compare(req.body.currentPassword, user.password);
+		if (!isPasswordValid) {
+			return apiError(res, 400, 'Current password is incorrect');
+		}
+
+		// The older root ID would be lost, leaving unmigrated nodes unreachable
+		const pendingMigration = getPendingRootMigration(user);
+		if (pendingMigration) {
+			return apiError(
+				res,
+				409,
+				'Finish moving your files to the current password on all nodes first',
+				{ pending_nodes: pendingMigration.pending_nodes }
+			);
+		}
+
+		await applyNewPassword(user, req.body);
+		await user.save();
+
+		return apiSuccess(res, 200, 'Password changed', {
+			token: signAuthToken(user),
+			salt: user.salt,
+			kdf_params: getKdfParams(user),
+			wrapped_master_key: user.wrapped_master_key,
+			root_migration: getPendingRootMigration(user)
+		});
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Change password error:', error);
+		}
+		return apiError(res, 500, 'Failed to change password');
+	}
+});
+
+/**
+ * POST /kdf-upgrade
+ * Re-keys the account under stronger KDF parameters without changing the password: new
+ * salt, master key re-wrapped by the client and node roots queued for a move as in
+ * /change-password, including the new token.
+ * Body: { password, salt, kdfParams, wrappedMasterKey, previousRootChunkId, rootLocator? }
+ */
+router.post('/kdf-upgrade', authenticateToken, async (req, res) => {
+	try {
+		const validation = validateKdfUpgradeInput(req.body);
+		if (!validation.isValid) {
+			return apiError(res, 400, 'Invalid input data', validation.errors);
+		}
+
+		const user = await User.findById(req.user.userId);
+		if (!user) {
+			return apiError(res, 404, 'User not found');
+		}
+
+		const isPasswordValid = await bcrypt.compare(req.body.password, user.password);
+		if (!isPasswordValid) {
+			return apiError(res, 400, 'Password is incorrect');
+		}
+
+		const pendingMigration = getPendingRootMigration(user);
+		if (pendingMigration) {
+			return apiError(
+				res,
+				409,
+				'Finish moving your files to the current password on all nodes first',
+				{ pending_nodes: pendingMigration.pending_nodes }
+			);
+		}
+
+		await applyNewPassword(user, { ...req.body, newPassword: req.body.password });
+		await user.save();
+
+		return apiSuccess(res, 200, 'Key derivation upgraded', {
+			token: signAuthToken(user),
+			salt: user.salt,
+			kdf_params: getKdfParams(user),
+			wrapped_master_key: user.wrapped_master_key,
+			root_migration: getPendingRootMigration(user)
+		});
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('KDF upgrade error:', error);
+		}
+		return apiError(res, 500, 'Failed to upgrade key derivation');
+	}
+});
+
+/**
+ * GET /root-migration
+ * Returns { root_migration } listing nodes that still need their root moved, or null.
+ */
+router.get('/root-migration', authenticateToken, async (req, res) => {
+	try {
+		const user = await User.findById(req.user.userId);
+		if (!user) {
+			return apiError(res, 404, 'User not found');
+		}
+
+		return apiSuccess(res, 200, undefined, { root_migration: getPendingRootMigration(user) });
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Get root migration error:', error);
+		}
+		return apiError(res, 500, 'Failed to load root migration');
+	}
+});
+
+/**
+ * DELETE /root-migration/nodes/:nodeId
+ * Marks one node's root as moved; clears the migration once no nodes remain.
+ */
+router.delete('/root-migration/nodes/:nodeId', authenticateToken, async (req, res) => {
+	try {
+		const user = await User.findById(req.user.userId);
+		if (!user) {
+			return apiError(res, 404, 'User not found');
+		}
+
+		if (user.root_migration) {
+			user.root_migration.pending_nodes = user.root_migration.pending_nodes.filter(
+				nodeId => nodeId !== req.params.nodeId
+			);
+			if (!getPendingRootMigration(user)) {
+				user.root_migration = null;
+			}
+			await user.save();
+		}
+
+		return apiSuccess(res, 200, 'Node migrated', {
+			root_migration: getPendingRootMigration(user)
+		});
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Complete root migration error:', error);
+		}
+		return apiError(res, 500, 'Failed to update root migration');
+	}
+});
+
+// -----------------------------------------------------------------------------
+// Routes: Account Recovery
+// -----------------------------------------------------------------------------
+const PASSWORD_RESET_EXPIRY_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * User holding an unexpired password reset token, or null.
+ * @param {string} token Raw token from the reset link
+ */
+async function findUserByResetToken(token) {
+	if (typeof token !== 'string' || !/^[0-9a-f]{64}$/.test(token)) {
+		return null;
+	}
+	return User.findOne({
+		passwordResetTokenHash: sha256(token),
+		passwordResetExpires: { $gt: Date.now() }
+	});
+}
+
+/**
+ * GET /recovery-key
+ * Returns { configured } telling whether the account has a recovery key.
+ */
+router.get('/recovery-key', authenticateToken, async (req, res) => {
+	try {
+		const user = await User.findById(req.user.userId);
+		if (!user) {
+			return apiError(res, 404, 'User not found');
+		}
+
+		return apiSuccess(res, 200, undefined, { configured: Boolean(user.recovery_wrapped_key) });
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Get recovery key error:', error);
+		}
+		return apiError(res, 500, 'Failed to load recovery key status');
+	}
+});
+
+/**
+ * PUT /recovery-key
+ * Stores a new recovery key's wrapped master key, verifier and root locator, replacing
+ * any previous recovery key.
+ * Body: { recoveryWrappedKey, recoveryVerifier, rootLocator }
+ */
+router.put('/recovery-key', authenticateToken, async (req, res) => {
+	try {
+		const validation = validateRecoveryKeyInput(req.body);
+		if (!validation.isValid) {
+			return apiError(res, 400, 'Invalid input data', validation.errors);
+		}
+
+		const user = await User.findById(req.user.userId);
+		if (!user) {
+			return apiError(res, 404, 'User not found');
+		}
+
+		user.recovery_wrapped_key = req.body.recoveryWrappedKey;
+		user.recovery_verifier_hash = sha256(req.body.recoveryVerifier);
+		user.root_locator = req.body.rootLocator;
+		await user.save();
+
+		return apiSuccess(res, 200, 'Recovery key saved', { configured: true });
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Save recovery key error:', error);
+		}
+		return apiError(res, 500, 'Failed to save recovery key');
+	}
+});
+
+/**
+ * POST /forgot-password
+ * Emails a one-time reset link to verified accounts that have a recovery key. The
+ * response is the same whether or not the account exists.
+ * Body: { email }
+ */
+router.post('/forgot-password', async (req, res) => {
+	const message = 'If an account with a recovery key exists, a reset link has been sent.';
+	try {
+		const { email } = req.body;
+		if (!email || typeof email !== 'string') {
+			return apiError(res, 400, 'Email is required');
+		}
+
+		const user = await User.findOne({ email: email.toLowerCase().trim() });
+		if (!user || !user.isVerified || !user.recovery_wrapped_key) {
+			return apiSuccess(res, 200, message);
+		}
+
+		const token = crypto.randomBytes(32).toString('hex');
+		user.passwordResetTokenHash = sha256(token);
+		user.passwordResetExpires = Date.now() + PASSWORD_RESET_EXPIRY_MS;
+		await user.save();
+
+		await sendPasswordResetEmail(user.email, token);
+		return apiSuccess(res, 200, message);
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Forgot password error:', error);
+		}
+		return apiError(res, 500, 'Failed to send password reset email');
+	}
+});
+
+/**
+ * POST /reset-password/recovery
+ * Returns the recovery-wrapped master key and root locator for a valid reset token.
+ * Body: { token }
+ */
+router.post('/reset-password/recovery', async (req, res) => {
+	try {
+		const user = await findUserByResetToken(req.body.token);
+		if (!user) {
+			return apiError(res, 400, 'Reset link is invalid or has expired');
+		}
+
+		return apiSuccess(res, 200, undefined, {
+			recovery_wrapped_key: user.recovery_wrapped_key,
+			root_locator: user.root_locator
+		});
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Reset recovery lookup error:', error);
+		}
+		return apiError(res, 500, 'Failed to load recovery data');
+	}
+});
+
+/**
+ * POST /reset-password
+ * Sets a new password using the emailed token plus proof of the recovery key. The client
+ * re-wraps the unchanged master key, so encrypted files stay readable. Every existing
+ * session is signed out.
+ * Body: { token, recoveryVerifier, newPassword, salt, kdfParams?, wrappedMasterKey, previousRootChunkId, rootLocator }
+ */
+router.post('/reset-password', async (req, res) => {
+	try {
+		const validation = validatePasswordResetInput(req.body);
+		if (!validation.isValid) {
+			return apiError(res, 400, 'Invalid input data', validation.errors);
+		}
+
+		const user = await findUserByResetToken(req.body.token);
+		if (!user) {
+			return apiError(res, 400, 'Reset link is invalid or has expired');
+		}
+
+		const expected = Buffer.from(user.recovery_verifier_hash || '', 'hex');
+		const actual = Buffer.from(sha256(req.body.recoveryVerifier), 'hex');
+		if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+			return apiError(res, 400, 'Recovery key is incorrect');
+		}
+
+		// Nodes still on an older root would become unreachable (see /change-password)
+		const pendingMigration = getPendingRootMigration(user);
+		if (pendingMigration) {
+			return apiError(
+				res,
+				409,
+				'A previous password change is still being applied. Log in with that password to finish it first.',
+				{ pending_nodes: pendingMigration.pending_nodes }
+			);
+		}
+
+		await applyNewPassword(user, req.body);
+		user.passwordResetTokenHash = undefined;
+		user.passwordResetExpires = undefined;
+		await user.save();
+
+		return apiSuccess(res, 200, 'Password reset. You can now log in with your new password.');
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Reset password error:', error);
+		}
+		return apiError(res, 500, 'Failed to reset password');
+	}
+});
+
+// -----------------------------------------------------------------------------
+// Routes: Sharing Key Pair
+// -----------------------------------------------------------------------------
+/**
+ * GET /key-pair
+ * Returns { public_key, wrapped_private_key } (null when the account has none yet).
+ */
+router.get('/key-pair', authenticateToken, async (req, res) => {
+	try {
+		const user = await User.findById(req.user.userId);
+		if (!user) {
+			return apiError(res, 404, 'User not found');
+		}
+
+		return apiSuccess(res, 200, undefined, {
+			public_key: user.public_key || null,
+			wrapped_private_key: user.wrapped_private_key || null
+		});
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Get key pair error:', error);
+		}
+		return apiError(res, 500, 'Failed to load key pair');
+	}
+});
+
+/**
+ * PUT /key-pair
+ * Stores the account's sharing key pair once. Folder keys are sealed to the public key,
+ * so replacing it would lock the account out of folders shared with it.
+ * Body: { publicKey, wrappedPrivateKey }
+ */
+router.put('/key-pair', authenticateToken, async (req, res) => {
+	try {
+		const validation = validateKeyPairInput(req.body);
+		if (!validation.isValid) {
+			return apiError(res, 400, 'Invalid input data', validation.errors);
+		}
+
+		const user = await User.findOneAndUpdate(
+			{ _id: req.user.userId, public_key: { $exists: false } },
+			{
+				public_key: req.body.publicKey,
+				wrapped_private_key: req.body.wrappedPrivateKey
+			},
+			{ new: true }
+		);
+		if (!user) {
+			return apiError(res, 409, 'Key pair already exists');
+		}
+
+		return apiSuccess(res, 200, 'Key pair saved', { public_key: user.public_key });
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Save key pair error:', error);
+		}
+		return apiError(res, 500, 'Failed to save key pair');
+	}
+});
+
+// -----------------------------------------------------------------------------
+// Routes: Preferences
+// -----------------------------------------------------------------------------
+const MAX_TRANSFER_CONCURRENCY = 8;
+
+/**
+ * GET /preferences
+ * Returns client-side transfer settings for the authenticated user.
+ */
+router.get('/preferences', authenticateToken, async (req, res) => {
+	try {
+		const user = await User.findById(req.user.userId);
+		if (!user) {
+			return apiError(res, 404, 'User not found');
+		}
+
+		return apiSuccess(res, 200, undefined, {
+			transfer_concurrency: user.transfer_concurrency,
+			pad_file_sizes: user.pad_file_sizes,
+			compress_uploads: user.compress_uploads
+		});
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Get preferences error:', error);
+		}
+		return apiError(res, 500, 'Failed to load preferences');
+	}
+});
+
+/**
+ * PUT /preferences
+ * Updates transfer settings; fields left out keep their value.
+ * Body: { transfer_concurrency?: 1-8 parallel chunks, pad_file_sizes?: boolean,
+ *         compress_uploads?: boolean }
+ */
+router.put('/preferences', authenticateToken, async (req, res) => {
+	try {
+		const { transfer_concurrency, pad_file_sizes, compress_uploads } = req.body;
+		if (
+			transfer_concurrency !== undefined &&
+			(!Number.isInteger(transfer_concurrency) ||
+				transfer_concurrency < 1 ||
+				transfer_concurrency > MAX_TRANSFER_CONCURRENCY)
+		) {
+			return apiError(
+				res,
+				400,
+				`transfer_concurrency must be an integer between 1 and ${MAX_TRANSFER_CONCURRENCY}`
+			);
+		}
+		if (pad_file_sizes !== undefined && typeof pad_file_sizes !== 'boolean') {
+			return apiError(res, 400, 'pad_file_sizes must be a boolean');
+		}
+		if (compress_uploads !== undefined && typeof compress_uploads !== 'boolean') {
+			return apiError(res, 400, 'compress_uploads must be a boolean');
+		}
+
+		const update = {};
+		if (transfer_concurrency !== undefined) {
+			update.transfer_concurrency = transfer_concurrency;
+		}
+		if (pad_file_sizes !== undefined) {
+			update.pad_file_sizes = pad_file_sizes;
+		}
+		if (compress_uploads !== undefined) {
+			update.compress_uploads = compress_uploads;
+		}
+		if (Object.keys(update).length === 0) {
+			return apiError(res, 400, 'No preferences to update');
+		}
+
+		const user = await User.findByIdAndUpdate(req.user.userId, update, { new: true });
+		if (!user) {
+			return apiError(res, 404, 'User not found');
+		}
+
+		return apiSuccess(res, 200, 'Preferences updated', {
+			transfer_concurrency: user.transfer_concurrency,
+			pad_file_sizes: user.pad_file_sizes,
+			compress_uploads: user.compress_uploads
+		});
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Update preferences error:', error);
+		}
+		return apiError(res, 500, 'Failed to update preferences');
+	}
+});
+
 // -----------------------------------------------------------------------------
 // Exports
 // -----------------------------------------------------------------------------
@@ -0,0 +1,310 @@
+// File: src/routes/sharedFolders.js - Shared folder routes: create/list/delete folders, grant, revoke & leave
+
+/**
+ * Shared Folder Routes: an owner shares a directory tree on one of their nodes with other
+ * accounts. The tree is encrypted under a folder key that each member receives sealed to
+ * their public key; the server only stores the sealed copies and decides which chunks a
+ * member may reach (see validateUserOwnsNode in storage.js).
+ */
+
+const express = require('express');
+const crypto = require('crypto');
+const { authenticateToken } = require('./auth');
+const { validateUserOwnsNode } = require('./storage');
+const { User, SharedFolder, SharedChunk } = require('../models/User');
+const { apiSuccess, apiError } = require('./apiResponse');
+const {
+	validateSharedFolderInput,
+	validateSharedFolderMemberInput
+} = require('../utils/validation');
+
+const router = express.Router();
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+/**
+ * Load a folder the user owns; null otherwise.
+ * @param {string} folderId
+ * @param {string} userId
+ */
+async function findOwnedFolder(folderId, userId) {
+	return SharedFolder.findOne({ folder_id: folderId, owner_user_id: userId });
+}
+
+/**
+ * Drop a user from a folder's member list; false if they were not a member.
+ * @param {import('mongoose').Document} folder
+ * @param {string} userId
+ */
+async function removeMember(folder, userId) {
+	const remaining = folder.members.filter(entry => entry.user_id.toString() !== userId);
+	if (remaining.length === folder.members.length) {
+		return false;
+	}
+	folder.members = remaining;
+	await folder.save();
+	return true;
+}
+
+// -----------------------------------------------------------------------------
+// Routes: Public Keys
+// -----------------------------------------------------------------------------
+/**
+ * GET /users/public-key?email=
+ * Public key of the account a folder is about to be shared with: { user_id, name, public_key }.
+ */
+router.get('/users/public-key', authenticateToken, async (req, res) => {
+	try {
+		const { email } = req.query;
+		if (typeof email !== 'string' || !email) {
+			return apiError(res, 400, 'Email is required');
+		}
+
+		const user = await User.findOne({ email: email.toLowerCase(), isVerified: true });
+		if (!user || !user.public_key) {
+			// Accounts get a key pair on their first login after sharing was introduced
+			return apiError(res, 404, 'No account with sharing enabled uses this email');
+		}
+
+		return apiSuccess(res, 200, undefined, {
+			user_id: user._id,
+			name: user.name,
+			public_key: user.public_key
+		});
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Public key lookup error:', error);
+		}
+		return apiError(res, 500, 'Failed to look up public key');
+	}
+});
+
+// -----------------------------------------------------------------------------
+// Routes: Folders
+// -----------------------------------------------------------------------------
+/**
+ * POST /shared-folders
+ * Creates a shared folder rooted at a new directory chunk on a node the user owns.
+ * Body: { nodeId, rootChunkId, encryptedName, sealedKey }
+ * Success: 201 { folder_id }
+ */
+router.post('/shared-folders', authenticateToken, async (req, res) => {
+	try {
+		const validation = validateSharedFolderInput(req.body);
+		if (!validation.isValid) {
+			return apiError(res, 400, 'Invalid input data', validation.errors);
+		}
+
+		const { nodeId, rootChunkId, encryptedName, sealedKey } = req.body;
+		await validateUserOwnsNode(req, req.user.userId, nodeId, false);
+
+		const folder = new SharedFolder({
+			folder_id: crypto.randomBytes(16).toString('base64url'),
+			owner_user_id: req.user.userId,
+			node_id: nodeId,
+			root_chunk_id: rootChunkId,
+			encrypted_name: encryptedName,
+			members: [{ user_id: req.user.userId, role: 'owner', sealed_key: sealedKey }]
+		});
+
+		// The root must not already belong to the owner's own tree or another folder
+		try {
+			await SharedChunk.create({
+				folder_id: folder.folder_id,
+				node_id: nodeId,
+				chunk_id: rootChunkId
+			});
+		} catch {
+			return apiError(res, 409, 'Root chunk is already in use');
+		}
+		await folder.save();
+
+		return apiSuccess(res, 201, 'Shared folder created', { folder_id: folder.folder_id });
+	} catch (error) {
+		if (error.message.includes('does not own')) {
+			return apiError(res, 403, 'Access denied');
+		}
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Shared folder creation error:', error);
+		}
+		return apiError(res, 500, 'Failed to create shared folder');
+	}
+});
+
+/**
+ * GET /shared-folders
+ * Lists folders the user owns or was granted, with the user's role and sealed folder key.
+ * Owners also get the member list.
+ */
+router.get('/shared-folders', authenticateToken, async (req, res) => {
+	try {
+		const folders = await SharedFolder.find({ 'members.user_id': req.user.userId })
+			.sort({ created_at: -1 })
+			.populate('members.user_id', 'name email')
+			.populate('owner_user_id', 'name email');
+
+		return apiSuccess(res, 200, undefined, {
+			folders: folders.map(folder => {
+				const member = folder.members.find(
+					entry => entry.user_id._id.toString() === req.user.userId
+				);
+				const entry = {
+					folder_id: folder.folder_id,
+					node_id: folder.node_id,
+					root_chunk_id: folder.root_chunk_id,
+					encrypted_name: folder.encrypted_name,
+					role: member.role,
+					sealed_key: member.sealed_key,
+					owner: { name: folder.owner_user_id.name, email: folder.owner_user_id.email }
+				};
+				if (member.role === 'owner') {
+					entry.members = folder.members.map(other => ({
+						user_id: other.user_id._id,
+						name: other.user_id.name,
+						email: other.user_id.email,
+						role: other.role
+					}));
+				}
+				return entry;
+			})
+		});
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Shared folder list error:', error);
+		}
+		return apiError(res, 500, 'Failed to list shared folders');
+	}
+});
+
+/**
+ * DELETE /shared-folders/:folderId
+ * Stops sharing a folder. Its chunks stay on the node and become orphans of the owner's
+ * tree, so the node cleanup can reclaim them.
+ */
+router.delete('/shared-folders/:folderId', authenticateToken, async (req, res) => {
+	try {
+		const folder = await findOwnedFolder(req.params.folderId, req.user.userId);
+		if (!folder) {
+			return apiError(res, 404, 'Shared folder not found');
+		}
+
+		await SharedChunk.deleteMany({ folder_id: folder.folder_id });
+		await SharedFolder.deleteOne({ _id: folder._id });
+
+		return apiSuccess(res, 200, 'Shared folder deleted', { folder_id: folder.folder_id });
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Shared folder delete error:', error);
+		}
+		return apiError(res, 500, 'Failed to delete shared folder');
+	}
+});
+
+// -----------------------------------------------------------------------------
+// Routes: Members
+// -----------------------------------------------------------------------------
+/**
+ * POST /shared-folders/:folderId/members
+ * Grants (or changes) another account's access. The client seals the folder key to the
+ * public key returned by GET /users/public-key.
+ * Body: { email, role: 'read' | 'write', sealedKey }
+ */
+router.post('/shared-folders/:folderId/members', authenticateToken, async (req, res) => {
+	try {
+		const validation = validateSharedFolderMemberInput(req.body);
+		if (!validation.isValid) {
+			return apiError(res, 400, 'Invalid input data', validation.errors);
+		}
+
+		const folder = await findOwnedFolder(req.params.folderId, req.user.userId);
+		if (!folder) {
+			return apiError(res, 404, 'Shared folder not found');
+		}
+
+		const user = await User.findOne({ email: req.body.email.toLowerCase(), isVerified: true });
+		if (!user || !user.public_key) {
+			return apiError(res, 404, 'No account with sharing enabled uses this email');
+		}
+		if (user._id.equals(folder.owner_user_id)) {
+			return apiError(res, 400, 'The owner already has access');
+		}
+
+		folder.members = folder.members.filter(entry => !entry.user_id.equals(user._id));
+		folder.members.push({
+			user_id: user._id,
+			role: req.body.role,
+			sealed_key: req.body.sealedKey
+		});
+		await folder.save();
+
+		return apiSuccess(res, 201, 'Access granted', {
+			user_id: user._id,
+			name: user.name,
+			email: user.email,
+			role: req.body.role
+		});
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Shared folder grant error:', error);
+		}
+		return apiError(res, 500, 'Failed to grant access');
+	}
+});
+
+/**
+ * DELETE /shared-folders/:folderId/members/:userId
+ * Revokes a member. The member keeps nothing usable: chunk access is checked against the
+ * member list on every request.
+ */
+router.delete('/shared-folders/:folderId/members/:userId', authenticateToken, async (req, res) => {
+	try {
+		const { userId } = req.params;
+		const folder = await findOwnedFolder(req.params.folderId, req.user.userId);
+		if (!folder) {
+			return apiError(res, 404, 'Shared folder not found');
+		}
+		if (folder.owner_user_id.toString() === userId) {
+			return apiError(res, 400, 'The owner cannot be removed');
+		}
+		if (!(await removeMember(folder, userId))) {
+			return apiError(res, 404, 'Member not found');
+		}
+
+		return apiSuccess(res, 200, 'Access revoked', { user_id: userId });
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Shared folder revoke error:', error);
+		}
+		return apiError(res, 500, 'Failed to revoke access');
+	}
+});
+
+/**
+ * DELETE /shared-folders/:folderId/membership
+ * Leaves a folder shared with the user.
+ */
+router.delete('/shared-folders/:folderId/membership', authenticateToken, async (req, res) => {
+	try {
+		const folder = await SharedFolder.findOne({
+			folder_id: req.params.folderId,
+			'members.user_id': req.user.userId
+		});
+		if (!folder) {
+			return apiError(res, 404, 'Shared folder not found');
+		}
+		if (folder.owner_user_id.toString() === req.user.userId) {
+			return apiError(res, 400, 'The owner cannot leave; delete the folder instead');
+		}
+		await removeMember(folder, req.user.userId);
+
+		return apiSuccess(res, 200, 'Left shared folder', { folder_id: folder.folder_id });
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Shared folder leave error:', error);
+		}
+		return apiError(res, 500, 'Failed to leave shared folder');
+	}
+});
+
+module.exports = { router };
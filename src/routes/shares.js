@@ -0,0 +1,336 @@
+// File: src/routes/shares.js - Share link routes: owner create/list/revoke, public access & share-scoped downloads
+
+/**
+ * Share Routes: an owner shares one file by link. The link's #fragment carries the file's
+ * data key wrapped by the share key stored here, so the server never holds a usable key.
+ * Recipients trade the share ID (and password) for a short-lived share token that only
+ * opens download sessions for the shared chunks.
+ */
+
+const express = require('express');
+const crypto = require('crypto');
+const bcrypt = require('bcryptjs');
+const jwt = require('jsonwebtoken');
+const { authenticateToken } = require('./auth');
+const { validateUserOwnsNode, createDownloadSession, deleteTemporaryObject } = require('./storage');
+const { Share } = require('../models/User');
+const { apiSuccess, apiError } = require('./apiResponse');
+const { validateShareInput } = require('../utils/validation');
+
+const router = express.Router();
+
+// Share tokens are JWTs with their own audience so they never pass as login tokens
+const SHARE_TOKEN_AUDIENCE = 'share';
+const SHARE_TOKEN_TTL = '1h';
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+/**
+ * True once a share's expiry has passed (the TTL index removes it shortly after).
+ * @param {object} share Share document
+ */
+function isExpired(share) {
+	return Boolean(share.expires_at) && share.expires_at <= new Date();
+}
+
+/**
+ * Load a share that can still be used; null if it was revoked, expired or never existed.
+ * @param {string} shareId
+ */
+async function findActiveShare(shareId) {
+	const share = await Share.findOne({ share_id: shareId });
+	return share && !isExpired(share) ? share : null;
+}
+
+/**
+ * Downloads left before the limit, or null for unlimited shares.
+ * @param {object} share Share document
+ */
+function getDownloadsRemaining(share) {
+	return share.max_downloads === null
+		? null
+		: Math.max(share.max_downloads - share.download_count, 0);
+}
+
+/**
+ * Verify a share token issued by POST /shares/:shareId/access for the share in the URL.
+ */
+function authenticateShareToken(req, res, next) {
+	const authHeader = req.headers['authorization'];
+	const token = authHeader && authHeader.split(' ')[1];
+
+	if (!token) {
+		return apiError(res, 401, 'Share token required');
+	}
+
+	jwt.verify(
+		token,
+		process.env.JWT_SECRET,
+		{ audience: SHARE_TOKEN_AUDIENCE },
+		(err, decoded) => {
+			if (err || decoded.shareId !== req.params.shareId) {
+				return apiError(res, 403, 'Invalid or expired share token');
+			}
+			next();
+		}
+	);
+}
+
+// -----------------------------------------------------------------------------
+// Routes: Owner
+// -----------------------------------------------------------------------------
+/**
+ * POST /shares
+ * Creates a share link record for one file on a node the user owns.
+ * Body: { nodeId, chunkIds, shareKey, encryptedManifest, encryptedName, password?, expiresAt?, maxDownloads? }
+ * Success: 201 { share_id }
+ */
+router.post('/shares', authenticateToken, async (req, res) => {
+	try {
+		const validation = validateShareInput(req.body);
+		if (!validation.isValid) {
+			return apiError(res, 400, 'Invalid input data', validation.errors);
+		}
+
+		const { nodeId, chunkIds, shareKey, encryptedManifest, encryptedName } = req.body;
+		await validateUserOwnsNode(req, req.user.userId, nodeId, false);
+
+		const share = new Share({
+			share_id: crypto.randomBytes(16).toString('base64url'),
+			owner_user_id: req.user.userId,
+			node_id: nodeId,
+			chunk_ids: [...new Set(chunkIds)],
+			share_key: shareKey,
+			encrypted_manifest: encryptedManifest,
+			encrypted_name: encryptedName,
+			password_hash: req.body.password ? await bcrypt.hash(req.body.password, 12) : null,
+			expires_at: req.body.expiresAt ? new Date(req.body.expiresAt) : null,
+			max_downloads: req.body.maxDownloads ?? null
+		});
+		await share.save();
+
+		return apiSuccess(res, 201, 'Share created', { share_id: share.share_id });
+	} catch (error) {
+		if (error.message.includes('does not own')) {
+			return apiError(res, 403, 'Access denied');
+		}
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Share creation error:', error);
+		}
+		return apiError(res, 500, 'Failed to create share');
+	}
+});
+
+/**
+ * GET /shares
+ * Lists the user's active shares, newest first. Names stay encrypted under the master key.
+ */
+router.get('/shares', authenticateToken, async (req, res) => {
+	try {
+		const shares = await Share.find({ owner_user_id: req.user.userId }).sort({
+			created_at: -1
+		});
+
+		return apiSuccess(res, 200, undefined, {
+			shares: shares
+				.filter(share => !isExpired(share))
+				.map(share => ({
+					share_id: share.share_id,
+					node_id: share.node_id,
+					encrypted_name: share.encrypted_name,
+					has_password: Boolean(share.password_hash),
+					created_at: share.created_at,
+					expires_at: share.expires_at,
+					max_downloads: share.max_downloads,
+					download_count: share.download_count
+				}))
+		});
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Share list error:', error);
+		}
+		return apiError(res, 500, 'Failed to list shares');
+	}
+});
+
+/**
+ * DELETE /shares/:shareId
+ * Revokes a share; its link and any share tokens stop working at once.
+ */
+router.delete('/shares/:shareId', authenticateToken, async (req, res) => {
+	try {
+		const result = await Share.deleteOne({
+			share_id: req.params.shareId,
+			owner_user_id: req.user.userId
+		});
+		if (result.deletedCount === 0) {
+			return apiError(res, 404, 'Share not found');
+		}
+
+		return apiSuccess(res, 200, 'Share revoked', { share_id: req.params.shareId });
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Share revoke error:', error);
+		}
+		return apiError(res, 500, 'Failed to revoke share');
+	}
+});
+
+// -----------------------------------------------------------------------------
+// Routes: Public
+// -----------------------------------------------------------------------------
+/**
+ * GET /shares/:shareId
+ * Public summary shown before opening a share: { requires_password, expires_at, downloads_remaining }.
+ */
+router.get('/shares/:shareId', async (req, res) => {
+	try {
+		const share = await findActiveShare(req.params.shareId);
+		if (!share) {
+			return apiError(res, 404, 'This link has expired or was revoked');
+		}
+
+		return apiSuccess(res, 200, undefined, {
+			requires_password: Boolean(share.password_hash),
+			expires_at: share.expires_at,
+			downloads_remaining: getDownloadsRemaining(share)
+		});
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Share lookup error:', error);
+		}
+		return apiError(res, 500, 'Failed to load share');
+	}
+});
+
+/**
+ * POST /shares/:shareId/access
+ * Checks the password, counts one download and returns a share token with the share key
+ * and encrypted manifest.
+ * Body: { password? }
+ */
+router.post('/shares/:shareId/access', async (req, res) => {
+	try {
+		const share = await findActiveShare(req.params.shareId);
+		if (!share) {
+			return apiError(res, 404, 'This link has expired or was revoked');
+		}
+
+		if (share.password_hash) {
+			const { password } = req.body || {};
+			const isPasswordValid =
+				typeof password === 'string' &&
+				(await bcrypt.compare(password, share.password_hash));
+			if (!isPasswordValid) {
+				return apiError(res, 401, 'Password is incorrect');
+			}
+		}
+
+		// Count atomically so parallel opens cannot exceed the limit
+		const counted = await Share.findOneAndUpdate(
+			{
+				share_id: share.share_id,
+				$or: [
+					{ max_downloads: null },
+					{ $expr: { $lt: ['$download_count', '$max_downloads'] } }
+				]
+			},
+			{ $inc: { download_count: 1 } },
+			{ new: true }
+		);
+		if (!counted) {
+			return apiError(res, 410, 'This link has reached its download limit');
+		}
+
+		const token = jwt.sign({ shareId: share.share_id }, process.env.JWT_SECRET, {
+			audience: SHARE_TOKEN_AUDIENCE,
+			expiresIn: SHARE_TOKEN_TTL
+		});
+
+		return apiSuccess(res, 200, undefined, {
+			token,
+			share_key: share.share_key,
+			encrypted_manifest: share.encrypted_manifest
+		});
+	} catch (error) {
+		if (process.env.NODE_ENV !== 'test') {
+			console.error('Share access error:', error);
+		}
+		return apiError(res, 500, 'Failed to open share');
+	}
+});
+
+/**
+ * POST /shares/:shareId/chunks/:chunkId/download-sessions
+ * Share-scoped presigned download for one of the shared chunks (share token required).
+ */
+router.post(
+	'/shares/:shareId/chunks/:chunkId/download-sessions',
+	authenticateShareToken,
+	async (req, res) => {
+		const { shareId, chunkId } = req.params;
+
+		try {
+			const share = await findActiveShare(shareId);
+			if (!share) {
+				return apiError(res, 404, 'This link has expired or was revoked');
+			}
+			if (!share.chunk_ids.includes(chunkId)) {
+				return apiError(res, 403, 'Chunk is not part of this share');
+			}
+
+			const session = await createDownloadSession(req, share.node_id, chunkId);
+			return apiSuccess(res, 201, undefined, session);
+		} catch (error) {
+			if (error.message.includes('not connected')) {
+				return apiError(res, 503, 'The storage node holding this file is offline');
+			}
+			return apiError(res, 500, error.message);
+		}
+	}
+);
+
+/**
+ * DELETE /shares/:shareId/chunks/:chunkId/download-sessions
+ * Removes the temporary object of a share download session.
+ * Body: { temporaryObjectName }
+ */
+router.delete(
+	'/shares/:shareId/chunks/:chunkId/download-sessions',
+	authenticateShareToken,
+	async (req, res) => {
+		const { shareId, chunkId } = req.params;
+		const { temporaryObjectName } = req.body || {};
+
+		// Only objects created by createDownloadSession for this chunk
+		if (
+			typeof temporaryObjectName !== 'string' ||
+			!/^temp-cmd-[0-9a-f]{16}-/.test(temporaryObjectName) ||
+			!temporaryObjectName.endsWith(`-${chunkId}`)
+		) {
+			return apiError(res, 400, 'temporaryObjectName is invalid');
+		}
+
+		try {
+			// Same checks as opening the session, so a token cannot reach other chunks' objects
+			const share = await findActiveShare(shareId);
+			if (!share) {
+				return apiError(res, 404, 'This link has expired or was revoked');
+			}
+			if (!share.chunk_ids.includes(chunkId)) {
+				return apiError(res, 403, 'Chunk is not part of this share');
+			}
+
+			await deleteTemporaryObject(temporaryObjectName);
+			return apiSuccess(res, 200, undefined, {
+				chunkId,
+				status: 'download_session_completed'
+			});
+		} catch (error) {
+			return apiError(res, 500, `Failed to cleanup temporary object: ${error.message}`);
+		}
+	}
+);
+
+module.exports = { router };
@@ -16,7 +16,14 @@ const {
 const { getSignedUrl } = require('@aws-sdk/s3-request-presigner');
 const bcrypt = require('bcryptjs');
 const { authenticateToken } = require('./auth');
-const { StorageNode, User } = require('../models/User');
+const {
+	StorageNode,
+	User,
+	DirectoryRevision,
+	Share,
+	SharedFolder,
+	SharedChunk
+} = require('../models/User');
 const { apiSuccess, apiError } = require('./apiResponse');
 
 const router = express.Router();
@@ -118,48 +125,30 @@ function generateCommandId(req) {
 // -----------------------------------------------------------------------------
 /**
  * Validate requesting user owns target node and (optionally) connection status.
+ * Routes that pass `access` also admit members of a shared folder on the node (named by the
+ * X-Shared-Folder header), limited to that folder's chunks.
  * @param {import('express').Request} req
  * @param {string} userId
  * @param {string} nodeId
  * @param {boolean} [requireConnection=true]
+ * @param {{chunkId?:string, write?:boolean, create?:boolean}|null} [access=null]
  * @throws {Error}
  * @returns {Promise<boolean>}
  */
-async function validateUserOwnsNode(req, userId, nodeId, requireConnection = true) {
+async function validateUserOwnsNode(
+	req,
+	userId,
+	nodeId,
+	requireConnection = true,
+	access = null
+) {
 	try {
-		// Check ownership cache first
-		const now = Date.now();
-		if (userOwnershipCache.has(userId)) {
-			const cachedEntry = userOwnershipCache.get(userId);
-
-			// Check if cache is still valid
-			if (now - cachedEntry.timestamp < userOwnershipCacheTTL) {
-				if (!cachedEntry.nodeIds.has(nodeId)) {
-					throw new Error('User does not own this storage node');
-				}
-			} else {
-				// Cache expired, remove it
-				userOwnershipCache.delete(userId);
-			}
-		}
-
-		// If not in cache or cache expired, fetch from database
-		if (!userOwnershipCache.has(userId)) {
-			const user = await User.findById(userId);
-			if (!user || !user.storage_nodes) {
-				throw new Error('User does not own this storage node');
-			}
-
-			// Update cache with user's node ownership
-			userOwnershipCache.set(userId, {
-				nodeIds: new Set(user.storage_nodes),
-				timestamp: now
-			});
-
-			// Check ownership after fetching from DB
-			if (!user.storage_nodes.includes(nodeId)) {
-				throw new Error('User does not own this storage node');
-			}
+		const ownsNode = await isNodeOwner(userId, nodeId);
+		const folderId = access && req.get('X-Shared-Folder');
+		if (folderId) {
+			await validateSharedFolderAccess(folderId, userId, nodeId, access, ownsNode);
+		} else if (!ownsNode) {
+			throw new Error('User does not own this storage node');
 		}
 
 		if (requireConnection) {
@@ -179,6 +168,89 @@ async function validateUserOwnsNode(req, userId, nodeId, requireConnection = tru
 	}
 }
 
+/**
+ * Whether the node is one of the user's own (cached per user).
+ * @param {string} userId
+ * @param {string} nodeId
+ * @returns {Promise<boolean>}
+ */
+async function isNodeOwner(userId, nodeId) {
+	const now = Date.now();
+	const cachedEntry = userOwnershipCache.get(userId);
+	if (cachedEntry && now - cachedEntry.timestamp < userOwnershipCacheTTL) {
+		return cachedEntry.nodeIds.has(nodeId);
+	}
+
+	const user = await User.findById(userId);
+	if (!user || !user.storage_nodes) {
+		userOwnershipCache.delete(userId);
+		return false;
+	}
+
+	// Update cache with user's node ownership
+	userOwnershipCache.set(userId, {
+		nodeIds: new Set(user.storage_nodes),
+		timestamp: now
+	});
+	return user.storage_nodes.includes(nodeId);
+}
+
+/**
+ * Check access to a chunk through a shared folder. Chunks registered to another folder are
+ * refused. Unregistered chunk IDs pass when `create` is set, for stores the node refuses if
+ * the chunk exists; the route registers them once stored. Owners may also read their node's
+ * unregistered chunks.
+ * @param {string} folderId
+ * @param {string} userId
+ * @param {string} nodeId
+ * @param {{chunkId?:string, write?:boolean, create?:boolean}} access
+ * @param {boolean} ownsNode
+ * @throws {Error}
+ */
+async function validateSharedFolderAccess(folderId, userId, nodeId, access, ownsNode) {
+	const denied = new Error('User does not own this storage node');
+
+	const folder = await SharedFolder.findOne({ folder_id: folderId, node_id: nodeId });
+	const member = folder?.members.find(entry => entry.user_id.toString() === userId);
+	if (!member || (access.write && member.role === 'read')) {
+		throw denied;
+	}
+	if (!access.chunkId) {
+		return;
+	}
+
+	const registered = await SharedChunk.findOne({ node_id: nodeId, chunk_id: access.chunkId });
+	if (registered) {
+		if (registered.folder_id !== folderId) {
+			throw denied;
+		}
+		return;
+	}
+	if (!access.create && !ownsNode) {
+		throw denied;
+	}
+}
+
+/**
+ * Register a chunk the node allocated or just stored as new to the request's shared folder,
+ * if any. Never called with an ID the node has not vouched for, so members cannot claim
+ * existing chunks.
+ * @param {import('express').Request} req
+ * @param {string} nodeId
+ * @param {string} chunkId
+ */
+async function registerSharedChunk(req, nodeId, chunkId) {
+	const folderId = req.get('X-Shared-Folder');
+	if (folderId) {
+		// A chunk stored again under its ID (after a delete) keeps its registration
+		await SharedChunk.updateOne(
+			{ node_id: nodeId, chunk_id: chunkId },
+			{ $setOnInsert: { folder_id: folderId } },
+			{ upsert: true }
+		);
+	}
+}
+
 // Updates storage node status
 /**
  * Refresh (and cache) node status via WebSocket STATUS_REQUEST (if connected)
@@ -438,6 +510,112 @@ async function sendStoreCommand(req, nodeId, command, binaryData) {
 	});
 }
 
+// Directory revision compare-and-swap
+/**
+ * Advance a directory's revision only if it still matches the caller's expected value.
+ * Registry entries are created lazily on the first claim for a directory.
+ * @param {string} nodeId
+ * @param {string} chunkId
+ * @param {number} expectedRevision
+ * @param {number} revision
+ * @returns {Promise<{ success: boolean, currentRevision: number }>}
+ */
+async function claimDirectoryRevision(nodeId, chunkId, expectedRevision, revision) {
+	const updated = await DirectoryRevision.findOneAndUpdate(
+		{ node_id: nodeId, chunk_id: chunkId, revision: expectedRevision },
+		{ $set: { revision, updated_at: new Date() } }
+	);
+	if (updated) {
+		return { success: true, currentRevision: revision };
+	}
+
+	const existing = await DirectoryRevision.findOne({ node_id: nodeId, chunk_id: chunkId });
+	if (existing) {
+		return { success: false, currentRevision: existing.revision };
+	}
+
+	try {
+		await DirectoryRevision.create({ node_id: nodeId, chunk_id: chunkId, revision });
+		return { success: true, currentRevision: revision };
+	} catch (error) {
+		// Another session created the entry first
+		if (error.code === 11000) {
+			const winner = await DirectoryRevision.findOne({ node_id: nodeId, chunk_id: chunkId });
+			return { success: false, currentRevision: winner ? winner.revision : revision };
+		}
+		throw error;
+	}
+}
+
+// -----------------------------------------------------------------------------
+// Download Sessions
+// -----------------------------------------------------------------------------
+/**
+ * Have the node upload a chunk to a temporary R2 object and presign a download URL for it.
+ * The object is removed after 10 minutes if the client never completes the session.
+ * @param {import('express').Request} req
+ * @param {string} nodeId
+ * @param {string} chunkId
+ * @returns {Promise<{sessionId:string,downloadUrl:string,temporaryObjectName:string,expiresIn:number}>}
+ */
+async function createDownloadSession(req, nodeId, chunkId) {
+	const commandId = generateCommandId(req);
+	const temporaryObjectName = `temp-${commandId}-${chunkId}`;
+
+	const putCommand = new PutObjectCommand({
+		Bucket: R2_BUCKET_NAME,
+		Key: temporaryObjectName
+	});
+	const uploadUrl = await getSignedUrl(s3Client, putCommand, { expiresIn: 300 });
+
+	const uploadConfirmation = await sendStorageNodeCommand(
+		req,
+		nodeId,
+		{ command_type: 'RETRIEVE_AND_UPLOAD_CHUNK', chunk_id: chunkId, upload_url: uploadUrl },
+		false,
+		commandId
+	); // No timeout for this command
+
+	if (!uploadConfirmation || !uploadConfirmation.success) {
+		throw new Error(uploadConfirmation.error || 'Storage node failed to upload the chunk.');
+	}
+
+	const getCommand = new GetObjectCommand({
+		Bucket: R2_BUCKET_NAME,
+		Key: temporaryObjectName
+	});
+	const downloadUrl = await getSignedUrl(s3Client, getCommand, { expiresIn: 300 });
+
+	// Remove the object later in case the client never completes the session
+	setTimeout(async () => {
+		try {
+			await deleteTemporaryObject(temporaryObjectName);
+			if (process.env.NODE_ENV !== 'test') {
+				console.log(`Cleaned up temporary download object: ${temporaryObjectName}`);
+			}
+		} catch (error) {
+			console.error(
+				`Failed to cleanup temporary download object ${temporaryObjectName}:`,
+				error
+			);
+		}
+	}, 10 * 60 * 1000); // 10 minute cleanup
+
+	return { sessionId: commandId, downloadUrl, temporaryObjectName, expiresIn: 300 };
+}
+
+/**
+ * Delete a temporary R2 object left by an upload or download session.
+ * @param {string} temporaryObjectName
+ */
+async function deleteTemporaryObject(temporaryObjectName) {
+	const deleteCommand = new DeleteObjectCommand({
+		Bucket: R2_BUCKET_NAME,
+		Key: temporaryObjectName
+	});
+	await s3Client.send(deleteCommand);
+}
+
 // POST /api/nodes - Register a new storage node
 /**
  * POST /nodes - Register new storage node (ownership bound to auth user).
@@ -604,6 +782,11 @@ router.delete('/nodes/:nodeId', authenticateToken, async (req, res) => {
 
 		// Delete the node from database
 		await StorageNode.deleteOne({ node_id: nodeId });
+		await DirectoryRevision.deleteMany({ node_id: nodeId });
+		// Shared files and folders lived on this node
+		await Share.deleteMany({ node_id: nodeId });
+		await SharedFolder.deleteMany({ node_id: nodeId });
+		await SharedChunk.deleteMany({ node_id: nodeId });
 
 		// Remove node_id from user's storage_nodes array
 		await User.findByIdAndUpdate(req.user.userId, { $pull: { storage_nodes: nodeId } });
@@ -630,6 +813,51 @@ router.delete('/nodes/:nodeId', authenticateToken, async (req, res) => {
 	}
 });
 
+// GET /api/nodes/:nodeId/chunks - List chunks stored on the node
+/**
+ * GET /nodes/:nodeId/chunks - List chunk IDs, sizes and creation times held by a node, with
+ * the shared folder each chunk belongs to (if any).
+ */
+router.get('/nodes/:nodeId/chunks', authenticateToken, async (req, res) => {
+	try {
+		const { nodeId } = req.params;
+		if (!nodeId) {
+			return apiError(res, 400, 'Node ID is required');
+		}
+
+		await validateUserOwnsNode(req, req.user.userId, nodeId);
+
+		const result = await sendStorageNodeCommand(req, nodeId, { command_type: 'LIST_CHUNKS' });
+
+		if (result.success && Array.isArray(result.chunks)) {
+			// Chunks of shared folders are not referenced from the owner's own tree
+			const sharedChunks = await SharedChunk.find({ node_id: nodeId });
+			const folderByChunk = new Map(
+				sharedChunks.map(entry => [entry.chunk_id, entry.folder_id])
+			);
+			const chunks = result.chunks.map(chunk => ({
+				chunkId: chunk.chunk_id,
+				size: chunk.size,
+				createdAt: chunk.created_at,
+				sharedFolderId: folderByChunk.get(chunk.chunk_id)
+			}));
+			return apiSuccess(res, 200, undefined, { chunks });
+		}
+		throw new Error(result.error || 'Failed to list chunks');
+	} catch (error) {
+		if (error.message.includes('required')) {
+			return apiError(res, 400, error.message);
+		}
+		if (error.message.includes('not connected')) {
+			return apiError(res, 503, 'Storage node is not available');
+		}
+		if (error.message.includes('does not own')) {
+			return apiError(res, 403, 'Access denied');
+		}
+		return apiError(res, 500, error.message || 'Internal Server Error');
+	}
+});
+
 // POST /api/nodes/:nodeId/chunks/upload-sessions - Create upload session
 /**
  * POST /nodes/:nodeId/chunks/upload-sessions - Create presigned upload session.
@@ -639,7 +867,7 @@ router.post('/nodes/:nodeId/chunks/upload-sessions', authenticateToken, async (r
 	const { data_size } = req.body;
 
 	try {
-		await validateUserOwnsNode(req, req.user.userId, nodeId);
+		await validateUserOwnsNode(req, req.user.userId, nodeId, true, { write: true });
 		const commandId = generateCommandId(req);
 
 		const chunkIdResponse = await sendStorageNodeCommand(
@@ -654,6 +882,7 @@ router.post('/nodes/:nodeId/chunks/upload-sessions', authenticateToken, async (r
 			throw new Error('Failed to get a valid chunkId from the storage node.');
 		}
 		const { chunk_id: chunkId } = chunkIdResponse;
+		await registerSharedChunk(req, nodeId, chunkId);
 		const temporaryObjectName = `temp-${commandId}-${chunkId}`;
 
 		const putCommand = new PutObjectCommand({
@@ -692,7 +921,11 @@ router.post(
 				return apiError(res, 400, 'Node ID and Chunk ID are required');
 			}
 
-			await validateUserOwnsNode(req, req.user.userId, nodeId);
+			await validateUserOwnsNode(req, req.user.userId, nodeId, true, {
+				chunkId,
+				write: true,
+				create: true
+			});
 
 			const chunkData = req.body;
 			if (!chunkData || chunkData.length === 0) {
@@ -712,6 +945,8 @@ router.post(
 			);
 
 			if (result.success && result.chunk_id) {
+				// The node stores new chunk IDs only, so the ID is free to register
+				await registerSharedChunk(req, nodeId, result.chunk_id);
 				return apiSuccess(res, 201, undefined, { chunkId: result.chunk_id, status: 'stored' });
 			}
 			throw new Error(result.error || 'Failed to store chunk');
@@ -747,7 +982,7 @@ router.get('/nodes/:nodeId/chunks/:chunkId', authenticateToken, async (req, res)
 			return apiError(res, 400, 'Node ID and Chunk ID are required');
 		}
 
-		await validateUserOwnsNode(req, req.user.userId, nodeId);
+		await validateUserOwnsNode(req, req.user.userId, nodeId, true, { chunkId });
 
 		// Send GET_CHUNK command
 		const result = await sendStorageNodeCommand(req, nodeId, {
@@ -789,7 +1024,7 @@ router.delete('/nodes/:nodeId/chunks/:chunkId', authenticateToken, async (req, r
 			return apiError(res, 400, 'Node ID and Chunk ID are required');
 		}
 
-		await validateUserOwnsNode(req, req.user.userId, nodeId);
+		await validateUserOwnsNode(req, req.user.userId, nodeId, true, { chunkId, write: true });
 
 		// Send DELETE_CHUNK command to specific storage node
 		const result = await sendStorageNodeCommand(req, nodeId, {
@@ -798,6 +1033,7 @@ router.delete('/nodes/:nodeId/chunks/:chunkId', authenticateToken, async (req, r
 		});
 
 		if (result.success) {
+			await SharedChunk.deleteOne({ node_id: nodeId, chunk_id: chunkId });
 			return apiSuccess(res, 200, undefined, { chunkId, status: 'deleted' });
 		}
 		throw new Error(result.error || 'Failed to delete chunk');
@@ -818,6 +1054,113 @@ router.delete('/nodes/:nodeId/chunks/:chunkId', authenticateToken, async (req, r
 	}
 });
 
+// POST /api/nodes/:nodeId/chunks/:chunkId/copies - Duplicate chunk on the node
+/**
+ * POST /nodes/:nodeId/chunks/:chunkId/copies - Copy a chunk node-side under a new chunk ID.
+ */
+router.post('/nodes/:nodeId/chunks/:chunkId/copies', authenticateToken, async (req, res) => {
+	try {
+		const { nodeId, chunkId } = req.params;
+		if (!nodeId || !chunkId) {
+			return apiError(res, 400, 'Node ID and Chunk ID are required');
+		}
+
+		await validateUserOwnsNode(req, req.user.userId, nodeId, true, { chunkId, write: true });
+
+		// Node allocates the new chunk ID (and reserves space) like PREP_UPLOAD
+		const result = await sendStorageNodeCommand(req, nodeId, {
+			command_type: 'COPY_CHUNK',
+			chunk_id: chunkId
+		});
+
+		if (result.success && result.chunk_id) {
+			await registerSharedChunk(req, nodeId, result.chunk_id);
+			return apiSuccess(res, 201, undefined, {
+				chunkId: result.chunk_id,
+				sourceChunkId: chunkId,
+				status: 'copied'
+			});
+		}
+		throw new Error(result.error || 'Failed to copy chunk');
+	} catch (error) {
+		if (error.message.includes('required')) {
+			return apiError(res, 400, error.message);
+		}
+		if (error.message.includes('not connected')) {
+			return apiError(res, 503, 'Storage node is not available');
+		}
+		if (error.message.includes('does not own')) {
+			return apiError(res, 403, 'Access denied');
+		}
+		if (error.message.includes('not found')) {
+			return apiError(res, 404, error.message);
+		}
+		if (error.message.includes('Insufficient disk space.')) {
+			return apiError(res, 507, error.message);
+		}
+		return apiError(res, 500, error.message || 'Internal Server Error');
+	}
+});
+
+// GET /api/nodes/:nodeId/chunks/:chunkId/revision - Current directory revision
+/**
+ * GET /nodes/:nodeId/chunks/:chunkId/revision - Current directory revision (0 if never claimed).
+ * Lets clients revalidate cached listings without fetching the chunk.
+ */
+router.get('/nodes/:nodeId/chunks/:chunkId/revision', authenticateToken, async (req, res) => {
+	try {
+		const { nodeId, chunkId } = req.params;
+
+		// Revisions live in the database, so cached listings revalidate while the node is offline
+		await validateUserOwnsNode(req, req.user.userId, nodeId, false, { chunkId });
+
+		const entry = await DirectoryRevision.findOne({ node_id: nodeId, chunk_id: chunkId });
+		return apiSuccess(res, 200, undefined, { chunkId, revision: entry ? entry.revision : 0 });
+	} catch (error) {
+		if (error.message.includes('does not own')) {
+			return apiError(res, 403, 'Access denied');
+		}
+		return apiError(res, 500, error.message || 'Internal Server Error');
+	}
+});
+
+// PUT /api/nodes/:nodeId/chunks/:chunkId/revision - Claim next directory revision
+/**
+ * PUT /nodes/:nodeId/chunks/:chunkId/revision - Compare-and-swap a directory revision (409 if stale).
+ */
+router.put('/nodes/:nodeId/chunks/:chunkId/revision', authenticateToken, async (req, res) => {
+	try {
+		const { nodeId, chunkId } = req.params;
+		const { expected_revision: expectedRevision, revision } = req.body || {};
+		if (
+			!Number.isInteger(expectedRevision) ||
+			!Number.isInteger(revision) ||
+			expectedRevision < 0 ||
+			revision <= expectedRevision
+		) {
+			return apiError(res, 400, 'expected_revision and a greater revision are required');
+		}
+
+		// Revisions live in the database, so the node does not need to be online
+		// Directories are stored before their first claim, so members only claim registered chunks
+		await validateUserOwnsNode(req, req.user.userId, nodeId, false, { chunkId, write: true });
+
+		const result = await claimDirectoryRevision(nodeId, chunkId, expectedRevision, revision);
+		if (!result.success) {
+			return apiError(res, 409, 'Directory revision conflict', {
+				revision: result.currentRevision
+			});
+		}
+
+		return apiSuccess(res, 200, undefined, { chunkId, revision: result.currentRevision });
+	} catch (error) {
+		if (error.message.includes('does not own')) {
+			return apiError(res, 403, 'Access denied');
+		}
+		return apiError(res, 500, error.message || 'Internal Server Error');
+	}
+});
+
 // PUT /api/nodes/:nodeId/chunks/:chunkId - Complete upload and store chunk
 /**
  * PUT /nodes/:nodeId/chunks/:chunkId - Finalize presigned upload to node.
@@ -834,7 +1177,8 @@ router.put('/nodes/:nodeId/chunks/:chunkId', authenticateToken, async (req, res)
 	}
 
 	try {
-		await validateUserOwnsNode(req, req.user.userId, nodeId);
+		// Upload sessions register the chunk ID the node issued
+		await validateUserOwnsNode(req, req.user.userId, nodeId, true, { chunkId, write: true });
 
 		const getCommand = new GetObjectCommand({
 			Bucket: R2_BUCKET_NAME,
@@ -880,62 +1224,10 @@ router.post(
 		const { nodeId, chunkId } = req.params;
 
 		try {
-			await validateUserOwnsNode(req, req.user.userId, nodeId);
-
-			const commandId = generateCommandId(req);
-			const temporaryObjectName = `temp-${commandId}-${chunkId}`;
-
-			const putCommand = new PutObjectCommand({
-				Bucket: R2_BUCKET_NAME,
-				Key: temporaryObjectName
-			});
-			const uploadUrl = await getSignedUrl(s3Client, putCommand, { expiresIn: 300 });
-
-			const uploadConfirmation = await sendStorageNodeCommand(
-				req,
-				nodeId,
-				{ command_type: 'RETRIEVE_AND_UPLOAD_CHUNK', chunk_id: chunkId, upload_url: uploadUrl },
-				false,
-				commandId
-			); // No timeout for this command
-
-			if (!uploadConfirmation || !uploadConfirmation.success) {
-				throw new Error(uploadConfirmation.error || 'Storage node failed to upload the chunk.');
-			}
+			await validateUserOwnsNode(req, req.user.userId, nodeId, true, { chunkId });
 
-			const getCommand = new GetObjectCommand({
-				Bucket: R2_BUCKET_NAME,
-				Key: temporaryObjectName
-			});
-			const downloadUrl = await getSignedUrl(s3Client, getCommand, { expiresIn: 300 });
-
-			// Schedule cleanup BEFORE returning (was previously unreachable after return)
-			setTimeout(async () => {
-				try {
-					const deleteCommand = new DeleteObjectCommand({
-						Bucket: R2_BUCKET_NAME,
-						Key: temporaryObjectName
-					});
-					await s3Client.send(deleteCommand);
-					if (process.env.NODE_ENV !== 'test') {
-						console.log(
-							`Cleaned up temporary download object: ${temporaryObjectName}`
-						);
-					}
-				} catch (error) {
-					console.error(
-						`Failed to cleanup temporary download object ${temporaryObjectName}:`,
-						error
-					);
-				}
-			}, 10 * 60 * 1000); // 10 minute cleanup
-
-			return apiSuccess(res, 201, undefined, {
-				sessionId: commandId,
-				downloadUrl,
-				temporaryObjectName,
-				expiresIn: 300
-			});
+			const session = await createDownloadSession(req, nodeId, chunkId);
+			return apiSuccess(res, 201, undefined, session);
 		} catch (error) {
 			return apiError(res, 500, error.message);
 		}
@@ -961,15 +1253,10 @@ router.delete(
 		}
 
 		try {
-			await validateUserOwnsNode(req, req.user.userId, nodeId);
+			await validateUserOwnsNode(req, req.user.userId, nodeId, true, { chunkId });
 
 			// Delete the temporary object from R2
-			const deleteCommand = new DeleteObjectCommand({
-				Bucket: R2_BUCKET_NAME,
-				Key: temporaryObjectName
-			});
-
-			await s3Client.send(deleteCommand);
+			await deleteTemporaryObject(temporaryObjectName);
 
 			return apiSuccess(res, 200, undefined, { chunkId, status: 'download_session_completed' });
 		} catch (error) {
@@ -994,5 +1281,7 @@ module.exports = {
 	validateUserOwnsNode,
 	updateNodeStatus,
 	sendStorageNodeCommand,
+	createDownloadSession,
+	deleteTemporaryObject,
 	clearCacheCleanupInterval
 };
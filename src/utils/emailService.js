@@ -1,4 +1,4 @@
-// File: src/utils/emailService.js - Nodemailer verification email sender utility
+// File: src/utils/emailService.js - Nodemailer verification & password reset email sender utility
 
 const nodemailer = require('nodemailer');
 
@@ -37,4 +37,33 @@ async function sendVerificationEmail(userEmail, token) {
 	await transporter.sendMail(mailOptions);
 }
 
-module.exports = { sendVerificationEmail };
+/**
+ * Send password reset email unless running in test environment.
+ * @param {string} userEmail Target recipient address.
+ * @param {string} token One-time reset token (included in link).
+ * @returns {Promise<void>} Resolves when email dispatched (or skipped in test).
+ */
+async function sendPasswordResetEmail(userEmail, token) {
+	// Skip email sending in test environment
+	if (process.env.NODE_ENV === 'test') {
+		console.log(
+			`Test mode: Would send password reset email to ${userEmail} with token ${token}`
+		);
+		return;
+	}
+
+	const resetLink = `https://project-yourcloud.me/reset-password?token=${token}`;
+
+	const mailOptions = {
+		from: process.env.EMAIL_USER,
+		to: userEmail,
+		subject: 'Reset Your Project-YourCloud Password',
+		html: `<p>Open the link below and enter your recovery key to choose a new password:</p>
+                <a href="${resetLink}">Reset Password</a>
+                <p>This link will expire in 1 hour. If you did not ask for it, ignore it.</p>`
+	};
+
+	await transporter.sendMail(mailOptions);
+}
+
+module.exports = { sendVerificationEmail, sendPasswordResetEmail };
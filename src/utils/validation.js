@@ -33,28 +33,114 @@ function validateRegistrationInput(data) {
 		errors.push('Email is too long');
 	}
 
-	if (!data.password || typeof data.password !== 'string') {
-		errors.push('Password is required and must be a string');
-	} else if (data.password.length < 8) {
-		errors.push('Password must be at least 8 characters long');
-	} else if (data.password.length > 128) {
-		errors.push('Password is too long');
-	} else if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(data.password)) {
-		errors.push(
-			'Password must contain at least one lowercase, uppercase, and numeric character'
-		);
-	}
+	errors.push(...getPasswordStrengthErrors(data.password, 'Password'));
 
 	if (!data.salt || typeof data.salt !== 'string') {
 		errors.push('Salt is required and must be a string');
 	}
 
+	// Recovery data is optional at registration, but all-or-nothing
+	if (data.recoveryWrappedKey || data.recoveryVerifier || data.rootLocator) {
+		errors.push(...getRecoveryDataErrors(data));
+	}
+
+	if (data.kdfParams !== undefined) {
+		errors.push(...getKdfParamsErrors(data.kdfParams));
+	}
+
 	return {
 		isValid: errors.length === 0,
 		errors
 	};
 }
 
+/**
+ * Recovery key material: master key wrapped by the recovery key, the reset verifier
+ * derived from it and the root chunk ID encrypted under the master key.
+ * @param {{recoveryWrappedKey:string,recoveryVerifier:string,rootLocator:string}} data
+ * @returns {string[]}
+ */
+function getRecoveryDataErrors(data) {
+	const errors = [];
+	if (!isEncodedKey(data.recoveryWrappedKey)) {
+		errors.push('Recovery wrapped key must be a base64 string');
+	}
+	if (!isEncodedKey(data.recoveryVerifier)) {
+		errors.push('Recovery verifier must be a base64 string');
+	}
+	if (!isEncodedKey(data.rootLocator)) {
+		errors.push('Root locator must be a base64 string');
+	}
+	return errors;
+}
+
+/**
+ * True for a non-empty base64 string of bounded length (wrapped keys, verifiers).
+ * @param {string} value
+ * @returns {boolean}
+ */
+function isEncodedKey(value) {
+	return typeof value === 'string' && value.length <= 256 && validator.isBase64(value);
+}
+
+/**
+ * Key-derivation parameters the client derived its password key with. Bounds keep the
+ * derivation slow enough to resist offline guessing and light enough for a browser.
+ * @param {{algorithm:string,iterations:number,memory_kib?:number,parallelism?:number,root_iterations?:number}} params
+ * @returns {string[]}
+ */
+function getKdfParamsErrors(params) {
+	if (!params || typeof params !== 'object') {
+		return ['KDF parameters must be an object'];
+	}
+
+	const inRange = (value, min, max) => Number.isInteger(value) && value >= min && value <= max;
+	const errors = [];
+	if (params.algorithm === 'pbkdf2-sha256') {
+		if (!inRange(params.iterations, 100000, 10000000)) {
+			errors.push('PBKDF2 iterations must be between 100000 and 10000000');
+		}
+		if (!inRange(params.root_iterations, 10000, 10000000)) {
+			errors.push('PBKDF2 root iterations must be between 10000 and 10000000');
+		}
+	} else if (params.algorithm === 'argon2id') {
+		if (!inRange(params.iterations, 1, 10)) {
+			errors.push('Argon2id iterations must be between 1 and 10');
+		}
+		if (!inRange(params.memory_kib, 19456, 1048576)) {
+			errors.push('Argon2id memory must be between 19456 and 1048576 KiB');
+		}
+		if (!inRange(params.parallelism, 1, 4)) {
+			errors.push('Argon2id parallelism must be between 1 and 4');
+		}
+	} else {
+		errors.push('KDF algorithm must be pbkdf2-sha256 or argon2id');
+	}
+	return errors;
+}
+
+/**
+ * Password strength rules shared by registration and password change.
+ * @param {string} password
+ * @param {string} label Field name used in messages
+ * @returns {string[]}
+ */
+function getPasswordStrengthErrors(password, label) {
+	if (!password || typeof password !== 'string') {
+		return [`${label} is required and must be a string`];
+	}
+	if (password.length < 8) {
+		return [`${label} must be at least 8 characters long`];
+	}
+	if (password.length > 128) {
+		return [`${label} is too long`];
+	}
+	if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(password)) {
+		return [`${label} must contain at least one lowercase, uppercase, and numeric character`];
+	}
+	return [];
+}
+
 /**
  * Validate login payload.
  * @param {{email:string,password:string}} data
@@ -85,6 +171,327 @@ function validateLoginInput(data) {
 	};
 }
 
+/**
+ * Validate password change payload.
+ * @param {{currentPassword:string,newPassword:string,salt:string,wrappedMasterKey:string,previousRootChunkId:string}} data
+ * @returns {{isValid:boolean, errors:string[]}}
+ */
+function validatePasswordChangeInput(data) {
+	const errors = [];
+
+	if (!data || typeof data !== 'object') {
+		errors.push('Invalid input data');
+		return { valid: false, errors };
+	}
+
+	if (!data.currentPassword || typeof data.currentPassword !== 'string') {
+		errors.push('Current password is required and must be a string');
+	}
+
+	errors.push(...getPasswordStrengthErrors(data.newPassword, 'New password'));
+	if (!errors.length && data.newPassword === data.currentPassword) {
+		errors.push('New password must differ from the current password');
+	}
+
+	if (!data.salt || typeof data.salt !== 'string') {
+		errors.push('Salt is required and must be a string');
+	}
+
+	if (!data.wrappedMasterKey || typeof data.wrappedMasterKey !== 'string') {
+		errors.push('Wrapped master key is required and must be a string');
+	}
+
+	if (!validateChunkId(data.previousRootChunkId)) {
+		errors.push('Previous root chunk ID must be a valid chunk ID');
+	}
+
+	if (data.rootLocator !== undefined && !isEncodedKey(data.rootLocator)) {
+		errors.push('Root locator must be a base64 string');
+	}
+
+	if (data.kdfParams !== undefined) {
+		errors.push(...getKdfParamsErrors(data.kdfParams));
+	}
+
+	return {
+		isValid: errors.length === 0,
+		errors
+	};
+}
+
+/**
+ * Validate a key-derivation upgrade (same password, stronger KDF, new salt + wrapping).
+ * @param {{password:string,salt:string,wrappedMasterKey:string,previousRootChunkId:string,rootLocator?:string,kdfParams:object}} data
+ * @returns {{isValid:boolean, errors:string[]}}
+ */
+function validateKdfUpgradeInput(data) {
+	if (!data || typeof data !== 'object') {
+		return { isValid: false, errors: ['Invalid input data'] };
+	}
+
+	const errors = [];
+	if (!data.password || typeof data.password !== 'string') {
+		errors.push('Password is required and must be a string');
+	}
+
+	if (!data.salt || typeof data.salt !== 'string') {
+		errors.push('Salt is required and must be a string');
+	}
+
+	if (!isEncodedKey(data.wrappedMasterKey)) {
+		errors.push('Wrapped master key must be a base64 string');
+	}
+
+	if (!validateChunkId(data.previousRootChunkId)) {
+		errors.push('Previous root chunk ID must be a valid chunk ID');
+	}
+
+	if (data.rootLocator !== undefined && !isEncodedKey(data.rootLocator)) {
+		errors.push('Root locator must be a base64 string');
+	}
+
+	errors.push(...getKdfParamsErrors(data.kdfParams));
+
+	return {
+		isValid: errors.length === 0,
+		errors
+	};
+}
+
+/**
+ * Validate recovery key setup payload.
+ * @param {{recoveryWrappedKey:string,recoveryVerifier:string,rootLocator:string}} data
+ * @returns {{isValid:boolean, errors:string[]}}
+ */
+function validateRecoveryKeyInput(data) {
+	if (!data || typeof data !== 'object') {
+		return { valid: false, errors: ['Invalid input data'] };
+	}
+
+	const errors = getRecoveryDataErrors(data);
+	return {
+		isValid: errors.length === 0,
+		errors
+	};
+}
+
+/**
+ * Validate password reset payload (email token + recovery key proof).
+ * @param {{token:string,recoveryVerifier:string,newPassword:string,salt:string,wrappedMasterKey:string,previousRootChunkId:string,rootLocator:string}} data
+ * @returns {{isValid:boolean, errors:string[]}}
+ */
+function validatePasswordResetInput(data) {
+	const errors = [];
+
+	if (!data || typeof data !== 'object') {
+		errors.push('Invalid input data');
+		return { valid: false, errors };
+	}
+
+	if (!data.token || typeof data.token !== 'string' || !/^[0-9a-f]{64}$/.test(data.token)) {
+		errors.push('Reset token is invalid');
+	}
+
+	if (!isEncodedKey(data.recoveryVerifier)) {
+		errors.push('Recovery verifier must be a base64 string');
+	}
+
+	errors.push(...getPasswordStrengthErrors(data.newPassword, 'New password'));
+
+	if (!data.salt || typeof data.salt !== 'string') {
+		errors.push('Salt is required and must be a string');
+	}
+
+	if (!data.wrappedMasterKey || typeof data.wrappedMasterKey !== 'string') {
+		errors.push('Wrapped master key is required and must be a string');
+	}
+
+	if (!validateChunkId(data.previousRootChunkId)) {
+		errors.push('Previous root chunk ID must be a valid chunk ID');
+	}
+
+	if (!isEncodedKey(data.rootLocator)) {
+		errors.push('Root locator must be a base64 string');
+	}
+
+	if (data.kdfParams !== undefined) {
+		errors.push(...getKdfParamsErrors(data.kdfParams));
+	}
+
+	return {
+		isValid: errors.length === 0,
+		errors
+	};
+}
+
+/**
+ * Validate share creation payload. The manifest and name are ciphertext the server only
+ * stores; chunk IDs bound what a share session may download.
+ * @param {{nodeId:string,chunkIds:string[],shareKey:string,encryptedManifest:string,encryptedName:string,password?:string,expiresAt?:string,maxDownloads?:number}} data
+ * @returns {{isValid:boolean, errors:string[]}}
+ */
+function validateShareInput(data) {
+	const errors = [];
+
+	if (!data || typeof data !== 'object') {
+		errors.push('Invalid input data');
+		return { valid: false, errors };
+	}
+
+	if (!data.nodeId || typeof data.nodeId !== 'string') {
+		errors.push('Node ID is required and must be a string');
+	}
+
+	if (
+		!Array.isArray(data.chunkIds) ||
+		data.chunkIds.length === 0 ||
+		data.chunkIds.length > 10000 ||
+		!data.chunkIds.every(validateChunkId)
+	) {
+		errors.push('Chunk IDs must be a list of 1 to 10000 valid chunk IDs');
+	}
+
+	if (!isEncodedKey(data.shareKey)) {
+		errors.push('Share key must be a base64 string');
+	}
+
+	for (const [field, label] of [
+		['encryptedManifest', 'Encrypted manifest'],
+		['encryptedName', 'Encrypted name']
+	]) {
+		if (typeof data[field] !== 'string' || !validator.isBase64(data[field])) {
+			errors.push(`${label} must be a base64 string`);
+		}
+	}
+
+	if (
+		data.password !== undefined &&
+		(typeof data.password !== 'string' ||
+			data.password.length < 1 ||
+			data.password.length > 128)
+	) {
+		errors.push('Share password must be between 1 and 128 characters');
+	}
+
+	if (data.expiresAt !== undefined) {
+		const expiresAt = new Date(data.expiresAt);
+		if (typeof data.expiresAt !== 'string' || isNaN(expiresAt) || expiresAt <= new Date()) {
+			errors.push('Expiry must be a date in the future');
+		}
+	}
+
+	if (
+		data.maxDownloads !== undefined &&
+		(!Number.isInteger(data.maxDownloads) || data.maxDownloads < 1 || data.maxDownloads > 1000)
+	) {
+		errors.push('Download limit must be between 1 and 1000');
+	}
+
+	return {
+		isValid: errors.length === 0,
+		errors
+	};
+}
+
+/**
+ * Validate a user's sharing key pair: the public key and the private key wrapped by the
+ * master key, both base64.
+ * @param {{publicKey:string,wrappedPrivateKey:string}} data
+ * @returns {{isValid:boolean, errors:string[]}}
+ */
+function validateKeyPairInput(data) {
+	const errors = [];
+
+	if (!data || typeof data !== 'object') {
+		errors.push('Invalid input data');
+		return { valid: false, errors };
+	}
+
+	if (!isEncodedKey(data.publicKey)) {
+		errors.push('Public key must be a base64 string');
+	}
+
+	if (!isEncodedKey(data.wrappedPrivateKey)) {
+		errors.push('Wrapped private key must be a base64 string');
+	}
+
+	return {
+		isValid: errors.length === 0,
+		errors
+	};
+}
+
+/**
+ * Validate shared folder creation payload. The name is ciphertext under the folder key and
+ * the sealed key is the folder key sealed to the owner's own public key.
+ * @param {{nodeId:string,rootChunkId:string,encryptedName:string,sealedKey:string}} data
+ * @returns {{isValid:boolean, errors:string[]}}
+ */
+function validateSharedFolderInput(data) {
+	const errors = [];
+
+	if (!data || typeof data !== 'object') {
+		errors.push('Invalid input data');
+		return { valid: false, errors };
+	}
+
+	if (!data.nodeId || typeof data.nodeId !== 'string') {
+		errors.push('Node ID is required and must be a string');
+	}
+
+	if (!validateChunkId(data.rootChunkId)) {
+		errors.push('Root chunk ID must be a valid chunk ID');
+	}
+
+	if (
+		typeof data.encryptedName !== 'string' ||
+		data.encryptedName.length > 1024 ||
+		!validator.isBase64(data.encryptedName)
+	) {
+		errors.push('Encrypted name must be a base64 string');
+	}
+
+	if (!isEncodedKey(data.sealedKey)) {
+		errors.push('Sealed key must be a base64 string');
+	}
+
+	return {
+		isValid: errors.length === 0,
+		errors
+	};
+}
+
+/**
+ * Validate a shared folder grant: the member's email, role and folder key sealed to them.
+ * @param {{email:string,role:string,sealedKey:string}} data
+ * @returns {{isValid:boolean, errors:string[]}}
+ */
+function validateSharedFolderMemberInput(data) {
+	const errors = [];
+
+	if (!data || typeof data !== 'object') {
+		errors.push('Invalid input data');
+		return { valid: false, errors };
+	}
+
+	if (!data.email || typeof data.email !== 'string' || !validator.isEmail(data.email)) {
+		errors.push('Please provide a valid email address');
+	}
+
+	if (!['read', 'write'].includes(data.role)) {
+		errors.push('Role must be read or write');
+	}
+
+	if (!isEncodedKey(data.sealedKey)) {
+		errors.push('Sealed key must be a base64 string');
+	}
+
+	return {
+		isValid: errors.length === 0,
+		errors
+	};
+}
+
 /**
  * Validate storage node registration payload.
  * @param {{node_id:string,label:string,auth_token:string}} data
@@ -163,6 +570,14 @@ function sanitizeString(str) {
 module.exports = {
 	validateRegistrationInput,
 	validateLoginInput,
+	validatePasswordChangeInput,
+	validateKdfUpgradeInput,
+	validateRecoveryKeyInput,
+	validatePasswordResetInput,
+	validateShareInput,
+	validateKeyPairInput,
+	validateSharedFolderInput,
+	validateSharedFolderMemberInput,
 	validateNodeRegistrationInput,
 	validateChunkId,
 	sanitizeString
@@ -25,7 +25,11 @@ describe('Auth Logout and Token Management', () => {
 		userId = userData._id.toString();
 
 		// Generate auth token
-		authToken = jwt.sign({ userId: userId }, process.env.JWT_SECRET, { expiresIn: '24h' });
+		authToken = jwt.sign({ userId: userId }, process.env.JWT_SECRET, {
+			expiresIn: '24h',
+			issuer: 'yourcloud-api',
+			audience: 'yourcloud-users'
+		});
 	});
 
 	describe('POST /api/auth/logout', () => {
@@ -72,7 +76,7 @@ describe('Auth Logout and Token Management', () => {
 			const expiredToken = jwt.sign(
 				{ userId: userId },
 				process.env.JWT_SECRET,
-				{ expiresIn: '-1h' } // Already expired
+				{ expiresIn: '-1h', issuer: 'yourcloud-api', audience: 'yourcloud-users' } // Already expired
 			);
 
 			const response = await request(app)
@@ -117,13 +121,13 @@ describe('Auth Logout and Token Management', () => {
 			const token1 = jwt.sign(
 				{ userId: userId, sessionId: 'session1' },
 				process.env.JWT_SECRET,
-				{ expiresIn: '24h' }
+				{ expiresIn: '24h', issuer: 'yourcloud-api', audience: 'yourcloud-users' }
 			);
 
 			const token2 = jwt.sign(
 				{ userId: userId, sessionId: 'session2' },
 				process.env.JWT_SECRET,
-				{ expiresIn: '24h' }
+				{ expiresIn: '24h', issuer: 'yourcloud-api', audience: 'yourcloud-users' }
 			);
 
 			// Logout with first token
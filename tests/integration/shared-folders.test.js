@@ -0,0 +1,211 @@
+// tests/integration/shared-folders.test.js
+
+const request = require('supertest');
+const express = require('express');
+const { router: storageRouter } = require('../../src/routes/storage');
+const { router } = require('../../src/routes/sharedFolders');
+const { SharedChunk } = require('../../src/models/User');
+const TestHelper = require('../utils/testHelper');
+
+// Create test app
+const app = express();
+app.use(express.json());
+
+// Mock WebSocket manager (no nodes connected)
+app.locals.wsManager = TestHelper.createMockWSManager();
+app.use('/api', router);
+app.use('/api', storageRouter);
+
+describe('Shared Folder Routes', () => {
+	const rootChunkId = '550e8400-e29b-41d4-a716-446655440000';
+	const newChunkId = '6ba7b810-9dad-41d1-80b4-00c04fd430c8';
+	const privateChunkId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+	let owner;
+	let ownerToken;
+	let nodeId;
+
+	const createUser = async name =>
+		TestHelper.createTestUser({
+			name,
+			email: `${name.toLowerCase()}-${Date.now()}@example.com`,
+			public_key: `${name}PublicKey`,
+			wrapped_private_key: 'd3JhcHBlZA=='
+		});
+
+	const createFolder = async () => {
+		const response = await request(app)
+			.post('/api/shared-folders')
+			.set('Authorization', `Bearer ${ownerToken}`)
+			.send({
+				nodeId,
+				rootChunkId,
+				encryptedName: 'bmFtZQ==',
+				sealedKey: 'b3duZXI='
+			});
+		expect(response.status).toBe(201);
+		return response.body.data.folder_id;
+	};
+
+	const grant = async (folderId, member, role) => {
+		const response = await request(app)
+			.post(`/api/shared-folders/${folderId}/members`)
+			.set('Authorization', `Bearer ${ownerToken}`)
+			.send({ email: member.email, role, sealedKey: 'bWVtYmVy' });
+		expect(response.status).toBe(201);
+	};
+
+	// Revisions live in the database, so they exercise the chunk ACL without a node
+	const claimRevision = (token, folderId, chunkId) =>
+		request(app)
+			.put(`/api/nodes/${nodeId}/chunks/${chunkId}/revision`)
+			.set('Authorization', `Bearer ${token}`)
+			.set('X-Shared-Folder', folderId)
+			.send({ expected_revision: 0, revision: 1 });
+
+	beforeEach(async () => {
+		owner = await createUser('Owner');
+		ownerToken = TestHelper.generateAuthToken(owner._id);
+		const { node } = await TestHelper.createTestStorageNode({}, owner._id);
+		nodeId = node.node_id;
+	});
+
+	test('should create a folder and list it for owner and members', async () => {
+		const folderId = await createFolder();
+		const member = await createUser('Member');
+		await grant(folderId, member, 'read');
+
+		const ownerList = await request(app)
+			.get('/api/shared-folders')
+			.set('Authorization', `Bearer ${ownerToken}`);
+		expect(ownerList.body.data.folders[0]).toMatchObject({
+			folder_id: folderId,
+			root_chunk_id: rootChunkId,
+			role: 'owner',
+			sealed_key: 'b3duZXI='
+		});
+		expect(ownerList.body.data.folders[0].members).toHaveLength(2);
+
+		const memberList = await request(app)
+			.get('/api/shared-folders')
+			.set('Authorization', `Bearer ${TestHelper.generateAuthToken(member._id)}`);
+		expect(memberList.body.data.folders[0]).toMatchObject({
+			folder_id: folderId,
+			role: 'read',
+			sealed_key: 'bWVtYmVy',
+			owner: { name: 'Owner' }
+		});
+		expect(memberList.body.data.folders[0].members).toBeUndefined();
+	});
+
+	test('should look up the public key of the account to share with', async () => {
+		const member = await createUser('Member');
+
+		const response = await request(app)
+			.get('/api/users/public-key')
+			.query({ email: member.email })
+			.set('Authorization', `Bearer ${ownerToken}`);
+		expect(response.status).toBe(200);
+		expect(response.body.data.public_key).toBe('MemberPublicKey');
+	});
+
+	test('should refuse folders on nodes the user does not own', async () => {
+		const response = await request(app)
+			.post('/api/shared-folders')
+			.set('Authorization', `Bearer ${ownerToken}`)
+			.send({ nodeId: 'node-b', rootChunkId, encryptedName: 'bmFtZQ==', sealedKey: 'a2V5' });
+
+		expect(response.status).toBe(403);
+	});
+
+	test('should let writers update folder chunks and keep readers read-only', async () => {
+		const folderId = await createFolder();
+		const writer = await createUser('Writer');
+		const reader = await createUser('Reader');
+		await grant(folderId, writer, 'write');
+		await grant(folderId, reader, 'read');
+		const writerToken = TestHelper.generateAuthToken(writer._id);
+		await SharedChunk.create({ folder_id: folderId, node_id: nodeId, chunk_id: newChunkId });
+
+		expect((await claimRevision(writerToken, folderId, rootChunkId)).status).toBe(200);
+		expect((await claimRevision(writerToken, folderId, newChunkId)).status).toBe(200);
+
+		const readerToken = TestHelper.generateAuthToken(reader._id);
+		expect((await claimRevision(readerToken, folderId, newChunkId)).status).toBe(403);
+	});
+
+	test('should not let members claim chunks the node has not issued to the folder', async () => {
+		const folderId = await createFolder();
+		const writer = await createUser('Writer');
+		await grant(folderId, writer, 'write');
+		const writerToken = TestHelper.generateAuthToken(writer._id);
+
+		// An owner chunk outside the folder is not registered anywhere
+		expect((await claimRevision(writerToken, folderId, privateChunkId)).status).toBe(403);
+		expect(await SharedChunk.findOne({ node_id: nodeId, chunk_id: privateChunkId })).toBeNull();
+
+		// Deleting it is refused before the node is asked
+		const remove = await request(app)
+			.delete(`/api/nodes/${nodeId}/chunks/${privateChunkId}`)
+			.set('Authorization', `Bearer ${writerToken}`)
+			.set('X-Shared-Folder', folderId);
+		expect(remove.status).toBe(403);
+		expect(await SharedChunk.findOne({ node_id: nodeId, chunk_id: privateChunkId })).toBeNull();
+	});
+
+	test('should keep members out of chunks outside the folder', async () => {
+		const folderId = await createFolder();
+		const writer = await createUser('Writer');
+		await grant(folderId, writer, 'write');
+		const writerToken = TestHelper.generateAuthToken(writer._id);
+		await SharedChunk.create({
+			folder_id: 'other-folder',
+			node_id: nodeId,
+			chunk_id: privateChunkId
+		});
+
+		expect((await claimRevision(writerToken, folderId, privateChunkId)).status).toBe(403);
+
+		// Without the folder header the member is just a stranger to the node
+		const direct = await request(app)
+			.put(`/api/nodes/${nodeId}/chunks/${rootChunkId}/revision`)
+			.set('Authorization', `Bearer ${writerToken}`)
+			.send({ expected_revision: 0, revision: 1 });
+		expect(direct.status).toBe(403);
+	});
+
+	test('should cut off revoked members and let members leave', async () => {
+		const folderId = await createFolder();
+		const writer = await createUser('Writer');
+		const leaver = await createUser('Leaver');
+		await grant(folderId, writer, 'write');
+		await grant(folderId, leaver, 'read');
+		const writerToken = TestHelper.generateAuthToken(writer._id);
+		const leaverToken = TestHelper.generateAuthToken(leaver._id);
+
+		const revoke = await request(app)
+			.delete(`/api/shared-folders/${folderId}/members/${writer._id}`)
+			.set('Authorization', `Bearer ${ownerToken}`);
+		expect(revoke.status).toBe(200);
+		expect((await claimRevision(writerToken, folderId, rootChunkId)).status).toBe(403);
+
+		// Members cannot revoke others, only leave themselves
+		const removeOwner = await request(app)
+			.delete(`/api/shared-folders/${folderId}/members/${owner._id}`)
+			.set('Authorization', `Bearer ${leaverToken}`);
+		expect(removeOwner.status).toBe(404);
+		const leave = await request(app)
+			.delete(`/api/shared-folders/${folderId}/membership`)
+			.set('Authorization', `Bearer ${leaverToken}`);
+		expect(leave.status).toBe(200);
+	});
+
+	test('should release the folder chunks when the folder is deleted', async () => {
+		const folderId = await createFolder();
+
+		const response = await request(app)
+			.delete(`/api/shared-folders/${folderId}`)
+			.set('Authorization', `Bearer ${ownerToken}`);
+		expect(response.status).toBe(200);
+		expect(await SharedChunk.countDocuments({ folder_id: folderId })).toBe(0);
+	});
+});
@@ -0,0 +1,160 @@
+// tests/integration/shares.test.js
+
+const request = require('supertest');
+const express = require('express');
+const jwt = require('jsonwebtoken');
+const { router } = require('../../src/routes/shares');
+const { User, Share } = require('../../src/models/User');
+
+// Create test app
+const app = express();
+app.use(express.json());
+
+// Mock WebSocket manager (no nodes connected)
+app.locals.wsManager = {
+	getNodeConnections: () => new Map(),
+	getPendingCommands: () => new Map()
+};
+app.use('/api', router);
+
+describe('Share Routes', () => {
+	const sharedChunkId = '550e8400-e29b-41d4-a716-446655440000';
+	const otherChunkId = '6ba7b810-9dad-41d1-80b4-00c04fd430c8';
+	let authToken;
+
+	const shareRequest = (overrides = {}) => ({
+		nodeId: 'node-a',
+		chunkIds: [sharedChunkId],
+		shareKey: 'c2hhcmVrZXk=',
+		encryptedManifest: 'bWFuaWZlc3Q=',
+		encryptedName: 'bmFtZQ==',
+		...overrides
+	});
+
+	const createShare = async overrides => {
+		const response = await request(app)
+			.post('/api/shares')
+			.set('Authorization', `Bearer ${authToken}`)
+			.send(shareRequest(overrides));
+		expect(response.status).toBe(201);
+		return response.body.data.share_id;
+	};
+
+	beforeEach(async () => {
+		const user = await new User({
+			name: 'Share Owner',
+			email: `share-${Date.now()}@example.com`,
+			password: 'hashedpassword123',
+			salt: 'randomsalt123',
+			isVerified: true,
+			storage_nodes: ['node-a']
+		}).save();
+		authToken = jwt.sign({ userId: user._id.toString() }, process.env.JWT_SECRET, {
+			expiresIn: '24h',
+			issuer: 'yourcloud-api',
+			audience: 'yourcloud-users'
+		});
+	});
+
+	test('should create, list and revoke a share', async () => {
+		const shareId = await createShare();
+
+		const list = await request(app)
+			.get('/api/shares')
+			.set('Authorization', `Bearer ${authToken}`);
+		expect(list.body.data.shares).toHaveLength(1);
+		expect(list.body.data.shares[0]).toMatchObject({
+			share_id: shareId,
+			encrypted_name: 'bmFtZQ==',
+			has_password: false
+		});
+
+		const revoke = await request(app)
+			.delete(`/api/shares/${shareId}`)
+			.set('Authorization', `Bearer ${authToken}`);
+		expect(revoke.status).toBe(200);
+		const summary = await request(app).get(`/api/shares/${shareId}`);
+		expect(summary.status).toBe(404);
+	});
+
+	test('should refuse shares of nodes the user does not own', async () => {
+		const response = await request(app)
+			.post('/api/shares')
+			.set('Authorization', `Bearer ${authToken}`)
+			.send(shareRequest({ nodeId: 'node-b' }));
+
+		expect(response.status).toBe(403);
+	});
+
+	test('should require the share password before handing out the key', async () => {
+		const shareId = await createShare({ password: 'let-me-in' });
+
+		const summary = await request(app).get(`/api/shares/${shareId}`);
+		expect(summary.body.data.requires_password).toBe(true);
+
+		const wrong = await request(app)
+			.post(`/api/shares/${shareId}/access`)
+			.send({ password: 'wrong' });
+		expect(wrong.status).toBe(401);
+
+		const right = await request(app)
+			.post(`/api/shares/${shareId}/access`)
+			.send({ password: 'let-me-in' });
+		expect(right.status).toBe(200);
+		expect(right.body.data.share_key).toBe('c2hhcmVrZXk=');
+		expect(right.body.data.encrypted_manifest).toBe('bWFuaWZlc3Q=');
+	});
+
+	test('should stop handing out access once the download limit is reached', async () => {
+		const shareId = await createShare({ maxDownloads: 1 });
+
+		const first = await request(app).post(`/api/shares/${shareId}/access`).send({});
+		expect(first.status).toBe(200);
+		const second = await request(app).post(`/api/shares/${shareId}/access`).send({});
+		expect(second.status).toBe(410);
+		expect((await Share.findOne({ share_id: shareId })).download_count).toBe(1);
+	});
+
+	test('should treat expired shares as gone', async () => {
+		const shareId = await createShare();
+		await Share.updateOne({ share_id: shareId }, { expires_at: new Date(Date.now() - 1000) });
+
+		const response = await request(app).post(`/api/shares/${shareId}/access`).send({});
+		expect(response.status).toBe(404);
+	});
+
+	test('should scope download sessions to the shared chunks', async () => {
+		const shareId = await createShare();
+		const access = await request(app).post(`/api/shares/${shareId}/access`).send({});
+		const shareToken = access.body.data.token;
+
+		const foreignChunk = await request(app)
+			.post(`/api/shares/${shareId}/chunks/${otherChunkId}/download-sessions`)
+			.set('Authorization', `Bearer ${shareToken}`);
+		expect(foreignChunk.status).toBe(403);
+
+		// Login tokens are not share tokens
+		const loginToken = await request(app)
+			.post(`/api/shares/${shareId}/chunks/${sharedChunkId}/download-sessions`)
+			.set('Authorization', `Bearer ${authToken}`);
+		expect(loginToken.status).toBe(403);
+	});
+
+	test('should only clean up sessions of shared chunks while the share is active', async () => {
+		const shareId = await createShare();
+		const access = await request(app).post(`/api/shares/${shareId}/access`).send({});
+		const shareToken = access.body.data.token;
+		const cleanup = chunkId =>
+			request(app)
+				.delete(`/api/shares/${shareId}/chunks/${chunkId}/download-sessions`)
+				.set('Authorization', `Bearer ${shareToken}`)
+				.send({ temporaryObjectName: `temp-cmd-0123456789abcdef-${chunkId}` });
+
+		expect((await cleanup(otherChunkId)).status).toBe(403);
+
+		await request(app)
+			.delete(`/api/shares/${shareId}`)
+			.set('Authorization', `Bearer ${authToken}`);
+		expect((await cleanup(sharedChunkId)).status).toBe(404);
+	});
+});
@@ -100,6 +100,76 @@ describe('Storage Routes - Advanced Tests', () => {
 			expect(response.status).toBe(401);
 		});
 
+		test('should handle chunk listing on offline node', async () => {
+			const response = await request(app)
+				.get(`/api/storage/nodes/${testNode.node_id}/chunks`)
+				.set('Authorization', `Bearer ${authToken}`);
+
+			expect(response.status).toBe(503);
+			expect(response.body.success).toBe(false);
+		});
+
+		test('should handle chunk copy on offline node', async () => {
+			const response = await request(app)
+				.post(`/api/storage/nodes/${testNode.node_id}/chunks/${testChunkId}/copies`)
+				.set('Authorization', `Bearer ${authToken}`);
+
+			expect(response.status).toBe(503);
+			expect(response.body.success).toBe(false);
+		});
+
+		test('should reject chunk copy without authentication', async () => {
+			const response = await request(app).post(
+				`/api/storage/nodes/${testNode.node_id}/chunks/${testChunkId}/copies`
+			);
+
+			expect(response.status).toBe(401);
+		});
+
+		test('should claim directory revisions and reject stale ones', async () => {
+			const url = `/api/storage/nodes/${testNode.node_id}/chunks/${testChunkId}/revision`;
+
+			const first = await request(app)
+				.put(url)
+				.set('Authorization', `Bearer ${authToken}`)
+				.send({ expected_revision: 0, revision: 1 });
+			expect(first.status).toBe(200);
+			expect(first.body.data.revision).toBe(1);
+
+			const stale = await request(app)
+				.put(url)
+				.set('Authorization', `Bearer ${authToken}`)
+				.send({ expected_revision: 0, revision: 1 });
+			expect(stale.status).toBe(409);
+			expect(stale.body.errors.revision).toBe(1);
+		});
+
+		test('should report the current directory revision', async () => {
+			const url = `/api/storage/nodes/${testNode.node_id}/chunks/${testChunkId}/revision`;
+
+			const unclaimed = await request(app)
+				.get(url)
+				.set('Authorization', `Bearer ${authToken}`);
+			expect(unclaimed.status).toBe(200);
+			expect(unclaimed.body.data.revision).toBe(0);
+
+			await request(app)
+				.put(url)
+				.set('Authorization', `Bearer ${authToken}`)
+				.send({ expected_revision: 0, revision: 1 });
+			const claimed = await request(app).get(url).set('Authorization', `Bearer ${authToken}`);
+			expect(claimed.body.data.revision).toBe(1);
+		});
+
+		test('should reject invalid directory revisions', async () => {
+			const response = await request(app)
+				.put(`/api/storage/nodes/${testNode.node_id}/chunks/${testChunkId}/revision`)
+				.set('Authorization', `Bearer ${authToken}`)
+				.send({ expected_revision: 2, revision: 2 });
+
+			expect(response.status).toBe(400);
+		});
+
 		test('should handle missing chunk ID parameter', async () => {
 			const response = await request(app)
 				.get(`/api/storage/nodes/${testNode.node_id}/chunks/`)
@@ -36,7 +36,11 @@ describe('Storage Routes', () => {
 		userId = savedUser._id.toString();
 
 		// Generate auth token
-		authToken = jwt.sign({ userId: userId }, process.env.JWT_SECRET, { expiresIn: '24h' });
+		authToken = jwt.sign({ userId: userId }, process.env.JWT_SECRET, {
+			expiresIn: '24h',
+			issuer: 'yourcloud-api',
+			audience: 'yourcloud-users'
+		});
 	});
 
 	describe('POST /api/storage/nodes', () => {
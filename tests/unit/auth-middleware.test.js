@@ -29,7 +29,11 @@ describe('Auth Middleware Integration', () => {
 		userId = savedUser._id.toString();
 
 		// Generate auth token
-		authToken = jwt.sign({ userId: userId }, process.env.JWT_SECRET, { expiresIn: '24h' });
+		authToken = jwt.sign({ userId: userId }, process.env.JWT_SECRET, {
+			expiresIn: '24h',
+			issuer: 'yourcloud-api',
+			audience: 'yourcloud-users'
+		});
 	});
 
 	describe('Token Validation through Logout Endpoint', () => {
@@ -62,7 +66,9 @@ describe('Auth Middleware Integration', () => {
 
 		test('should reject expired token', async () => {
 			const expiredToken = jwt.sign({ userId: userId }, process.env.JWT_SECRET, {
-				expiresIn: '-1h'
+				expiresIn: '-1h',
+				issuer: 'yourcloud-api',
+				audience: 'yourcloud-users'
 			});
 
 			const response = await request(app)
@@ -85,7 +91,11 @@ describe('Auth Middleware Integration', () => {
 		});
 
 		test('should reject token with invalid secret', async () => {
-			const invalidToken = jwt.sign({ userId: userId }, 'wrong-secret', { expiresIn: '24h' });
+			const invalidToken = jwt.sign({ userId: userId }, 'wrong-secret', {
+				expiresIn: '24h',
+				issuer: 'yourcloud-api',
+				audience: 'yourcloud-users'
+			});
 
 			const response = await request(app)
 				.post('/api/auth/logout')
@@ -94,5 +104,19 @@ describe('Auth Middleware Integration', () => {
 			expect(response.status).toBe(403);
 			expect(response.body.success).toBe(false);
 		});
+
+		test('should reject tokens issued for another audience', async () => {
+			const shareToken = jwt.sign({ userId: userId }, process.env.JWT_SECRET, {
+				expiresIn: '1h',
+				audience: 'share'
+			});
+
+			const response = await request(app)
+				.post('/api/auth/logout')
+				.set('Authorization', `Bearer ${shareToken}`);
+
+			expect(response.status).toBe(403);
+			expect(response.body.success).toBe(false);
+		});
 	});
 });
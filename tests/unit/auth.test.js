@@ -3,6 +3,7 @@
 const request = require('supertest');
 const express = require('express');
 const bcrypt = require('bcryptjs');
+const crypto = require('crypto');
 const { router } = require('../../src/routes/auth');
 const { User } = require('../../src/models/User');
 const TestHelper = require('../utils/testHelper');
@@ -96,6 +97,25 @@ describe('Auth Routes', () => {
 			expect(response.body.data.user).toHaveProperty('id');
 		});
 
+		test('should return legacy KDF parameters for accounts without stored ones', async () => {
+			await TestHelper.createTestUser({
+				email: 'legacy@example.com',
+				password: await bcrypt.hash('StrongPass123', 12)
+			});
+
+			const response = await request(app)
+				.post('/api/auth/login')
+				.send({ email: 'legacy@example.com', password: 'StrongPass123' });
+
+			expect(response.status).toBe(200);
+			expect(response.body.data.user.kdf_params).toEqual({
+				algorithm: 'pbkdf2-sha256',
+				iterations: 100000,
+				root_iterations: 10000
+			});
+			expect(response.body.data.user.root_migration_pending).toBe(false);
+		});
+
 		test('should reject login with invalid email', async () => {
 			const loginData = {
 				email: 'nonexistent@example.com',
@@ -229,4 +249,387 @@ describe('Auth Routes', () => {
 			expect(response.text).toContain('invalid or has expired');
 		});
 	});
+
+	describe('POST /api/auth/change-password', () => {
+		const previousRootChunkId = '550e8400-e29b-41d4-a716-446655440000';
+		const changeRequest = {
+			currentPassword: 'OldPass123',
+			newPassword: 'NewPass456',
+			salt: 'newsalt',
+			wrappedMasterKey: 'wrappedkey',
+			previousRootChunkId
+		};
+
+		const createUserWithPassword = async (overrides = {}) =>
+			TestHelper.createTestUser({
+				password: await bcrypt.hash('OldPass123', 12),
+				storage_nodes: ['node-a', 'node-b'],
+				...overrides
+			});
+
+		test('should replace the password and record the nodes to migrate', async () => {
+			const user = await createUserWithPassword();
+			const token = TestHelper.generateAuthToken(user._id);
+
+			const response = await request(app)
+				.post('/api/auth/change-password')
+				.set('Authorization', `Bearer ${token}`)
+				.send(changeRequest);
+
+			expect(response.status).toBe(200);
+			expect(response.body.data.root_migration).toEqual({
+				previous_root_chunk_id: previousRootChunkId,
+				pending_nodes: ['node-a', 'node-b']
+			});
+			const updatedUser = await User.findById(user._id);
+			expect(await bcrypt.compare('NewPass456', updatedUser.password)).toBe(true);
+			expect(updatedUser.salt).toBe('newsalt');
+			expect(updatedUser.wrapped_master_key).toBe('wrappedkey');
+		});
+
+		test('should sign out other sessions and hand the caller a new token', async () => {
+			const user = await createUserWithPassword();
+			const token = TestHelper.generateAuthToken(user._id);
+
+			const response = await request(app)
+				.post('/api/auth/change-password')
+				.set('Authorization', `Bearer ${token}`)
+				.send(changeRequest);
+
+			expect(response.status).toBe(200);
+			const oldSession = await request(app)
+				.get('/api/auth/preferences')
+				.set('Authorization', `Bearer ${token}`);
+			expect(oldSession.status).toBe(401);
+			const newSession = await request(app)
+				.get('/api/auth/preferences')
+				.set('Authorization', `Bearer ${response.body.data.token}`);
+			expect(newSession.status).toBe(200);
+		});
+
+		test('should reject a wrong current password', async () => {
+			const user = await createUserWithPassword();
+			const token = TestHelper.generateAuthToken(user._id);
+
+			const response = await request(app)
+				.post('/api/auth/change-password')
+				.set('Authorization', `Bearer ${token}`)
+				.send({ ...changeRequest, currentPassword: 'WrongPass123' });
+
+			expect(response.status).toBe(400);
+			const unchangedUser = await User.findById(user._id);
+			expect(unchangedUser.salt).toBe('randomsalt123');
+		});
+
+		test('should refuse while nodes still need their root moved', async () => {
+			const user = await createUserWithPassword({
+				root_migration: {
+					previous_root_chunk_id: previousRootChunkId,
+					pending_nodes: ['node-a']
+				}
+			});
+			const token = TestHelper.generateAuthToken(user._id);
+
+			const response = await request(app)
+				.post('/api/auth/change-password')
+				.set('Authorization', `Bearer ${token}`)
+				.send(changeRequest);
+
+			expect(response.status).toBe(409);
+			expect(response.body.errors.pending_nodes).toEqual(['node-a']);
+		});
+
+		test('should clear the migration once every node is done', async () => {
+			const user = await createUserWithPassword({
+				root_migration: {
+					previous_root_chunk_id: previousRootChunkId,
+					pending_nodes: ['node-a', 'node-b']
+				}
+			});
+			const token = TestHelper.generateAuthToken(user._id);
+
+			await request(app)
+				.delete('/api/auth/root-migration/nodes/node-a')
+				.set('Authorization', `Bearer ${token}`);
+			const pending = await request(app)
+				.get('/api/auth/root-migration')
+				.set('Authorization', `Bearer ${token}`);
+			expect(pending.body.data.root_migration.pending_nodes).toEqual(['node-b']);
+
+			await request(app)
+				.delete('/api/auth/root-migration/nodes/node-b')
+				.set('Authorization', `Bearer ${token}`);
+			const updatedUser = await User.findById(user._id);
+			expect(updatedUser.root_migration).toBeNull();
+		});
+	});
+
+	describe('POST /api/auth/kdf-upgrade', () => {
+		const upgradeRequest = {
+			password: 'OldPass123',
+			salt: 'newsalt',
+			kdfParams: { algorithm: 'argon2id', iterations: 3, memory_kib: 65536, parallelism: 1 },
+			wrappedMasterKey: 'd3JhcHBlZA==',
+			previousRootChunkId: '550e8400-e29b-41d4-a716-446655440000'
+		};
+
+		test('should store the new parameters and queue the root move', async () => {
+			const user = await TestHelper.createTestUser({
+				password: await bcrypt.hash('OldPass123', 12),
+				storage_nodes: ['node-a']
+			});
+			const token = TestHelper.generateAuthToken(user._id);
+
+			const response = await request(app)
+				.post('/api/auth/kdf-upgrade')
+				.set('Authorization', `Bearer ${token}`)
+				.send(upgradeRequest);
+
+			expect(response.status).toBe(200);
+			expect(response.body.data.kdf_params).toEqual(upgradeRequest.kdfParams);
+			expect(response.body.data.root_migration.pending_nodes).toEqual(['node-a']);
+			const updatedUser = await User.findById(user._id);
+			expect(updatedUser.salt).toBe('newsalt');
+			expect(await bcrypt.compare('OldPass123', updatedUser.password)).toBe(true);
+		});
+
+		test('should reject a wrong password', async () => {
+			const user = await TestHelper.createTestUser({
+				password: await bcrypt.hash('OldPass123', 12)
+			});
+			const token = TestHelper.generateAuthToken(user._id);
+
+			const response = await request(app)
+				.post('/api/auth/kdf-upgrade')
+				.set('Authorization', `Bearer ${token}`)
+				.send({ ...upgradeRequest, password: 'WrongPass123' });
+
+			expect(response.status).toBe(400);
+			const unchangedUser = await User.findById(user._id);
+			expect(unchangedUser.kdf_params).toBeNull();
+		});
+	});
+
+	describe('Account recovery', () => {
+		const resetToken = 'ab'.repeat(32);
+		const verifier = 'dmVyaWZpZXI=';
+		const sha256 = value => crypto.createHash('sha256').update(value).digest('hex');
+		const resetRequest = {
+			token: resetToken,
+			recoveryVerifier: verifier,
+			newPassword: 'NewPass456',
+			salt: 'newsalt',
+			wrappedMasterKey: 'wrappedkey',
+			previousRootChunkId: '550e8400-e29b-41d4-a716-446655440000',
+			rootLocator: 'bmV3LWxvY2F0b3I='
+		};
+
+		const createRecoverableUser = (overrides = {}) =>
+			TestHelper.createTestUser({
+				storage_nodes: ['node-a'],
+				recovery_wrapped_key: 'cmVjb3Zlcnk=',
+				recovery_verifier_hash: sha256(verifier),
+				root_locator: 'b2xkLWxvY2F0b3I=',
+				passwordResetTokenHash: sha256(resetToken),
+				passwordResetExpires: Date.now() + 60000,
+				...overrides
+			});
+
+		test('should issue a reset token only for accounts with a recovery key', async () => {
+			const withKey = await createRecoverableUser({
+				email: 'with-key@example.com',
+				passwordResetTokenHash: undefined
+			});
+			const withoutKey = await TestHelper.createTestUser({ email: 'no-key@example.com' });
+
+			for (const email of [withKey.email, withoutKey.email]) {
+				const response = await request(app)
+					.post('/api/auth/forgot-password')
+					.send({ email });
+				expect(response.status).toBe(200);
+			}
+
+			expect((await User.findById(withKey._id)).passwordResetTokenHash).toMatch(
+				/^[0-9a-f]{64}$/
+			);
+			expect((await User.findById(withoutKey._id)).passwordResetTokenHash).toBeUndefined();
+		});
+
+		test('should hand out recovery data for a valid reset token', async () => {
+			await createRecoverableUser();
+
+			const response = await request(app)
+				.post('/api/auth/reset-password/recovery')
+				.send({ token: resetToken });
+
+			expect(response.status).toBe(200);
+			expect(response.body.data).toEqual({
+				recovery_wrapped_key: 'cmVjb3Zlcnk=',
+				root_locator: 'b2xkLWxvY2F0b3I='
+			});
+		});
+
+		test('should reset the password with the recovery key verifier', async () => {
+			const user = await createRecoverableUser();
+
+			const response = await request(app).post('/api/auth/reset-password').send(resetRequest);
+
+			expect(response.status).toBe(200);
+			const updatedUser = await User.findById(user._id);
+			expect(await bcrypt.compare('NewPass456', updatedUser.password)).toBe(true);
+			expect(updatedUser.wrapped_master_key).toBe('wrappedkey');
+			expect(updatedUser.root_locator).toBe('bmV3LWxvY2F0b3I=');
+			expect(updatedUser.root_migration.pending_nodes).toEqual(['node-a']);
+			expect(updatedUser.passwordResetTokenHash).toBeUndefined();
+		});
+
+		test('should sign out sessions issued before the reset', async () => {
+			const user = await createRecoverableUser();
+			const token = TestHelper.generateAuthToken(user._id);
+			const before = await request(app)
+				.get('/api/auth/preferences')
+				.set('Authorization', `Bearer ${token}`);
+			expect(before.status).toBe(200);
+
+			await request(app).post('/api/auth/reset-password').send(resetRequest);
+
+			const after = await request(app)
+				.get('/api/auth/preferences')
+				.set('Authorization', `Bearer ${token}`);
+			expect(after.status).toBe(401);
+			expect(after.body.message).toBe('Token has been invalidated');
+		});
+
+		test('should reject a wrong recovery key', async () => {
+			const user = await createRecoverableUser();
+
+			const response = await request(app)
+				.post('/api/auth/reset-password')
+				.send({ ...resetRequest, recoveryVerifier: 'b3RoZXI=' });
+
+			expect(response.status).toBe(400);
+			expect(response.body.message).toBe('Recovery key is incorrect');
+			expect((await User.findById(user._id)).salt).toBe('randomsalt123');
+		});
+	});
+
+	describe('/api/auth/key-pair', () => {
+		const keyPair = { publicKey: 'cHVibGlj', wrappedPrivateKey: 'd3JhcHBlZA==' };
+
+		test('should store the sharing key pair once', async () => {
+			const user = await TestHelper.createTestUser();
+			const token = TestHelper.generateAuthToken(user._id);
+
+			const empty = await request(app)
+				.get('/api/auth/key-pair')
+				.set('Authorization', `Bearer ${token}`);
+			expect(empty.body.data.public_key).toBeNull();
+
+			const saved = await request(app)
+				.put('/api/auth/key-pair')
+				.set('Authorization', `Bearer ${token}`)
+				.send(keyPair);
+			expect(saved.status).toBe(200);
+
+			const stored = await request(app)
+				.get('/api/auth/key-pair')
+				.set('Authorization', `Bearer ${token}`);
+			expect(stored.body.data).toEqual({
+				public_key: 'cHVibGlj',
+				wrapped_private_key: 'd3JhcHBlZA=='
+			});
+
+			// Replacing the pair would orphan every folder key sealed to it
+			const replaced = await request(app)
+				.put('/api/auth/key-pair')
+				.set('Authorization', `Bearer ${token}`)
+				.send({ ...keyPair, publicKey: 'b3RoZXI=' });
+			expect(replaced.status).toBe(409);
+		});
+	});
+
+	describe('/api/auth/preferences', () => {
+		test('should return the default transfer concurrency', async () => {
+			const user = await TestHelper.createTestUser();
+			const token = TestHelper.generateAuthToken(user._id);
+
+			const response = await request(app)
+				.get('/api/auth/preferences')
+				.set('Authorization', `Bearer ${token}`);
+
+			expect(response.status).toBe(200);
+			expect(response.body.data.transfer_concurrency).toBe(3);
+		});
+
+		test('should update transfer concurrency', async () => {
+			const user = await TestHelper.createTestUser();
+			const token = TestHelper.generateAuthToken(user._id);
+
+			const response = await request(app)
+				.put('/api/auth/preferences')
+				.set('Authorization', `Bearer ${token}`)
+				.send({ transfer_concurrency: 6 });
+
+			expect(response.status).toBe(200);
+			const updatedUser = await User.findById(user._id);
+			expect(updatedUser.transfer_concurrency).toBe(6);
+		});
+
+		test('should update file size padding without touching transfer concurrency', async () => {
+			const user = await TestHelper.createTestUser();
+			const token = TestHelper.generateAuthToken(user._id);
+
+			const response = await request(app)
+				.put('/api/auth/preferences')
+				.set('Authorization', `Bearer ${token}`)
+				.send({ pad_file_sizes: true });
+
+			expect(response.status).toBe(200);
+			expect(response.body.data).toEqual({
+				transfer_concurrency: 3,
+				pad_file_sizes: true,
+				compress_uploads: false
+			});
+		});
+
+		test('should update upload compression', async () => {
+			const user = await TestHelper.createTestUser();
+			const token = TestHelper.generateAuthToken(user._id);
+
+			const response = await request(app)
+				.put('/api/auth/preferences')
+				.set('Authorization', `Bearer ${token}`)
+				.send({ compress_uploads: true });
+
+			expect(response.status).toBe(200);
+			const updatedUser = await User.findById(user._id);
+			expect(updatedUser.compress_uploads).toBe(true);
+		});
+
+		test('should reject a non-boolean compression setting', async () => {
+			const user = await TestHelper.createTestUser();
+			const token = TestHelper.generateAuthToken(user._id);
+
+			const response = await request(app)
+				.put('/api/auth/preferences')
+				.set('Authorization', `Bearer ${token}`)
+				.send({ compress_uploads: 'yes' });
+
+			expect(response.status).toBe(400);
+			expect(response.body.success).toBe(false);
+		});
+
+		test('should reject out-of-range transfer concurrency', async () => {
+			const user = await TestHelper.createTestUser();
+			const token = TestHelper.generateAuthToken(user._id);
+
+			const response = await request(app)
+				.put('/api/auth/preferences')
+				.set('Authorization', `Bearer ${token}`)
+				.send({ transfer_concurrency: 20 });
+
+			expect(response.status).toBe(400);
+			expect(response.body.success).toBe(false);
+		});
+	});
 });
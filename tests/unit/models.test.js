@@ -1,7 +1,7 @@
 // tests/unit/models.test.js
 
 const _mongoose = require('mongoose');
-const { User, StorageNode } = require('../../src/models/User');
+const { User, StorageNode, DirectoryRevision } = require('../../src/models/User');
 
 describe('Database Models', () => {
 	describe('User Model', () => {
@@ -121,4 +121,14 @@ describe('Database Models', () => {
 			await expect(invalidNode.save()).rejects.toThrow();
 		});
 	});
+
+	describe('DirectoryRevision Model', () => {
+		test('should enforce one revision entry per node and chunk', async () => {
+			const entry = { node_id: 'node-1', chunk_id: 'chunk-1', revision: 1 };
+			await new DirectoryRevision(entry).save();
+
+			await DirectoryRevision.init();
+			await expect(new DirectoryRevision(entry).save()).rejects.toThrow();
+		});
+	});
 });
@@ -3,6 +3,11 @@
 const {
 	validateRegistrationInput,
 	validateLoginInput,
+	validatePasswordChangeInput,
+	validateKdfUpgradeInput,
+	validateRecoveryKeyInput,
+	validatePasswordResetInput,
+	validateSharedFolderMemberInput,
 	validateNodeRegistrationInput: _validateNodeRegistrationInput,
 	validateChunkId,
 	sanitizeString
@@ -73,6 +78,145 @@ describe('Validation Functions', () => {
 		});
 	});
 
+	describe('validatePasswordChangeInput', () => {
+		const validData = {
+			currentPassword: 'OldPass123',
+			newPassword: 'NewPass456',
+			salt: 'newsalt',
+			wrappedMasterKey: 'wrappedkey',
+			previousRootChunkId: '550e8400-e29b-41d4-a716-446655440000'
+		};
+
+		test('should validate valid password change data', () => {
+			const result = validatePasswordChangeInput(validData);
+			expect(result.isValid).toBe(true);
+			expect(result.errors).toHaveLength(0);
+		});
+
+		test('should apply the password strength rules to the new password', () => {
+			const result = validatePasswordChangeInput({ ...validData, newPassword: 'weakpass' });
+			expect(result.isValid).toBe(false);
+			expect(result.errors).toContain(
+				'New password must contain at least one lowercase, uppercase, and numeric character'
+			);
+		});
+
+		test('should reject reusing the current password', () => {
+			const result = validatePasswordChangeInput({ ...validData, newPassword: 'OldPass123' });
+			expect(result.errors).toContain('New password must differ from the current password');
+		});
+
+		test('should reject an invalid previous root chunk ID', () => {
+			const result = validatePasswordChangeInput({ ...validData, previousRootChunkId: 'x' });
+			expect(result.errors).toContain('Previous root chunk ID must be a valid chunk ID');
+		});
+	});
+
+	describe('validateKdfUpgradeInput', () => {
+		const validData = {
+			password: 'OldPass123',
+			salt: 'newsalt',
+			kdfParams: { algorithm: 'argon2id', iterations: 3, memory_kib: 65536, parallelism: 1 },
+			wrappedMasterKey: 'd3JhcHBlZA==',
+			previousRootChunkId: '550e8400-e29b-41d4-a716-446655440000'
+		};
+
+		test('should validate valid upgrade data', () => {
+			expect(validateKdfUpgradeInput(validData).isValid).toBe(true);
+		});
+
+		test('should require KDF parameters', () => {
+			const result = validateKdfUpgradeInput({ ...validData, kdfParams: undefined });
+			expect(result.errors).toContain('KDF parameters must be an object');
+		});
+
+		test('should reject Argon2id memory below the minimum', () => {
+			const result = validateKdfUpgradeInput({
+				...validData,
+				kdfParams: { ...validData.kdfParams, memory_kib: 1024 }
+			});
+			expect(result.errors).toContain(
+				'Argon2id memory must be between 19456 and 1048576 KiB'
+			);
+		});
+
+		test('should reject an unknown algorithm', () => {
+			const result = validateKdfUpgradeInput({
+				...validData,
+				kdfParams: { algorithm: 'scrypt', iterations: 3 }
+			});
+			expect(result.errors).toContain('KDF algorithm must be pbkdf2-sha256 or argon2id');
+		});
+	});
+
+	describe('validateRecoveryKeyInput', () => {
+		const validData = {
+			recoveryWrappedKey: 'd3JhcHBlZC1rZXk=',
+			recoveryVerifier: 'dmVyaWZpZXI=',
+			rootLocator: 'bG9jYXRvcg=='
+		};
+
+		test('should validate complete recovery data', () => {
+			expect(validateRecoveryKeyInput(validData).isValid).toBe(true);
+		});
+
+		test('should reject values that are not base64', () => {
+			const result = validateRecoveryKeyInput({
+				...validData,
+				recoveryVerifier: 'not base64!'
+			});
+			expect(result.errors).toContain('Recovery verifier must be a base64 string');
+		});
+
+		test('should require all recovery fields when registering with a recovery key', () => {
+			const result = validateRegistrationInput({
+				name: 'John Doe',
+				email: 'john@example.com',
+				password: 'StrongPass123',
+				salt: 'randomsalt123',
+				recoveryWrappedKey: validData.recoveryWrappedKey
+			});
+			expect(result.errors).toContain('Root locator must be a base64 string');
+		});
+	});
+
+	describe('validatePasswordResetInput', () => {
+		const validData = {
+			token: 'a'.repeat(64),
+			recoveryVerifier: 'dmVyaWZpZXI=',
+			newPassword: 'NewPass456',
+			salt: 'newsalt',
+			wrappedMasterKey: 'wrappedkey',
+			previousRootChunkId: '550e8400-e29b-41d4-a716-446655440000',
+			rootLocator: 'bG9jYXRvcg=='
+		};
+
+		test('should validate valid reset data', () => {
+			expect(validatePasswordResetInput(validData).isValid).toBe(true);
+		});
+
+		test('should reject a malformed reset token', () => {
+			const result = validatePasswordResetInput({ ...validData, token: 'abc' });
+			expect(result.errors).toContain('Reset token is invalid');
+		});
+	});
+
+	describe('validateSharedFolderMemberInput', () => {
+		const validData = { email: 'member@example.com', role: 'read', sealedKey: 'c2VhbGVk' };
+
+		test('should validate a read or write grant', () => {
+			expect(validateSharedFolderMemberInput(validData).isValid).toBe(true);
+			expect(validateSharedFolderMemberInput({ ...validData, role: 'write' }).isValid).toBe(
+				true
+			);
+		});
+
+		test('should not grant the owner role', () => {
+			const result = validateSharedFolderMemberInput({ ...validData, role: 'owner' });
+			expect(result.errors).toContain('Role must be read or write');
+		});
+	});
+
 	describe('validateChunkId', () => {
 		test('should validate valid UUID v4', () => {
 			const validUuid = '550e8400-e29b-41d4-a716-446655440000';
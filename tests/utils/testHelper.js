@@ -27,7 +27,11 @@ class TestHelper {
 	 * Generate JWT token for a user
 	 */
 	static generateAuthToken(userId, options = {}) {
-		const defaultOptions = { expiresIn: '24h' };
+		const defaultOptions = {
+			expiresIn: '24h',
+			issuer: 'yourcloud-api',
+			audience: 'yourcloud-users'
+		};
 		return jwt.sign({ userId: userId.toString() }, process.env.JWT_SECRET, {
 			...defaultOptions,
 			...options